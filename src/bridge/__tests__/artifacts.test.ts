@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockWriteArtifactChunk } = vi.hoisted(() => ({
+  mockWriteArtifactChunk: vi.fn(),
+}));
+
+vi.mock('../session.js', () => ({
+  writeArtifactChunk: mockWriteArtifactChunk,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { collectArtifacts, resolveArtifactGlobs, uploadPreviewBundle } from '../artifacts.js';
+import { hashContent } from '../hasher.js';
+import { DEFAULT_ARTIFACT_GLOBS } from '../types.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('resolveArtifactGlobs()', () => {
+  it('prefers globs declared on the build', () => {
+    expect(resolveArtifactGlobs({ buildType: 'test', artifactGlobs: ['coverage/**'] }, ['dist/**'])).toEqual([
+      'coverage/**',
+    ]);
+  });
+
+  it('falls back to the project globs, then the defaults, for production and preview builds', () => {
+    expect(resolveArtifactGlobs({ buildType: 'production' }, ['www/**'])).toEqual(['www/**']);
+    expect(resolveArtifactGlobs({ buildType: 'preview' })).toEqual(DEFAULT_ARTIFACT_GLOBS);
+  });
+
+  it('collects nothing by default for other build types', () => {
+    expect(resolveArtifactGlobs({ buildType: 'lint' })).toEqual([]);
+    expect(resolveArtifactGlobs({ buildType: 'production', artifactGlobs: [] })).toEqual([]);
+  });
+});
+
+describe('collectArtifacts()', () => {
+  let root: string;
+
+  const write = async (relativePath: string, content: string) => {
+    await mkdir(dirname(join(root, relativePath)), { recursive: true });
+    await writeFile(join(root, relativePath), content);
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-artifacts-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('hashes and describes matching files, sorted by path', async () => {
+    await write('dist/index.html', '<html></html>');
+    await write('dist/assets/app.js', 'console.log(1)');
+    await write('src/main.ts', 'export {}');
+
+    const { artifacts, truncated } = await collectArtifacts(root, ['dist/**'], 100);
+
+    expect(truncated).toBe(false);
+    expect(artifacts).toEqual([
+      {
+        name: 'app.js',
+        path: 'dist/assets/app.js',
+        size: 14,
+        mimeType: 'text/javascript',
+        hash: hashContent('console.log(1)'),
+      },
+      expect.objectContaining({ name: 'index.html', path: 'dist/index.html', size: 13 }),
+    ]);
+  });
+
+  it('anchors globs to the project root', async () => {
+    await write('dist/a.js', 'a');
+    await write('packages/lib/dist/b.js', 'b');
+
+    const { artifacts } = await collectArtifacts(root, ['dist/**'], 100);
+
+    expect(artifacts.map((a) => a.path)).toEqual(['dist/a.js']);
+  });
+
+  it('supports wildcards in file names and skips node_modules', async () => {
+    await write('build/app.js', 'a');
+    await write('build/app.js.map', 'm');
+    await write('build/node_modules/x.js', 'x');
+
+    const { artifacts } = await collectArtifacts(root, ['build/**/*.js'], 100);
+
+    expect(artifacts.map((a) => a.path)).toEqual(['build/app.js']);
+  });
+
+  it('truncates at maxArtifacts', async () => {
+    await write('dist/a.js', 'a');
+    await write('dist/b.js', 'b');
+    await write('dist/c.js', 'c');
+
+    const { artifacts, truncated } = await collectArtifacts(root, ['dist/**'], 2);
+
+    expect(truncated).toBe(true);
+    expect(artifacts.map((a) => a.path)).toEqual(['dist/a.js', 'dist/b.js']);
+  });
+
+  it('returns nothing when the output directory is missing', async () => {
+    const { artifacts } = await collectArtifacts(root, ['dist/**'], 100);
+    expect(artifacts).toEqual([]);
+  });
+
+  it('rejects globs that reach outside the project', async () => {
+    for (const glob of ['/../../secret/**', '../secret/**', 'dist/../../secret/*', '/etc/*']) {
+      await expect(collectArtifacts(root, [glob], 100)).rejects.toThrow('must be relative to the project');
+    }
+  });
+});
+
+describe('uploadPreviewBundle()', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockWriteArtifactChunk.mockResolvedValue(undefined);
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-preview-'));
+    await mkdir(join(root, 'dist', 'assets'), { recursive: true });
+    await writeFile(join(root, 'dist', 'index.html'), '<html></html>');
+    await writeFile(join(root, 'dist', 'assets', 'app.js'), 'console.log(1)');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('uploads content-addressed chunks and describes the bundle', async () => {
+    const { artifacts } = await collectArtifacts(root, ['dist/**'], 100);
+
+    const preview = await uploadPreviewBundle('sess-1', root, artifacts, 1024);
+
+    expect(preview).toMatchObject({ root: 'dist', entry: 'index.html', fileCount: 2, totalBytes: 27 });
+    expect(mockWriteArtifactChunk).toHaveBeenCalledTimes(2);
+    const [, chunk] = mockWriteArtifactChunk.mock.calls[0];
+    expect(chunk.id).toBe(`${artifacts[0].hash}-0000`);
+    expect(Buffer.from(chunk.data, 'base64').toString()).toBe('console.log(1)');
+  });
+
+  it('refuses bundles over the size limit', async () => {
+    const { artifacts } = await collectArtifacts(root, ['dist/**'], 100);
+
+    await expect(uploadPreviewBundle('sess-1', root, artifacts, 10)).rejects.toThrow('over the 10 byte limit');
+    expect(mockWriteArtifactChunk).not.toHaveBeenCalled();
+  });
+
+  it('refuses artifact paths outside the project', async () => {
+    const artifacts = [{ name: 'key.txt', path: '../secret/key.txt', size: 1, mimeType: 'text/plain', hash: 'h' }];
+
+    await expect(uploadPreviewBundle('sess-1', root, artifacts, 1024)).rejects.toThrow('outside the project');
+    expect(mockWriteArtifactChunk).not.toHaveBeenCalled();
+  });
+
+  it('refuses files that changed after they were hashed', async () => {
+    const { artifacts } = await collectArtifacts(root, ['dist/**'], 100);
+    await writeFile(join(root, 'dist', 'index.html'), '<html>changed</html>');
+
+    await expect(uploadPreviewBundle('sess-1', root, artifacts, 1024)).rejects.toThrow(
+      'Artifact changed during upload: dist/index.html'
+    );
+  });
+});
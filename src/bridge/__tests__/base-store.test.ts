@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockListFileSyncRecords } = vi.hoisted(() => ({
+  mockListFileSyncRecords: vi.fn(),
+}));
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (root: string) => join(root, '.myndhyve'),
+  listFileSyncRecords: mockListFileSyncRecords,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { pruneBaseContent, pruneUnreferencedBases, readBaseContent, saveBaseContent } from '../base-store.js';
+import { appendJournal } from '../journal.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('merge base store', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'bridge-base-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('prunes blobs no sync record references', async () => {
+    const kept = await saveBaseContent(root, Buffer.from('kept'));
+    const stale = await saveBaseContent(root, Buffer.from('stale'));
+
+    const removed = await pruneBaseContent(root, [kept], Date.now() + 1000);
+
+    expect(removed).toBe(1);
+    expect((await readBaseContent(root, kept))?.toString()).toBe('kept');
+    expect(await readBaseContent(root, stale)).toBeNull();
+  });
+
+  it('keeps blobs written after the records were listed', async () => {
+    const since = Date.now() - 1000;
+    const fresh = await saveBaseContent(root, Buffer.from('fresh'));
+
+    expect(await pruneBaseContent(root, [], since)).toBe(0);
+    expect(await readBaseContent(root, fresh)).not.toBeNull();
+  });
+
+  it('handles a missing base directory', async () => {
+    expect(await pruneBaseContent(root, [])).toBe(0);
+  });
+
+  it('keeps versions of pending pushes and queued changes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const base = await saveBaseContent(root, Buffer.from('base'));
+    const pushed = await saveBaseContent(root, Buffer.from('pushed'));
+    const queued = await saveBaseContent(root, Buffer.from('queued'));
+    const stale = await saveBaseContent(root, Buffer.from('stale'));
+    vi.setSystemTime(Date.now() + 60_000);
+
+    mockListFileSyncRecords.mockResolvedValue([
+      { relativePath: 'a.ts', baseHash: base, localHash: pushed, remoteHash: base, pendingSource: 'local' },
+    ]);
+    await appendJournal(root, {
+      relativePath: 'b.ts',
+      changeType: 'modified',
+      hash: queued,
+      fileSize: 6,
+      mimeType: 'text/plain',
+    });
+
+    expect(await pruneUnreferencedBases('s1', root)).toBe(1);
+    expect(await readBaseContent(root, pushed)).not.toBeNull();
+    expect(await readBaseContent(root, queued)).not.toBeNull();
+    expect(await readBaseContent(root, base)).not.toBeNull();
+    expect(await readBaseContent(root, stale)).toBeNull();
+  });
+});
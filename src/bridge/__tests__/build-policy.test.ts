@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (projectRoot: string) => join(projectRoot, '.myndhyve'),
+}));
+
+import {
+  BuildPolicySchema,
+  checkBuildCommand,
+  loadBuildPolicy,
+  splitCommand,
+  getBuildPolicyPath,
+} from '../build-policy.js';
+
+const defaults = BuildPolicySchema.parse({});
+const scripts = { build: 'vite build', test: 'vitest run', lint: 'eslint .' };
+
+describe('splitCommand()', () => {
+  it('splits on whitespace and honours quotes', () => {
+    expect(splitCommand(`npx eslint "src/my file.ts" --ext '.ts'`)).toEqual([
+      'npx', 'eslint', 'src/my file.ts', '--ext', '.ts',
+    ]);
+  });
+
+  it('keeps empty quoted arguments', () => {
+    expect(splitCommand(`go test -run ""`)).toEqual(['go', 'test', '-run', '']);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => splitCommand(`npm run "build`)).toThrow('unterminated quote');
+  });
+});
+
+describe('checkBuildCommand()', () => {
+  it('allows defined package.json scripts and returns argv', () => {
+    expect(checkBuildCommand('npm run build', {}, defaults, scripts)).toEqual({
+      allowed: true,
+      argv: ['npm', 'run', 'build'],
+      env: {},
+    });
+    expect(checkBuildCommand('pnpm lint', {}, defaults, scripts).allowed).toBe(true);
+    expect(checkBuildCommand('npm test', {}, defaults, scripts).allowed).toBe(true);
+  });
+
+  it('rejects shell metacharacters', () => {
+    const check = checkBuildCommand('npm run build; rm -rf ~', {}, defaults, scripts);
+    expect(check).toEqual({ allowed: false, reason: 'Command contains forbidden character ";"' });
+    expect(checkBuildCommand('npm run build && curl x', {}, defaults, scripts).allowed).toBe(false);
+    expect(checkBuildCommand('npm run $(whoami)', {}, defaults, scripts).allowed).toBe(false);
+  });
+
+  it('rejects executables outside the allowlist or given as paths', () => {
+    expect(checkBuildCommand('rm -rf /', {}, defaults, scripts)).toEqual({
+      allowed: false,
+      reason: 'Executable "rm" is not in allowedExecutables',
+    });
+    expect(checkBuildCommand('./node_modules/.bin/vite build', {}, defaults, scripts).allowed).toBe(false);
+  });
+
+  it('rejects scripts that are undefined or not allowed', () => {
+    expect(checkBuildCommand('npm run deploy', {}, defaults, scripts)).toEqual({
+      allowed: false,
+      reason: 'Script "deploy" is not defined in package.json',
+    });
+
+    const policy = BuildPolicySchema.parse({ allowedScripts: ['build'] });
+    expect(checkBuildCommand('npm run lint', {}, policy, scripts)).toEqual({
+      allowed: false,
+      reason: 'Script "lint" is not in allowedScripts',
+    });
+  });
+
+  it('rejects package manager subcommands that are not script runs', () => {
+    expect(checkBuildCommand('npm install evil-pkg', {}, defaults, scripts)).toEqual({
+      allowed: false,
+      reason: '"npm install" is not a script invocation',
+    });
+    expect(checkBuildCommand('pnpm dlx evil', {}, defaults, scripts).allowed).toBe(false);
+  });
+
+  it('treats npm exec like npx', () => {
+    expect(checkBuildCommand('npm exec tsc', {}, defaults, scripts).allowed).toBe(true);
+
+    const policy = BuildPolicySchema.parse({ allowedExecutables: ['npm'] });
+    expect(checkBuildCommand('npm exec tsc', {}, policy, scripts).allowed).toBe(false);
+  });
+
+  it('enforces the env allowlist with prefix wildcards', () => {
+    expect(checkBuildCommand('npm run build', { NODE_ENV: 'production', VITE_API: 'x' }, defaults, scripts).allowed)
+      .toBe(true);
+    expect(checkBuildCommand('npm run build', { NODE_OPTIONS: '--require evil.js' }, defaults, scripts)).toEqual({
+      allowed: false,
+      reason: 'Env vars not in envAllowlist: NODE_OPTIONS',
+    });
+  });
+});
+
+describe('loadBuildPolicy()', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-policy-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('returns defaults when no policy file exists', async () => {
+    expect(await loadBuildPolicy(root)).toEqual(defaults);
+  });
+
+  it('merges the policy file over the defaults', async () => {
+    await mkdir(join(root, '.myndhyve'));
+    await writeFile(getBuildPolicyPath(root), JSON.stringify({ allowedScripts: ['build'], maxDurationMs: 60000 }));
+
+    const policy = await loadBuildPolicy(root);
+    expect(policy.allowedScripts).toEqual(['build']);
+    expect(policy.maxDurationMs).toBe(60000);
+    expect(policy.allowedExecutables).toEqual(defaults.allowedExecutables);
+  });
+
+  it('throws on an invalid policy instead of falling back to defaults', async () => {
+    await mkdir(join(root, '.myndhyve'));
+    await writeFile(getBuildPolicyPath(root), JSON.stringify({ maxDurationMs: -1 }));
+
+    await expect(loadBuildPolicy(root)).rejects.toThrow('Invalid build-policy.json: maxDurationMs');
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const {
+  mockExecuteBuildRequest,
+  mockMarkCancelled,
+  mockGetBuildRecord,
+  mockUpdateBuildRecord,
+  mockLoadBuildPolicy,
+} = vi.hoisted(() => ({
+  mockExecuteBuildRequest: vi.fn(),
+  mockMarkCancelled: vi.fn(),
+  mockGetBuildRecord: vi.fn(),
+  mockUpdateBuildRecord: vi.fn(),
+  mockLoadBuildPolicy: vi.fn(),
+}));
+
+vi.mock('../builder.js', () => ({
+  executeBuildRequest: mockExecuteBuildRequest,
+  markCancelled: mockMarkCancelled,
+}));
+
+vi.mock('../session.js', () => ({
+  getBuildRecord: mockGetBuildRecord,
+  updateBuildRecord: mockUpdateBuildRecord,
+}));
+
+vi.mock('../build-policy.js', () => ({
+  loadBuildPolicy: mockLoadBuildPolicy,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { BuildQueue, getProjectBuildQueue } from '../build-queue.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Builds run until aborted or finished by the test. */
+const finishers = new Map<string, () => void>();
+const signals = new Map<string, AbortSignal>();
+
+function build(id: string): Record<string, unknown> {
+  return { id, command: 'npm run build', status: 'pending' };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('BuildQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    finishers.clear();
+    signals.clear();
+    mockUpdateBuildRecord.mockResolvedValue(undefined);
+    mockMarkCancelled.mockResolvedValue(undefined);
+    mockGetBuildRecord.mockResolvedValue({ cancelRequested: false });
+    mockExecuteBuildRequest.mockImplementation(
+      (_sid: string, _root: string, record: Record<string, unknown>, opts: { signal: AbortSignal }) =>
+        new Promise<void>((resolve) => {
+          const id = record.id as string;
+          signals.set(id, opts.signal);
+          finishers.set(id, resolve);
+          opts.signal.addEventListener('abort', () => resolve());
+        })
+    );
+  });
+
+  it('runs at most maxConcurrent builds and publishes queue positions', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+    await queue.enqueue(build('b3'));
+
+    expect(mockExecuteBuildRequest).toHaveBeenCalledTimes(1);
+    expect(queue.active).toBe(1);
+    expect(queue.pending).toBe(2);
+    expect(mockUpdateBuildRecord).toHaveBeenCalledWith('sess-1', 'b2', { queuePosition: 1 });
+    expect(mockUpdateBuildRecord).toHaveBeenCalledWith('sess-1', 'b3', { queuePosition: 2 });
+
+    mockUpdateBuildRecord.mockClear();
+    finishers.get('b1')?.();
+    await flush();
+
+    expect(mockExecuteBuildRequest).toHaveBeenCalledTimes(2);
+    expect(mockExecuteBuildRequest.mock.calls[1][2].id).toBe('b2');
+    expect(mockUpdateBuildRecord).toHaveBeenCalledWith('sess-1', 'b3', { queuePosition: 1 });
+  });
+
+  it('starts several builds when the limit allows', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 2);
+
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+    await queue.enqueue(build('b3'));
+
+    expect(mockExecuteBuildRequest).toHaveBeenCalledTimes(2);
+    expect(queue.pending).toBe(1);
+  });
+
+  it('ignores builds it already holds', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+
+    expect(mockExecuteBuildRequest).toHaveBeenCalledTimes(1);
+    expect(queue.pending).toBe(1);
+  });
+
+  it('drops a queued build on cancel and renumbers the rest', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+    await queue.enqueue(build('b3'));
+    mockUpdateBuildRecord.mockClear();
+
+    expect(await queue.cancel('b2')).toBe(true);
+
+    expect(mockMarkCancelled).toHaveBeenCalledWith('sess-1', 'b2');
+    expect(queue.has('b2')).toBe(false);
+    expect(mockUpdateBuildRecord).toHaveBeenCalledWith('sess-1', 'b3', { queuePosition: 1 });
+  });
+
+  it('aborts a running build on cancel', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    await queue.enqueue(build('b1'));
+
+    expect(await queue.cancel('b1')).toBe(true);
+
+    expect(signals.get('b1')?.aborted).toBe(true);
+    expect(mockMarkCancelled).not.toHaveBeenCalled();
+  });
+
+  it('returns false when cancelling an unknown build', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    expect(await queue.cancel('nope')).toBe(false);
+  });
+
+  it('marks builds cancelled before they start if cancellation was already requested', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+
+    await queue.enqueue({ ...build('b1'), cancelRequested: true });
+
+    expect(mockExecuteBuildRequest).not.toHaveBeenCalled();
+    expect(mockMarkCancelled).toHaveBeenCalledWith('sess-1', 'b1');
+  });
+
+  it('checkCancellations() cancels builds whose record requests it', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+
+    mockGetBuildRecord.mockImplementation(async (_sid: string, id: string) => ({
+      id,
+      cancelRequested: true,
+    }));
+
+    await queue.checkCancellations();
+
+    expect(signals.get('b1')?.aborted).toBe(true);
+    expect(mockMarkCancelled).toHaveBeenCalledWith('sess-1', 'b2');
+  });
+
+  it('shutdown() cancels queued builds and waits for running ones', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    await queue.enqueue(build('b1'));
+    await queue.enqueue(build('b2'));
+
+    await queue.shutdown();
+
+    expect(signals.get('b1')?.aborted).toBe(true);
+    expect(mockMarkCancelled).toHaveBeenCalledWith('sess-1', 'b2');
+    expect(mockExecuteBuildRequest).toHaveBeenCalledTimes(1);
+    expect(queue.active).toBe(0);
+  });
+
+  it('run() resolves once the build finishes or is cancelled', async () => {
+    const queue = new BuildQueue('sess-1', '/project', 1);
+    let firstDone = false;
+    let secondDone = false;
+
+    const first = queue.run(build('b1')).then(() => { firstDone = true; });
+    const second = queue.run(build('b2')).then(() => { secondDone = true; });
+    await flush();
+    expect(firstDone).toBe(false);
+
+    await queue.cancel('b2');
+    await second;
+    expect(secondDone).toBe(true);
+    expect(firstDone).toBe(false);
+
+    finishers.get('b1')?.();
+    await first;
+    expect(firstDone).toBe(true);
+  });
+});
+
+describe('getProjectBuildQueue()', () => {
+  it('shares one queue per project, limited by the build policy', async () => {
+    mockLoadBuildPolicy.mockResolvedValue({ maxConcurrentBuilds: 1 });
+    mockUpdateBuildRecord.mockResolvedValue(undefined);
+    mockMarkCancelled.mockResolvedValue(undefined);
+    mockExecuteBuildRequest.mockImplementation(
+      (_sid: string, _root: string, _record: unknown, opts: { signal: AbortSignal }) =>
+        new Promise<void>((resolve) => opts.signal.addEventListener('abort', () => resolve()))
+    );
+
+    const queue = await getProjectBuildQueue('sess-1', '/shared');
+    expect(await getProjectBuildQueue('sess-1', '/shared')).toBe(queue);
+    expect(mockLoadBuildPolicy).toHaveBeenCalledTimes(1);
+
+    await queue.enqueue(build('b1'));
+    await (await getProjectBuildQueue('sess-1', '/shared')).enqueue(build('b2'));
+    expect(queue.active).toBe(1);
+    expect(queue.pending).toBe(1);
+
+    await queue.shutdown();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockGetConflictRecord, mockUpdateConflictRecord, mockGetFileSyncRecord, mockUpsertFileSyncRecord } =
+  vi.hoisted(() => ({
+    mockGetConflictRecord: vi.fn(),
+    mockUpdateConflictRecord: vi.fn(),
+    mockGetFileSyncRecord: vi.fn(),
+    mockUpsertFileSyncRecord: vi.fn(),
+  }));
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (projectRoot: string) => `${projectRoot}/.myndhyve`,
+  readLocalConfig: vi.fn(async () => null),
+  getConflictRecord: mockGetConflictRecord,
+  updateConflictRecord: mockUpdateConflictRecord,
+  getFileSyncRecord: mockGetFileSyncRecord,
+  upsertFileSyncRecord: mockUpsertFileSyncRecord,
+  writeFileChunk: vi.fn(),
+  getFileChunk: vi.fn(),
+  deleteFileChunk: vi.fn(),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { resolveConflict, buildMergeBuffer, hasConflictMarkers } from '../conflicts.js';
+import { hashContent } from '../hasher.js';
+import type { ConflictRecord } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function makeConflict(overrides: Partial<ConflictRecord> = {}): ConflictRecord {
+  const base = 'a\nb\nc\n';
+  const local = 'a\nlocal\nc\n';
+  const remote = 'a\nremote\nc\n';
+  return {
+    id: 'c1',
+    fileId: 'f1',
+    relativePath: 'src/app.ts',
+    baseContent: base,
+    localContent: local,
+    remoteContent: remote,
+    baseHash: hashContent(Buffer.from(base)),
+    localHash: hashContent(Buffer.from(local)),
+    remoteHash: hashContent(Buffer.from(remote)),
+    conflictType: 'content',
+    status: 'pending',
+    resolution: null,
+    resolvedContent: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    detectedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  } as ConflictRecord;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('resolveConflict()', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-conflicts-'));
+    await writeFile(join(root, 'app.ts'), '');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('keep-remote writes the remote content and marks the file synced', async () => {
+    const conflict = makeConflict({ relativePath: 'app.ts' });
+    mockGetConflictRecord.mockResolvedValue(conflict);
+    mockGetFileSyncRecord.mockResolvedValue({
+      id: 'f1',
+      relativePath: 'app.ts',
+      transferMode: 'inline',
+      pendingContent: Buffer.from(conflict.remoteContent).toString('base64'),
+    });
+
+    const result = await resolveConflict({
+      sessionId: 's1',
+      projectRoot: root,
+      conflictId: 'c1',
+      strategy: 'keep-remote',
+      resolvedBy: 'cli',
+    });
+
+    expect(result).toEqual({ relativePath: 'app.ts', strategy: 'keep-remote', pushed: false });
+    expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe(conflict.remoteContent);
+    expect(mockUpsertFileSyncRecord).toHaveBeenCalledWith('s1', 'f1', expect.objectContaining({
+      syncStatus: 'synced',
+      baseHash: conflict.remoteHash,
+      conflictId: null,
+    }));
+    expect(mockUpdateConflictRecord).toHaveBeenCalledWith('s1', 'c1', expect.objectContaining({
+      status: 'resolved',
+      resolution: 'keep-remote',
+      resolvedBy: 'cli',
+    }));
+  });
+
+  it('keep-local pushes the working-tree file against the remote base', async () => {
+    const conflict = makeConflict({ relativePath: 'app.ts' });
+    await writeFile(join(root, 'app.ts'), conflict.localContent);
+    mockGetConflictRecord.mockResolvedValue(conflict);
+    mockGetFileSyncRecord.mockResolvedValue(null);
+
+    const result = await resolveConflict({
+      sessionId: 's1',
+      projectRoot: root,
+      conflictId: 'c1',
+      strategy: 'keep-local',
+      resolvedBy: 'mcp',
+    });
+
+    expect(result.pushed).toBe(true);
+    expect(mockUpsertFileSyncRecord).toHaveBeenCalledWith('s1', 'f1', expect.objectContaining({
+      baseHash: conflict.remoteHash,
+      localHash: conflict.localHash,
+      syncStatus: 'modified-local',
+      pendingSource: 'local',
+      pendingContent: Buffer.from(conflict.localContent).toString('base64'),
+    }));
+  });
+
+  it('requires content for manual resolution', async () => {
+    mockGetConflictRecord.mockResolvedValue(makeConflict());
+    mockGetFileSyncRecord.mockResolvedValue(null);
+
+    await expect(resolveConflict({
+      sessionId: 's1',
+      projectRoot: root,
+      conflictId: 'c1',
+      strategy: 'manual',
+      resolvedBy: 'cli',
+    })).rejects.toThrow('requires resolved content');
+  });
+
+  it('rejects conflicts that are already resolved', async () => {
+    mockGetConflictRecord.mockResolvedValue(makeConflict({ status: 'resolved' }));
+
+    await expect(resolveConflict({
+      sessionId: 's1',
+      projectRoot: root,
+      conflictId: 'c1',
+      strategy: 'keep-local',
+      resolvedBy: 'cli',
+    })).rejects.toThrow('already resolved');
+  });
+});
+
+describe('buildMergeBuffer()', () => {
+  it('renders conflict markers for overlapping edits', () => {
+    const buffer = buildMergeBuffer(makeConflict());
+    expect(buffer).toContain('<<<<<<< local\nlocal\n||||||| base\nb\n=======\nremote\n>>>>>>> remote');
+    expect(hasConflictMarkers(buffer)).toBe(true);
+  });
+
+  it('does not flag clean text', () => {
+    expect(hasConflictMarkers('a\n=======\nb')).toBe(false);
+  });
+});
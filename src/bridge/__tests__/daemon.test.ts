@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync, mkdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { state, mockSpawn } = vi.hoisted(() => ({
+  state: { cliDir: '' },
+  mockSpawn: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+  spawn: mockSpawn,
+}));
+
+vi.mock('../../config/loader.js', async () => {
+  const { join: joinPath } = await import('node:path');
+  const { mkdirSync: mkdir } = await import('node:fs');
+  return {
+    getCliDir: () => state.cliDir,
+    getLogDir: () => joinPath(state.cliDir, 'logs'),
+    ensureLogDir: () => {
+      const dir = joinPath(state.cliDir, 'logs');
+      mkdir(dir, { recursive: true });
+      return dir;
+    },
+  };
+});
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import {
+  getBridgePidPath,
+  getBridgeLogPath,
+  getBridgeDaemonPid,
+  listBridgeDaemons,
+  spawnBridgeDaemon,
+  stopBridgeDaemon,
+} from '../daemon.js';
+import type { BridgeLocalConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function linkedConfig(sessionId: string, projectId = `proj-${sessionId}`): BridgeLocalConfig {
+  return {
+    sessionId,
+    projectId,
+    canvasTypeId: 'app-builder',
+    framework: 'react-tailwind',
+    userId: 'user-1',
+    linkedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+/** Write a PID file as spawnBridgeDaemon would */
+function recordDaemon(sessionId: string, pid: number, projectRoot: string): void {
+  mkdirSync(join(state.cliDir, 'bridges'), { recursive: true });
+  writeFileSync(
+    getBridgePidPath(sessionId),
+    JSON.stringify({ pid, sessionId, projectId: `proj-${sessionId}`, projectRoot, startedAt: 'now' })
+  );
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('bridge daemon', () => {
+  const alive = new Set<number>();
+  let killSpy: MockInstance<typeof process.kill>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    alive.clear();
+    state.cliDir = mkdtempSync(join(tmpdir(), 'myndhyve-bridge-daemon-'));
+
+    killSpy = vi.spyOn(process, 'kill').mockImplementation(((pid: number, signal?: string | number) => {
+      if (!alive.has(pid)) {
+        throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+      }
+      if (signal === 'SIGTERM') alive.delete(pid);
+      return true;
+    }) as typeof process.kill);
+
+    mockSpawn.mockImplementation(() => {
+      const pid = 40_000 + mockSpawn.mock.calls.length;
+      alive.add(pid);
+      return { pid, unref: vi.fn() };
+    });
+  });
+
+  afterEach(() => {
+    killSpy.mockRestore();
+    rmSync(state.cliDir, { recursive: true, force: true });
+  });
+
+  it('keys PID and log files by session ID', () => {
+    expect(getBridgePidPath('s1')).toBe(join(state.cliDir, 'bridges', 's1.pid'));
+    expect(getBridgeLogPath('s1')).toBe(join(state.cliDir, 'logs', 'bridge-s1.log'));
+  });
+
+  it('runs one daemon per linked project side by side', () => {
+    const pidA = spawnBridgeDaemon('/repo/apps/web', linkedConfig('s-web'));
+    const pidB = spawnBridgeDaemon('/repo/apps/admin', linkedConfig('s-admin'));
+
+    expect(pidA).not.toBe(pidB);
+    expect(getBridgeDaemonPid('s-web')).toBe(pidA);
+    expect(getBridgeDaemonPid('s-admin')).toBe(pidB);
+    expect(existsSync(getBridgeLogPath('s-web'))).toBe(true);
+
+    const record = JSON.parse(readFileSync(getBridgePidPath('s-web'), 'utf-8'));
+    expect(record).toMatchObject({ pid: pidA, sessionId: 's-web', projectId: 'proj-s-web', projectRoot: '/repo/apps/web' });
+  });
+
+  it('refuses a second daemon for the same session', () => {
+    spawnBridgeDaemon('/repo/apps/web', linkedConfig('s-web'));
+
+    expect(() => spawnBridgeDaemon('/repo/apps/web', linkedConfig('s-web'))).toThrow('already running');
+  });
+
+  it('lists running daemons sorted by path and drops stale PID files', () => {
+    alive.add(101).add(102);
+    recordDaemon('s-b', 101, '/repo/b');
+    recordDaemon('s-a', 102, '/repo/a');
+    recordDaemon('s-dead', 103, '/repo/dead');
+
+    const daemons = listBridgeDaemons();
+
+    expect(daemons.map((d) => [d.sessionId, d.pid, d.projectRoot])).toEqual([
+      ['s-a', 102, '/repo/a'],
+      ['s-b', 101, '/repo/b'],
+    ]);
+    expect(existsSync(getBridgePidPath('s-dead'))).toBe(false);
+  });
+
+  it('returns an empty list when no daemon was ever started', () => {
+    expect(listBridgeDaemons()).toEqual([]);
+  });
+
+  it('stops only the targeted session', () => {
+    alive.add(101).add(102);
+    recordDaemon('s-a', 101, '/repo/a');
+    recordDaemon('s-b', 102, '/repo/b');
+
+    expect(stopBridgeDaemon('s-a')).toBe(true);
+
+    expect(killSpy).toHaveBeenCalledWith(101, 'SIGTERM');
+    expect(getBridgeDaemonPid('s-a')).toBeNull();
+    expect(getBridgeDaemonPid('s-b')).toBe(102);
+  });
+
+  it('reports a daemon that is not running', () => {
+    expect(stopBridgeDaemon('s-none')).toBe(false);
+  });
+
+  it('ignores corrupt PID files', () => {
+    mkdirSync(join(state.cliDir, 'bridges'), { recursive: true });
+    writeFileSync(getBridgePidPath('s-bad'), 'not json');
+
+    expect(getBridgeDaemonPid('s-bad')).toBeNull();
+    expect(existsSync(getBridgePidPath('s-bad'))).toBe(false);
+  });
+});
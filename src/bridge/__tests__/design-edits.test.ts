@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { applyMergePatch, planDesignEdit, slugifyDesignId } from '../design-edits.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('applyMergePatch()', () => {
+  it('merges objects recursively, replaces arrays and removes nulls', () => {
+    const target = { a: 1, nested: { x: 1, y: 2 }, list: [1, 2], gone: true };
+    const patch = { nested: { y: 3, z: 4 }, list: [9], gone: null, added: 'new' };
+
+    expect(applyMergePatch(target, patch)).toEqual({
+      a: 1,
+      nested: { x: 1, y: 3, z: 4 },
+      list: [9],
+      added: 'new',
+    });
+  });
+
+  it('does not mutate the target', () => {
+    const target = { nested: { x: 1 } };
+    applyMergePatch(target, { nested: { x: 2 } });
+    expect(target).toEqual({ nested: { x: 1 } });
+  });
+});
+
+describe('planDesignEdit()', () => {
+  const component = {
+    id: 'btn-primary',
+    name: 'PrimaryButton',
+    styles: { color: '#fff', padding: 8 },
+    props: { label: 'Go' },
+  };
+
+  it('returns the patched entity, changed fields and a diff', () => {
+    const plan = planDesignEdit('app-builder', 'component', component, {
+      styles: { color: '#000' },
+      props: { label: 'Go' },
+    });
+
+    expect(plan.next.styles).toEqual({ color: '#000', padding: 8 });
+    expect(plan.changedFields).toEqual(['styles']);
+    expect(plan.diff).toContain('-    "color": "#fff",');
+    expect(plan.diff).toContain('+    "color": "#000",');
+    expect(plan.diff).toContain('component/PrimaryButton (proposed)');
+  });
+
+  it('returns an empty diff when nothing changes', () => {
+    const plan = planDesignEdit('app-builder', 'component', component, { name: 'PrimaryButton' });
+    expect(plan.diff).toBe('');
+    expect(plan.changedFields).toEqual([]);
+  });
+
+  it('rejects results that fail the canvas type schema', () => {
+    expect(() => planDesignEdit('app-builder', 'component', component, { name: null })).toThrow(
+      'Invalid component: name'
+    );
+    expect(() =>
+      planDesignEdit('app-builder', 'screen', null, { name: 'Home', route: 'home' })
+    ).toThrow('route — must start with "/"');
+  });
+
+  it('validates nested component trees', () => {
+    expect(() =>
+      planDesignEdit('app-builder', 'screen', null, {
+        name: 'Home',
+        route: '/',
+        components: [{ type: 'Stack', children: [{ props: {} }] }],
+      })
+    ).toThrow('components.0.children.0.type');
+  });
+
+  it('rejects changes to read-only fields', () => {
+    expect(() => planDesignEdit('app-builder', 'component', component, { id: 'other' })).toThrow(
+      'Read-only field(s) cannot be changed: id'
+    );
+  });
+
+  it('rejects canvas types without design entities', () => {
+    expect(() => planDesignEdit('slides', 'theme', {}, {})).toThrow('has no editable design entities');
+  });
+
+  it('diffs a new entity against nothing', () => {
+    const plan = planDesignEdit('app-builder', 'screen', null, { name: 'Sign Up', route: '/signup' });
+    expect(plan.diff).toContain('--- /dev/null');
+    expect(plan.diff).toContain('+  "route": "/signup"');
+  });
+
+  it('merges theme tokens', () => {
+    const theme = { id: 't1', colors: { primary: '#111', secondary: '#222' } };
+    const plan = planDesignEdit('app-builder', 'theme', theme, { colors: { primary: '#4f46e5' } });
+    expect(plan.next.colors).toEqual({ primary: '#4f46e5', secondary: '#222' });
+    expect(plan.changedFields).toEqual(['colors']);
+  });
+});
+
+describe('slugifyDesignId()', () => {
+  it('derives document IDs from names', () => {
+    expect(slugifyDesignId('Sign Up')).toBe('sign-up');
+    expect(slugifyDesignId('  Café / Menu ')).toBe('cafe-menu');
+    expect(slugifyDesignId('!!!')).toBe('untitled');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { collections, mockListDocuments } = vi.hoisted(() => {
+  const collections = new Map<string, Record<string, unknown>[]>();
+  return {
+    collections,
+    mockListDocuments: vi.fn(async (path: string) => ({ documents: collections.get(path) ?? [] })),
+  };
+});
+
+vi.mock('../../api/firestore.js', () => ({
+  listDocuments: mockListDocuments,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { DesignChangeFeed, designResourceUri, type DesignChange } from '../design-feed.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('DesignChangeFeed', () => {
+  let feed: DesignChangeFeed;
+  let emitted: DesignChange[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    collections.clear();
+    collections.set('projects/p1/screens', [{ id: 'home', name: 'Home', updatedAt: 't1' }]);
+    collections.set('projects/p1/components', [{ id: 'btn', name: 'Button' }]);
+    collections.set('projects/p1/themes', [{ id: 'default', colors: { primary: '#111' } }]);
+
+    feed = new DesignChangeFeed('p1');
+    emitted = [];
+    feed.on('change', (change: DesignChange) => emitted.push(change));
+  });
+
+  it('records a baseline on the first poll without emitting', async () => {
+    expect(await feed.poll()).toEqual([]);
+    expect(emitted).toEqual([]);
+    expect(mockListDocuments).toHaveBeenCalledTimes(3);
+  });
+
+  it('emits added, modified and removed documents', async () => {
+    await feed.poll();
+
+    collections.set('projects/p1/screens', [
+      { id: 'home', name: 'Home', updatedAt: 't2' },
+      { id: 'signup', name: 'Sign Up', updatedAt: 't2' },
+    ]);
+    collections.set('projects/p1/components', []);
+
+    const changes = await feed.poll();
+
+    expect(changes).toEqual([
+      { collection: 'screens', id: 'home', change: 'modified' },
+      { collection: 'screens', id: 'signup', change: 'added' },
+      { collection: 'components', id: 'btn', change: 'removed' },
+    ]);
+    expect(emitted).toEqual(changes);
+  });
+
+  it('detects content changes on documents without updatedAt', async () => {
+    await feed.poll();
+    collections.set('projects/p1/themes', [{ id: 'default', colors: { primary: '#222' } }]);
+
+    expect(await feed.poll()).toEqual([{ collection: 'themes', id: 'default', change: 'modified' }]);
+  });
+
+  it('emits nothing when nothing changed', async () => {
+    await feed.poll();
+    expect(await feed.poll()).toEqual([]);
+  });
+
+  it('pages through large collections', async () => {
+    mockListDocuments.mockImplementation(async (path: string, options?: { pageToken?: string }) => {
+      if (path !== 'projects/p1/screens') return { documents: collections.get(path) ?? [] };
+      return options?.pageToken
+        ? { documents: [{ id: 'second', updatedAt: 't1' }] }
+        : { documents: [{ id: 'first', updatedAt: 't1' }], nextPageToken: 'page-2' };
+    });
+
+    await feed.poll();
+    collections.set('projects/p1/components', []);
+    const changes = await feed.poll();
+
+    expect(mockListDocuments).toHaveBeenCalledWith('projects/p1/screens', { pageSize: 300, pageToken: 'page-2' });
+    expect(changes).toEqual([{ collection: 'components', id: 'btn', change: 'removed' }]);
+  });
+});
+
+describe('designResourceUri()', () => {
+  it('maps documents to MCP resource URIs', () => {
+    expect(designResourceUri('screens', 'home')).toBe('myndhyve://design/screen/home');
+    expect(designResourceUri('components', 'btn')).toBe('myndhyve://design/component/btn');
+    expect(designResourceUri('themes', 'default')).toBe('myndhyve://design/theme');
+  });
+});
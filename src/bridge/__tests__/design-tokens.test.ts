@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockListDocuments } = vi.hoisted(() => ({
+  mockListDocuments: vi.fn(),
+}));
+
+vi.mock('../../api/firestore.js', () => ({
+  listDocuments: mockListDocuments,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import {
+  exportDesignTokens,
+  flattenTheme,
+  renderDesignTokens,
+  resolveTokenOutputs,
+} from '../design-tokens.js';
+import type { BridgeLocalConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const theme = {
+  id: 'default',
+  name: 'Default',
+  colors: {
+    primary: { DEFAULT: '#4f46e5', light: '#818cf8' },
+    gray: { 100: '#f3f4f6' },
+    error: '#dc2626',
+  },
+  typography: {
+    fontFamily: { sans: ['Inter', 'sans-serif'] },
+    fontSize: { lg: '1.125rem' },
+    fontWeight: { bold: 700 },
+  },
+  spacing: { 4: 16, px: '1px' },
+  radii: { md: '0.5rem' },
+  shadows: { card: '0 1px 2px rgba(0,0,0,0.1)' },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const config: BridgeLocalConfig = {
+  sessionId: 'sess-1',
+  projectId: 'proj-1',
+  canvasTypeId: 'app-builder',
+  framework: 'react-tailwind',
+  userId: 'user-1',
+  linkedAt: '2026-01-01T00:00:00.000Z',
+};
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('flattenTheme()', () => {
+  it('flattens token groups into typed leaves and ignores metadata', () => {
+    const tokens = flattenTheme(theme);
+
+    expect(tokens).toContainEqual({ path: ['colors', 'gray', '100'], value: '#f3f4f6', type: 'color' });
+    expect(tokens).toContainEqual({
+      path: ['typography', 'fontFamily', 'sans'],
+      value: 'Inter, sans-serif',
+      type: 'fontFamily',
+    });
+    expect(tokens).toContainEqual({ path: ['typography', 'fontWeight', 'bold'], value: 700, type: 'fontWeight' });
+    expect(tokens).toContainEqual({ path: ['spacing', '4'], value: 16, type: 'dimension' });
+    expect(tokens.some((t) => t.path[0] === 'updatedAt' || t.path[0] === 'name')).toBe(false);
+  });
+
+  it('infers types for free-form tokens', () => {
+    const tokens = flattenTheme({ tokens: { brand: '#ff0000', gutter: '2rem', ratio: 1.5, easing: 'ease-in' } });
+    expect(tokens.map((t) => t.type)).toEqual(['color', 'dimension', 'number', 'string']);
+  });
+});
+
+describe('renderDesignTokens()', () => {
+  it('renders CSS custom properties', () => {
+    const css = renderDesignTokens(theme, 'css');
+    expect(css).toContain(':root {');
+    expect(css).toContain('  --color-primary: #4f46e5;');
+    expect(css).toContain('  --color-primary-light: #818cf8;');
+    expect(css).toContain('  --font-family-sans: Inter, sans-serif;');
+    expect(css).toContain('  --spacing-4: 16px;');
+    expect(css).toContain('  --radius-md: 0.5rem;');
+  });
+
+  it('renders SCSS variables', () => {
+    const scss = renderDesignTokens(theme, 'scss');
+    expect(scss).toContain('$color-gray-100: #f3f4f6;');
+    expect(scss).toContain('$font-size-lg: 1.125rem;');
+  });
+
+  it('renders a Tailwind preset with Tailwind theme keys', () => {
+    const preset = renderDesignTokens(theme, 'tailwind');
+    const json = preset.slice(preset.indexOf('export default ') + 15, preset.lastIndexOf(';'));
+    const { extend } = JSON.parse(json).theme;
+
+    expect(extend.colors.primary).toEqual({ DEFAULT: '#4f46e5', light: '#818cf8' });
+    expect(extend.fontFamily.sans).toEqual(['Inter', 'sans-serif']);
+    expect(extend.spacing['4']).toBe('16px');
+    expect(extend.borderRadius.md).toBe('0.5rem');
+    expect(extend.boxShadow.card).toBe('0 1px 2px rgba(0,0,0,0.1)');
+  });
+
+  it('renders a TypeScript constants module', () => {
+    const ts = renderDesignTokens(theme, 'ts');
+    expect(ts).toContain('export const designTokens = {');
+    expect(ts).toContain('} as const;');
+    expect(ts).toContain('"primary": {');
+    expect(ts).toContain('export type DesignTokens = typeof designTokens;');
+  });
+
+  it('renders W3C design tokens', () => {
+    const tokens = JSON.parse(renderDesignTokens(theme, 'w3c'));
+    expect(tokens.colors.primary.DEFAULT).toEqual({ $value: '#4f46e5', $type: 'color' });
+    expect(tokens.spacing['4']).toEqual({ $value: '16px', $type: 'dimension' });
+  });
+
+  it('renders Flutter ThemeData seeded from the primary color', () => {
+    const dart = renderDesignTokens(theme, 'flutter');
+    expect(dart).toContain('static const Color primary = Color(0xFF4F46E5);');
+    expect(dart).toContain('static const Color gray100 = Color(0xFFF3F4F6);');
+    expect(dart).toContain('static const double s4 = 16.0;');
+    expect(dart).toContain('static const double md = 8.0;');
+    expect(dart).toContain(
+      'colorScheme: ColorScheme.fromSeed(seedColor: MyndHyveColors.primary, brightness: brightness, error: MyndHyveColors.error),'
+    );
+    expect(dart).toContain("fontFamily: 'Inter',");
+  });
+
+  it('is deterministic', () => {
+    expect(renderDesignTokens(theme, 'css')).toBe(renderDesignTokens({ ...theme }, 'css'));
+  });
+});
+
+describe('resolveTokenOutputs()', () => {
+  it('picks formats by framework', () => {
+    expect(resolveTokenOutputs('react-tailwind')).toEqual([
+      { format: 'tailwind', relativePath: 'design-tokens/tailwind.tokens.js' },
+      { format: 'css', relativePath: 'design-tokens/tokens.css' },
+    ]);
+    expect(resolveTokenOutputs('flutter')).toEqual([
+      { format: 'flutter', relativePath: 'lib/theme/myndhyve_theme.dart' },
+    ]);
+  });
+
+  it('honors configured formats and output directory', () => {
+    expect(resolveTokenOutputs('nextjs', { formats: ['scss', 'w3c'], outDir: 'src/styles/' })).toEqual([
+      { format: 'scss', relativePath: 'src/styles/_tokens.scss' },
+      { format: 'w3c', relativePath: 'src/styles/tokens.json' },
+    ]);
+  });
+
+  it('rejects output directories outside the project', () => {
+    expect(() => resolveTokenOutputs('nextjs', { outDir: '../elsewhere' })).toThrow(/inside the project/);
+    expect(() => resolveTokenOutputs('nextjs', { outDir: '/tmp' })).toThrow(/inside the project/);
+  });
+});
+
+describe('exportDesignTokens()', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockListDocuments.mockResolvedValue({ documents: [theme] });
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-tokens-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('writes the token files and skips unchanged ones', async () => {
+    const first = await exportDesignTokens(root, config);
+
+    expect(first.themeId).toBe('default');
+    expect(first.files.map((f) => [f.relativePath, f.changed])).toEqual([
+      ['design-tokens/tailwind.tokens.js', true],
+      ['design-tokens/tokens.css', true],
+    ]);
+    expect(await readFile(join(root, 'design-tokens/tokens.css'), 'utf-8')).toBe(first.files[1].content);
+
+    const second = await exportDesignTokens(root, config);
+    expect(second.files.every((f) => !f.changed)).toBe(true);
+  });
+
+  it('tells the watcher about writes', async () => {
+    const watcher = { setKnownHash: vi.fn() };
+    await exportDesignTokens(root, config, { formats: ['css'] }, watcher as never);
+    expect(watcher.setKnownHash).toHaveBeenCalledWith('design-tokens/tokens.css', expect.any(String));
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const result = await exportDesignTokens(root, { ...config, designTokens: { formats: ['w3c'] } }, { dryRun: true });
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].changed).toBe(true);
+    await expect(stat(join(root, 'design-tokens'))).rejects.toThrow();
+  });
+
+  it('fails when the project has no theme', async () => {
+    mockListDocuments.mockResolvedValue({ documents: [] });
+    await expect(exportDesignTokens(root, config)).rejects.toThrow('No theme defined for this project');
+  });
+});
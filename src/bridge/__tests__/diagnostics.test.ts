@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DiagnosticCollector,
+  registerDiagnosticParser,
+  listDiagnosticParsers,
+  MAX_DIAGNOSTICS,
+} from '../diagnostics.js';
+
+function collect(output: string, opts: ConstructorParameters<typeof DiagnosticCollector>[0] = {}) {
+  const collector = new DiagnosticCollector(opts);
+  collector.write('stdout', output);
+  return collector.finish();
+}
+
+const lines = (...l: string[]) => l.join('\n') + '\n';
+
+describe('DiagnosticCollector', () => {
+  it('buffers lines split across chunks', () => {
+    const collector = new DiagnosticCollector();
+    collector.write('stdout', 'src/a.ts(3,7): error TS2322: Type ');
+    collector.write('stdout', "'string' is not assignable.\n");
+
+    expect(collector.finish().errors).toEqual([
+      { file: 'src/a.ts', line: 3, column: 7, code: 'TS2322', message: "Type 'string' is not assignable." },
+    ]);
+  });
+
+  it('makes absolute paths under cwd relative and strips ANSI codes', () => {
+    const { errors } = collect('\x1b[31m/work/app/src/a.ts(1,1): error TS1005: \';\' expected.\x1b[0m\n', { cwd: '/work/app' });
+    expect(errors[0].file).toBe('src/a.ts');
+  });
+
+  it('de-duplicates and caps diagnostics', () => {
+    const repeated = 'Error: same\n'.repeat(3);
+    expect(collect(repeated).errors).toHaveLength(1);
+
+    const many = Array.from({ length: 80 }, (_, i) => `Error: e${i}`).join('\n');
+    expect(collect(many).errors).toHaveLength(MAX_DIAGNOSTICS);
+  });
+
+  it('supports custom parsers', () => {
+    registerDiagnosticParser('custom-test', () => ({
+      parseLine: (line) => (line.startsWith('!!') ? [{ severity: 'warning', message: line.slice(2) }] : []),
+    }));
+
+    expect(listDiagnosticParsers()).toContain('custom-test');
+    expect(collect('!!careful\n', { parsers: ['custom-test'] }).warnings).toEqual([{ message: 'careful' }]);
+  });
+});
+
+describe('built-in parsers', () => {
+  it('parses tsc --pretty output', () => {
+    const { errors } = collect("src/app.ts:12:5 - error TS2304: Cannot find name 'foo'.\n");
+    expect(errors).toEqual([
+      { file: 'src/app.ts', line: 12, column: 5, code: 'TS2304', message: "Cannot find name 'foo'." },
+    ]);
+  });
+
+  it('attaches the file path to ESLint stylish entries', () => {
+    const { errors, warnings } = collect(lines(
+      '',
+      '/work/app/src/components/Button.tsx',
+      "  3:10  error    'x' is assigned a value but never used  no-unused-vars",
+      '  8:1   warning  Unexpected console statement             no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ), { cwd: '/work/app' });
+
+    expect(errors).toEqual([{
+      file: 'src/components/Button.tsx',
+      line: 3,
+      column: 10,
+      message: "'x' is assigned a value but never used",
+      code: 'no-unused-vars',
+    }]);
+    expect(warnings).toEqual([{
+      file: 'src/components/Button.tsx',
+      line: 8,
+      column: 1,
+      message: 'Unexpected console statement',
+      code: 'no-console',
+    }]);
+  });
+
+  it('parses ESLint JSON output across lines', () => {
+    const json = JSON.stringify([
+      { filePath: '/work/app/src/a.ts', messages: [
+        { ruleId: 'eqeqeq', severity: 2, message: "Expected '==='", line: 4, column: 9 },
+        { ruleId: 'no-console', severity: 1, message: 'Unexpected console', line: 5, column: 1 },
+      ] },
+    ], null, 2);
+    const { errors, warnings } = collect(json + '\n', { cwd: '/work/app' });
+
+    expect(errors).toEqual([{ file: 'src/a.ts', line: 4, column: 9, code: 'eqeqeq', message: "Expected '==='" }]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('parses pretty-printed ESLint JSON once, at the closing bracket', () => {
+    const results = Array.from({ length: 50 }, (_, i) => ({
+      filePath: `/work/app/src/f${i}.ts`,
+      messages: [{ ruleId: 'eqeqeq', severity: 2, message: "Expected '==='", line: i + 1, column: 1 }],
+      usedDeprecatedRules: [],
+    }));
+    const parse = vi.spyOn(JSON, 'parse');
+    try {
+      const { errors } = collect(JSON.stringify(results, null, 2) + '\n', { cwd: '/work/app' });
+
+      expect(errors).toHaveLength(50);
+      expect(parse).toHaveBeenCalledTimes(1);
+    } finally {
+      parse.mockRestore();
+    }
+  });
+
+  it('parses single-line ESLint JSON output', () => {
+    const json = JSON.stringify([
+      { filePath: '/work/app/src/a.ts', messages: [{ ruleId: 'eqeqeq', severity: 2, message: 'x', line: 1, column: 2 }] },
+    ]);
+
+    expect(collect(json + '\n', { cwd: '/work/app' }).errors).toEqual([
+      { file: 'src/a.ts', line: 1, column: 2, code: 'eqeqeq', message: 'x' },
+    ]);
+  });
+
+  it('parses Jest failures with their stack location', () => {
+    const { errors } = collect(lines(
+      '  ● Button › renders the label',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '      at Object.<anonymous> (node_modules/expect/build/index.js:1:1)',
+      '      at Object.<anonymous> (src/Button.test.tsx:14:33)',
+      '',
+      '  ● Console',
+      '',
+      '    console.log',
+      '      at log (src/Button.tsx:3:11)',
+    ));
+
+    expect(errors).toEqual([{
+      file: 'src/Button.test.tsx',
+      line: 14,
+      column: 33,
+      message: 'Button › renders the label: expect(received).toBe(expected) // Object.is equality',
+    }]);
+  });
+
+  it('parses Vitest failures', () => {
+    const { errors } = collect(lines(
+      ' FAIL  src/math.test.ts > add > sums numbers',
+      'AssertionError: expected 3 to be 4 // Object.is equality',
+      '',
+      ' ❯ src/math.test.ts:5:19',
+    ));
+
+    expect(errors).toEqual([{
+      file: 'src/math.test.ts',
+      line: 5,
+      column: 19,
+      message: 'add > sums numbers: AssertionError: expected 3 to be 4 // Object.is equality',
+    }]);
+  });
+
+  it('parses flutter analyze in both styles', () => {
+    const { errors, warnings } = collect(lines(
+      "  error • Undefined name 'foo' • lib/main.dart:10:5 • undefined_identifier",
+      "warning - lib/home.dart:3:8 - Unused import: 'dart:async'. - unused_import",
+      "lib/main.dart:20:3: Error: Expected ';' after this.",
+    ));
+
+    expect(errors).toEqual([
+      { file: 'lib/main.dart', line: 10, column: 5, code: 'undefined_identifier', message: "Undefined name 'foo'" },
+      { file: 'lib/main.dart', line: 20, column: 3, message: "Expected ';' after this." },
+    ]);
+    expect(warnings).toEqual([
+      { file: 'lib/home.dart', line: 3, column: 8, code: 'unused_import', message: "Unused import: 'dart:async'." },
+    ]);
+  });
+
+  it('parses Cargo human and JSON output', () => {
+    const jsonLine = JSON.stringify({
+      reason: 'compiler-message',
+      message: {
+        level: 'warning',
+        message: 'unused variable: `y`',
+        code: { code: 'unused_variables' },
+        spans: [{ is_primary: true, file_name: 'src/lib.rs', line_start: 7, column_start: 9 }],
+      },
+    });
+    const { errors, warnings } = collect(lines(
+      'error[E0425]: cannot find value `x` in this scope',
+      ' --> src/main.rs:2:5',
+      '  |',
+      'error: aborting due to 1 previous error',
+      jsonLine,
+    ));
+
+    expect(errors).toEqual([
+      { file: 'src/main.rs', line: 2, column: 5, code: 'E0425', message: 'cannot find value `x` in this scope' },
+    ]);
+    expect(warnings).toEqual([
+      { file: 'src/lib.rs', line: 7, column: 9, code: 'unused_variables', message: 'unused variable: `y`' },
+    ]);
+  });
+
+  it('parses go build and go test failures', () => {
+    const { errors } = collect(lines(
+      '# example.com/app',
+      './main.go:10:5: undefined: foo',
+      '--- FAIL: TestAdd (0.00s)',
+      '    math_test.go:12: expected 4, got 3',
+      'FAIL',
+    ));
+
+    expect(errors).toEqual([
+      { file: 'main.go', line: 10, column: 5, message: 'undefined: foo' },
+      { file: 'math_test.go', line: 12, message: 'TestAdd: expected 4, got 3' },
+    ]);
+  });
+
+  it('parses pytest tracebacks and summary lines without duplicates', () => {
+    const { errors } = collect(lines(
+      '________________________________ test_add ________________________________',
+      '',
+      '    def test_add():',
+      '>       assert add(1, 2) == 4',
+      'E       assert 3 == 4',
+      '',
+      'tests/test_math.py:5: AssertionError',
+      '=========================== short test summary info ===========================',
+      'FAILED tests/test_math.py::test_add - assert 3 == 4',
+      'FAILED tests/test_io.py::test_read - FileNotFoundError: data.txt',
+    ));
+
+    expect(errors).toEqual([
+      { file: 'tests/test_math.py', line: 5, code: 'AssertionError', message: 'test_add: assert 3 == 4' },
+      { file: 'tests/test_io.py', message: 'test_read: FileNotFoundError: data.txt' },
+    ]);
+  });
+
+  it('keeps the generic Error:/Warning: patterns', () => {
+    const { errors, warnings } = collect(lines(
+      'Error: Cannot find module ./missing',
+      '[vite] Internal server Error: Failed to resolve import',
+      'WARN: deprecated option',
+    ));
+
+    expect(errors.map((e) => e.message)).toEqual(['Cannot find module ./missing', 'Failed to resolve import']);
+    expect(warnings).toEqual([{ message: 'deprecated option' }]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import {
+  createEntityMapper,
+  expandEntityId,
+  inferEntityType,
+  EntityMapper,
+} from '../entity-mapping.js';
+import type { BridgeLocalConfig } from '../types.js';
+
+function config(overrides: Partial<BridgeLocalConfig> = {}): BridgeLocalConfig {
+  return {
+    sessionId: 's1',
+    projectId: 'p1',
+    canvasTypeId: 'app-builder',
+    framework: 'react-tailwind',
+    userId: 'u1',
+    linkedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('expandEntityId()', () => {
+  it('substitutes path placeholders', () => {
+    expect(expandEntityId('{dir}/{name}.{ext}', 'src/pages/home.tsx', 'f1')).toBe('src/pages/home.tsx');
+    expect(expandEntityId('{parent}-{name}', 'lib/screens/login.dart', 'f1')).toBe('screens-login');
+  });
+
+  it('drops empty directory segments for root files', () => {
+    expect(expandEntityId('{dir}/{name}', 'index.html', 'f1')).toBe('index');
+  });
+
+  it('falls back to the file ID when the template expands to nothing', () => {
+    expect(expandEntityId('{dir}', 'index.html', 'f1')).toBe('f1');
+  });
+
+  it('names index files after their directory with {module}', () => {
+    expect(expandEntityId('{module}', 'src/components/Button/index.tsx', 'f1')).toBe('Button');
+    expect(expandEntityId('{module}', 'src/components/Card.tsx', 'f1')).toBe('Card');
+    expect(expandEntityId('{module}', 'index.ts', 'f1')).toBe('index');
+  });
+
+  it('leaves unknown placeholders as-is', () => {
+    expect(expandEntityId('{nope}', 'a.ts', 'f1')).toBe('{nope}');
+  });
+});
+
+describe('createEntityMapper()', () => {
+  it('applies the framework preset', () => {
+    const mapper = createEntityMapper(config({ framework: 'nextjs' }));
+
+    expect(mapper.map('app/dashboard/page.tsx', 'text/typescript', 'f1')).toEqual({
+      entityType: 'screen',
+      entityId: 'app/dashboard',
+    });
+    expect(mapper.map('app/api/users/route.ts', 'text/typescript', 'f1')).toEqual({
+      entityType: 'apiSpec',
+      entityId: 'app/api/users',
+    });
+    expect(mapper.map('src/components/Button.tsx', 'text/typescript', 'f1')).toEqual({
+      entityType: 'component',
+      entityId: 'Button',
+    });
+  });
+
+  it('gives index files distinct IDs and skips tests and stories', () => {
+    const mapper = createEntityMapper(config());
+
+    expect(mapper.map('src/components/Button/index.tsx', 'text/typescript', 'f1').entityId).toBe('Button');
+    expect(mapper.map('src/components/Card/index.tsx', 'text/typescript', 'f2').entityId).toBe('Card');
+    expect(mapper.map('src/components/Button/Button.test.tsx', 'text/typescript', 'f3')).toEqual({
+      entityType: 'component',
+      entityId: 'f3',
+    });
+    expect(mapper.map('src/components/Button.stories.tsx', 'text/typescript', 'f4').entityId).toBe('f4');
+  });
+
+  it('anchors flutter rules to lib/', () => {
+    const mapper = createEntityMapper(config({ framework: 'flutter' }));
+
+    expect(mapper.map('lib/screens/login_screen.dart', 'application/octet-stream', 'f1')).toEqual({
+      entityType: 'screen',
+      entityId: 'login_screen',
+    });
+    expect(mapper.map('lib/widgets/card.dart', 'application/octet-stream', 'f1').entityType).toBe('component');
+  });
+
+  it('checks custom rules before the preset', () => {
+    const mapper = createEntityMapper(config({
+      framework: 'nextjs',
+      entityMapping: {
+        rules: [{ pattern: 'app/(marketing)/**', entityType: 'screen', entityId: 'marketing-{parent}' }],
+      },
+    }));
+
+    expect(mapper.map('app/(marketing)/pricing/page.tsx', 'text/typescript', 'f1')).toEqual({
+      entityType: 'screen',
+      entityId: 'marketing-pricing',
+    });
+  });
+
+  it('can disable the preset', () => {
+    const mapper = createEntityMapper(config({
+      framework: 'nextjs',
+      entityMapping: { preset: 'none' },
+    }));
+
+    // Heuristic fallback: no /pages/ segment, so this defaults to component
+    expect(mapper.map('app/dashboard/page.tsx', 'text/typescript', 'f1')).toEqual({
+      entityType: 'component',
+      entityId: 'f1',
+    });
+  });
+
+  it('uses the file ID when a rule has no entityId template', () => {
+    const mapper = createEntityMapper(config({
+      entityMapping: { preset: 'none', rules: [{ pattern: 'docs/**', entityType: 'config' }] },
+    }));
+
+    expect(mapper.map('docs/readme.md', 'text/markdown', 'f1')).toEqual({ entityType: 'config', entityId: 'f1' });
+  });
+
+  it('falls back to heuristics without a config', () => {
+    expect(createEntityMapper(null).map('logo.png', 'image/png', 'f1')).toEqual({
+      entityType: 'asset',
+      entityId: 'f1',
+    });
+  });
+});
+
+describe('EntityMapper', () => {
+  it('skips rules with an unknown entity type', () => {
+    const mapper = new EntityMapper([
+      { pattern: '*.ts', entityType: 'widget' as never },
+      { pattern: '*.ts', entityType: 'dataModel' },
+    ]);
+
+    expect(mapper.map('a.ts', 'text/typescript', 'f1').entityType).toBe('dataModel');
+  });
+});
+
+describe('inferEntityType()', () => {
+  it('recognizes common directory names', () => {
+    expect(inferEntityType('src/pages/home.tsx', 'text/typescript')).toBe('screen');
+    expect(inferEntityType('src/models/user.ts', 'text/typescript')).toBe('dataModel');
+    expect(inferEntityType('src/services/api.ts', 'text/typescript')).toBe('apiSpec');
+    expect(inferEntityType('tsconfig.json', 'application/json')).toBe('config');
+    expect(inferEntityType('public/logo.svg', 'image/svg+xml')).toBe('asset');
+  });
+});
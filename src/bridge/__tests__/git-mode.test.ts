@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockGetFileSyncRecord, mockUpsertFileSyncRecord, mockReleaseTransfer } = vi.hoisted(() => ({
+  mockGetFileSyncRecord: vi.fn(),
+  mockUpsertFileSyncRecord: vi.fn(),
+  mockReleaseTransfer: vi.fn(),
+}));
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (root: string) => join(root, '.myndhyve'),
+  getFileSyncRecord: mockGetFileSyncRecord,
+  upsertFileSyncRecord: mockUpsertFileSyncRecord,
+}));
+
+vi.mock('../transfer.js', () => ({
+  readTransferContent: vi.fn(async (_sessionId: string, record: Record<string, unknown>) =>
+    Buffer.from(record.pendingContent as string)
+  ),
+  releaseTransfer: mockReleaseTransfer,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { pullRemoteChangesToBranch, pushCommittedChanges } from '../git-mode.js';
+import { hashContent } from '../hasher.js';
+import { IgnoreMatcher } from '../ignore.js';
+import type { FileChangeEvent } from '../watcher.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+let root: string;
+
+const gitConfig = { enabled: true };
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: root,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Dev',
+      GIT_AUTHOR_EMAIL: 'dev@myndhyve.com',
+      GIT_COMMITTER_NAME: 'Dev',
+      GIT_COMMITTER_EMAIL: 'dev@myndhyve.com',
+    },
+  });
+}
+
+async function commit(files: Record<string, string>, message: string): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await writeFile(join(root, path), content);
+  }
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+function remoteRecord(relativePath: string, content: string, entityId?: string): Record<string, unknown> {
+  return {
+    id: relativePath.replace(/\W/g, '_'),
+    relativePath,
+    pendingContent: content,
+    remoteHash: hashContent(Buffer.from(content)),
+    entityType: entityId ? 'component' : undefined,
+    entityId,
+  };
+}
+
+function pushAll(pushed: Array<{ event: FileChangeEvent; content: string | null }>) {
+  return pushCommittedChanges({
+    sessionId: 's1',
+    projectRoot: root,
+    git: gitConfig,
+    ignoreMatcher: new IgnoreMatcher(['.myndhyve/**']),
+    push: async (event, content) => {
+      pushed.push({ event, content: content?.toString() ?? null });
+    },
+  });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('bridge git mode', () => {
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'bridge-git-'));
+    git('init', '-q', '-b', 'main');
+    await commit({ 'app.ts': 'v1\n' }, 'initial');
+    mockGetFileSyncRecord.mockReset().mockResolvedValue(null);
+    mockUpsertFileSyncRecord.mockReset();
+    mockReleaseTransfer.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('pullRemoteChangesToBranch', () => {
+    it('commits remote changes to the remote branch, not the working tree', async () => {
+      const result = await pullRemoteChangesToBranch('s1', root, gitConfig, [
+        remoteRecord('app.ts', 'remote\n', 'cmp-1'),
+        remoteRecord('new.ts', 'new\n'),
+      ]);
+
+      expect(result).toEqual({ filesWritten: 2, conflicts: 0 });
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v1\n');
+      expect(git('show', 'myndhyve/remote:app.ts')).toBe('remote\n');
+
+      const message = git('log', '-1', '--format=%an%n%B', 'myndhyve/remote');
+      expect(message).toContain('MyndHyve Bridge');
+      expect(message).toContain('MyndHyve: sync 2 remote change(s)');
+      expect(message).toContain('- app.ts  component:cmp-1');
+      expect(message).toContain('MyndHyve-Session: s1');
+
+      expect(mockUpsertFileSyncRecord).toHaveBeenCalledWith('s1', 'app_ts', expect.objectContaining({
+        syncStatus: 'synced',
+        pendingSource: null,
+      }));
+      expect(mockReleaseTransfer).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the bridge directory out of git status', async () => {
+      await pullRemoteChangesToBranch('s1', root, gitConfig, [remoteRecord('app.ts', 'remote\n')]);
+      expect(git('status', '--porcelain')).toBe('');
+    });
+  });
+
+  describe('pushCommittedChanges', () => {
+    it('records HEAD on first run without pushing history', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      const summary = await pushAll(pushed);
+
+      expect(summary.pushed).toBe(0);
+      expect(pushed).toEqual([]);
+    });
+
+    it('pushes committed content, not the working tree', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      await pushAll(pushed);
+
+      await commit({ 'app.ts': 'v2\n' }, 'edit');
+      await writeFile(join(root, 'app.ts'), 'uncommitted\n');
+
+      const summary = await pushAll(pushed);
+      expect(summary.pushed).toBe(1);
+      expect(pushed[0].event).toMatchObject({ relativePath: 'app.ts', changeType: 'added' });
+      expect(pushed[0].content).toBe('v2\n');
+
+      // Nothing new committed
+      expect((await pushAll(pushed)).pushed).toBe(0);
+    });
+
+    it('pushes deletions of tracked files', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      await pushAll(pushed);
+      mockGetFileSyncRecord.mockResolvedValue({ baseHash: hashContent(Buffer.from('v1\n')) });
+
+      git('rm', '-q', 'app.ts');
+      git('commit', '-q', '-m', 'remove');
+
+      await pushAll(pushed);
+      expect(pushed[0].event).toMatchObject({ relativePath: 'app.ts', changeType: 'deleted', hash: null });
+    });
+
+    it('retries instead of pushing a deletion when git cannot read a file', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      await pushAll(pushed);
+      await commit({ 'app.ts': 'v2\n' }, 'edit');
+
+      // Lose the blob so `git show` fails while the tree still lists the file
+      const blob = git('rev-parse', 'HEAD:app.ts').trim();
+      await rm(join(root, '.git', 'objects', blob.slice(0, 2), blob.slice(2)));
+
+      const summary = await pushAll(pushed);
+      expect(pushed).toEqual([]);
+      expect(summary.deferred).toEqual(['app.ts']);
+    });
+
+    it('holds back files with unmerged remote changes until the branch is merged', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      await pushAll(pushed);
+      await pullRemoteChangesToBranch('s1', root, gitConfig, [remoteRecord('app.ts', 'remote\n')]);
+
+      await commit({ 'app.ts': 'local\n' }, 'stale edit');
+      const held = await pushAll(pushed);
+      expect(held.deferred).toEqual(['app.ts']);
+      expect(pushed).toEqual([]);
+
+      git('merge', '-q', '-X', 'theirs', 'myndhyve/remote', '-m', 'merge remote');
+      await commit({ 'app.ts': 'remote + local\n' }, 'resolve');
+
+      const released = await pushAll(pushed);
+      expect(released.deferred).toEqual([]);
+      expect(pushed.map((p) => p.content)).toEqual(['remote + local\n']);
+    });
+
+    it('skips files whose committed content is already the synced version', async () => {
+      const pushed: Array<{ event: FileChangeEvent; content: string | null }> = [];
+      await pushAll(pushed);
+      await pullRemoteChangesToBranch('s1', root, gitConfig, [remoteRecord('app.ts', 'remote\n')]);
+      mockGetFileSyncRecord.mockResolvedValue({ baseHash: hashContent(Buffer.from('remote\n')) });
+
+      git('merge', '-q', 'myndhyve/remote');
+      const summary = await pushAll(pushed);
+
+      expect(summary.pushed).toBe(0);
+      expect(pushed).toEqual([]);
+    });
+  });
+});
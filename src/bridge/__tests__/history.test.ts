@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockReadLocalConfig } = vi.hoisted(() => ({
+  mockReadLocalConfig: vi.fn(),
+}));
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (root: string) => join(root, '.myndhyve'),
+  readLocalConfig: mockReadLocalConfig,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { listHistory, pruneHistory, readSnapshot, restoreFile, snapshotFile } from '../history.js';
+import type { HistoryRetention } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+let root: string;
+
+function useRetention(history: HistoryRetention | undefined): void {
+  mockReadLocalConfig.mockResolvedValue({ sessionId: 's1', history });
+}
+
+async function objectCount(): Promise<number> {
+  return (await readdir(join(root, '.myndhyve', 'history', 'objects')).catch(() => [])).length;
+}
+
+/** Overwrite a file and snapshot the previous version, as a pull would */
+async function overwrite(relativePath: string, content: string): Promise<void> {
+  await snapshotFile(root, relativePath, 'pull');
+  await writeFile(join(root, relativePath), content);
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('bridge history', () => {
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'bridge-history-'));
+    mockReadLocalConfig.mockReset();
+    useRetention(undefined);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('snapshotFile', () => {
+    it('saves the current content and skips duplicates', async () => {
+      await writeFile(join(root, 'app.ts'), 'v1');
+
+      const entry = await snapshotFile(root, 'app.ts', 'pull');
+      expect(entry).toMatchObject({ relativePath: 'app.ts', size: 2, reason: 'pull' });
+      expect(await snapshotFile(root, 'app.ts', 'merge')).toBeNull();
+
+      const entries = await listHistory(root, 'app.ts');
+      expect(entries).toHaveLength(1);
+      expect((await readSnapshot(root, entries[0]))?.toString()).toBe('v1');
+    });
+
+    it('is a no-op for files that do not exist yet', async () => {
+      expect(await snapshotFile(root, 'new.ts', 'pull')).toBeNull();
+      expect(await listHistory(root, 'new.ts')).toEqual([]);
+    });
+
+    it('is a no-op when history is disabled', async () => {
+      useRetention({ enabled: false });
+      await writeFile(join(root, 'app.ts'), 'v1');
+
+      expect(await snapshotFile(root, 'app.ts', 'pull')).toBeNull();
+      expect(await objectCount()).toBe(0);
+    });
+
+    it('lists snapshots newest first, per file', async () => {
+      await writeFile(join(root, 'a.ts'), 'a1');
+      await writeFile(join(root, 'b.ts'), 'b1');
+      await overwrite('a.ts', 'a2');
+      await overwrite('b.ts', 'b2');
+      await overwrite('a.ts', 'a3');
+
+      const entries = await listHistory(root, 'a.ts');
+      const contents = await Promise.all(entries.map((e) => readSnapshot(root, e)));
+      expect(contents.map(String)).toEqual(['a2', 'a1']);
+    });
+  });
+
+  describe('retention', () => {
+    it('keeps at most maxVersions per file and deletes dropped blobs', async () => {
+      useRetention({ maxVersions: 2 });
+      await writeFile(join(root, 'app.ts'), 'v1');
+      await overwrite('app.ts', 'v2');
+      await overwrite('app.ts', 'v3');
+      await overwrite('app.ts', 'v4');
+
+      const entries = await listHistory(root, 'app.ts');
+      const contents = await Promise.all(entries.map((e) => readSnapshot(root, e)));
+      expect(contents.map(String)).toEqual(['v3', 'v2']);
+      expect(await objectCount()).toBe(2);
+    });
+
+    it('drops snapshots older than maxAgeDays', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      await writeFile(join(root, 'app.ts'), 'old');
+      await overwrite('app.ts', 'new');
+
+      vi.setSystemTime(new Date('2026-01-10T00:00:00Z'));
+      expect(await pruneHistory(root, { maxAgeDays: 7 })).toBe(1);
+      expect(await listHistory(root, 'app.ts')).toEqual([]);
+      expect(await objectCount()).toBe(0);
+    });
+  });
+
+  describe('restoreFile', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+      await writeFile(join(root, 'app.ts'), 'v1');
+      vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+      await overwrite('app.ts', 'v2');
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      await overwrite('app.ts', 'v3');
+    });
+
+    it('restores the newest snapshot by default and snapshots the current content', async () => {
+      const result = await restoreFile(root, 'app.ts');
+
+      expect(result.changed).toBe(true);
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v2');
+
+      const [latest] = await listHistory(root, 'app.ts');
+      expect(latest.reason).toBe('restore');
+      expect((await readSnapshot(root, latest))?.toString()).toBe('v3');
+    });
+
+    it('restores the version the file had at --at', async () => {
+      await restoreFile(root, 'app.ts', { at: new Date('2026-01-01T11:30:00Z') });
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v2');
+
+      await restoreFile(root, 'app.ts', { at: new Date('2026-01-01T10:30:00Z') });
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v1');
+    });
+
+    it('leaves the file alone when --at is after the newest snapshot', async () => {
+      const result = await restoreFile(root, 'app.ts', { at: new Date('2026-01-01T12:30:00Z') });
+
+      expect(result).toEqual({ entry: null, changed: false });
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v3');
+    });
+
+    it('restores a snapshot by hash prefix', async () => {
+      const [, oldest] = await listHistory(root, 'app.ts');
+      await restoreFile(root, 'app.ts', { hash: oldest.hash.slice(0, 8) });
+      expect(await readFile(join(root, 'app.ts'), 'utf-8')).toBe('v1');
+    });
+
+    it('reports no change when the file already matches', async () => {
+      await writeFile(join(root, 'app.ts'), 'v2');
+      const result = await restoreFile(root, 'app.ts');
+
+      expect(result.changed).toBe(false);
+      expect(await listHistory(root, 'app.ts')).toHaveLength(2);
+    });
+
+    it('rejects when nothing matches', async () => {
+      await expect(restoreFile(root, 'other.ts')).rejects.toThrow('No snapshots of other.ts');
+      await expect(restoreFile(root, 'app.ts', { hash: 'zzzz' })).rejects.toThrow('matches zzzz');
+    });
+  });
+});
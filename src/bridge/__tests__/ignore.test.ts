@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { IgnoreMatcher, createIgnoreMatcher } from '../ignore.js';
+import { DEFAULT_IGNORE_PATTERNS } from '../types.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('IgnoreMatcher', () => {
+  it('matches unanchored patterns at any depth', () => {
+    const matcher = new IgnoreMatcher(['*.log', 'secret.txt']);
+
+    expect(matcher.isIgnored('debug.log')).toBe(true);
+    expect(matcher.isIgnored('logs/deep/debug.log')).toBe(true);
+    expect(matcher.isIgnored('src/secret.txt')).toBe(true);
+    expect(matcher.isIgnored('src/secret.txt.bak')).toBe(false);
+  });
+
+  it('anchors patterns with a leading or middle slash', () => {
+    const matcher = new IgnoreMatcher(['/todo.md', 'docs/*.html']);
+
+    expect(matcher.isIgnored('todo.md')).toBe(true);
+    expect(matcher.isIgnored('src/todo.md')).toBe(false);
+    expect(matcher.isIgnored('docs/index.html')).toBe(true);
+    expect(matcher.isIgnored('docs/api/index.html')).toBe(false);
+    expect(matcher.isIgnored('site/docs/index.html')).toBe(false);
+  });
+
+  it('matches directory-only patterns against directories and their contents', () => {
+    const matcher = new IgnoreMatcher(['build/']);
+
+    expect(matcher.isIgnored('build', true)).toBe(true);
+    expect(matcher.isIgnored('build/')).toBe(true);
+    expect(matcher.isIgnored('build')).toBe(false);
+    expect(matcher.isIgnored('packages/app/build/index.js')).toBe(true);
+  });
+
+  it('handles ** segments', () => {
+    const matcher = new IgnoreMatcher(['**/generated', 'cache/**', 'a/**/z.ts']);
+
+    expect(matcher.isIgnored('generated')).toBe(true);
+    expect(matcher.isIgnored('src/generated/types.ts')).toBe(true);
+    expect(matcher.isIgnored('cache/x/y')).toBe(true);
+    expect(matcher.isIgnored('cache', true)).toBe(false);
+    expect(matcher.isIgnored('a/z.ts')).toBe(true);
+    expect(matcher.isIgnored('a/b/c/z.ts')).toBe(true);
+    expect(matcher.isIgnored('b/a/z.ts')).toBe(false);
+  });
+
+  it('supports character classes, ranges and negated classes', () => {
+    const matcher = new IgnoreMatcher(['*.[oa]', 'v[0-9].txt', 'tmp[!x].txt']);
+
+    expect(matcher.isIgnored('main.o')).toBe(true);
+    expect(matcher.isIgnored('lib.a')).toBe(true);
+    expect(matcher.isIgnored('main.c')).toBe(false);
+    expect(matcher.isIgnored('v7.txt')).toBe(true);
+    expect(matcher.isIgnored('vx.txt')).toBe(false);
+    expect(matcher.isIgnored('tmp1.txt')).toBe(true);
+    expect(matcher.isIgnored('tmpx.txt')).toBe(false);
+  });
+
+  it('honours escapes, comments and trailing spaces', () => {
+    const matcher = new IgnoreMatcher(['# comment', '\\#notes', '\\!important', 'spaced.txt   ', 'keep\\ ']);
+
+    expect(matcher.isIgnored('# comment')).toBe(false);
+    expect(matcher.isIgnored('#notes')).toBe(true);
+    expect(matcher.isIgnored('!important')).toBe(true);
+    expect(matcher.isIgnored('spaced.txt')).toBe(true);
+    expect(matcher.isIgnored('keep ')).toBe(true);
+  });
+
+  it('re-includes with negation, except inside an excluded directory', () => {
+    const matcher = new IgnoreMatcher(['*.env', '!example.env', 'vendor/', '!vendor/keep.js']);
+
+    expect(matcher.isIgnored('prod.env')).toBe(true);
+    expect(matcher.isIgnored('example.env')).toBe(false);
+    expect(matcher.isIgnored('vendor/keep.js')).toBe(true);
+  });
+
+  it('explains which rule decided', () => {
+    const matcher = new IgnoreMatcher(['*.env', '!example.env', 'vendor/']);
+    matcher.add(['*.tmp'], { source: 'src/.gitignore', base: 'src', fromFile: true });
+
+    expect(matcher.check('example.env')).toEqual({
+      rule: { pattern: '!example.env', source: 'default', line: undefined, negated: true, directoryOnly: false },
+      matchedPath: 'example.env',
+    });
+    expect(matcher.check('vendor/lib/a.js')?.matchedPath).toBe('vendor/');
+    expect(matcher.check('src/x.tmp')?.rule).toMatchObject({ source: 'src/.gitignore', line: 1 });
+    expect(matcher.check('x.tmp')).toBeNull();
+  });
+
+  it('keeps the default directories out at any depth', () => {
+    const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+    expect(matcher.isIgnored('node_modules/react/index.js')).toBe(true);
+    expect(matcher.isIgnored('packages/web/node_modules/x.js')).toBe(true);
+    expect(matcher.isIgnored('.myndhyve/bridge.json')).toBe(true);
+    expect(matcher.isIgnored('src/index.ts')).toBe(false);
+  });
+});
+
+describe('createIgnoreMatcher', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'bridge-ignore-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('reads nested .gitignore and .myndhyveignore files relative to their directory', async () => {
+    await mkdir(join(root, 'packages', 'web'), { recursive: true });
+    await writeFile(join(root, '.gitignore'), '*.local\ncoverage/\n');
+    await writeFile(join(root, '.myndhyveignore'), 'fixtures/\n!keep.local\n');
+    await writeFile(join(root, 'packages', 'web', '.gitignore'), '/generated\n!coverage.local\n');
+
+    const matcher = await createIgnoreMatcher(root, ['*.bak']);
+
+    expect(matcher.isIgnored('a.local')).toBe(true);
+    expect(matcher.isIgnored('keep.local')).toBe(false);
+    expect(matcher.isIgnored('fixtures/data.json')).toBe(true);
+    expect(matcher.isIgnored('notes.bak')).toBe(true);
+    expect(matcher.isIgnored('packages/web/generated/api.ts')).toBe(true);
+    expect(matcher.isIgnored('generated/api.ts')).toBe(false);
+    expect(matcher.isIgnored('packages/web/coverage.local')).toBe(false);
+    expect(matcher.check('packages/web/generated/api.ts')?.rule).toMatchObject({
+      source: 'packages/web/.gitignore',
+      line: 1,
+    });
+  });
+
+  it('does not look for ignore files inside ignored directories', async () => {
+    await mkdir(join(root, 'node_modules', 'pkg'), { recursive: true });
+    await writeFile(join(root, 'node_modules', 'pkg', '.gitignore'), '!*\n');
+
+    const matcher = await createIgnoreMatcher(root);
+    expect(matcher.check('node_modules/pkg/index.js')?.rule.source).toBe('default');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../session.js', () => ({
+  getBridgeDir: (projectRoot: string) => join(projectRoot, '.myndhyve'),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+import {
+  appendJournal,
+  readJournal,
+  replayJournal,
+  getJournalPath,
+  MAX_JOURNAL_ATTEMPTS,
+} from '../journal.js';
+import type { FileChangeEvent } from '../watcher.js';
+
+function change(relativePath: string, hash: string | null = `h-${relativePath}`): FileChangeEvent {
+  return {
+    relativePath,
+    changeType: hash ? 'modified' : 'deleted',
+    hash,
+    fileSize: hash ? 10 : 0,
+    mimeType: 'text/plain',
+  };
+}
+
+describe('bridge push journal', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-journal-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('returns an empty journal when none exists', async () => {
+    expect(await readJournal(root)).toEqual([]);
+  });
+
+  it('appends changes in order', async () => {
+    await appendJournal(root, change('a.ts'));
+    await appendJournal(root, change('b.ts'));
+
+    const entries = await readJournal(root);
+    expect(entries.map((e) => e.relativePath)).toEqual(['a.ts', 'b.ts']);
+    expect(entries[0].attempts).toBe(0);
+  });
+
+  it('drops a change with the same hash as the queued entry', async () => {
+    await appendJournal(root, change('a.ts', 'h1'));
+    await appendJournal(root, change('b.ts'));
+    await appendJournal(root, change('a.ts', 'h1'));
+
+    expect((await readJournal(root)).map((e) => e.relativePath)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('supersedes a queued entry when the file changes again', async () => {
+    await appendJournal(root, change('a.ts', 'h1'));
+    await appendJournal(root, change('b.ts'));
+    await appendJournal(root, change('a.ts', 'h2'));
+
+    const entries = await readJournal(root);
+    expect(entries.map((e) => [e.relativePath, e.hash])).toEqual([['b.ts', 'h-b.ts'], ['a.ts', 'h2']]);
+  });
+
+  it('skips malformed lines', async () => {
+    await appendJournal(root, change('a.ts'));
+    await writeFile(getJournalPath(root), '{not json\n', { flag: 'a' });
+
+    expect(await readJournal(root)).toHaveLength(1);
+  });
+
+  it('replays entries in order and empties the journal', async () => {
+    await appendJournal(root, change('a.ts'));
+    await appendJournal(root, change('b.ts', null));
+
+    const pushed: string[] = [];
+    const result = await replayJournal(root, async (event) => {
+      pushed.push(`${event.changeType}:${event.relativePath}`);
+      expect(event).not.toHaveProperty('queuedAt');
+    });
+
+    expect(pushed).toEqual(['modified:a.ts', 'deleted:b.ts']);
+    expect(result).toEqual({ replayed: 2, dropped: 0, remaining: 0 });
+    expect(await readJournal(root)).toEqual([]);
+  });
+
+  it('stops at the first failure and records the attempt', async () => {
+    await appendJournal(root, change('a.ts'));
+    await appendJournal(root, change('b.ts'));
+
+    const push = vi.fn().mockRejectedValueOnce(new Error('fetch failed'));
+    const result = await replayJournal(root, push);
+
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ replayed: 0, dropped: 0, remaining: 2 });
+    expect((await readJournal(root))[0].attempts).toBe(1);
+  });
+
+  it('drops an entry after repeated failures and continues', async () => {
+    await appendJournal(root, change('a.ts'));
+    await appendJournal(root, change('b.ts'));
+
+    const failing = vi.fn().mockRejectedValue(new Error('PERMISSION_DENIED'));
+    for (let i = 0; i < MAX_JOURNAL_ATTEMPTS - 1; i++) {
+      await replayJournal(root, failing);
+    }
+
+    const push = vi.fn()
+      .mockRejectedValueOnce(new Error('PERMISSION_DENIED'))
+      .mockResolvedValue(undefined);
+    const result = await replayJournal(root, push);
+
+    expect(result).toEqual({ replayed: 1, dropped: 1, remaining: 0 });
+    expect(push).toHaveBeenLastCalledWith(expect.objectContaining({ relativePath: 'b.ts' }));
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+vi.mock('../session.js', async () => {
+  const { join: joinPath } = await import('node:path');
+  return { getBridgeDir: (root: string) => joinPath(root, '.myndhyve') };
+});
+
+vi.mock('../mcp-server.js', async () => {
+  const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+  return {
+    createMCPServer: () => {
+      const server = new McpServer({ name: 'myndhyve-test', version: '0.0.0' });
+      server.registerTool('ping', { description: 'Ping' }, async () => ({
+        content: [{ type: 'text' as const, text: 'pong' }],
+      }));
+      return server;
+    },
+  };
+});
+
+vi.mock('../design-feed.js', () => ({
+  DesignChangeFeed: class {
+    start() {}
+    stop() {}
+  },
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { startMCPHttpServer, resolveMCPToken, getMCPTokenPath, type MCPHttpServer } from '../mcp-http.js';
+import type { BridgeLocalConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const TOKEN = 'test-token';
+
+const config: BridgeLocalConfig = {
+  sessionId: 'sess-1',
+  projectId: 'proj-1',
+  canvasTypeId: 'app-builder',
+  framework: 'react-tailwind',
+  userId: 'user-1',
+  linkedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+function post(server: MCPHttpServer, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(server.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('startMCPHttpServer()', () => {
+  let server: MCPHttpServer;
+
+  beforeEach(async () => {
+    server = await startMCPHttpServer('/project', config, { port: 0, token: TOKEN });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('listens on localhost', () => {
+    expect(server.url).toBe(`http://127.0.0.1:${server.port}/mcp`);
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const missing = await post(server, initializeRequest, { Authorization: '' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await post(server, initializeRequest, { Authorization: 'Bearer nope' });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('opens a session on initialize and serves tools within it', async () => {
+    const init = await post(server, initializeRequest);
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    await init.text();
+    expect(server.sessionCount).toBe(1);
+
+    const headers = { 'mcp-session-id': sessionId as string, 'mcp-protocol-version': '2025-03-26' };
+    await (await post(server, { jsonrpc: '2.0', method: 'notifications/initialized' }, headers)).text();
+
+    const list = await post(server, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers);
+    expect(list.status).toBe(200);
+    expect(await list.text()).toContain('"ping"');
+  });
+
+  it('gives each client its own session', async () => {
+    const a = await post(server, initializeRequest);
+    const b = await post(server, initializeRequest);
+    await Promise.all([a.text(), b.text()]);
+
+    expect(a.headers.get('mcp-session-id')).not.toBe(b.headers.get('mcp-session-id'));
+    expect(server.sessionCount).toBe(2);
+  });
+
+  it('rejects unknown sessions and non-initialize first requests', async () => {
+    const unknown = await post(server, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'mcp-session-id': 'nope' });
+    expect(unknown.status).toBe(404);
+
+    const noSession = await post(server, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(noSession.status).toBe(400);
+  });
+
+  it('returns 404 outside the MCP endpoint', async () => {
+    const res = await fetch(server.url.replace('/mcp', '/other'), {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('resolveMCPToken()', () => {
+  let root: string;
+  const savedEnv = process.env.MYNDHYVE_MCP_TOKEN;
+
+  beforeEach(async () => {
+    delete process.env.MYNDHYVE_MCP_TOKEN;
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-mcp-token-'));
+  });
+
+  afterEach(async () => {
+    if (savedEnv === undefined) delete process.env.MYNDHYVE_MCP_TOKEN;
+    else process.env.MYNDHYVE_MCP_TOKEN = savedEnv;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('prefers an explicit token, then the environment', async () => {
+    process.env.MYNDHYVE_MCP_TOKEN = 'from-env';
+    expect(await resolveMCPToken(root, 'explicit')).toBe('explicit');
+    expect(await resolveMCPToken(root)).toBe('from-env');
+  });
+
+  it('generates a private token file once and reuses it', async () => {
+    const first = await resolveMCPToken(root);
+    const second = await resolveMCPToken(root);
+
+    expect(first).toHaveLength(43);
+    expect(second).toBe(first);
+    expect((await readFile(getMCPTokenPath(root), 'utf-8')).trim()).toBe(first);
+    expect((await stat(getMCPTokenPath(root))).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildFixBuildErrorsPrompt, buildImplementScreenPrompt } from '../mcp-prompts.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('buildImplementScreenPrompt()', () => {
+  const screen = { id: 'signup', name: 'Sign Up', route: '/signup', components: [{ type: 'Form' }] };
+
+  it('includes the screen design, theme and framework', () => {
+    const text = buildImplementScreenPrompt({
+      screen,
+      theme: { colors: { primary: '#4f46e5' } },
+      framework: 'nextjs',
+    });
+
+    expect(text).toContain('Implement the "Sign Up" screen (route /signup) in this nextjs project.');
+    expect(text).toContain('"type": "Form"');
+    expect(text).toContain('## Theme');
+    expect(text).toContain('"primary": "#4f46e5"');
+  });
+
+  it('says so when the project has no theme', () => {
+    const text = buildImplementScreenPrompt({ screen, theme: null, framework: 'react-tailwind' });
+    expect(text).toContain('No theme is defined for this project');
+    expect(text).not.toContain('## Theme');
+  });
+});
+
+describe('buildFixBuildErrorsPrompt()', () => {
+  it('lists errors with their locations', () => {
+    const text = buildFixBuildErrorsPrompt({
+      id: 'b1',
+      command: 'npm run build',
+      status: 'failed',
+      warningCount: 2,
+      errors: [
+        { file: 'src/App.tsx', line: 12, column: 5, code: 'TS2322', message: 'Type mismatch' },
+        { message: 'Command failed' },
+      ],
+    });
+
+    expect(text).toContain('Build b1 (`npm run build`) finished with status "failed".');
+    expect(text).toContain('Fix these 2 error(s) (plus 2 warning(s), if they are related):');
+    expect(text).toContain('- src/App.tsx:12:5 [TS2322] Type mismatch');
+    expect(text).toContain('- (no file) Command failed');
+  });
+
+  it('caps the number of listed errors', () => {
+    const errors = Array.from({ length: 35 }, (_, i) => ({ file: 'a.ts', line: i + 1, message: `e${i}` }));
+    const text = buildFixBuildErrorsPrompt({ id: 'b1', command: 'tsc', status: 'failed', errors });
+
+    expect(text).toContain('- a.ts:30 e29');
+    expect(text).not.toContain('e30');
+    expect(text).toContain('…and 5 more');
+  });
+
+  it('reports a clean build', () => {
+    const text = buildFixBuildErrorsPrompt({ id: 'b2', command: 'npm test', status: 'success', errors: [] });
+    expect(text).toContain('nothing to fix');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, matchLines, isTextContent, unifiedDiff } from '../merge.js';
+
+const lines = (...l: string[]) => l.join('\n');
+
+describe('mergeThreeWay()', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e');
+
+  it('takes the remote side when local is unchanged', () => {
+    const remote = lines('a', 'B', 'c', 'd', 'e');
+    expect(mergeThreeWay(base, base, remote)).toEqual({ clean: true, merged: remote, conflicts: [] });
+  });
+
+  it('takes the local side when remote is unchanged', () => {
+    const local = lines('a', 'b', 'c', 'D', 'e');
+    expect(mergeThreeWay(base, local, base).merged).toBe(local);
+  });
+
+  it('treats identical edits on both sides as clean', () => {
+    const edited = lines('a', 'x', 'c', 'd', 'e');
+    const result = mergeThreeWay(base, edited, edited);
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(edited);
+  });
+
+  it('merges non-overlapping edits from both sides', () => {
+    const local = lines('a', 'B', 'c', 'd', 'e');
+    const remote = lines('a', 'b', 'c', 'd', 'E');
+    const result = mergeThreeWay(base, local, remote);
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(lines('a', 'B', 'c', 'd', 'E'));
+  });
+
+  it('merges an insertion on one side with an edit on the other', () => {
+    const local = lines('a', 'b', 'inserted', 'c', 'd', 'e');
+    const remote = lines('A', 'b', 'c', 'd', 'e');
+    const result = mergeThreeWay(base, local, remote);
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(lines('A', 'b', 'inserted', 'c', 'd', 'e'));
+  });
+
+  it('merges a deletion on one side with an edit elsewhere', () => {
+    const local = lines('a', 'c', 'd', 'e');
+    const remote = lines('a', 'b', 'c', 'd', 'E');
+    const result = mergeThreeWay(base, local, remote);
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(lines('a', 'c', 'd', 'E'));
+  });
+
+  it('reports a conflict when both sides change the same line', () => {
+    const local = lines('a', 'local', 'c', 'd', 'e');
+    const remote = lines('a', 'remote', 'c', 'd', 'e');
+    const result = mergeThreeWay(base, local, remote);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([
+      { baseStart: 2, baseLines: ['b'], localLines: ['local'], remoteLines: ['remote'] },
+    ]);
+    expect(result.merged).toBe(
+      lines('a', '<<<<<<< local', 'local', '||||||| base', 'b', '=======', 'remote', '>>>>>>> remote', 'c', 'd', 'e')
+    );
+  });
+
+  it('reports a conflict when both sides append different lines', () => {
+    const result = mergeThreeWay(lines('a'), lines('a', 'x'), lines('a', 'y'));
+    expect(result.clean).toBe(false);
+    expect(result.conflicts[0].localLines).toEqual(['x']);
+    expect(result.conflicts[0].remoteLines).toEqual(['y']);
+  });
+
+  it('preserves trailing newlines', () => {
+    const result = mergeThreeWay('a\nb\nc\n', 'A\nb\nc\n', 'a\nb\nC\n');
+    expect(result.merged).toBe('A\nb\nC\n');
+  });
+
+  it('reports the whole file as one conflict when the sides diverge too far', () => {
+    const numbered = (prefix: string) => Array.from({ length: 3_000 }, (_, i) => `${prefix}${i}`);
+    const diverged = numbered('b');
+    const rewritten = numbered('l');
+    const remote = [...diverged];
+    remote[0] = 'remote';
+
+    const result = mergeThreeWay(diverged.join('\n'), rewritten.join('\n'), remote.join('\n'));
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([
+      { baseStart: 1, baseLines: diverged, localLines: rewritten, remoteLines: remote },
+    ]);
+  });
+});
+
+describe('matchLines()', () => {
+  it('maps unchanged lines and marks deletions with -1', () => {
+    expect(matchLines(['a', 'b', 'c'], ['a', 'c'])).toEqual([0, -1, 1]);
+  });
+
+  it('accounts for insertions', () => {
+    expect(matchLines(['a', 'b'], ['x', 'a', 'y', 'b'])).toEqual([1, 3]);
+  });
+
+  it('handles completely different content', () => {
+    expect(matchLines(['a', 'b'], ['x', 'y'])).toEqual([-1, -1]);
+  });
+
+  it('treats the differing middle as replaced past the edit limit', () => {
+    const base = ['head', ...Array.from({ length: 3_000 }, (_, i) => `b${i}`), 'tail'];
+    const other = ['head', ...Array.from({ length: 3_000 }, (_, i) => `o${i}`), 'tail'];
+    const match = matchLines(base, other);
+
+    expect(match[0]).toBe(0);
+    expect(match[3_001]).toBe(3_001);
+    expect(match.slice(1, 3_001).every((m) => m === -1)).toBe(true);
+  });
+});
+
+describe('isTextContent()', () => {
+  it('accepts plain text', () => {
+    expect(isTextContent(Buffer.from('export const a = 1;\n'))).toBe(true);
+  });
+
+  it('rejects content with NUL bytes', () => {
+    expect(isTextContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toBe(false);
+  });
+});
+
+describe('unifiedDiff()', () => {
+  it('returns an empty string for identical input', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('renders a hunk with context', () => {
+    const diff = unifiedDiff(lines('a', 'b', 'c'), lines('a', 'B', 'c'), { fromLabel: 'base', toLabel: 'local' });
+    expect(diff).toBe(lines('--- base', '+++ local', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = lines('1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12');
+    const after = lines('one', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', 'twelve');
+    const diff = unifiedDiff(before, after, { context: 1 });
+    expect(diff.split('\n').filter((l) => l.startsWith('@@'))).toEqual([
+      '@@ -1,2 +1,2 @@',
+      '@@ -11,2 +11,2 @@',
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { AdaptivePoller } from '../poller.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('AdaptivePoller', () => {
+  let task: ReturnType<typeof vi.fn<() => Promise<boolean>>>;
+  let poller: AdaptivePoller;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    task = vi.fn(async () => false);
+    poller = new AdaptivePoller('Test', task, { minIntervalMs: 1_000, maxIntervalMs: 8_000 });
+  });
+
+  afterEach(() => {
+    poller.stop();
+    vi.useRealTimers();
+  });
+
+  it('backs off while idle up to the ceiling', async () => {
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(poller.intervalMs).toBe(2_000);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    await vi.advanceTimersByTimeAsync(4_000);
+    await vi.advanceTimersByTimeAsync(8_000);
+    expect(task).toHaveBeenCalledTimes(4);
+    expect(poller.intervalMs).toBe(8_000);
+  });
+
+  it('returns to the minimum interval after finding work', async () => {
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+    expect(poller.intervalMs).toBe(4_000);
+
+    task.mockResolvedValueOnce(true);
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(poller.intervalMs).toBe(1_000);
+  });
+
+  it('treats task errors as idle polls', async () => {
+    task.mockRejectedValueOnce(new Error('offline'));
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(poller.intervalMs).toBe(2_000);
+  });
+
+  it('runs immediately on trigger', async () => {
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    poller.trigger();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('queues one extra run when triggered mid-poll', async () => {
+    let release: (() => void) | undefined;
+    task.mockImplementationOnce(() => new Promise((resolve) => {
+      release = () => resolve(false);
+    }));
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    poller.trigger();
+    poller.trigger();
+    release?.();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('reschedules a distant poll on reset', async () => {
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000 + 4_000);
+    expect(poller.intervalMs).toBe(8_000);
+
+    poller.reset();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops polling when stopped', async () => {
+    poller.start();
+    poller.stop();
+    poller.trigger();
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockListFileSyncRecords, mockPullRemoteChanges, vanished } = vi.hoisted(() => ({
+  mockListFileSyncRecords: vi.fn(),
+  mockPullRemoteChanges: vi.fn(),
+  vanished: new Set<string>(),
+}));
+
+// Paths in `vanished` disappear between readdir and stat
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  return {
+    ...actual,
+    stat: vi.fn(async (path: string) => {
+      if ([...vanished].some((name) => path.endsWith(name))) {
+        throw Object.assign(new Error(`ENOENT: no such file, stat '${path}'`), { code: 'ENOENT' });
+      }
+      return actual.stat(path);
+    }),
+  };
+});
+
+vi.mock('../session.js', () => ({
+  listFileSyncRecords: mockListFileSyncRecords,
+}));
+
+vi.mock('../sync.js', () => ({
+  pullRemoteChanges: mockPullRemoteChanges,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { reconcileProject, formatReconcileSummary } from '../reconcile.js';
+import { IgnoreMatcher } from '../ignore.js';
+import { hashContent } from '../hasher.js';
+import { DEFAULT_IGNORE_PATTERNS } from '../types.js';
+import type { FileChangeEvent } from '../watcher.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('reconcileProject()', () => {
+  let root: string;
+  let pushed: FileChangeEvent[];
+  const push = async (event: FileChangeEvent) => {
+    pushed.push(event);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vanished.clear();
+    pushed = [];
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-reconcile-'));
+    mockPullRemoteChanges.mockResolvedValue({ filesWritten: 0, conflicts: 0 });
+    mockListFileSyncRecords.mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function reconcile() {
+    return reconcileProject({
+      sessionId: 's1',
+      projectRoot: root,
+      ignoreMatcher: new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS),
+      push,
+    });
+  }
+
+  it('pushes untracked files and skips ignored directories', async () => {
+    await mkdir(join(root, 'src'), { recursive: true });
+    await mkdir(join(root, 'node_modules', 'pkg'), { recursive: true });
+    await writeFile(join(root, 'src', 'app.ts'), 'app');
+    await writeFile(join(root, 'node_modules', 'pkg', 'index.js'), 'dep');
+
+    const summary = await reconcile();
+
+    expect(pushed).toEqual([{
+      relativePath: 'src/app.ts',
+      changeType: 'added',
+      hash: hashContent('app'),
+      fileSize: 3,
+      mimeType: 'text/typescript',
+    }]);
+    expect(summary).toMatchObject({ scanned: 1, pushed: 1, unchanged: 0 });
+  });
+
+  it('pushes files edited while the bridge was stopped', async () => {
+    await writeFile(join(root, 'a.ts'), 'edited');
+    await writeFile(join(root, 'b.ts'), 'same');
+    mockListFileSyncRecords.mockResolvedValue([
+      { id: 'fa', relativePath: 'a.ts', baseHash: hashContent('old'), localHash: hashContent('old'), syncStatus: 'synced' },
+      { id: 'fb', relativePath: 'b.ts', baseHash: hashContent('same'), localHash: hashContent('same'), syncStatus: 'synced' },
+    ]);
+
+    const summary = await reconcile();
+
+    expect(pushed.map((e) => [e.relativePath, e.changeType])).toEqual([['a.ts', 'modified']]);
+    expect(summary).toMatchObject({ scanned: 2, pushed: 1, unchanged: 1 });
+  });
+
+  it('pushes deletions for tracked files missing locally', async () => {
+    mockListFileSyncRecords.mockResolvedValue([
+      { id: 'fa', relativePath: 'gone.ts', baseHash: 'h', localHash: 'h', syncStatus: 'synced' },
+      { id: 'fb', relativePath: 'already.ts', baseHash: 'h', localHash: '', syncStatus: 'deleted' },
+    ]);
+
+    const summary = await reconcile();
+
+    expect(pushed).toEqual([expect.objectContaining({ relativePath: 'gone.ts', changeType: 'deleted', hash: null })]);
+    expect(summary.deleted).toBe(1);
+  });
+
+  it('leaves conflicted and remote-pending files alone', async () => {
+    await writeFile(join(root, 'c.ts'), 'local');
+    await writeFile(join(root, 'r.ts'), 'local');
+    mockListFileSyncRecords.mockResolvedValue([
+      { id: 'fc', relativePath: 'c.ts', baseHash: 'b', localHash: 'l', syncStatus: 'conflict' },
+      { id: 'fr', relativePath: 'r.ts', baseHash: 'b', localHash: 'l', pendingSource: 'remote' },
+    ]);
+    mockPullRemoteChanges.mockResolvedValue({ filesWritten: 2, conflicts: 1 });
+
+    const summary = await reconcile();
+
+    expect(pushed).toEqual([]);
+    expect(summary).toMatchObject({ pulled: 2, conflicts: 2 });
+  });
+
+  it('skips files removed while the tree is scanned', async () => {
+    await writeFile(join(root, 'a.ts'), 'a');
+    await writeFile(join(root, 'b.ts'), 'gone');
+    vanished.add('b.ts');
+
+    const summary = await reconcile();
+
+    expect(pushed.map((e) => e.relativePath)).toEqual(['a.ts']);
+    expect(summary.scanned).toBe(1);
+  });
+
+  it('still pushes local edits when the pull fails', async () => {
+    await writeFile(join(root, 'a.ts'), 'edited');
+    mockPullRemoteChanges.mockRejectedValue(new Error('fetch failed'));
+
+    const summary = await reconcile();
+
+    expect(pushed.map((e) => [e.relativePath, e.changeType])).toEqual([['a.ts', 'added']]);
+    expect(summary).toMatchObject({ pulled: 0, pushed: 1 });
+  });
+});
+
+describe('formatReconcileSummary()', () => {
+  it('renders a one-line summary', () => {
+    expect(formatReconcileSummary({
+      scanned: 10, pushed: 2, deleted: 1, pulled: 3, conflicts: 0, unchanged: 4,
+    })).toBe('Reconciled 10 file(s): 2 pushed, 3 pulled, 1 deleted, 0 conflict(s)');
+  });
+});
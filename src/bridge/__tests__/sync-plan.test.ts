@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockListFileSyncRecords } = vi.hoisted(() => ({
+  mockListFileSyncRecords: vi.fn(),
+}));
+
+vi.mock('../session.js', async () => {
+  const { join: joinPath } = await import('node:path');
+  return {
+    listFileSyncRecords: mockListFileSyncRecords,
+    getBridgeDir: (root: string) => joinPath(root, '.myndhyve'),
+  };
+});
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { diffFiles, planSync } from '../sync-plan.js';
+import { saveBaseContent } from '../base-store.js';
+import { hashContent } from '../hasher.js';
+import type { BridgeLocalConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const config: BridgeLocalConfig = {
+  sessionId: 'sess-1',
+  projectId: 'proj-1',
+  canvasTypeId: 'app-builder',
+  framework: 'react-tailwind',
+  userId: 'user-1',
+  linkedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const BASE = 'one\ntwo\nthree\nfour\nfive\n';
+
+function record(relativePath: string, fields: Record<string, unknown>): Record<string, unknown> {
+  return {
+    id: `id-${relativePath}`,
+    relativePath,
+    baseHash: hashContent(BASE),
+    localHash: hashContent(BASE),
+    remoteHash: hashContent(BASE),
+    syncStatus: 'synced',
+    pendingSource: null,
+    pendingContent: null,
+    transferMode: 'inline',
+    conflictId: null,
+    ...fields,
+  };
+}
+
+function remoteChange(relativePath: string, content: string): Record<string, unknown> {
+  return record(relativePath, {
+    remoteHash: hashContent(content),
+    syncStatus: 'modified-remote',
+    pendingSource: 'remote',
+    pendingContent: Buffer.from(content).toString('base64'),
+  });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('sync plan', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    root = await mkdtemp(join(tmpdir(), 'myndhyve-plan-'));
+    await mkdir(join(root, 'src'), { recursive: true });
+    await saveBaseContent(root, Buffer.from(BASE));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeLocal(relativePath: string, content: string) {
+    await writeFile(join(root, relativePath), content);
+  }
+
+  describe('planSync()', () => {
+    it('classifies each tracked file like a sync would', async () => {
+      await writeLocal('src/synced.ts', BASE);
+      await writeLocal('src/ff.ts', BASE);
+      await writeLocal('src/merge.ts', BASE.replace('one', 'ONE'));
+      await writeLocal('src/clash.ts', BASE.replace('three', 'local'));
+      await writeLocal('src/pushed.ts', 'edited\n');
+
+      mockListFileSyncRecords.mockResolvedValue([
+        record('src/synced.ts', {}),
+        remoteChange('src/ff.ts', BASE.replace('two', 'TWO')),
+        remoteChange('src/merge.ts', BASE.replace('five', 'FIVE')),
+        remoteChange('src/clash.ts', BASE.replace('three', 'remote')),
+        remoteChange('src/new.ts', 'brand new\n'),
+        record('src/pushed.ts', { localHash: hashContent('edited\n'), syncStatus: 'modified-local' }),
+        record('src/stuck.ts', { syncStatus: 'conflict', conflictId: 'c1' }),
+      ]);
+
+      const plan = await planSync(root, config);
+
+      expect(plan.entries.map((e) => [e.relativePath, e.action])).toEqual([
+        ['src/clash.ts', 'conflict'],
+        ['src/ff.ts', 'pull'],
+        ['src/merge.ts', 'merge'],
+        ['src/new.ts', 'pull'],
+        ['src/pushed.ts', 'push'],
+        ['src/stuck.ts', 'conflict'],
+        ['src/synced.ts', 'none'],
+      ]);
+      expect(plan.counts).toEqual({ push: 1, pull: 2, merge: 1, conflict: 2, none: 1 });
+      expect(plan.entries[0].reason).toBe('both changed, 1 overlapping hunk(s)');
+      expect(plan.entries[5].reason).toBe('unresolved conflict c1');
+    });
+
+    it('honors the sync direction', async () => {
+      await writeLocal('src/ff.ts', BASE);
+      await writeLocal('src/pushed.ts', 'edited\n');
+      mockListFileSyncRecords.mockResolvedValue([
+        remoteChange('src/ff.ts', 'remote\n'),
+        record('src/pushed.ts', { localHash: hashContent('edited\n') }),
+      ]);
+
+      const push = await planSync(root, config, 'push');
+      expect(push.entries.map((e) => e.action)).toEqual(['none', 'push']);
+
+      const pull = await planSync(root, config, 'pull');
+      expect(pull.entries.map((e) => e.action)).toEqual(['pull', 'none']);
+    });
+
+    it('reports local edits the watcher has not recorded', async () => {
+      await writeLocal('src/a.ts', 'offline edit\n');
+      mockListFileSyncRecords.mockResolvedValue([record('src/a.ts', {})]);
+
+      const [entry] = (await planSync(root, config)).entries;
+      expect(entry.action).toBe('none');
+      expect(entry.reason).toMatch(/not recorded yet/);
+    });
+  });
+
+  describe('diffFiles()', () => {
+    it('diffs local files against pending remote content', async () => {
+      await writeLocal('src/ff.ts', BASE);
+      mockListFileSyncRecords.mockResolvedValue([remoteChange('src/ff.ts', BASE.replace('two', 'TWO'))]);
+
+      const [diff] = await diffFiles(root, config);
+
+      expect(diff.action).toBe('pull');
+      expect(diff.diff).toContain('--- local/src/ff.ts');
+      expect(diff.diff).toContain('+++ remote/src/ff.ts');
+      expect(diff.diff).toContain('-two');
+      expect(diff.diff).toContain('+TWO');
+    });
+
+    it('falls back to the stored remote version and skips identical files', async () => {
+      await writeLocal('src/a.ts', 'offline edit\n');
+      await writeLocal('src/b.ts', BASE);
+      mockListFileSyncRecords.mockResolvedValue([record('src/a.ts', {}), record('src/b.ts', {})]);
+
+      const diffs = await diffFiles(root, config);
+
+      expect(diffs.map((d) => d.relativePath)).toEqual(['src/a.ts']);
+      expect(diffs[0].diff).toContain('+one');
+      expect(diffs[0].diff).toContain('-offline edit');
+    });
+
+    it('filters by path and notes unavailable remote content', async () => {
+      await writeLocal('src/a.ts', 'x\n');
+      await writeLocal('src/b.ts', 'y\n');
+      mockListFileSyncRecords.mockResolvedValue([
+        record('src/a.ts', { remoteHash: 'unknown-hash' }),
+        record('src/b.ts', { remoteHash: 'unknown-hash' }),
+      ]);
+
+      const diffs = await diffFiles(root, config, ['./src/b.ts']);
+
+      expect(diffs).toEqual([
+        { relativePath: 'src/b.ts', action: 'none', diff: null, note: 'remote content not available locally' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { chunkStore, mockWriteFileChunk, mockGetFileChunk, mockDeleteFileChunk } = vi.hoisted(() => {
+  const chunkStore = new Map<string, Record<string, unknown>>();
+  return {
+    chunkStore,
+    mockWriteFileChunk: vi.fn(async (_s: string, _f: string, chunk: { id: string }) => {
+      chunkStore.set(chunk.id, chunk as unknown as Record<string, unknown>);
+    }),
+    mockGetFileChunk: vi.fn(async (_s: string, _f: string, id: string) => chunkStore.get(id) ?? null),
+    mockDeleteFileChunk: vi.fn(async (_s: string, _f: string, id: string) => {
+      chunkStore.delete(id);
+    }),
+  };
+});
+
+vi.mock('../session.js', () => ({
+  writeFileChunk: mockWriteFileChunk,
+  getFileChunk: mockGetFileChunk,
+  deleteFileChunk: mockDeleteFileChunk,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import {
+  prepareTransfer,
+  readTransferContent,
+  releaseSupersededTransfer,
+  releaseTransfer,
+  splitIntoChunks,
+} from '../transfer.js';
+import { hashContent } from '../hasher.js';
+import { MAX_INLINE_FILE_SIZE, TRANSFER_CHUNK_SIZE } from '../types.js';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('bridge transfer', () => {
+  beforeEach(() => {
+    chunkStore.clear();
+    vi.clearAllMocks();
+  });
+
+  it('carries small content inline', async () => {
+    const content = Buffer.from('export const a = 1;\n');
+    const fields = await prepareTransfer('s1', 'f1', content);
+
+    expect(fields).toEqual({
+      pendingContent: content.toString('base64'),
+      transferMode: 'inline',
+      contentHash: hashContent(content),
+      chunkCount: null,
+    });
+    expect(mockWriteFileChunk).not.toHaveBeenCalled();
+  });
+
+  it('splits large content into content-addressed chunks', async () => {
+    const content = Buffer.alloc(MAX_INLINE_FILE_SIZE + TRANSFER_CHUNK_SIZE + 10, 7);
+    const fields = await prepareTransfer('s1', 'f1', content);
+    const hash = hashContent(content);
+
+    expect(fields.transferMode).toBe('chunked');
+    expect(fields.pendingContent).toBeNull();
+    expect(fields.chunkCount).toBe(3);
+    expect([...chunkStore.keys()]).toEqual([`${hash}-0000`, `${hash}-0001`, `${hash}-0002`]);
+  });
+
+  it('reassembles chunked content', async () => {
+    const content = Buffer.alloc(TRANSFER_CHUNK_SIZE * 2 + 1);
+    for (let i = 0; i < content.length; i++) content[i] = i % 251;
+
+    const fields = await prepareTransfer('s1', 'f1', content);
+    const result = await readTransferContent('s1', { id: 'f1', relativePath: 'a.bin', ...fields });
+
+    expect(result?.equals(content)).toBe(true);
+  });
+
+  it('decodes inline content and returns null when nothing is pending', async () => {
+    const inline = await readTransferContent('s1', { pendingContent: Buffer.from('hi').toString('base64') });
+    expect(inline?.toString()).toBe('hi');
+    expect(await readTransferContent('s1', { pendingContent: null })).toBeNull();
+  });
+
+  it('throws when a chunk is missing', async () => {
+    const content = Buffer.alloc(MAX_INLINE_FILE_SIZE + 1, 1);
+    const fields = await prepareTransfer('s1', 'f1', content);
+    chunkStore.delete(`${fields.contentHash}-0001`);
+
+    await expect(
+      readTransferContent('s1', { id: 'f1', relativePath: 'big.png', ...fields })
+    ).rejects.toThrow('Missing chunk 2/2 for big.png');
+  });
+
+  it('throws when the reassembled hash does not match', async () => {
+    const content = Buffer.alloc(MAX_INLINE_FILE_SIZE + 1, 1);
+    const fields = await prepareTransfer('s1', 'f1', content);
+    const first = chunkStore.get(`${fields.contentHash}-0000`)!;
+    first.data = Buffer.alloc(TRANSFER_CHUNK_SIZE, 2).toString('base64');
+
+    await expect(
+      readTransferContent('s1', { id: 'f1', relativePath: 'big.png', ...fields })
+    ).rejects.toThrow('hash mismatch');
+  });
+
+  it('releases chunks after acknowledgement', async () => {
+    const content = Buffer.alloc(MAX_INLINE_FILE_SIZE + 1, 1);
+    const fields = await prepareTransfer('s1', 'f1', content);
+
+    await releaseTransfer('s1', { id: 'f1', ...fields });
+    expect(chunkStore.size).toBe(0);
+  });
+
+  it('releases the chunks of a push superseded before acknowledgement', async () => {
+    const first = await prepareTransfer('s1', 'f1', Buffer.alloc(MAX_INLINE_FILE_SIZE + 1, 1));
+    const previous = { id: 'f1', ...first, pendingSource: 'local' };
+    const second = await prepareTransfer('s1', 'f1', Buffer.alloc(MAX_INLINE_FILE_SIZE + 1, 2));
+
+    // Same content pushed again keeps its chunks
+    await releaseSupersededTransfer('s1', previous, first);
+    expect(chunkStore.size).toBe(4);
+
+    await releaseSupersededTransfer('s1', previous, second);
+    expect([...chunkStore.keys()].every((id) => id.startsWith(second.contentHash))).toBe(true);
+    expect(chunkStore.size).toBe(2);
+
+    // Acknowledged records were already released by the receiver
+    await releaseSupersededTransfer('s1', { id: 'f1', ...second, pendingSource: null }, null);
+    expect(chunkStore.size).toBe(2);
+  });
+
+  it('splits content into content-addressed chunks', () => {
+    const content = Buffer.alloc(TRANSFER_CHUNK_SIZE + 10, 3);
+    const chunks = splitIntoChunks(content);
+    const hash = hashContent(content);
+
+    expect(chunks.map((c) => [c.id, c.index, c.totalChunks, c.size])).toEqual([
+      [`${hash}-0000`, 0, 2, TRANSFER_CHUNK_SIZE],
+      [`${hash}-0001`, 1, 2, 10],
+    ]);
+    expect(splitIntoChunks(Buffer.alloc(0))).toHaveLength(1);
+  });
+});
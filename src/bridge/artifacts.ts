@@ -0,0 +1,236 @@
+/**
+ * MyndHyve CLI — Bridge Build Artifacts
+ *
+ * After a successful build, files matching the build's output globs are
+ * hashed and recorded as BuildArtifacts. Globs come from the BuildRecord's
+ * `artifactGlobs`, then `artifactGlobs` in .myndhyve/bridge.json, then
+ * DEFAULT_ARTIFACT_GLOBS (production and preview builds only).
+ *
+ * Artifact globs are anchored to the project root, so `dist/**` does not
+ * match `packages/a/dist/**`. Only the static prefix of each glob is walked.
+ * Globs may come from the server or an MCP client, so absolute globs and
+ * `..` segments are rejected, and every file is checked to be inside the
+ * project before it is read.
+ *
+ * Preview bundles are uploaded as content-addressed chunks to the session's
+ * `artifacts` collection; the web app reassembles each file from its hash.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import type { Dirent } from 'node:fs';
+import { extname, isAbsolute, join, posix, relative, resolve, sep } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import { globToRegex } from './ignore.js';
+import { writeArtifactChunk } from './session.js';
+import { splitIntoChunks } from './transfer.js';
+import type { BuildArtifact, BuildPreview, BuildType } from './types.js';
+import { DEFAULT_ARTIFACT_GLOBS, MIME_TYPES } from './types.js';
+
+const log = createLogger('BridgeArtifacts');
+
+/** Directories never walked for artifacts, even when a glob reaches them */
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.myndhyve']);
+
+/** Build types that collect DEFAULT_ARTIFACT_GLOBS when nothing is declared */
+const DEFAULT_COLLECTING_TYPES: readonly BuildType[] = ['production', 'preview'];
+
+export interface CollectedArtifacts {
+  artifacts: BuildArtifact[];
+  /** More files matched than `maxArtifacts` */
+  truncated: boolean;
+}
+
+// ============================================================================
+// COLLECT
+// ============================================================================
+
+/**
+ * Resolve the artifact globs for a build. Returns an empty list when the
+ * build shouldn't collect artifacts.
+ */
+export function resolveArtifactGlobs(
+  buildRecord: Record<string, unknown>,
+  projectGlobs?: string[]
+): string[] {
+  const declared = buildRecord.artifactGlobs;
+  if (Array.isArray(declared)) {
+    return declared.filter((g): g is string => typeof g === 'string' && g.trim() !== '');
+  }
+  if (!DEFAULT_COLLECTING_TYPES.includes(buildRecord.buildType as BuildType)) return [];
+  return projectGlobs ?? DEFAULT_ARTIFACT_GLOBS;
+}
+
+/**
+ * Find, hash and describe the files matching `globs`, sorted by path.
+ * Throws if a glob could reach outside the project.
+ */
+export async function collectArtifacts(
+  projectRoot: string,
+  globs: string[],
+  maxArtifacts: number
+): Promise<CollectedArtifacts> {
+  const matchers = globs.map((glob) => {
+    const slashed = glob.replace(/\\/g, '/');
+    if (isAbsolute(glob) || slashed.startsWith('/') || /^[a-zA-Z]:/.test(slashed) || slashed.split('/').includes('..')) {
+      throw new Error(`Artifact glob must be relative to the project: ${glob}`);
+    }
+    const normalized = slashed.replace(/^\.\//, '');
+    return { base: staticPrefix(normalized), regex: globToRegex(`/${normalized}`) };
+  });
+
+  const matched = new Set<string>();
+  for (const base of new Set(matchers.map((m) => m.base))) {
+    for (const relativePath of await walk(projectRoot, base)) {
+      if (matchers.some((m) => m.regex.test(relativePath))) matched.add(relativePath);
+    }
+  }
+
+  const paths = [...matched].sort();
+  const truncated = paths.length > maxArtifacts;
+  if (truncated) {
+    log.warn('Too many artifacts, truncating', { matched: paths.length, maxArtifacts });
+  }
+
+  const artifacts: BuildArtifact[] = [];
+  for (const relativePath of paths.slice(0, maxArtifacts)) {
+    const absolutePath = projectPath(projectRoot, relativePath);
+    let content: Buffer;
+    try {
+      content = await readFile(absolutePath);
+    } catch {
+      continue; // Removed since the walk
+    }
+    artifacts.push({
+      name: posix.basename(relativePath),
+      path: relativePath,
+      size: content.length,
+      mimeType: MIME_TYPES[extname(relativePath).toLowerCase()] || 'application/octet-stream',
+      hash: hashContent(content),
+    });
+  }
+
+  return { artifacts, truncated };
+}
+
+// ============================================================================
+// PREVIEW UPLOAD
+// ============================================================================
+
+/**
+ * Upload artifacts as a preview bundle. Throws if the bundle exceeds
+ * `maxBytes` or a file changed since it was hashed.
+ */
+export async function uploadPreviewBundle(
+  sessionId: string,
+  projectRoot: string,
+  artifacts: BuildArtifact[],
+  maxBytes: number
+): Promise<BuildPreview> {
+  const totalBytes = artifacts.reduce((sum, a) => sum + a.size, 0);
+  if (totalBytes > maxBytes) {
+    throw new Error(`Preview bundle is ${totalBytes} bytes, over the ${maxBytes} byte limit`);
+  }
+
+  const root = commonDirectory(artifacts.map((a) => a.path));
+
+  log.info('Uploading preview bundle', { root, files: artifacts.length, totalBytes });
+
+  for (const artifact of artifacts) {
+    const content = await readFile(projectPath(projectRoot, artifact.path));
+    if (hashContent(content) !== artifact.hash) {
+      throw new Error(`Artifact changed during upload: ${artifact.path}`);
+    }
+    for (const chunk of splitIntoChunks(content, artifact.hash)) {
+      await writeArtifactChunk(sessionId, chunk);
+    }
+  }
+
+  return {
+    root,
+    entry: findEntry(root, artifacts),
+    fileCount: artifacts.length,
+    totalBytes,
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Absolute path of `relativePath`; throws if it resolves outside the project. */
+function projectPath(projectRoot: string, relativePath: string): string {
+  const absolute = resolve(projectRoot, relativePath);
+  const rel = relative(resolve(projectRoot), absolute);
+  if (rel === '' || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`Artifact path is outside the project: ${relativePath}`);
+  }
+  return absolute;
+}
+
+/** Leading path segments without glob characters (e.g. 'dist' for 'dist/**') */
+function staticPrefix(glob: string): string {
+  const segments = glob.split('/');
+  const fixed: string[] = [];
+  // The last segment names files, so it is never part of the walked base
+  for (const segment of segments.slice(0, -1)) {
+    if (/[*?[]/.test(segment)) break;
+    fixed.push(segment);
+  }
+  return fixed.join('/');
+}
+
+/** All files under `base` (relative to the project root), not following symlinks. */
+async function walk(projectRoot: string, base: string): Promise<string[]> {
+  const files: string[] = [];
+  const pending = [base];
+
+  while (pending.length > 0) {
+    const dir = pending.pop() as string;
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(join(projectRoot, dir), { withFileTypes: true });
+    } catch {
+      continue; // Missing output dir — nothing to collect
+    }
+
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) pending.push(relativePath);
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  return files;
+}
+
+/** Deepest directory containing every path ('' for the project root). */
+function commonDirectory(paths: string[]): string {
+  if (paths.length === 0) return '';
+
+  let common = posix.dirname(paths[0]).split('/');
+  for (const path of paths.slice(1)) {
+    const parts = posix.dirname(path).split('/');
+    let i = 0;
+    while (i < common.length && common[i] === parts[i]) i++;
+    common = common.slice(0, i);
+  }
+
+  const dir = common.join('/');
+  return dir === '.' ? '' : dir;
+}
+
+/** index.html at the bundle root, else the shallowest HTML page. */
+function findEntry(root: string, artifacts: BuildArtifact[]): string | null {
+  const pages = artifacts
+    .map((a) => (root ? a.path.slice(root.length + 1) : a.path))
+    .filter((p) => p.endsWith('.html'))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+
+  return pages.find((p) => p === 'index.html') ?? pages[0] ?? null;
+}
@@ -0,0 +1,107 @@
+/**
+ * MyndHyve CLI — Merge Base Store
+ *
+ * Content-addressed cache of file versions the bridge has synced, stored
+ * under .myndhyve/base/<sha256>. FileSyncRecord only carries `baseHash`, so
+ * the three-way merge looks the common ancestor up here by hash.
+ */
+
+import { readFile, writeFile, mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { getBridgeDir, listFileSyncRecords } from './session.js';
+import { readJournal } from './journal.js';
+import { hashContent } from './hasher.js';
+
+const BASE_DIR = 'base';
+
+function getBaseDir(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), BASE_DIR);
+}
+
+/**
+ * Save synced content so it can later serve as a merge base.
+ * Returns the content hash.
+ */
+export async function saveBaseContent(
+  projectRoot: string,
+  content: Buffer
+): Promise<string> {
+  const hash = hashContent(content);
+  const dir = getBaseDir(projectRoot);
+  const filePath = join(dir, hash);
+
+  if (!existsSync(filePath)) {
+    await mkdir(dir, { recursive: true });
+    await writeFile(filePath, content, { mode: 0o600 });
+  }
+
+  return hash;
+}
+
+/**
+ * Read a previously synced version by hash, or null if it was never stored.
+ */
+export async function readBaseContent(
+  projectRoot: string,
+  hash: string
+): Promise<Buffer | null> {
+  if (!hash) return null;
+  try {
+    return await readFile(join(getBaseDir(projectRoot), hash));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete stored versions no longer referenced by any sync record. Blobs
+ * written after `since` are kept, since their record may not be saved yet.
+ * Returns the number of blobs removed.
+ */
+export async function pruneBaseContent(
+  projectRoot: string,
+  referenced: Iterable<string>,
+  since: number = Date.now()
+): Promise<number> {
+  const keep = new Set(referenced);
+  const dir = getBaseDir(projectRoot);
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names) {
+    if (keep.has(name)) continue;
+    const filePath = join(dir, name);
+    try {
+      if ((await stat(filePath)).mtimeMs >= since) continue;
+      await unlink(filePath);
+      removed++;
+    } catch {
+      // Already gone
+    }
+  }
+  return removed;
+}
+
+/**
+ * Prune merge bases no sync record or queued push still needs. A pushed
+ * version (`localHash`) becomes the base once acknowledged, so it is kept
+ * along with the current base and remote versions.
+ */
+export async function pruneUnreferencedBases(sessionId: string, projectRoot: string): Promise<number> {
+  const startedAt = Date.now();
+  const records = await listFileSyncRecords(sessionId);
+  const journal = await readJournal(projectRoot);
+
+  const referenced = [
+    ...records.flatMap((r) => [r.baseHash, r.localHash, r.remoteHash]),
+    ...journal.map((e) => e.hash),
+  ].filter((hash): hash is string => typeof hash === 'string' && hash !== '');
+
+  return pruneBaseContent(projectRoot, referenced, startedAt);
+}
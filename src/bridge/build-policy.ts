@@ -0,0 +1,270 @@
+/**
+ * MyndHyve CLI — Bridge Build Policy
+ *
+ * Decides whether a build request from the web app (or MCP) may run, and
+ * turns the command string into an argv array so it is never interpreted by
+ * a shell.
+ *
+ * The policy lives in .myndhyve/build-policy.json; every field is optional
+ * and falls back to the defaults below:
+ *
+ * {
+ *   "allowedExecutables": ["npm", "pnpm", "flutter"],
+ *   "allowedScripts": ["build", "test", "lint"],
+ *   "forbiddenCharacters": [";", "&", "|", "`", "$", ">", "<"],
+ *   "envAllowlist": ["NODE_ENV", "VITE_*"],
+ *   "maxDurationMs": 300000,
+ *   "maxOutputBytes": 10485760,
+ *   "maxConcurrentBuilds": 1,
+ *   "maxArtifacts": 1000,
+ *   "maxPreviewBytes": 26214400
+ * }
+ *
+ * Package manager invocations (`npm run x`, `npm test`, `yarn x`, ...) must
+ * name a script defined in package.json and listed in `allowedScripts`
+ * (`"*"` allows any defined script).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { getBridgeDir } from './session.js';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+export const BuildPolicySchema = z.object({
+  /** Executables that may appear as argv[0] */
+  allowedExecutables: z.array(z.string()).default([
+    'npm',
+    'npx',
+    'yarn',
+    'pnpm',
+    'bun',
+    'flutter',
+    'dart',
+    'cargo',
+    'go',
+    'make',
+    'tsc',
+    'eslint',
+    'prettier',
+    'vitest',
+    'jest',
+    'pytest',
+  ]),
+  /** package.json scripts that may be run through a package manager; '*' = any defined script */
+  allowedScripts: z.array(z.string()).default(['*']),
+  /** Characters that reject a command outright */
+  forbiddenCharacters: z.array(z.string()).default([
+    ';', '&', '|', '`', '$', '>', '<', '(', ')', '{', '}', '!', '\n', '\r',
+  ]),
+  /** Request env vars that may be passed to the build; a trailing '*' matches a prefix */
+  envAllowlist: z.array(z.string()).default([
+    'NODE_ENV',
+    'CI',
+    'FORCE_COLOR',
+    'VITE_*',
+    'NEXT_PUBLIC_*',
+    'NUXT_PUBLIC_*',
+    'EXPO_PUBLIC_*',
+  ]),
+  /** Kill the build after this long */
+  maxDurationMs: z.number().int().positive().default(300_000),
+  /** Kill the build once stdout + stderr exceed this many bytes */
+  maxOutputBytes: z.number().int().positive().default(10 * 1024 * 1024),
+  /** Builds run at once by the bridge; further requests wait in a queue */
+  maxConcurrentBuilds: z.number().int().positive().default(1),
+  /** Artifacts recorded per build; further matches are dropped */
+  maxArtifacts: z.number().int().positive().default(1000),
+  /** Preview bundles larger than this are not uploaded */
+  maxPreviewBytes: z.number().int().positive().default(25 * 1024 * 1024),
+});
+
+export type BuildPolicy = z.infer<typeof BuildPolicySchema>;
+
+const POLICY_FILE = 'build-policy.json';
+
+/** Package managers whose subcommands are checked against allowedScripts */
+const PACKAGE_MANAGERS = new Set(['npm', 'yarn', 'pnpm', 'bun']);
+
+// ============================================================================
+// LOAD
+// ============================================================================
+
+/**
+ * Get the path to the project's build policy file.
+ */
+export function getBuildPolicyPath(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), POLICY_FILE);
+}
+
+/**
+ * Load the project's build policy, or the defaults if there is no policy
+ * file. Throws if the file exists but is invalid — a broken policy must not
+ * silently fall back to the defaults.
+ */
+export async function loadBuildPolicy(projectRoot: string): Promise<BuildPolicy> {
+  let raw: string;
+  try {
+    raw = await readFile(getBuildPolicyPath(projectRoot), 'utf-8');
+  } catch {
+    return BuildPolicySchema.parse({});
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid ${POLICY_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = BuildPolicySchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${POLICY_FILE}: ${issue.path.join('.') || '(root)'} — ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+export type BuildCommandCheck =
+  | { allowed: true; argv: string[]; env: Record<string, string> }
+  | { allowed: false; reason: string };
+
+/**
+ * Check a build command and its env against the policy.
+ *
+ * @param scripts - Scripts defined in the project's package.json
+ */
+export function checkBuildCommand(
+  command: string,
+  env: Record<string, string>,
+  policy: BuildPolicy,
+  scripts: Record<string, string> = {}
+): BuildCommandCheck {
+  const forbidden = policy.forbiddenCharacters.find((c) => command.includes(c));
+  if (forbidden !== undefined) {
+    return { allowed: false, reason: `Command contains forbidden character ${JSON.stringify(forbidden)}` };
+  }
+
+  let argv: string[];
+  try {
+    argv = splitCommand(command);
+  } catch (error) {
+    return { allowed: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (argv.length === 0) {
+    return { allowed: false, reason: 'Command is empty' };
+  }
+
+  const [executable] = argv;
+  if (/[/\\]/.test(executable)) {
+    return { allowed: false, reason: `Executable must be a bare name, not a path: ${executable}` };
+  }
+  if (!policy.allowedExecutables.includes(executable)) {
+    return { allowed: false, reason: `Executable "${executable}" is not in allowedExecutables` };
+  }
+
+  if (PACKAGE_MANAGERS.has(executable)) {
+    const scriptCheck = checkPackageScript(argv, policy, scripts);
+    if (scriptCheck) return { allowed: false, reason: scriptCheck };
+  }
+
+  const rejectedEnv = Object.keys(env).filter((key) => !isEnvAllowed(key, policy.envAllowlist));
+  if (rejectedEnv.length > 0) {
+    return { allowed: false, reason: `Env vars not in envAllowlist: ${rejectedEnv.join(', ')}` };
+  }
+
+  return { allowed: true, argv, env };
+}
+
+/**
+ * Split a command into argv. Supports single and double quotes; anything a
+ * shell would expand is rejected earlier by forbiddenCharacters.
+ */
+export function splitCommand(command: string): string[] {
+  const argv: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (const c of command.trim()) {
+    if (quote) {
+      if (c === quote) quote = null;
+      else current += c;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+      inToken = true;
+    } else if (/\s/.test(c)) {
+      if (inToken) argv.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += c;
+      inToken = true;
+    }
+  }
+
+  if (quote) throw new Error('Command has an unterminated quote');
+  if (inToken) argv.push(current);
+  return argv;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve the package.json script a package manager invocation runs and
+ * check it. Returns a rejection reason, or null if allowed.
+ */
+function checkPackageScript(
+  argv: string[],
+  policy: BuildPolicy,
+  scripts: Record<string, string>
+): string | null {
+  const [pm, subcommand, ...rest] = argv;
+  let script: string | undefined;
+
+  // `npm exec` is npx by another name
+  if (pm === 'npm' && (subcommand === 'exec' || subcommand === 'x')) {
+    return policy.allowedExecutables.includes('npx') ? null : '"npm exec" requires "npx" in allowedExecutables';
+  }
+
+  if (subcommand === 'run' || subcommand === 'run-script') {
+    script = rest.find((arg) => !arg.startsWith('-'));
+  } else if (subcommand === 'test' || subcommand === 't') {
+    script = 'test';
+  } else if (subcommand === 'start') {
+    script = 'start';
+  } else if (pm !== 'npm' && subcommand && !subcommand.startsWith('-')) {
+    // yarn/pnpm/bun run scripts without `run`
+    script = subcommand;
+  }
+
+  if (!script) {
+    return `"${[pm, subcommand].filter(Boolean).join(' ')}" is not a script invocation`;
+  }
+
+  if (!(script in scripts)) {
+    return `Script "${script}" is not defined in package.json`;
+  }
+
+  if (!policy.allowedScripts.includes('*') && !policy.allowedScripts.includes(script)) {
+    return `Script "${script}" is not in allowedScripts`;
+  }
+
+  return null;
+}
+
+function isEnvAllowed(key: string, allowlist: string[]): boolean {
+  return allowlist.some((pattern) =>
+    pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern
+  );
+}
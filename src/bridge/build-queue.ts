@@ -0,0 +1,228 @@
+/**
+ * MyndHyve CLI — Bridge Build Queue
+ *
+ * Serializes build requests picked up by the bridge loop. At most
+ * `maxConcurrent` builds run at once; the rest wait in FIFO order with their
+ * 1-based `queuePosition` written to the BuildRecord so the web app can show
+ * it.
+ *
+ * Cancellation is requested by setting `cancelRequested` on the BuildRecord.
+ * `checkCancellations()` (called from the loop's build poll) reads the
+ * records of queued and running builds: queued ones are dropped and marked
+ * cancelled, running ones are aborted and the runner kills the process tree.
+ *
+ * `getProjectBuildQueue()` returns one queue per project for the process, so
+ * the bridge loop and MCP servers share the policy's concurrency limit.
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { getBuildRecord, updateBuildRecord } from './session.js';
+import { executeBuildRequest, markCancelled } from './builder.js';
+import { loadBuildPolicy } from './build-policy.js';
+
+const log = createLogger('BridgeBuildQueue');
+
+const projectQueues = new Map<string, BuildQueue>();
+
+/**
+ * The process-wide queue for a project, created with the build policy's
+ * `maxConcurrentBuilds` on first use.
+ */
+export async function getProjectBuildQueue(sessionId: string, projectRoot: string): Promise<BuildQueue> {
+  const existing = projectQueues.get(projectRoot);
+  if (existing) return existing;
+
+  let maxConcurrentBuilds = 1;
+  try {
+    ({ maxConcurrentBuilds } = await loadBuildPolicy(projectRoot));
+  } catch (err) {
+    // Builds will be rejected with the policy error when they run
+    log.warn('Could not load build policy', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  // Another caller may have created it while the policy loaded
+  const queue = projectQueues.get(projectRoot) ?? new BuildQueue(sessionId, projectRoot, maxConcurrentBuilds);
+  projectQueues.set(projectRoot, queue);
+  return queue;
+}
+
+interface QueuedBuild {
+  id: string;
+  record: Record<string, unknown>;
+}
+
+export class BuildQueue {
+  private readonly queued: QueuedBuild[] = [];
+  private readonly running = new Map<string, AbortController>();
+  private readonly idle: Array<() => void> = [];
+  /** Callers of run() waiting for a build to finish or be cancelled */
+  private readonly waiters = new Map<string, Array<() => void>>();
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly projectRoot: string,
+    private readonly maxConcurrent = 1
+  ) {}
+
+  /**
+   * Add a pending build. Builds already queued or running are ignored, so
+   * the loop can re-submit everything it finds on each poll.
+   */
+  async enqueue(record: Record<string, unknown>): Promise<void> {
+    const id = record.id as string;
+    if (this.has(id)) return;
+
+    if (record.cancelRequested) {
+      await markCancelled(this.sessionId, id);
+      this.settle(id);
+      return;
+    }
+
+    this.queued.push({ id, record });
+    log.debug('Build queued', { buildId: id, position: this.queued.length });
+
+    await this.pump();
+  }
+
+  /**
+   * Queue a build and resolve once it has finished or been cancelled.
+   */
+  async run(record: Record<string, unknown>): Promise<void> {
+    const id = record.id as string;
+    const done = new Promise<void>((resolve) => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]);
+    });
+    await this.enqueue(record);
+    return done;
+  }
+
+  /**
+   * Cancel a queued or running build. Returns false if this queue doesn't
+   * know the build.
+   */
+  async cancel(buildId: string): Promise<boolean> {
+    const controller = this.running.get(buildId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    const index = this.queued.findIndex((b) => b.id === buildId);
+    if (index < 0) return false;
+
+    this.queued.splice(index, 1);
+    await markCancelled(this.sessionId, buildId);
+    this.settle(buildId);
+    await this.publishPositions();
+    return true;
+  }
+
+  /**
+   * Poll the records of queued and running builds for cancellation requests.
+   */
+  async checkCancellations(): Promise<void> {
+    // Queued first, so cancelling a running build doesn't start a queued
+    // build that is about to be cancelled too
+    const ids = [...this.queued.map((b) => b.id), ...this.running.keys()];
+    for (const id of ids) {
+      const record = await getBuildRecord(this.sessionId, id);
+      if (record?.cancelRequested) {
+        log.info('Cancellation requested', { buildId: id });
+        await this.cancel(id);
+      }
+    }
+  }
+
+  /** Whether a build is queued or running. */
+  has(buildId: string): boolean {
+    return this.running.has(buildId) || this.queued.some((b) => b.id === buildId);
+  }
+
+  /** Number of builds waiting to start. */
+  get pending(): number {
+    return this.queued.length;
+  }
+
+  /** Number of builds currently running. */
+  get active(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Cancel everything and resolve once running builds have exited.
+   */
+  async shutdown(): Promise<void> {
+    if (projectQueues.get(this.projectRoot) === this) projectQueues.delete(this.projectRoot);
+
+    for (const { id } of this.queued.splice(0)) {
+      await markCancelled(this.sessionId, id).catch(() => {});
+      this.settle(id);
+    }
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+    await this.whenIdle();
+  }
+
+  /** Resolve once no build is running. */
+  whenIdle(): Promise<void> {
+    if (this.running.size === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idle.push(resolve));
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNAL
+  // --------------------------------------------------------------------------
+
+  private async pump(): Promise<void> {
+    while (this.running.size < this.maxConcurrent && this.queued.length > 0) {
+      const next = this.queued.shift() as QueuedBuild;
+      this.start(next);
+    }
+    await this.publishPositions();
+  }
+
+  private start({ id, record }: QueuedBuild): void {
+    const controller = new AbortController();
+    this.running.set(id, controller);
+
+    executeBuildRequest(this.sessionId, this.projectRoot, record, { signal: controller.signal })
+      .catch((error) => {
+        log.error('Build runner failed', {
+          buildId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.running.delete(id);
+        this.settle(id);
+        if (this.running.size === 0) {
+          for (const resolve of this.idle.splice(0)) resolve();
+        }
+        this.pump().catch(() => {});
+      });
+  }
+
+  private settle(buildId: string): void {
+    for (const resolve of this.waiters.get(buildId) ?? []) resolve();
+    this.waiters.delete(buildId);
+  }
+
+  private async publishPositions(): Promise<void> {
+    for (const [index, { id, record }] of this.queued.entries()) {
+      const position = index + 1;
+      if (record.queuePosition === position) continue;
+      record.queuePosition = position;
+      try {
+        await updateBuildRecord(this.sessionId, id, { queuePosition: position });
+      } catch (error) {
+        log.debug('Failed to publish queue position', {
+          buildId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -2,60 +2,37 @@
  * MyndHyve CLI — Bridge Build Runner
  *
  * Executes build commands locally when requested by the web app.
+ * Commands are checked against the project build policy (see build-policy.ts)
+ * and spawned as argv arrays, never through a shell.
  * Streams output chunks to Firestore for live display.
- * Parses errors and warnings from build output.
+ * Parses errors and warnings from build output (see diagnostics.ts).
+ * Records artifacts and uploads preview bundles after successful builds
+ * (see artifacts.ts).
  */
 
-import { spawn } from 'node:child_process';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { createLogger } from '../utils/logger.js';
-import { updateBuildRecord, writeBuildOutputChunk } from './session.js';
-import type { BuildError, BuildWarning, BuildStatus } from './types.js';
+import { readLocalConfig, updateBuildRecord, writeBuildOutputChunk } from './session.js';
+import { DiagnosticCollector } from './diagnostics.js';
+import { loadBuildPolicy, checkBuildCommand } from './build-policy.js';
+import { collectArtifacts, resolveArtifactGlobs, uploadPreviewBundle } from './artifacts.js';
+import type { BuildPolicy } from './build-policy.js';
+import type { BuildStatus, BuildWarning } from './types.js';
 
 const log = createLogger('BridgeBuilder');
 
-/** Allowed command prefixes for security */
-const ALLOWED_COMMANDS = [
-  'npm run',
-  'npm test',
-  'npm exec',
-  'npx ',
-  'yarn ',
-  'pnpm ',
-  'bun ',
-  'flutter ',
-  'dart ',
-  'cargo ',
-  'go ',
-  'make ',
-  'tsc',
-  'eslint',
-  'prettier',
-  'vitest',
-  'jest',
-  'pytest',
-];
-
-/** Error patterns for parsing build output */
-const ERROR_PATTERNS = [
-  // TypeScript
-  /^(.+)\((\d+),(\d+)\):\s*error\s*(TS\d+):\s*(.+)$/,
-  // ESLint
-  /^\s*(\d+):(\d+)\s+error\s+(.+?)\s+([\w/-]+)$/,
-  // Generic
-  /^(?:Error|ERROR):\s*(.+)$/,
-  // Vite/Rollup
-  /^\[vite\].*Error:\s*(.+)$/,
-];
-
-const WARNING_PATTERNS = [
-  // TypeScript
-  /^(.+)\((\d+),(\d+)\):\s*warning\s*(TS\d+):\s*(.+)$/,
-  // ESLint
-  /^\s*(\d+):(\d+)\s+warning\s+(.+?)\s+([\w/-]+)$/,
-  // Generic
-  /^(?:Warning|WARN):\s*(.+)$/,
-];
+/** Grace period between SIGTERM and SIGKILL when stopping a build */
+const KILL_GRACE_MS = 5_000;
+
+type StopReason = 'duration' | 'output' | 'cancelled';
+
+export interface ExecuteBuildOptions {
+  /** Aborting stops the build and marks it cancelled */
+  signal?: AbortSignal;
+}
 
 /**
  * Execute a build request from the web app.
@@ -63,64 +40,88 @@ const WARNING_PATTERNS = [
 export async function executeBuildRequest(
   sessionId: string,
   projectRoot: string,
-  buildRecord: Record<string, unknown>
+  buildRecord: Record<string, unknown>,
+  options: ExecuteBuildOptions = {}
 ): Promise<void> {
+  const { signal } = options;
   const buildId = buildRecord.id as string;
   const command = buildRecord.command as string;
   const env = (buildRecord.env as Record<string, string>) || {};
 
-  // Validate command
-  if (!isCommandAllowed(command)) {
-    log.warn('Build command rejected', { command, buildId });
-    await updateBuildRecord(sessionId, buildId, {
-      status: 'failed' satisfies BuildStatus,
-      exitCode: -1,
-      errors: [{ message: `Command not allowed: ${command}` }],
-      errorCount: 1,
-      warningCount: 0,
-      completedAt: new Date().toISOString(),
-    });
+  // Validate command against the project build policy
+  let policy: BuildPolicy;
+  try {
+    policy = await loadBuildPolicy(projectRoot);
+  } catch (error) {
+    await rejectBuild(sessionId, buildId, command, error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const check = checkBuildCommand(command, env, policy, await readPackageScripts(projectRoot));
+  if (!check.allowed) {
+    await rejectBuild(sessionId, buildId, command, check.reason);
+    return;
+  }
+
+  if (signal?.aborted) {
+    await markCancelled(sessionId, buildId);
     return;
   }
 
+  const requestedTimeout = Number(buildRecord.timeoutMs) || policy.maxDurationMs;
+  const timeoutMs = Math.min(requestedTimeout, policy.maxDurationMs);
+
   log.info('Starting build', { buildId, command, cwd: projectRoot });
 
   // Mark as running
   const startedAt = new Date().toISOString();
   await updateBuildRecord(sessionId, buildId, {
     status: 'running' satisfies BuildStatus,
+    queuePosition: null,
     startedAt,
   });
 
   const startTime = Date.now();
-  const errors: BuildError[] = [];
-  const warnings: BuildWarning[] = [];
+  const diagnostics = new DiagnosticCollector({ cwd: projectRoot });
   let outputBuffer = '';
+  let outputBytes = 0;
   let chunkIndex = 0;
+  let stopReason: StopReason | null = null;
 
   return new Promise<void>((resolve) => {
-    const child = spawn(command, {
+    const [executable, ...args] = check.argv;
+    const child = spawn(executable, args, {
       cwd: projectRoot,
-      shell: true,
-      env: { ...process.env, ...env },
-      timeout: 300_000, // 5 minute timeout
+      // Windows needs a shell to resolve npm.cmd & co.; the policy has
+      // already rejected every metacharacter cmd.exe would interpret.
+      shell: process.platform === 'win32',
+      // Own process group, so the whole tree can be killed on cancel/timeout
+      detached: process.platform !== 'win32',
+      env: { ...process.env, ...check.env },
     });
 
+    const stopBuild = (reason: StopReason) => {
+      if (stopReason) return;
+      stopReason = reason;
+      log.warn('Stopping build', { buildId, reason });
+      killProcessTree(child);
+    };
+
+    const durationTimer = setTimeout(() => stopBuild('duration'), timeoutMs);
+    const onAbort = () => stopBuild('cancelled');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     const flushOutput = async (stream: 'stdout' | 'stderr', data: string) => {
+      outputBytes += Buffer.byteLength(data);
+      if (outputBytes > policy.maxOutputBytes) {
+        stopBuild('output');
+        return;
+      }
+
       outputBuffer += data;
 
       // Parse errors and warnings
-      const lines = data.split('\n');
-      for (const line of lines) {
-        if (errors.length < 50) {
-          const error = parseError(line);
-          if (error) errors.push(error);
-        }
-        if (warnings.length < 50) {
-          const warning = parseWarning(line);
-          if (warning) warnings.push(warning);
-        }
-      }
+      diagnostics.write(stream, data);
 
       // Batch output into ~4KB chunks
       if (outputBuffer.length >= 4096) {
@@ -151,8 +152,21 @@ export async function executeBuildRequest(
     });
 
     child.on('close', async (exitCode) => {
+      clearTimeout(durationTimer);
+      signal?.removeEventListener('abort', onAbort);
       const duration = Date.now() - startTime;
-      const status: BuildStatus = exitCode === 0 ? 'success' : 'failed';
+      const { errors, warnings } = diagnostics.finish();
+
+      let status: BuildStatus = exitCode === 0 ? 'success' : 'failed';
+      if (stopReason === 'cancelled') {
+        status = 'cancelled';
+      } else if (stopReason === 'duration') {
+        status = 'timeout';
+        errors.unshift({ message: `Build exceeded max duration of ${Math.round(timeoutMs / 1000)}s` });
+      } else if (stopReason === 'output') {
+        status = 'failed';
+        errors.unshift({ message: `Build output exceeded ${policy.maxOutputBytes} bytes` });
+      }
 
       // Flush remaining output
       if (outputBuffer.length > 0) {
@@ -168,6 +182,11 @@ export async function executeBuildRequest(
         }
       }
 
+      const artifactFields =
+        status === 'success'
+          ? await recordArtifacts(sessionId, projectRoot, buildRecord, policy, warnings)
+          : {};
+
       log.info('Build completed', {
         buildId,
         status,
@@ -185,6 +204,7 @@ export async function executeBuildRequest(
         warnings,
         errorCount: errors.length,
         warningCount: warnings.length,
+        ...artifactFields,
         completedAt: new Date().toISOString(),
       });
 
@@ -192,6 +212,8 @@ export async function executeBuildRequest(
     });
 
     child.on('error', async (error) => {
+      clearTimeout(durationTimer);
+      signal?.removeEventListener('abort', onAbort);
       const duration = Date.now() - startTime;
       log.error('Build process error', { buildId, error: error.message });
 
@@ -214,65 +236,123 @@ export async function executeBuildRequest(
 // HELPERS
 // ============================================================================
 
-function isCommandAllowed(command: string): boolean {
-  const trimmed = command.trim().toLowerCase();
-  return ALLOWED_COMMANDS.some((prefix) => trimmed.startsWith(prefix));
+/**
+ * Stop a build and everything it spawned. On POSIX the build leads its own
+ * process group, so signalling -pid reaches grandchildren (e.g. the compiler
+ * started by `npm run build`). Escalates to SIGKILL after a grace period.
+ */
+function killProcessTree(child: ChildProcess): void {
+  const { pid } = child;
+  if (pid === undefined) return;
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  const signalGroup = (sig: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, sig);
+    } catch {
+      child.kill(sig);
+    }
+  };
+
+  signalGroup('SIGTERM');
+  // Not cleared on exit — the leader may exit while grandchildren linger
+  setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_MS).unref();
 }
 
-function parseError(line: string): BuildError | null {
-  for (const pattern of ERROR_PATTERNS) {
-    const match = line.match(pattern);
-    if (match) {
-      // Different patterns have different capture groups
-      if (match.length >= 6) {
-        // TypeScript: file(line,col): error TSxxxx: message
-        return {
-          file: match[1],
-          line: parseInt(match[2]),
-          column: parseInt(match[3]),
-          code: match[4],
-          message: match[5],
-        };
-      }
-      if (match.length >= 5) {
-        // ESLint: line:col error message rule
-        return {
-          line: parseInt(match[1]),
-          column: parseInt(match[2]),
-          message: match[3],
-          code: match[4],
-        };
-      }
-      // Generic
-      return { message: match[1] || line };
+/**
+ * Collect the artifacts of a successful build and upload its preview bundle
+ * if requested. Returns the BuildRecord fields to set. Problems become build
+ * warnings — the build itself still succeeded.
+ */
+async function recordArtifacts(
+  sessionId: string,
+  projectRoot: string,
+  buildRecord: Record<string, unknown>,
+  policy: BuildPolicy,
+  warnings: BuildWarning[]
+): Promise<Record<string, unknown>> {
+  const buildId = buildRecord.id as string;
+  const config = await readLocalConfig(projectRoot);
+  const globs = resolveArtifactGlobs(buildRecord, config?.artifactGlobs);
+  if (globs.length === 0) return {};
+
+  let collected: Awaited<ReturnType<typeof collectArtifacts>>;
+  try {
+    collected = await collectArtifacts(projectRoot, globs, policy.maxArtifacts);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn('Artifact collection failed', { buildId, error: message });
+    warnings.push({ message: `Artifact collection failed: ${message}` });
+    return {};
+  }
+
+  const { artifacts, truncated } = collected;
+  if (truncated) {
+    warnings.push({ message: `Only the first ${policy.maxArtifacts} artifacts were recorded` });
+  }
+
+  const fields: Record<string, unknown> = { artifacts, artifactsTruncated: truncated };
+
+  const uploadPreview = (buildRecord.uploadPreview as boolean | undefined) ?? buildRecord.buildType === 'preview';
+  if (uploadPreview && artifacts.length > 0) {
+    try {
+      fields.preview = await uploadPreviewBundle(sessionId, projectRoot, artifacts, policy.maxPreviewBytes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn('Preview upload failed', { buildId, error: message });
+      warnings.push({ message: `Preview upload failed: ${message}` });
+      fields.preview = null;
     }
   }
-  return null;
+
+  return fields;
 }
 
-function parseWarning(line: string): BuildWarning | null {
-  for (const pattern of WARNING_PATTERNS) {
-    const match = line.match(pattern);
-    if (match) {
-      if (match.length >= 6) {
-        return {
-          file: match[1],
-          line: parseInt(match[2]),
-          column: parseInt(match[3]),
-          code: match[4],
-          message: match[5],
-        };
-      }
-      if (match.length >= 5) {
-        return {
-          line: parseInt(match[1]),
-          column: parseInt(match[2]),
-          message: match[3],
-          code: match[4],
-        };
-      }
-      return { message: match[1] || line };
-    }
+/**
+ * Mark a build cancelled before it started.
+ */
+export async function markCancelled(sessionId: string, buildId: string): Promise<void> {
+  log.info('Build cancelled', { buildId });
+  await updateBuildRecord(sessionId, buildId, {
+    status: 'cancelled' satisfies BuildStatus,
+    queuePosition: null,
+    completedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Record a build the policy refused to run.
+ */
+async function rejectBuild(
+  sessionId: string,
+  buildId: string,
+  command: string,
+  reason: string
+): Promise<void> {
+  log.warn('Build command rejected', { command, buildId, reason });
+  await updateBuildRecord(sessionId, buildId, {
+    status: 'failed' satisfies BuildStatus,
+    exitCode: -1,
+    errors: [{ message: `Build rejected: ${reason}` }],
+    errorCount: 1,
+    warningCount: 0,
+    rejectionReason: reason,
+    completedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Scripts defined in the project's package.json (empty if there is none).
+ */
+async function readPackageScripts(projectRoot: string): Promise<Record<string, string>> {
+  try {
+    const pkg = JSON.parse(await readFile(join(projectRoot, 'package.json'), 'utf-8'));
+    return pkg && typeof pkg.scripts === 'object' && pkg.scripts !== null ? pkg.scripts : {};
+  } catch {
+    return {};
   }
-  return null;
 }
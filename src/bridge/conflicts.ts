@@ -0,0 +1,161 @@
+/**
+ * MyndHyve CLI — Bridge Conflict Resolution
+ *
+ * Applies a resolution to a ConflictRecord: writes the chosen content to the
+ * working tree, pushes it back through the FileSyncRecord when it differs
+ * from the remote version, and marks the conflict resolved.
+ *
+ * Shared by `bridge conflicts resolve` and the `myndhyve.conflict.resolve`
+ * MCP tool so both leave the file and its sync record in the same state.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import {
+  getConflictRecord,
+  updateConflictRecord,
+  getFileSyncRecord,
+  upsertFileSyncRecord,
+} from './session.js';
+import { saveBaseContent } from './base-store.js';
+import { snapshotFile } from './history.js';
+import { mergeThreeWay, isTextContent } from './merge.js';
+import { prepareTransfer, readTransferContent, releaseTransfer } from './transfer.js';
+import type { ConflictRecord, ConflictStrategy, FileSyncStatus } from './types.js';
+import { MAX_INLINE_FILE_SIZE } from './types.js';
+
+const log = createLogger('BridgeConflicts');
+
+export interface ResolveConflictOptions {
+  sessionId: string;
+  projectRoot: string;
+  conflictId: string;
+  strategy: ConflictStrategy;
+  /** Resolved content — required for 'merge' and 'manual' */
+  content?: string;
+  /** Who resolved it ('cli', 'mcp', ...) */
+  resolvedBy: string;
+}
+
+export interface ResolveConflictResult {
+  relativePath: string;
+  strategy: ConflictStrategy;
+  /** True when the resolved content differs from remote and was pushed */
+  pushed: boolean;
+}
+
+/**
+ * Resolve a pending conflict and apply the result locally and remotely.
+ */
+export async function resolveConflict(
+  opts: ResolveConflictOptions
+): Promise<ResolveConflictResult> {
+  const { sessionId, projectRoot, conflictId, strategy } = opts;
+
+  const conflict = await getConflictRecord(sessionId, conflictId);
+  if (!conflict) {
+    throw new Error(`Conflict not found: ${conflictId}`);
+  }
+  if (conflict.status === 'resolved') {
+    throw new Error(`Conflict ${conflictId} is already resolved`);
+  }
+
+  const fileRecord = await getFileSyncRecord(sessionId, conflict.fileId);
+  const absolutePath = join(projectRoot, conflict.relativePath);
+
+  const remoteContent =
+    (fileRecord ? await readTransferContent(sessionId, fileRecord) : null) ??
+    Buffer.from(conflict.remoteContent, 'utf-8');
+
+  let content: Buffer;
+  switch (strategy) {
+    case 'keep-remote':
+      content = remoteContent;
+      break;
+    case 'keep-local':
+      content = await readFile(absolutePath).catch(() => Buffer.from(conflict.localContent, 'utf-8'));
+      break;
+    case 'merge':
+    case 'manual':
+      if (opts.content === undefined) {
+        throw new Error(`Strategy "${strategy}" requires resolved content`);
+      }
+      content = Buffer.from(opts.content, 'utf-8');
+      break;
+  }
+
+  const hash = hashContent(content);
+  const now = new Date().toISOString();
+
+  if (strategy !== 'keep-local') await snapshotFile(projectRoot, conflict.relativePath, 'conflict');
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content);
+  await saveBaseContent(projectRoot, remoteContent);
+  await saveBaseContent(projectRoot, content);
+
+  // The remote version has now been seen, so it becomes the merge base
+  if (fileRecord) await releaseTransfer(sessionId, fileRecord);
+  const pushed = hash !== conflict.remoteHash;
+
+  if (pushed) {
+    const transfer = await prepareTransfer(sessionId, conflict.fileId, content);
+    await upsertFileSyncRecord(sessionId, conflict.fileId, {
+      baseHash: conflict.remoteHash,
+      localHash: hash,
+      syncStatus: 'modified-local' satisfies FileSyncStatus,
+      localModifiedAt: now,
+      lastSyncedAt: now,
+      ...transfer,
+      pendingSource: 'local',
+      fileSize: content.length,
+      conflictId: null,
+    });
+  } else {
+    await upsertFileSyncRecord(sessionId, conflict.fileId, {
+      baseHash: hash,
+      localHash: hash,
+      syncStatus: 'synced' satisfies FileSyncStatus,
+      lastSyncedAt: now,
+      pendingContent: null,
+      pendingSource: null,
+      conflictId: null,
+    });
+  }
+
+  await updateConflictRecord(sessionId, conflictId, {
+    status: 'resolved',
+    resolution: strategy,
+    resolvedContent:
+      content.length <= MAX_INLINE_FILE_SIZE && isTextContent(content)
+        ? content.toString('utf-8')
+        : null,
+    resolvedBy: opts.resolvedBy,
+    resolvedAt: now,
+  });
+
+  log.info('Conflict resolved', {
+    conflictId,
+    path: conflict.relativePath,
+    strategy,
+    pushed,
+  });
+
+  return { relativePath: conflict.relativePath, strategy, pushed };
+}
+
+/**
+ * Build the initial merge buffer for manual editing: the three-way merge of
+ * base/local/remote with conflict markers around the overlapping hunks.
+ */
+export function buildMergeBuffer(conflict: ConflictRecord): string {
+  return mergeThreeWay(conflict.baseContent, conflict.localContent, conflict.remoteContent).merged;
+}
+
+/**
+ * Whether text still contains unresolved conflict markers.
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<<<<<<< |>>>>>>> )/m.test(text);
+}
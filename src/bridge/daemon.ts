@@ -1,58 +1,87 @@
 /**
  * MyndHyve CLI — Bridge Daemon Management
  *
- * PID file + log file based daemon control for the bridge process.
- * Separate from the relay daemon — uses bridge.pid and bridge.log.
+ * PID file + log file based daemon control for bridge processes.
+ * Separate from the relay daemon. Each linked project runs its own daemon,
+ * keyed by bridge session ID:
+ *
+ *   ~/.myndhyve-cli/bridges/{sessionId}.pid   (JSON: pid, project, path)
+ *   ~/.myndhyve-cli/logs/bridge-{sessionId}.log
  */
 
-import { existsSync, readFileSync, writeFileSync, unlinkSync, openSync, closeSync } from 'node:fs';
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  unlinkSync,
+  openSync,
+  closeSync,
+  readdirSync,
+  mkdirSync,
+} from 'node:fs';
 import { join } from 'node:path';
 import { spawn } from 'node:child_process';
-import { getCliDir, getLogDir, ensureCliDir, ensureLogDir } from '../config/loader.js';
+import { getCliDir, getLogDir, ensureLogDir } from '../config/loader.js';
 import { createLogger } from '../utils/logger.js';
+import type { BridgeLocalConfig } from './types.js';
 
 const log = createLogger('BridgeDaemon');
 
+/** A running bridge daemon, as recorded in its PID file */
+export interface BridgeDaemonInfo {
+  pid: number;
+  sessionId: string;
+  projectId: string;
+  projectRoot: string;
+  startedAt: string;
+}
+
+const PID_SUFFIX = '.pid';
+
 // ============================================================================
 // PATHS
 // ============================================================================
 
-export function getBridgePidPath(): string {
-  return join(getCliDir(), 'bridge.pid');
+export function getBridgeDaemonDir(): string {
+  return join(getCliDir(), 'bridges');
+}
+
+export function getBridgePidPath(sessionId: string): string {
+  return join(getBridgeDaemonDir(), `${sessionId}${PID_SUFFIX}`);
 }
 
-export function getBridgeLogPath(): string {
-  return join(getLogDir(), 'bridge.log');
+export function getBridgeLogPath(sessionId: string): string {
+  return join(getLogDir(), `bridge-${sessionId}.log`);
 }
 
-function ensureBridgeLogFile(): string {
-  return join(ensureLogDir(), 'bridge.log');
+function ensureBridgeLogFile(sessionId: string): string {
+  ensureLogDir();
+  return getBridgeLogPath(sessionId);
 }
 
 // ============================================================================
 // PID FILE
 // ============================================================================
 
-function readPidFile(): number | null {
-  const pidPath = getBridgePidPath();
+function readPidFile(sessionId: string): BridgeDaemonInfo | null {
+  const pidPath = getBridgePidPath(sessionId);
   if (!existsSync(pidPath)) return null;
 
   try {
-    const content = readFileSync(pidPath, 'utf-8').trim();
-    const pid = parseInt(content, 10);
-    return Number.isFinite(pid) && pid > 0 ? pid : null;
+    const info = JSON.parse(readFileSync(pidPath, 'utf-8')) as BridgeDaemonInfo;
+    return Number.isInteger(info.pid) && info.pid > 0 ? { ...info, sessionId } : null;
   } catch {
     return null;
   }
 }
 
-function writePidFile(pid: number): void {
-  ensureCliDir();
-  writeFileSync(getBridgePidPath(), String(pid), { mode: 0o600 });
+function writePidFile(info: BridgeDaemonInfo): void {
+  mkdirSync(getBridgeDaemonDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(getBridgePidPath(info.sessionId), JSON.stringify(info, null, 2), { mode: 0o600 });
 }
 
-function removePidFile(): void {
-  const pidPath = getBridgePidPath();
+function removePidFile(sessionId: string): void {
+  const pidPath = getBridgePidPath(sessionId);
   if (existsSync(pidPath)) {
     try {
       unlinkSync(pidPath);
@@ -76,34 +105,68 @@ function isProcessAlive(pid: number): boolean {
 // ============================================================================
 
 /**
- * Check if the bridge daemon is running.
- * Returns the PID if running, null otherwise.
+ * Get a session's running bridge daemon, or null. Removes stale PID files.
  */
-export function getBridgeDaemonPid(): number | null {
-  const pid = readPidFile();
-  if (pid === null) return null;
+export function getBridgeDaemon(sessionId: string): BridgeDaemonInfo | null {
+  const info = readPidFile(sessionId);
+  if (info === null) {
+    removePidFile(sessionId);
+    return null;
+  }
 
-  if (isProcessAlive(pid)) return pid;
+  if (isProcessAlive(info.pid)) return info;
 
   // Stale PID file
-  removePidFile();
+  removePidFile(sessionId);
   return null;
 }
 
 /**
- * Spawn the bridge daemon as a detached background process.
+ * Check if a session's bridge daemon is running.
+ * Returns the PID if running, null otherwise.
+ */
+export function getBridgeDaemonPid(sessionId: string): number | null {
+  return getBridgeDaemon(sessionId)?.pid ?? null;
+}
+
+/**
+ * List all running bridge daemons, sorted by project path.
+ */
+export function listBridgeDaemons(): BridgeDaemonInfo[] {
+  const dir = getBridgeDaemonDir();
+  if (!existsSync(dir)) return [];
+
+  const daemons: BridgeDaemonInfo[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(PID_SUFFIX)) continue;
+    const info = getBridgeDaemon(file.slice(0, -PID_SUFFIX.length));
+    if (info) daemons.push(info);
+  }
+
+  return daemons.sort((a, b) => a.projectRoot.localeCompare(b.projectRoot));
+}
+
+/**
+ * Spawn a bridge daemon for a linked project as a detached background process.
  */
-export function spawnBridgeDaemon(projectRoot: string, verbose?: boolean): number {
-  const existing = getBridgeDaemonPid();
+export function spawnBridgeDaemon(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  verbose?: boolean
+): number {
+  const { sessionId, projectId } = config;
+  const existing = getBridgeDaemonPid(sessionId);
   if (existing) {
-    throw new Error(`Bridge daemon already running (PID ${existing}). Stop it first with: myndhyve-cli bridge stop`);
+    throw new Error(
+      `Bridge daemon already running for ${projectRoot} (PID ${existing}). Stop it first with: myndhyve-cli bridge stop`
+    );
   }
 
   const entryPoint = process.argv[1];
   const args = ['bridge', 'start', projectRoot];
   if (verbose) args.push('--verbose');
 
-  const logFile = ensureBridgeLogFile();
+  const logFile = ensureBridgeLogFile(sessionId);
   const outFd = openSync(logFile, 'a');
 
   let child: ReturnType<typeof spawn>;
@@ -124,27 +187,33 @@ export function spawnBridgeDaemon(projectRoot: string, verbose?: boolean): numbe
     throw new Error('Failed to spawn bridge daemon');
   }
 
-  writePidFile(child.pid);
+  writePidFile({
+    pid: child.pid,
+    sessionId,
+    projectId,
+    projectRoot,
+    startedAt: new Date().toISOString(),
+  });
   child.unref();
 
-  log.debug('Bridge daemon spawned', { pid: child.pid, logFile, projectRoot });
+  log.debug('Bridge daemon spawned', { pid: child.pid, logFile, projectRoot, sessionId });
   return child.pid;
 }
 
 /**
- * Stop the bridge daemon.
+ * Stop a session's bridge daemon. Returns false if it wasn't running.
  */
-export function stopBridgeDaemon(): boolean {
-  const pid = getBridgeDaemonPid();
+export function stopBridgeDaemon(sessionId: string): boolean {
+  const pid = getBridgeDaemonPid(sessionId);
   if (pid === null) return false;
 
   try {
     process.kill(pid, 'SIGTERM');
-    removePidFile();
+    removePidFile(sessionId);
     return true;
   } catch (error) {
     if (isErrnoException(error) && error.code === 'ESRCH') {
-      removePidFile();
+      removePidFile(sessionId);
       return false;
     }
     throw error;
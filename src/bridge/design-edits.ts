@@ -0,0 +1,203 @@
+/**
+ * MyndHyve CLI — Bridge Design Edits
+ *
+ * Validation and diffing for design changes written back to MyndHyve by the
+ * MCP write tools (myndhyve.design.updateComponent, createScreen,
+ * updateTheme).
+ *
+ * Changes are JSON Merge Patches (RFC 7386): objects merge recursively,
+ * arrays and scalars replace, and `null` removes a field. The patched entity
+ * is validated against the design schema of the session's canvas type before
+ * anything is written, and every edit can be previewed as a diff.
+ */
+
+import { z } from 'zod';
+import { unifiedDiff } from './merge.js';
+
+export type DesignEntityKind = 'component' | 'screen' | 'theme';
+
+/** Fields owned by MyndHyve that a patch may not change */
+const READ_ONLY_FIELDS = ['id', 'createdAt', 'updatedAt', 'updatedBy'];
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const StyleMap = z.record(z.string(), z.union([z.string(), z.number()]));
+
+const ComponentNodeSchema: z.ZodType<unknown> = z.lazy(() =>
+  z
+    .object({
+      id: z.string().optional(),
+      type: z.string().min(1),
+      name: z.string().optional(),
+      props: z.record(z.string(), z.unknown()).optional(),
+      styles: StyleMap.optional(),
+      children: z.array(ComponentNodeSchema).optional(),
+    })
+    .passthrough()
+);
+
+const AppComponentSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    props: z.record(z.string(), z.unknown()).optional(),
+    styles: StyleMap.optional(),
+    layout: z.record(z.string(), z.unknown()).optional(),
+    variants: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+    children: z.array(ComponentNodeSchema).optional(),
+  })
+  .passthrough();
+
+const AppScreenSchema = z
+  .object({
+    name: z.string().min(1),
+    route: z.string().regex(/^\/[^\s]*$/, 'must start with "/" and contain no spaces'),
+    description: z.string().optional(),
+    components: z.array(ComponentNodeSchema).optional(),
+  })
+  .passthrough();
+
+const TokenScale = z.record(z.string(), z.union([z.string(), z.number()]));
+
+const AppThemeSchema = z
+  .object({
+    colors: z.record(z.string(), z.union([z.string(), TokenScale])).optional(),
+    typography: z.record(z.string(), z.unknown()).optional(),
+    spacing: TokenScale.optional(),
+    breakpoints: TokenScale.optional(),
+    shadows: TokenScale.optional(),
+    radii: TokenScale.optional(),
+    tokens: z.record(z.string(), z.unknown()).optional(),
+  })
+  .passthrough();
+
+/**
+ * Design schemas per canvas type. Canvas types without an entry have no
+ * editable design entities.
+ */
+export const DESIGN_SCHEMAS: Record<string, Record<DesignEntityKind, z.ZodTypeAny>> = {
+  'app-builder': {
+    component: AppComponentSchema,
+    screen: AppScreenSchema,
+    theme: AppThemeSchema,
+  },
+};
+
+// ============================================================================
+// EDITS
+// ============================================================================
+
+export interface DesignEditPlan {
+  /** The entity after the patch */
+  next: Record<string, unknown>;
+  /** Unified diff of the pretty-printed entity ('' if nothing changed) */
+  diff: string;
+  /** Top-level fields the patch changes, for the Firestore update mask */
+  changedFields: string[];
+}
+
+/**
+ * Apply a merge patch to a design entity, validate the result and diff it.
+ * Throws with a readable message if the patch or the result is invalid.
+ *
+ * @param current - Existing entity, or null when creating one
+ */
+export function planDesignEdit(
+  canvasTypeId: string,
+  kind: DesignEntityKind,
+  current: Record<string, unknown> | null,
+  patch: Record<string, unknown>
+): DesignEditPlan {
+  const schemas = DESIGN_SCHEMAS[canvasTypeId];
+  if (!schemas) {
+    throw new Error(`Canvas type "${canvasTypeId}" has no editable design entities`);
+  }
+
+  const readOnly = Object.keys(patch).filter((key) => READ_ONLY_FIELDS.includes(key));
+  if (readOnly.length > 0) {
+    throw new Error(`Read-only field(s) cannot be changed: ${readOnly.join(', ')}`);
+  }
+
+  const before = current ?? {};
+  const next = applyMergePatch(before, patch) as Record<string, unknown>;
+
+  const parsed = schemas[kind].safeParse(next);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${kind}: ${formatIssues(parsed.error)}`);
+  }
+
+  const changedFields = Object.keys(patch).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(next[key])
+  );
+
+  const label = typeof next.name === 'string' ? next.name : kind;
+  const diff = unifiedDiff(stableJson(current ? before : null), stableJson(next), {
+    fromLabel: current ? `${kind}/${label} (current)` : '/dev/null',
+    toLabel: `${kind}/${label} (proposed)`,
+  });
+
+  return { next, diff, changedFields };
+}
+
+/**
+ * RFC 7386 JSON Merge Patch.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Derive a document ID from a display name (e.g. 'Sign Up' → 'sign-up').
+ */
+export function slugifyDesignId(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'untitled'
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Pretty JSON with sorted keys, so diffs don't depend on field order. */
+function stableJson(value: unknown): string {
+  if (value === null) return '';
+  return `${JSON.stringify(sortKeys(value), null, 2)}\n`;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys(value[key])])
+  );
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join('.') || '(root)'} — ${issue.message}`)
+    .join('; ');
+}
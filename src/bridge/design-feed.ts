@@ -0,0 +1,153 @@
+/**
+ * MyndHyve CLI — Bridge Design Change Feed
+ *
+ * Polls the project's screens, components and themes in Firestore and emits
+ * a `change` event for every document added, modified or removed since the
+ * previous poll. The MCP server turns these into `notifications/resources/
+ * updated` and `list_changed` notifications so assistants don't work from
+ * stale design context.
+ *
+ * The first poll only records a baseline. Documents are fingerprinted by
+ * `updatedAt`, falling back to a hash of their content. Each poll pages
+ * through whole collections, so the interval backs off while nothing
+ * changes (see poller.ts).
+ */
+
+import { EventEmitter } from 'node:events';
+import { listDocuments } from '../api/firestore.js';
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import { AdaptivePoller } from './poller.js';
+import { POLL_INTERVAL_MS } from './types.js';
+
+const log = createLogger('BridgeDesignFeed');
+
+/** Ceiling the poll interval backs off to while the design is unchanged */
+const IDLE_MAX_INTERVAL_MS = 30_000;
+
+/** Firestore's largest list page */
+const PAGE_SIZE = 300;
+
+export type DesignCollection = 'screens' | 'components' | 'themes';
+
+export const DESIGN_COLLECTIONS: readonly DesignCollection[] = ['screens', 'components', 'themes'];
+
+export interface DesignChange {
+  collection: DesignCollection;
+  id: string;
+  change: 'added' | 'modified' | 'removed';
+}
+
+export interface DesignChangeFeedEvents {
+  change: (change: DesignChange) => void;
+  error: (error: Error) => void;
+}
+
+// ============================================================================
+// FEED
+// ============================================================================
+
+export class DesignChangeFeed extends EventEmitter {
+  private readonly fingerprints = new Map<DesignCollection, Map<string, string>>();
+  private readonly poller: AdaptivePoller;
+
+  constructor(
+    private readonly projectId: string,
+    intervalMs = POLL_INTERVAL_MS,
+    private readonly collections: readonly DesignCollection[] = DESIGN_COLLECTIONS
+  ) {
+    super();
+    this.poller = new AdaptivePoller('Design', () => this.tick(), {
+      minIntervalMs: intervalMs,
+      maxIntervalMs: Math.max(intervalMs, IDLE_MAX_INTERVAL_MS),
+      unref: true,
+    });
+  }
+
+  /**
+   * Start polling. Runs the baseline poll immediately.
+   */
+  start(): void {
+    this.poller.start();
+    this.poller.trigger();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Poll every watched collection once and emit changes. Returns the changes.
+   */
+  async poll(): Promise<DesignChange[]> {
+    const changes: DesignChange[] = [];
+
+    for (const collection of this.collections) {
+      const current = new Map<string, string>();
+      let pageToken: string | undefined;
+      do {
+        const page = await listDocuments(`projects/${this.projectId}/${collection}`, {
+          pageSize: PAGE_SIZE,
+          pageToken,
+        });
+        for (const doc of page.documents) {
+          current.set(doc.id as string, fingerprint(doc));
+        }
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+
+      const previous = this.fingerprints.get(collection);
+      this.fingerprints.set(collection, current);
+      if (!previous) continue; // Baseline
+
+      for (const [id, print] of current) {
+        const before = previous.get(id);
+        if (before === undefined) changes.push({ collection, id, change: 'added' });
+        else if (before !== print) changes.push({ collection, id, change: 'modified' });
+      }
+      for (const id of previous.keys()) {
+        if (!current.has(id)) changes.push({ collection, id, change: 'removed' });
+      }
+    }
+
+    for (const change of changes) {
+      log.debug('Design change', { ...change });
+      this.emit('change', change);
+    }
+    return changes;
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNAL
+  // --------------------------------------------------------------------------
+
+  /** One poller run; true when something changed, so polling stays fast. */
+  private async tick(): Promise<boolean> {
+    try {
+      return (await this.poll()).length > 0;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      log.debug('Design poll failed', { error: err.message });
+      if (this.listenerCount('error') > 0) this.emit('error', err);
+      return false;
+    }
+  }
+}
+
+/**
+ * MCP resource URI for a design document.
+ */
+export function designResourceUri(collection: DesignCollection, id: string): string {
+  switch (collection) {
+    case 'screens':
+      return `myndhyve://design/screen/${id}`;
+    case 'components':
+      return `myndhyve://design/component/${id}`;
+    case 'themes':
+      return 'myndhyve://design/theme';
+  }
+}
+
+function fingerprint(doc: Record<string, unknown>): string {
+  return typeof doc.updatedAt === 'string' ? doc.updatedAt : hashContent(JSON.stringify(doc));
+}
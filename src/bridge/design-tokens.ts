@@ -0,0 +1,460 @@
+/**
+ * MyndHyve CLI — Bridge Design Token Export
+ *
+ * Turns the project theme (the first document in `projects/{id}/themes`)
+ * into framework-native code: a Tailwind preset, CSS custom properties,
+ * SCSS variables, a TypeScript constants module, a Flutter ThemeData
+ * builder, or W3C Design Tokens JSON. The formats default to a preset for
+ * the session's ExportFramework; `designTokens` in .myndhyve/bridge.json
+ * overrides them.
+ *
+ * Output is deterministic, so unchanged files are not rewritten. With
+ * `designTokens.sync` set, the bridge loop re-exports on theme changes.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, posix } from 'node:path';
+import { listDocuments } from '../api/firestore.js';
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import type { FileWatcher } from './watcher.js';
+import type {
+  BridgeLocalConfig,
+  DesignTokenFormat,
+  DesignTokensConfig,
+  ExportFramework,
+} from './types.js';
+
+const log = createLogger('BridgeDesignTokens');
+
+export type DesignTokenType = 'color' | 'dimension' | 'fontFamily' | 'fontWeight' | 'shadow' | 'number' | 'string';
+
+export interface DesignToken {
+  /** Theme group and key path, e.g. ['colors', 'gray', '100'] */
+  path: string[];
+  value: string | number;
+  type: DesignTokenType;
+}
+
+/** Theme groups exported, in output order */
+const THEME_GROUPS = ['colors', 'typography', 'spacing', 'radii', 'shadows', 'breakpoints', 'tokens'] as const;
+
+/** Prefix for CSS/SCSS variable names per theme group ('' drops the group name) */
+const VARIABLE_PREFIXES: Record<string, string> = {
+  colors: 'color',
+  typography: '',
+  spacing: 'spacing',
+  radii: 'radius',
+  shadows: 'shadow',
+  breakpoints: 'breakpoint',
+  tokens: '',
+};
+
+/** Formats generated when the config doesn't list any */
+export const DEFAULT_TOKEN_FORMATS: Record<ExportFramework, DesignTokenFormat[]> = {
+  'react-tailwind': ['tailwind', 'css'],
+  'vue-tailwind': ['tailwind', 'css'],
+  nextjs: ['tailwind', 'css'],
+  nuxt: ['tailwind', 'css'],
+  'react-styled': ['ts', 'css'],
+  'html-css': ['css'],
+  'react-native': ['ts'],
+  flutter: ['flutter'],
+};
+
+const TOKEN_FILE_NAMES: Record<DesignTokenFormat, string> = {
+  tailwind: 'tailwind.tokens.js',
+  css: 'tokens.css',
+  scss: '_tokens.scss',
+  ts: 'tokens.ts',
+  flutter: 'myndhyve_theme.dart',
+  w3c: 'tokens.json',
+};
+
+const GENERATED_NOTICE =
+  'Generated by myndhyve-cli from the MyndHyve theme — do not edit. Regenerate with `myndhyve-cli bridge tokens export`.';
+
+const COLOR_RE = /^(#[0-9a-f]{3,8}|rgba?\(.*\)|hsla?\(.*\))$/i;
+const DIMENSION_RE = /^-?\d*\.?\d+(px|rem|em|%|vh|vw)$/;
+
+// ============================================================================
+// FLATTEN
+// ============================================================================
+
+/**
+ * Flatten a theme document into leaf tokens. Unknown top-level fields
+ * (id, name, timestamps, ...) are ignored; arrays are joined with ", ".
+ */
+export function flattenTheme(theme: Record<string, unknown>): DesignToken[] {
+  const tokens: DesignToken[] = [];
+
+  const walk = (value: unknown, path: string[]): void => {
+    if (Array.isArray(value)) value = value.join(', ');
+    if (typeof value === 'string' || typeof value === 'number') {
+      tokens.push({ path, value, type: tokenType(path, value) });
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) walk(child, [...path, key]);
+    }
+  };
+
+  for (const group of THEME_GROUPS) {
+    if (theme[group] !== undefined) walk(theme[group], [group]);
+  }
+  return tokens;
+}
+
+function tokenType(path: string[], value: string | number): DesignTokenType {
+  const [group, sub] = path;
+  if (group === 'colors') return 'color';
+  if (group === 'shadows') return 'shadow';
+  if (group === 'spacing' || group === 'radii' || group === 'breakpoints') return 'dimension';
+  if (group === 'typography') {
+    if (sub === 'fontFamily') return 'fontFamily';
+    if (sub === 'fontWeight') return 'fontWeight';
+    if ((sub === 'fontSize' || sub === 'letterSpacing') && typeof value === 'string') return 'dimension';
+  }
+  if (typeof value === 'number') return 'number';
+  if (COLOR_RE.test(value)) return 'color';
+  if (DIMENSION_RE.test(value)) return 'dimension';
+  return 'string';
+}
+
+/** Value as CSS: unitless dimensions are pixels */
+function cssValue(token: DesignToken): string {
+  if (token.type === 'dimension' && typeof token.value === 'number') {
+    return token.value === 0 ? '0' : `${token.value}px`;
+  }
+  return String(token.value);
+}
+
+/** Path segments below the group, without Tailwind-style DEFAULT keys */
+function tokenKeys(token: DesignToken): string[] {
+  return token.path.slice(1).filter((key) => key !== 'DEFAULT');
+}
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+/**
+ * Render a theme in one token format.
+ */
+export function renderDesignTokens(theme: Record<string, unknown>, format: DesignTokenFormat): string {
+  const tokens = flattenTheme(theme);
+  switch (format) {
+    case 'tailwind':
+      return renderTailwind(tokens);
+    case 'css':
+      return renderCss(tokens);
+    case 'scss':
+      return renderScss(tokens);
+    case 'ts':
+      return renderTs(tokens);
+    case 'flutter':
+      return renderFlutter(tokens);
+    case 'w3c':
+      return renderW3c(tokens);
+  }
+}
+
+/** CSS/SCSS variable name without the leading `--` or `$` */
+function variableName(token: DesignToken): string {
+  const prefix = VARIABLE_PREFIXES[token.path[0]];
+  const parts = [...(prefix ? [prefix] : []), ...tokenKeys(token)];
+  return parts
+    .map((part) => part.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase())
+    .join('-')
+    .replace(/[^a-z0-9_-]+/g, '-');
+}
+
+function renderCss(tokens: DesignToken[]): string {
+  const lines = [`/* ${GENERATED_NOTICE} */`, '', ':root {'];
+  for (const token of tokens) {
+    lines.push(`  --${variableName(token)}: ${cssValue(token)};`);
+  }
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+function renderScss(tokens: DesignToken[]): string {
+  const lines = [`// ${GENERATED_NOTICE}`, ''];
+  for (const token of tokens) {
+    lines.push(`$${variableName(token)}: ${cssValue(token)};`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderTs(tokens: DesignToken[]): string {
+  const tree: Record<string, unknown> = {};
+  for (const token of tokens) setPath(tree, token.path, token.value);
+
+  return [
+    `// ${GENERATED_NOTICE}`,
+    '',
+    `export const designTokens = ${JSON.stringify(tree, null, 2)} as const;`,
+    '',
+    'export type DesignTokens = typeof designTokens;',
+    '',
+  ].join('\n');
+}
+
+/** Tailwind theme keys per theme group / typography field */
+const TAILWIND_KEYS: Record<string, string> = {
+  colors: 'colors',
+  spacing: 'spacing',
+  radii: 'borderRadius',
+  shadows: 'boxShadow',
+  breakpoints: 'screens',
+  fontFamily: 'fontFamily',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  lineHeight: 'lineHeight',
+  letterSpacing: 'letterSpacing',
+};
+
+function renderTailwind(tokens: DesignToken[]): string {
+  const extend: Record<string, unknown> = {};
+
+  for (const token of tokens) {
+    const [group, ...rest] = token.path;
+    const field = group === 'typography' ? rest.shift() : group;
+    const key = field ? TAILWIND_KEYS[field] : undefined;
+    if (!key || rest.length === 0) continue;
+
+    const value =
+      token.type === 'fontFamily'
+        ? String(token.value).split(',').map((family) => family.trim())
+        : cssValue(token);
+    setPath(extend, [key, ...rest], value);
+  }
+
+  return [
+    `/** ${GENERATED_NOTICE} */`,
+    '',
+    "/** Use as a preset in tailwind.config: `presets: [tokens]` @type {import('tailwindcss').Config} */",
+    `export default ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+function renderW3c(tokens: DesignToken[]): string {
+  const tree: Record<string, unknown> = {};
+  for (const token of tokens) {
+    const entry: Record<string, unknown> = { $value: cssValue(token) };
+    if (token.type !== 'string') entry.$type = token.type;
+    setPath(tree, token.path, entry);
+  }
+  return `${JSON.stringify(tree, null, 2)}\n`;
+}
+
+// ── Flutter ──────────────────────────────────────────────────────────────
+
+interface DartConstant {
+  name: string;
+  expression: string;
+}
+
+function renderFlutter(tokens: DesignToken[]): string {
+  const colors = dartConstants(tokens, 'colors', 'c', dartColor);
+  const spacing = dartConstants(tokens, 'spacing', 's', dartDouble);
+  const radii = dartConstants(tokens, 'radii', 'r', dartDouble);
+  const breakpoints = dartConstants(tokens, 'breakpoints', 'bp', dartDouble);
+  const fontFamily = tokens.find((t) => t.type === 'fontFamily');
+
+  const lines = [`// ${GENERATED_NOTICE}`, '', "import 'package:flutter/material.dart';", ''];
+  const pushClass = (name: string, type: string, constants: DartConstant[]) => {
+    if (constants.length === 0) return;
+    lines.push(`class ${name} {`, `  ${name}._();`, '');
+    for (const constant of constants) {
+      lines.push(`  static const ${type} ${constant.name} = ${constant.expression};`);
+    }
+    lines.push('}', '');
+  };
+
+  pushClass('MyndHyveColors', 'Color', colors);
+  pushClass('MyndHyveSpacing', 'double', spacing);
+  pushClass('MyndHyveRadii', 'double', radii);
+  pushClass('MyndHyveBreakpoints', 'double', breakpoints);
+
+  const seed = colors.find((c) => c.name === 'primary') ?? colors.find((c) => c.name.startsWith('primary'));
+  const schemeArgs = [`seedColor: ${seed ? `MyndHyveColors.${seed.name}` : 'Colors.blue'}`, 'brightness: brightness'];
+  for (const role of ['secondary', 'error', 'surface']) {
+    if (colors.some((c) => c.name === role)) schemeArgs.push(`${role}: MyndHyveColors.${role}`);
+  }
+
+  lines.push(
+    'ThemeData myndHyveTheme({Brightness brightness = Brightness.light}) {',
+    '  return ThemeData(',
+    '    useMaterial3: true,',
+    `    colorScheme: ColorScheme.fromSeed(${schemeArgs.join(', ')}),`
+  );
+  if (fontFamily) {
+    const family = String(fontFamily.value).split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    lines.push(`    fontFamily: '${family.replace(/'/g, "\\'")}',`);
+  }
+  lines.push('  );', '}', '');
+  return lines.join('\n');
+}
+
+/**
+ * Dart constants for one theme group. Values that can't be expressed as a
+ * Dart literal (e.g. `hsl()` colors, `calc()`) are skipped.
+ */
+function dartConstants(
+  tokens: DesignToken[],
+  group: string,
+  digitPrefix: string,
+  toExpression: (value: string | number) => string | null
+): DartConstant[] {
+  const constants: DartConstant[] = [];
+  const seen = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.path[0] !== group) continue;
+    const expression = toExpression(token.value);
+    const name = dartIdentifier(tokenKeys(token), digitPrefix);
+    if (!expression || !name || seen.has(name)) continue;
+    seen.add(name);
+    constants.push({ name, expression });
+  }
+  return constants;
+}
+
+function dartIdentifier(keys: string[], digitPrefix: string): string {
+  const words = keys.flatMap((key) => key.split(/[^A-Za-z0-9]+/)).filter(Boolean);
+  const name = words
+    .map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() : word.charAt(0).toUpperCase()) + word.slice(1))
+    .join('');
+  return /^\d/.test(name) ? `${digitPrefix}${name}` : name;
+}
+
+function dartColor(value: string | number): string | null {
+  const text = String(value).trim();
+
+  const hex = /^#([0-9a-f]{3,8})$/i.exec(text)?.[1];
+  if (hex && [3, 6, 8].includes(hex.length)) {
+    const full = hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex;
+    // CSS puts alpha last, Flutter first
+    const argb = full.length === 8 ? full.slice(6) + full.slice(0, 6) : `FF${full}`;
+    return `Color(0x${argb.toUpperCase()})`;
+  }
+
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)$/i.exec(text);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : Number(rgb[4]);
+    return `Color.fromRGBO(${rgb[1]}, ${rgb[2]}, ${rgb[3]}, ${alpha})`;
+  }
+  return null;
+}
+
+function dartDouble(value: string | number): string | null {
+  if (typeof value === 'number') return formatDouble(value);
+  const match = /^(-?\d*\.?\d+)(px|rem|em)?$/.exec(value.trim());
+  if (!match) return null;
+  const n = Number(match[1]);
+  return formatDouble(match[2] === 'rem' || match[2] === 'em' ? n * 16 : n);
+}
+
+function formatDouble(n: number): string {
+  return Number.isInteger(n) ? `${n}.0` : String(n);
+}
+
+function setPath(tree: Record<string, unknown>, path: string[], value: unknown): void {
+  let node = tree;
+  for (const key of path.slice(0, -1)) {
+    const child = node[key];
+    if (!child || typeof child !== 'object' || Array.isArray(child)) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export interface TokenOutput {
+  format: DesignTokenFormat;
+  /** Path relative to the project root (POSIX separators) */
+  relativePath: string;
+}
+
+export interface TokenFileResult extends TokenOutput {
+  content: string;
+  /** False when the file already had this content */
+  changed: boolean;
+}
+
+export interface TokenExportResult {
+  themeId: string;
+  files: TokenFileResult[];
+}
+
+/**
+ * Which files an export writes. Flutter output goes under lib/theme unless
+ * an output directory is configured; everything else under design-tokens/.
+ */
+export function resolveTokenOutputs(framework: ExportFramework, options: DesignTokensConfig = {}): TokenOutput[] {
+  const formats = options.formats?.length ? options.formats : DEFAULT_TOKEN_FORMATS[framework];
+  const outDir = options.outDir ? normalizeOutDir(options.outDir) : undefined;
+
+  return [...new Set(formats)].map((format) => ({
+    format,
+    relativePath: posix.join(outDir ?? (format === 'flutter' ? 'lib/theme' : 'design-tokens'), TOKEN_FILE_NAMES[format]),
+  }));
+}
+
+function normalizeOutDir(outDir: string): string {
+  const normalized = posix.normalize(outDir.replace(/\\/g, '/')).replace(/\/+$/, '');
+  if (isAbsolute(outDir) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Token output directory must be inside the project: ${outDir}`);
+  }
+  return normalized;
+}
+
+/**
+ * Fetch the project theme. Projects have at most one theme document.
+ */
+export async function fetchProjectTheme(projectId: string): Promise<Record<string, unknown> | null> {
+  const { documents } = await listDocuments(`projects/${projectId}/themes`, { pageSize: 1 });
+  return documents[0] ?? null;
+}
+
+/**
+ * Fetch the theme and write every configured token file whose content changed.
+ *
+ * @param options - Overrides for `config.designTokens`
+ * @param watcher - Running file watcher, told about the writes so they aren't pushed back as edits
+ */
+export async function exportDesignTokens(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  options: DesignTokensConfig & { dryRun?: boolean } = {},
+  watcher?: FileWatcher
+): Promise<TokenExportResult> {
+  const theme = await fetchProjectTheme(config.projectId);
+  if (!theme) {
+    throw new Error('No theme defined for this project');
+  }
+
+  const outputs = resolveTokenOutputs(config.framework, { ...config.designTokens, ...options });
+  const files: TokenFileResult[] = [];
+
+  for (const output of outputs) {
+    const content = renderDesignTokens(theme, output.format);
+    const absolutePath = join(projectRoot, output.relativePath);
+    const existing = await readFile(absolutePath, 'utf-8').catch(() => null);
+    const changed = existing !== content;
+
+    if (changed && !options.dryRun) {
+      await mkdir(dirname(absolutePath), { recursive: true });
+      watcher?.setKnownHash(output.relativePath, hashContent(content));
+      await writeFile(absolutePath, content);
+      log.debug('Token file written', { path: output.relativePath });
+    }
+    files.push({ ...output, content, changed });
+  }
+
+  return { themeId: theme.id as string, files };
+}
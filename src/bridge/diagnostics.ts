@@ -0,0 +1,619 @@
+/**
+ * MyndHyve CLI — Build Diagnostic Parsers
+ *
+ * Turns raw build output into structured BuildError / BuildWarning entries.
+ *
+ * Parsers are registered by name and instantiated per output stream, so they
+ * can keep state across lines — ESLint's stylish formatter prints the file
+ * path on its own line, Cargo prints the location on the line after the
+ * message, and test runners spread a failure over a header, a message, and a
+ * stack frame. Every registered parser sees every line; the collector
+ * de-duplicates what they report.
+ */
+
+import { isAbsolute, relative } from 'node:path';
+import type { BuildError, BuildWarning } from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic extends BuildError {
+  severity: DiagnosticSeverity;
+}
+
+/**
+ * A stateful parser. `parseLine` is called for each complete output line and
+ * returns any diagnostics that line completes; `finish` flushes pending state
+ * at the end of the stream.
+ */
+export interface DiagnosticParser {
+  parseLine(line: string): Diagnostic[];
+  finish?(): Diagnostic[];
+}
+
+export type DiagnosticParserFactory = () => DiagnosticParser;
+
+/** Max errors and max warnings kept per build */
+export const MAX_DIAGNOSTICS = 50;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, DiagnosticParserFactory>();
+
+/**
+ * Register (or replace) a diagnostic parser.
+ */
+export function registerDiagnosticParser(name: string, factory: DiagnosticParserFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Names of all registered parsers, in registration order.
+ */
+export function listDiagnosticParsers(): string[] {
+  return [...registry.keys()];
+}
+
+// ============================================================================
+// COLLECTOR
+// ============================================================================
+
+export interface DiagnosticCollectorOptions {
+  /** Build working directory — absolute paths under it are made relative */
+  cwd?: string;
+  /** Restrict to these parsers (default: all registered) */
+  parsers?: string[];
+}
+
+/**
+ * Feeds build output through the registered parsers. Output arrives in
+ * arbitrary chunks, so partial lines are buffered per stream.
+ */
+export class DiagnosticCollector {
+  private readonly streams = new Map<string, { buffer: string; parsers: DiagnosticParser[] }>();
+  private readonly errors: BuildError[] = [];
+  private readonly warnings: BuildWarning[] = [];
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly options: DiagnosticCollectorOptions = {}) {}
+
+  /**
+   * Consume a chunk of output from a stream.
+   */
+  write(stream: string, data: string): void {
+    const state = this.getStream(stream);
+    state.buffer += data;
+
+    const lines = state.buffer.split('\n');
+    state.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.parseLine(state.parsers, line);
+    }
+  }
+
+  /**
+   * Flush buffered lines and parser state, and return what was collected.
+   */
+  finish(): { errors: BuildError[]; warnings: BuildWarning[] } {
+    for (const state of this.streams.values()) {
+      if (state.buffer) {
+        this.parseLine(state.parsers, state.buffer);
+        state.buffer = '';
+      }
+      for (const parser of state.parsers) {
+        this.add(parser.finish?.() ?? []);
+      }
+    }
+    return { errors: this.errors, warnings: this.warnings };
+  }
+
+  private getStream(stream: string) {
+    let state = this.streams.get(stream);
+    if (!state) {
+      const names = this.options.parsers ?? listDiagnosticParsers();
+      const parsers = names
+        .map((name) => registry.get(name))
+        .filter((factory): factory is DiagnosticParserFactory => factory !== undefined)
+        .map((factory) => factory());
+      state = { buffer: '', parsers };
+      this.streams.set(stream, state);
+    }
+    return state;
+  }
+
+  private parseLine(parsers: DiagnosticParser[], rawLine: string): void {
+    const line = stripAnsi(rawLine).replace(/\r$/, '');
+    for (const parser of parsers) {
+      this.add(parser.parseLine(line));
+    }
+  }
+
+  private add(diagnostics: Diagnostic[]): void {
+    for (const { severity, ...diagnostic } of diagnostics) {
+      const target = severity === 'error' ? this.errors : this.warnings;
+      if (target.length >= MAX_DIAGNOSTICS) continue;
+
+      if (diagnostic.file) diagnostic.file = this.normalizePath(diagnostic.file);
+
+      const key = [severity, diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.message].join('|');
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+
+      target.push(stripUndefined(diagnostic));
+    }
+  }
+
+  private normalizePath(rawFile: string): string {
+    const file = rawFile.replace(/^file:\/\//, '');
+    const { cwd } = this.options;
+    if (cwd && isAbsolute(file)) {
+      const rel = relative(cwd, file);
+      if (!rel.startsWith('..') && !isAbsolute(rel)) return rel.replace(/\\/g, '/');
+    }
+    return file.replace(/^\.\//, '');
+  }
+}
+
+// ============================================================================
+// BUILT-IN PARSERS
+// ============================================================================
+
+/**
+ * TypeScript: `file(line,col): error TS2322: msg` (--pretty false) and
+ * `file:line:col - error TS2322: msg` (--pretty).
+ */
+function typescriptParser(): DiagnosticParser {
+  const plain = /^(.+?)\((\d+),(\d+)\):\s*(error|warning)\s+(TS\d+):\s*(.+)$/;
+  const pretty = /^(.+?):(\d+):(\d+)\s+-\s+(error|warning)\s+(TS\d+):\s*(.+)$/;
+
+  return {
+    parseLine(line) {
+      const match = line.match(plain) ?? line.match(pretty);
+      if (!match) return [];
+      return [{
+        severity: match[4] as DiagnosticSeverity,
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        code: match[5],
+        message: match[6],
+      }];
+    },
+  };
+}
+
+/**
+ * ESLint stylish (default) formatter: a file path line followed by indented
+ * `line:col  severity  message  rule` lines.
+ */
+function eslintStylishParser(): DiagnosticParser {
+  const entry = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(@?[\w/-]+))?\s*$/;
+  let currentFile: string | undefined;
+
+  return {
+    parseLine(line) {
+      if (!line.trim()) {
+        currentFile = undefined;
+        return [];
+      }
+
+      const match = line.match(entry);
+      if (match) {
+        return [{
+          severity: match[3] as DiagnosticSeverity,
+          file: currentFile,
+          line: Number(match[1]),
+          column: Number(match[2]),
+          message: match[4],
+          code: match[5],
+        }];
+      }
+
+      // An unindented line that isn't the ✖ summary starts a new file block
+      currentFile = /^\S/.test(line) && !/^[✖✔]/.test(line) ? line.trim() : undefined;
+      return [];
+    },
+  };
+}
+
+/**
+ * ESLint JSON formatter (`eslint -f json`): an array of
+ * `{ filePath, messages: [{ ruleId, severity, message, line, column }] }`.
+ * The array may be printed on one line or pretty-printed across several.
+ */
+function eslintJsonParser(): DiagnosticParser {
+  const MAX_BUFFER = 5 * 1024 * 1024;
+  let buffer: string | null = null;
+
+  const tryParse = (): Diagnostic[] | null => {
+    if (buffer === null) return null;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(buffer);
+    } catch {
+      return null;
+    }
+    buffer = null;
+    if (!Array.isArray(parsed)) return [];
+
+    const diagnostics: Diagnostic[] = [];
+    for (const result of parsed as Array<Record<string, unknown>>) {
+      const messages = Array.isArray(result.messages) ? result.messages : [];
+      for (const m of messages as Array<Record<string, unknown>>) {
+        diagnostics.push({
+          severity: m.severity === 2 ? 'error' : 'warning',
+          file: typeof result.filePath === 'string' ? result.filePath : undefined,
+          line: typeof m.line === 'number' ? m.line : undefined,
+          column: typeof m.column === 'number' ? m.column : undefined,
+          code: typeof m.ruleId === 'string' ? m.ruleId : undefined,
+          message: String(m.message ?? ''),
+        });
+      }
+    }
+    return diagnostics;
+  };
+
+  return {
+    parseLine(line) {
+      if (buffer === null) {
+        if (!/^\s*\[\s*(\{\s*"filePath"|$)/.test(line)) return [];
+        buffer = line;
+        // Single-line output closes on the line that opened it
+        return line.trimEnd().endsWith(']') ? tryParse() ?? [] : [];
+      }
+
+      buffer += '\n' + line;
+      if (buffer.length > MAX_BUFFER) {
+        buffer = null;
+        return [];
+      }
+      // Pretty-printed output: only the unindented `]` can close the array,
+      // so parse there instead of re-parsing the buffer on every line
+      return /^\]\s*$/.test(line) ? tryParse() ?? [] : [];
+    },
+    finish() {
+      return tryParse() ?? [];
+    },
+  };
+}
+
+/**
+ * Jest and Vitest failure blocks. A header (`● Suite › test` or
+ * ` FAIL  file > suite > test`) opens a failure; the first message line and
+ * the first non-node_modules stack frame complete it.
+ */
+function testRunnerParser(): DiagnosticParser {
+  const jestHeader = /^\s*● (.+)$/;
+  const vitestHeader = /^\s*FAIL\s+(\S+) > (.+)$/;
+  const frame = /(?:^\s*at .*?\(?|^\s*❯ (?:.*\s)?)([^\s()]+):(\d+):(\d+)\)?\s*$/;
+
+  let pending: Diagnostic | null = null;
+  let title = '';
+
+  const flush = (): Diagnostic[] => {
+    const done = pending;
+    pending = null;
+    return done ? [done] : [];
+  };
+
+  return {
+    parseLine(line) {
+      const header = line.match(vitestHeader) ?? line.match(jestHeader);
+      if (header) {
+        const out = flush();
+        const vitest = header.length === 3;
+        title = vitest ? header[2] : header[1];
+
+        // Jest prints captured console output under a `● Console` header
+        if (!vitest && title.trim() === 'Console') return out;
+
+        pending = {
+          severity: 'error',
+          file: vitest ? header[1] : undefined,
+          message: title,
+        };
+        return out;
+      }
+
+      if (!pending) return [];
+
+      const location = line.match(frame);
+      if (location && !location[1].includes('node_modules')) {
+        pending.file = location[1];
+        pending.line = Number(location[2]);
+        pending.column = Number(location[3]);
+        return flush();
+      }
+
+      const text = line.trim();
+      if (pending.message === title && text && !/^[⎯─-]+/.test(text) && !text.startsWith('at ')) {
+        pending.message = `${title}: ${text}`;
+      }
+      return [];
+    },
+    finish: flush,
+  };
+}
+
+/**
+ * Flutter / Dart analyzer (`flutter analyze`, `dart analyze`) in both the
+ * bullet and dash styles, plus compiler errors from `flutter build`.
+ */
+function flutterParser(): DiagnosticParser {
+  const bullet = /^\s*(error|warning|info)\s+•\s+(.+?)\s+•\s+(.+?):(\d+):(\d+)\s+•\s+(\w+)\s*$/;
+  const dash = /^\s*(error|warning|info)\s+-\s+(.+?):(\d+):(\d+)\s+-\s+(.+?)\s+-\s+(\w+)\s*$/;
+  const compiler = /^(.+?\.dart):(\d+):(\d+):\s+(Error|Warning):\s*(.+)$/;
+
+  const severity = (level: string): DiagnosticSeverity =>
+    level.toLowerCase() === 'error' ? 'error' : 'warning';
+
+  return {
+    parseLine(line) {
+      let match = line.match(bullet);
+      if (match) {
+        return [{
+          severity: severity(match[1]),
+          message: match[2],
+          file: match[3],
+          line: Number(match[4]),
+          column: Number(match[5]),
+          code: match[6],
+        }];
+      }
+
+      match = line.match(dash);
+      if (match) {
+        return [{
+          severity: severity(match[1]),
+          file: match[2],
+          line: Number(match[3]),
+          column: Number(match[4]),
+          message: match[5],
+          code: match[6],
+        }];
+      }
+
+      match = line.match(compiler);
+      if (match) {
+        return [{
+          severity: severity(match[4]),
+          file: match[1],
+          line: Number(match[2]),
+          column: Number(match[3]),
+          message: match[5],
+        }];
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * Cargo / rustc human output (`error[E0425]: msg` then ` --> file:line:col`)
+ * and `--message-format=json` compiler messages.
+ */
+function cargoParser(): DiagnosticParser {
+  const header = /^(error|warning)(?:\[(\w+)\])?:\s*(.+)$/;
+  const arrow = /^\s*-->\s*(.+?):(\d+):(\d+)\s*$/;
+  // Summary lines with no location of their own
+  const summary = /^(aborting due to|could not compile|build failed)|generated \d+ warnings?|previous errors?/;
+
+  let pending: Diagnostic | null = null;
+
+  const flush = (): Diagnostic[] => {
+    const done = pending;
+    pending = null;
+    return done && !summary.test(done.message) ? [done] : [];
+  };
+
+  return {
+    parseLine(line) {
+      if (line.startsWith('{"reason":"compiler-message"')) {
+        return parseCargoJson(line);
+      }
+
+      const head = line.match(header);
+      if (head) {
+        const out = flush();
+        pending = {
+          severity: head[1] as DiagnosticSeverity,
+          code: head[2],
+          message: head[3],
+        };
+        return out;
+      }
+
+      const location = line.match(arrow);
+      if (location && pending) {
+        pending.file = location[1];
+        pending.line = Number(location[2]);
+        pending.column = Number(location[3]);
+        return flush();
+      }
+
+      return [];
+    },
+    finish: flush,
+  };
+}
+
+function parseCargoJson(line: string): Diagnostic[] {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return [];
+  }
+
+  const message = parsed.message as Record<string, unknown> | undefined;
+  if (!message || (message.level !== 'error' && message.level !== 'warning')) return [];
+
+  const spans = (message.spans as Array<Record<string, unknown>> | undefined) ?? [];
+  const primary = spans.find((s) => s.is_primary) ?? spans[0];
+  const code = message.code as { code?: string } | null | undefined;
+
+  return [{
+    severity: message.level,
+    message: String(message.message ?? ''),
+    code: code?.code,
+    file: primary?.file_name as string | undefined,
+    line: primary?.line_start as number | undefined,
+    column: primary?.column_start as number | undefined,
+  }];
+}
+
+/**
+ * Go: compiler/vet output (`./main.go:10:5: undefined: foo`) and `go test`
+ * failures (`--- FAIL: TestX` followed by indented `file_test.go:12: msg`).
+ */
+function goParser(): DiagnosticParser {
+  const compiler = /^(\.{0,2}\/?[\w./-]+\.go):(\d+):(\d+):\s*(.+)$/;
+  const testFail = /^\s*--- FAIL: (\S+)/;
+  const testLine = /^\s+([\w./-]+\.go):(\d+):\s*(.+)$/;
+  let currentTest: string | undefined;
+
+  return {
+    parseLine(line) {
+      const fail = line.match(testFail);
+      if (fail) {
+        currentTest = fail[1];
+        return [];
+      }
+
+      const compile = line.match(compiler);
+      if (compile) {
+        return [{
+          severity: 'error',
+          file: compile[1],
+          line: Number(compile[2]),
+          column: Number(compile[3]),
+          message: compile[4],
+        }];
+      }
+
+      const test = currentTest ? line.match(testLine) : null;
+      if (test) {
+        return [{
+          severity: 'error',
+          file: test[1],
+          line: Number(test[2]),
+          message: `${currentTest}: ${test[3]}`,
+        }];
+      }
+
+      if (/^(ok|FAIL|PASS)\b/.test(line)) currentTest = undefined;
+      return [];
+    },
+  };
+}
+
+/**
+ * pytest: failure sections (`____ test_x ____`, `E   ...` lines, then
+ * `path.py:12: AssertionError`) and the short summary
+ * (`FAILED path.py::test_x - msg`) for tests without a traceback.
+ */
+function pytestParser(): DiagnosticParser {
+  const section = /^_{3,} (.+?) _{3,}$/;
+  const location = /^(.+?\.py):(\d+):\s*(\w+)\s*$/;
+  const summaryLine = /^(FAILED|ERROR) (.+?\.py)::(\S+)(?: - (.+))?$/;
+
+  let currentTest: string | undefined;
+  let detail: string | undefined;
+  const reported = new Set<string>();
+
+  return {
+    parseLine(line) {
+      const head = line.match(section);
+      if (head) {
+        currentTest = head[1].replace(/^ERROR (at|collecting) /, '');
+        detail = undefined;
+        return [];
+      }
+
+      if (currentTest && line.startsWith('E ') && detail === undefined) {
+        detail = line.slice(1).trim();
+        return [];
+      }
+
+      const loc = currentTest ? line.match(location) : null;
+      if (loc && currentTest) {
+        const test = currentTest;
+        reported.add(test);
+        currentTest = undefined;
+        return [{
+          severity: 'error',
+          file: loc[1],
+          line: Number(loc[2]),
+          code: loc[3],
+          message: `${test}: ${detail ?? loc[3]}`,
+        }];
+      }
+
+      const summary = line.match(summaryLine);
+      if (summary) {
+        const test = summary[3].split('::').pop() ?? summary[3];
+        if (reported.has(test)) return [];
+        return [{
+          severity: 'error',
+          file: summary[2],
+          message: summary[4] ? `${test}: ${summary[4]}` : test,
+        }];
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * Catch-all: `Error: msg`, `Warning: msg`, and Vite/Rollup errors.
+ */
+function genericParser(): DiagnosticParser {
+  return {
+    parseLine(line) {
+      let match = line.match(/^(?:Error|ERROR):\s*(.+)$/) ?? line.match(/^\[vite\].*Error:\s*(.+)$/);
+      if (match) return [{ severity: 'error', message: match[1] }];
+
+      match = line.match(/^(?:Warning|WARN):\s*(.+)$/);
+      if (match) return [{ severity: 'warning', message: match[1] }];
+
+      return [];
+    },
+  };
+}
+
+registerDiagnosticParser('typescript', typescriptParser);
+registerDiagnosticParser('eslint', eslintStylishParser);
+registerDiagnosticParser('eslint-json', eslintJsonParser);
+registerDiagnosticParser('test-runner', testRunnerParser);
+registerDiagnosticParser('flutter', flutterParser);
+registerDiagnosticParser('cargo', cargoParser);
+registerDiagnosticParser('go', goParser);
+registerDiagnosticParser('pytest', pytestParser);
+registerDiagnosticParser('generic', genericParser);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function stripAnsi(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matching ANSI escapes
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/** Firestore rejects undefined field values. */
+function stripUndefined(diagnostic: BuildError): BuildError {
+  const out: BuildError = { message: diagnostic.message };
+  if (diagnostic.file !== undefined) out.file = diagnostic.file;
+  if (diagnostic.line !== undefined) out.line = diagnostic.line;
+  if (diagnostic.column !== undefined) out.column = diagnostic.column;
+  if (diagnostic.code !== undefined) out.code = diagnostic.code;
+  return out;
+}
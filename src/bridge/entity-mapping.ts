@@ -0,0 +1,271 @@
+/**
+ * MyndHyve CLI — Bridge Entity Mapping
+ *
+ * Decides which MyndHyve entity a synced file belongs to. Custom rules from
+ * `entityMapping` in .myndhyve/bridge.json are checked first, then the preset
+ * for the project's ExportFramework, then generic path heuristics.
+ *
+ * Rule patterns use the same .gitignore-style globs as ignore patterns, so
+ * an unanchored `pages/**` also matches `src/pages/**`. Preset rules skip
+ * test, spec and story files, which fall through to the heuristics.
+ */
+
+import { basename, dirname, extname } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { globToRegex } from './ignore.js';
+import type {
+  BridgeEntityType,
+  BridgeLocalConfig,
+  EntityMappingRule,
+  ExportFramework,
+} from './types.js';
+
+const log = createLogger('BridgeEntityMapping');
+
+const ENTITY_TYPES: readonly BridgeEntityType[] = [
+  'screen',
+  'component',
+  'dataModel',
+  'apiSpec',
+  'theme',
+  'config',
+  'asset',
+];
+
+export interface EntityMapping {
+  entityType: BridgeEntityType;
+  entityId: string;
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+/** Files next to components that are not entities themselves */
+const PRESET_EXCLUDE = ['*.test.*', '*.spec.*', '*.stories.*'];
+
+const SHARED_ASSET_RULES: EntityMappingRule[] = [
+  { pattern: '/public/**', entityType: 'asset', entityId: '{path}' },
+  { pattern: 'assets/**', entityType: 'asset', entityId: '{path}' },
+];
+
+const REACT_RULES: EntityMappingRule[] = [
+  { pattern: 'pages/**', entityType: 'screen', entityId: '{dir}/{name}' },
+  { pattern: 'screens/**', entityType: 'screen', entityId: '{module}' },
+  { pattern: 'views/**', entityType: 'screen', entityId: '{module}' },
+  { pattern: 'routes/**', entityType: 'screen', entityId: '{dir}/{name}' },
+  { pattern: 'components/**', entityType: 'component', entityId: '{module}' },
+  { pattern: 'types/**', entityType: 'dataModel', entityId: '{module}' },
+  { pattern: 'models/**', entityType: 'dataModel', entityId: '{module}' },
+  { pattern: 'api/**', entityType: 'apiSpec', entityId: '{module}' },
+  { pattern: 'services/**', entityType: 'apiSpec', entityId: '{module}' },
+  { pattern: 'tailwind.config.*', entityType: 'theme', entityId: 'tailwind' },
+  { pattern: 'theme/**', entityType: 'theme', entityId: '{module}' },
+  { pattern: 'styles/**', entityType: 'theme', entityId: '{module}' },
+  ...SHARED_ASSET_RULES,
+];
+
+const PRESET_RULES: Record<ExportFramework, EntityMappingRule[]> = {
+  'react-tailwind': REACT_RULES,
+  'react-styled': REACT_RULES,
+  nextjs: [
+    // API routes first — they also live under app/ and pages/
+    { pattern: 'app/**/route.*', entityType: 'apiSpec', entityId: '{dir}' },
+    { pattern: 'pages/api/**', entityType: 'apiSpec', entityId: '{dir}/{name}' },
+    { pattern: 'app/**/page.*', entityType: 'screen', entityId: '{dir}' },
+    { pattern: 'app/**/layout.*', entityType: 'component', entityId: '{dir}/layout' },
+    { pattern: 'pages/**', entityType: 'screen', entityId: '{dir}/{name}' },
+    { pattern: 'components/**', entityType: 'component', entityId: '{module}' },
+    { pattern: 'types/**', entityType: 'dataModel', entityId: '{module}' },
+    { pattern: 'tailwind.config.*', entityType: 'theme', entityId: 'tailwind' },
+    { pattern: 'styles/**', entityType: 'theme', entityId: '{module}' },
+    { pattern: 'next.config.*', entityType: 'config', entityId: 'next' },
+    ...SHARED_ASSET_RULES,
+  ],
+  nuxt: [
+    { pattern: 'server/api/**', entityType: 'apiSpec', entityId: '{dir}/{name}' },
+    { pattern: 'pages/**', entityType: 'screen', entityId: '{dir}/{name}' },
+    { pattern: 'layouts/**', entityType: 'component', entityId: 'layout-{name}' },
+    { pattern: 'components/**', entityType: 'component', entityId: '{module}' },
+    { pattern: 'composables/**', entityType: 'apiSpec', entityId: '{module}' },
+    { pattern: 'types/**', entityType: 'dataModel', entityId: '{module}' },
+    { pattern: 'tailwind.config.*', entityType: 'theme', entityId: 'tailwind' },
+    { pattern: 'nuxt.config.*', entityType: 'config', entityId: 'nuxt' },
+    ...SHARED_ASSET_RULES,
+  ],
+  'vue-tailwind': [
+    { pattern: 'views/**', entityType: 'screen', entityId: '{module}' },
+    { pattern: 'pages/**', entityType: 'screen', entityId: '{dir}/{name}' },
+    { pattern: 'components/**', entityType: 'component', entityId: '{module}' },
+    { pattern: 'stores/**', entityType: 'dataModel', entityId: '{module}' },
+    { pattern: 'types/**', entityType: 'dataModel', entityId: '{module}' },
+    { pattern: 'api/**', entityType: 'apiSpec', entityId: '{module}' },
+    { pattern: 'tailwind.config.*', entityType: 'theme', entityId: 'tailwind' },
+    ...SHARED_ASSET_RULES,
+  ],
+  'react-native': [
+    { pattern: 'screens/**', entityType: 'screen', entityId: '{module}' },
+    { pattern: '/app/**', entityType: 'screen', entityId: '{dir}/{name}' },
+    { pattern: 'navigation/**', entityType: 'config', entityId: '{module}' },
+    { pattern: 'components/**', entityType: 'component', entityId: '{module}' },
+    { pattern: 'types/**', entityType: 'dataModel', entityId: '{module}' },
+    { pattern: 'services/**', entityType: 'apiSpec', entityId: '{module}' },
+    { pattern: 'theme/**', entityType: 'theme', entityId: '{module}' },
+    { pattern: 'app.json', entityType: 'config', entityId: 'app' },
+    ...SHARED_ASSET_RULES,
+  ],
+  flutter: [
+    { pattern: '/lib/screens/**', entityType: 'screen', entityId: '{name}' },
+    { pattern: '/lib/pages/**', entityType: 'screen', entityId: '{name}' },
+    { pattern: '/lib/views/**', entityType: 'screen', entityId: '{name}' },
+    { pattern: '/lib/widgets/**', entityType: 'component', entityId: '{name}' },
+    { pattern: '/lib/models/**', entityType: 'dataModel', entityId: '{name}' },
+    { pattern: '/lib/services/**', entityType: 'apiSpec', entityId: '{name}' },
+    { pattern: '/lib/api/**', entityType: 'apiSpec', entityId: '{name}' },
+    { pattern: '/lib/theme/**', entityType: 'theme', entityId: '{name}' },
+    { pattern: '/pubspec.yaml', entityType: 'config', entityId: 'pubspec' },
+    { pattern: '/assets/**', entityType: 'asset', entityId: '{path}' },
+  ],
+  'html-css': [
+    { pattern: '*.html', entityType: 'screen', entityId: '{dir}/{name}' },
+    { pattern: '*.css', entityType: 'theme', entityId: '{name}' },
+    { pattern: 'js/**', entityType: 'component', entityId: '{name}' },
+    { pattern: 'images/**', entityType: 'asset', entityId: '{path}' },
+    ...SHARED_ASSET_RULES,
+  ],
+};
+
+/** Built-in rules per export framework. */
+export const ENTITY_MAPPING_PRESETS = Object.fromEntries(
+  Object.entries(PRESET_RULES).map(([framework, rules]) => [
+    framework,
+    rules.map((rule) => ({ ...rule, exclude: PRESET_EXCLUDE })),
+  ])
+) as Record<ExportFramework, EntityMappingRule[]>;
+
+// ============================================================================
+// MAPPER
+// ============================================================================
+
+interface CompiledRule {
+  regex: RegExp;
+  exclude: RegExp[];
+  entityType: BridgeEntityType;
+  entityId: string;
+}
+
+/**
+ * Compiled entity mapping for one linked project.
+ */
+export class EntityMapper {
+  private readonly rules: CompiledRule[];
+
+  constructor(rules: EntityMappingRule[]) {
+    this.rules = [];
+    for (const rule of rules) {
+      if (!rule.pattern || !ENTITY_TYPES.includes(rule.entityType)) {
+        log.warn('Skipping invalid entity mapping rule', {
+          pattern: rule.pattern,
+          entityType: rule.entityType,
+        });
+        continue;
+      }
+      this.rules.push({
+        regex: globToRegex(rule.pattern),
+        exclude: (rule.exclude ?? []).map((pattern) => globToRegex(pattern)),
+        entityType: rule.entityType,
+        entityId: rule.entityId || '{fileId}',
+      });
+    }
+  }
+
+  /**
+   * Map a file to its entity. Falls back to path heuristics, with the file ID
+   * as entity ID, when no rule matches.
+   */
+  map(relativePath: string, mimeType: string, fileId: string): EntityMapping {
+    const normalized = relativePath.replace(/\\/g, '/');
+
+    for (const rule of this.rules) {
+      if (rule.regex.test(normalized) && !rule.exclude.some((regex) => regex.test(normalized))) {
+        return {
+          entityType: rule.entityType,
+          entityId: expandEntityId(rule.entityId, normalized, fileId),
+        };
+      }
+    }
+
+    return { entityType: inferEntityType(normalized, mimeType), entityId: fileId };
+  }
+}
+
+/**
+ * Build the mapper for a linked project: custom rules, then the framework
+ * preset (unless disabled).
+ */
+export function createEntityMapper(config: BridgeLocalConfig | null): EntityMapper {
+  const mapping = config?.entityMapping;
+  const preset = mapping?.preset ?? config?.framework;
+  const presetRules = preset && preset !== 'none' ? (ENTITY_MAPPING_PRESETS[preset] ?? []) : [];
+
+  return new EntityMapper([...(mapping?.rules ?? []), ...presetRules]);
+}
+
+/**
+ * Expand an entity ID template for a file.
+ */
+export function expandEntityId(template: string, relativePath: string, fileId: string): string {
+  const ext = extname(relativePath);
+  const dir = dirname(relativePath);
+  const name = basename(relativePath, ext);
+  const parent = dir === '.' ? '' : basename(dir);
+  const values: Record<string, string> = {
+    fileId,
+    path: relativePath,
+    dir: dir === '.' ? '' : dir,
+    parent,
+    name,
+    // components/Button/index.tsx is the Button component
+    module: name === 'index' && parent ? parent : name,
+    ext: ext.replace(/^\./, ''),
+  };
+
+  const expanded = template
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/+|\/+$/g, '');
+
+  return expanded || fileId;
+}
+
+/**
+ * Generic path heuristics used when no rule or preset matches.
+ */
+export function inferEntityType(relativePath: string, mimeType: string): BridgeEntityType {
+  const lower = relativePath.toLowerCase();
+
+  if (
+    mimeType.startsWith('image/') ||
+    mimeType.startsWith('font/') ||
+    mimeType.startsWith('video/') ||
+    mimeType.startsWith('audio/') ||
+    lower.includes('/assets/') ||
+    lower.startsWith('public/')
+  )
+    return 'asset';
+
+  if (lower.includes('/pages/') || lower.includes('/screens/') || lower.includes('/views/'))
+    return 'screen';
+  if (lower.includes('/components/'))
+    return 'component';
+  if (lower.includes('/models/') || lower.includes('/types/') || lower.includes('/schemas/'))
+    return 'dataModel';
+  if (lower.includes('/api/') || lower.includes('/services/'))
+    return 'apiSpec';
+  if (lower.includes('theme') || lower.includes('tailwind.config') || lower.includes('styles'))
+    return 'theme';
+  if (lower.endsWith('.json') || lower.endsWith('.yaml') || lower.endsWith('.yml'))
+    return 'config';
+
+  return 'component'; // Default
+}
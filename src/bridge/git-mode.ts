@@ -0,0 +1,375 @@
+/**
+ * MyndHyve CLI — Bridge Git Mode
+ *
+ * For teams that review everything through git. Instead of writing remote
+ * changes into the working tree, the bridge keeps a dedicated branch
+ * (default `myndhyve/remote`) checked out in a worktree under
+ * .myndhyve/worktree and commits each pulled batch there, with the entity
+ * IDs in the commit message. Developers merge that branch like any other.
+ *
+ * Local changes are pushed from commits instead of file saves: each poll
+ * diffs HEAD against the last pushed commit and pushes the committed
+ * content of every changed file. A file the remote branch changed since it
+ * was last merged is held back until the branch is merged, so a commit made
+ * on a stale version never overwrites newer remote work.
+ *
+ * State lives in .myndhyve/git-state.json.
+ */
+
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { createLogger } from '../utils/logger.js';
+import { fileIdFromPath, hashContent } from './hasher.js';
+import { getBridgeDir, getFileSyncRecord, upsertFileSyncRecord } from './session.js';
+import { readTransferContent, releaseTransfer } from './transfer.js';
+import type { IgnoreMatcher } from './ignore.js';
+import type { PullResult } from './sync.js';
+import type { FileChangeEvent } from './watcher.js';
+import type { FileSyncStatus, GitModeConfig } from './types.js';
+import { DEFAULT_GIT_REMOTE_BRANCH, MIME_TYPES } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const log = createLogger('BridgeGit');
+
+const WORKTREE_DIR = 'worktree';
+const STATE_FILE = 'git-state.json';
+
+/** Identity for commits the bridge makes on the remote branch */
+const BRIDGE_AUTHOR = { name: 'MyndHyve Bridge', email: 'bridge@myndhyve.com' };
+
+interface GitModeState {
+  /** Last commit whose changes were pushed */
+  lastPushedCommit?: string;
+  /** Paths held back until the remote branch is merged, or whose push failed */
+  deferredPaths?: string[];
+}
+
+export interface CommitPushOptions {
+  sessionId: string;
+  projectRoot: string;
+  git: GitModeConfig;
+  ignoreMatcher: IgnoreMatcher;
+  /** Push one committed file (content is null for deletions) */
+  push: (event: FileChangeEvent, content: Buffer | null) => Promise<void>;
+}
+
+export interface CommitPushSummary {
+  /** Commit the push ran against */
+  commit: string | null;
+  pushed: number;
+  /** Files waiting on a merge of the remote branch or a retry */
+  deferred: string[];
+}
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+export function getRemoteBranch(git: GitModeConfig | undefined): string {
+  return git?.branch || DEFAULT_GIT_REMOTE_BRANCH;
+}
+
+export function getWorktreePath(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), WORKTREE_DIR);
+}
+
+export async function isGitRepository(projectRoot: string): Promise<boolean> {
+  try {
+    return (await runGit(projectRoot, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make sure the remote branch exists and is checked out in the bridge
+ * worktree. The branch starts at HEAD the first time. Returns the worktree
+ * directory that corresponds to the project root.
+ */
+export async function ensureRemoteWorktree(projectRoot: string, git: GitModeConfig): Promise<string> {
+  const branch = getRemoteBranch(git);
+  const worktree = getWorktreePath(projectRoot);
+  const prefix = await getPrefix(projectRoot);
+
+  if (!existsSync(join(worktree, '.git'))) {
+    await runGit(projectRoot, ['check-ref-format', '--branch', branch]);
+    await runGit(projectRoot, ['rev-parse', '--verify', 'HEAD']).catch(() => {
+      throw new Error('Git mode needs at least one commit on the current branch');
+    });
+
+    // Forget worktrees whose directories were deleted, e.g. by `bridge unlink`
+    await runGit(projectRoot, ['worktree', 'prune']);
+    await mkdir(dirname(worktree), { recursive: true });
+
+    if (await branchExists(projectRoot, branch)) {
+      await runGit(projectRoot, ['worktree', 'add', worktree, branch]);
+    } else {
+      await runGit(projectRoot, ['worktree', 'add', '-b', branch, worktree, 'HEAD']);
+    }
+    await excludeBridgeDir(projectRoot, prefix);
+    log.info('Created remote branch worktree', { branch, worktree });
+  }
+
+  return join(worktree, prefix);
+}
+
+// ============================================================================
+// PULL: remote changes → commit on the remote branch
+// ============================================================================
+
+/**
+ * Write pending remote changes into the remote branch worktree and commit
+ * them as one batch. Remote changes never conflict here — divergence shows
+ * up when the branch is merged.
+ */
+export async function pullRemoteChangesToBranch(
+  sessionId: string,
+  projectRoot: string,
+  git: GitModeConfig,
+  pendingFiles: Record<string, unknown>[]
+): Promise<PullResult> {
+  const result: PullResult = { filesWritten: 0, conflicts: 0 };
+  const root = await ensureRemoteWorktree(projectRoot, git);
+
+  const written: Record<string, unknown>[] = [];
+  for (const record of pendingFiles) {
+    const relativePath = record.relativePath as string;
+    if (!relativePath) continue;
+
+    try {
+      const content = await readTransferContent(sessionId, record);
+      if (!content) continue;
+
+      const absolutePath = join(root, relativePath);
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, content);
+      written.push({ ...record, remoteHash: (record.remoteHash as string) || hashContent(content) });
+    } catch (error) {
+      log.error('Failed to stage remote file', {
+        path: relativePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  if (written.length === 0) return result;
+
+  await runGit(root, ['add', '-A', '--', ...written.map((r) => r.relativePath as string)]);
+  const staged = (await runGit(root, ['diff', '--cached', '--name-only', '--relative'])).trim();
+  if (staged) {
+    await runGit(root, ['commit', '--quiet', '--no-verify', '-F', '-'], {
+      input: buildCommitMessage(sessionId, written),
+      env: commitEnv(),
+    });
+    const commit = (await runGit(root, ['rev-parse', '--short', 'HEAD'])).trim();
+    log.info('Committed remote changes', { branch: getRemoteBranch(git), commit, files: written.length });
+  }
+
+  const now = new Date().toISOString();
+  for (const record of written) {
+    const remoteHash = record.remoteHash as string;
+    await upsertFileSyncRecord(sessionId, record.id as string, {
+      baseHash: remoteHash,
+      localHash: remoteHash,
+      syncStatus: 'synced' satisfies FileSyncStatus,
+      lastSyncedAt: now,
+      pendingContent: null,
+      pendingSource: null,
+    });
+    await releaseTransfer(sessionId, record);
+    result.filesWritten++;
+  }
+
+  return result;
+}
+
+function buildCommitMessage(sessionId: string, records: Record<string, unknown>[]): string {
+  const lines = [`MyndHyve: sync ${records.length} remote change(s)`, ''];
+  for (const record of records) {
+    const entity = record.entityId ? `  ${record.entityType ?? 'entity'}:${record.entityId}` : '';
+    lines.push(`- ${record.relativePath}${entity}`);
+  }
+  lines.push('', `MyndHyve-Session: ${sessionId}`);
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// PUSH: commits → Firestore
+// ============================================================================
+
+/**
+ * Push files changed by commits since the last push. The first call only
+ * records HEAD, so history from before git mode was enabled isn't replayed.
+ */
+export async function pushCommittedChanges(opts: CommitPushOptions): Promise<CommitPushSummary> {
+  const { sessionId, projectRoot, git, ignoreMatcher, push } = opts;
+
+  const head = await runGit(projectRoot, ['rev-parse', 'HEAD']).then((s) => s.trim(), () => null);
+  if (!head) return { commit: null, pushed: 0, deferred: [] };
+
+  const state = await readState(projectRoot);
+  const previous = state.lastPushedCommit;
+  const deferredBefore = state.deferredPaths ?? [];
+  if (!previous) {
+    await writeState(projectRoot, { lastPushedCommit: head, deferredPaths: [] });
+    return { commit: head, pushed: 0, deferred: [] };
+  }
+  if (previous === head && deferredBefore.length === 0) {
+    return { commit: head, pushed: 0, deferred: [] };
+  }
+
+  const changed = previous === head
+    ? []
+    : splitNul(await runGit(projectRoot, ['diff', '--name-only', '--no-renames', '-z', '--relative', previous, head]));
+  const paths = [...new Set([...deferredBefore, ...changed])].filter((p) => !ignoreMatcher.isIgnored(p));
+  const unmerged = await unmergedRemotePaths(projectRoot, getRemoteBranch(git));
+
+  let pushed = 0;
+  const deferred: string[] = [];
+  for (const relativePath of paths) {
+    if (unmerged.has(relativePath)) {
+      deferred.push(relativePath);
+      continue;
+    }
+
+    try {
+      const content = await showFile(projectRoot, head, relativePath);
+      const hash = content ? hashContent(content) : null;
+      const record = await getFileSyncRecord(sessionId, fileIdFromPath(relativePath));
+
+      // Already the synced version, e.g. a merged remote change
+      if (!record && !content) continue;
+      if (record && record.pendingSource !== 'local' && (record.baseHash || null) === hash) continue;
+
+      await push({
+        relativePath,
+        changeType: !content ? 'deleted' : record ? 'modified' : 'added',
+        hash,
+        fileSize: content?.length ?? 0,
+        mimeType: MIME_TYPES[extname(relativePath).toLowerCase()] || 'application/octet-stream',
+      }, content);
+      pushed++;
+    } catch (error) {
+      log.warn('Commit push failed — will retry', {
+        path: relativePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      deferred.push(relativePath);
+    }
+  }
+
+  await writeState(projectRoot, { lastPushedCommit: head, deferredPaths: deferred });
+  if (pushed > 0) log.info(`Pushed ${pushed} committed change(s)`, { commit: head.slice(0, 12) });
+  return { commit: head, pushed, deferred };
+}
+
+/**
+ * Paths the remote branch changed since HEAD last merged it.
+ */
+async function unmergedRemotePaths(projectRoot: string, branch: string): Promise<Set<string>> {
+  if (!(await branchExists(projectRoot, branch))) return new Set();
+  const base = (await runGit(projectRoot, ['merge-base', 'HEAD', branch]).catch(() => '')).trim();
+  if (!base) return new Set();
+  return new Set(splitNul(await runGit(projectRoot, ['diff', '--name-only', '--no-renames', '-z', '--relative', base, branch])));
+}
+
+/**
+ * Committed content of a file, or null if the commit doesn't contain it.
+ * Any other git failure is thrown so the path is retried, not pushed as a
+ * deletion.
+ */
+async function showFile(projectRoot: string, commit: string, relativePath: string): Promise<Buffer | null> {
+  const listed = await runGit(projectRoot, ['ls-tree', '-z', '--name-only', commit, '--', relativePath]);
+  if (splitNul(listed).length === 0) return null;
+
+  const { stdout } = await execFileAsync('git', ['show', `${commit}:./${relativePath}`], {
+    cwd: projectRoot,
+    encoding: 'buffer',
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function runGit(
+  cwd: string,
+  args: string[],
+  options: { input?: string; env?: NodeJS.ProcessEnv } = {}
+): Promise<string> {
+  if (options.input === undefined) {
+    const { stdout } = await execFileAsync('git', args, { cwd, env: options.env, maxBuffer: 16 * 1024 * 1024 });
+    return stdout;
+  }
+
+  // execFile's promise form can't write stdin
+  return new Promise((resolvePromise, reject) => {
+    const child = execFile('git', args, { cwd, env: options.env }, (error, stdout) => {
+      if (error) reject(error);
+      else resolvePromise(stdout);
+    });
+    child.stdin?.end(options.input);
+  });
+}
+
+async function branchExists(projectRoot: string, branch: string): Promise<boolean> {
+  try {
+    await runGit(projectRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Path of the project root inside the repository, e.g. `apps/web/` */
+async function getPrefix(projectRoot: string): Promise<string> {
+  return (await runGit(projectRoot, ['rev-parse', '--show-prefix'])).trim();
+}
+
+/**
+ * Keep .myndhyve (and the worktree inside it) out of `git status` without
+ * touching the tracked .gitignore.
+ */
+async function excludeBridgeDir(projectRoot: string, prefix: string): Promise<void> {
+  const commonDir = resolve(projectRoot, (await runGit(projectRoot, ['rev-parse', '--git-common-dir'])).trim());
+  const excludePath = join(commonDir, 'info', 'exclude');
+  const pattern = `/${prefix}.myndhyve/`;
+
+  const current = await readFile(excludePath, 'utf-8').catch(() => '');
+  if (current.split('\n').includes(pattern)) return;
+
+  await mkdir(dirname(excludePath), { recursive: true });
+  await appendFile(excludePath, `${current && !current.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+}
+
+function commitEnv(): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    GIT_AUTHOR_NAME: BRIDGE_AUTHOR.name,
+    GIT_AUTHOR_EMAIL: BRIDGE_AUTHOR.email,
+    GIT_COMMITTER_NAME: BRIDGE_AUTHOR.name,
+    GIT_COMMITTER_EMAIL: BRIDGE_AUTHOR.email,
+  };
+}
+
+function splitNul(output: string): string[] {
+  return output.split('\0').filter(Boolean);
+}
+
+async function readState(projectRoot: string): Promise<GitModeState> {
+  try {
+    return JSON.parse(await readFile(join(getBridgeDir(projectRoot), STATE_FILE), 'utf-8')) as GitModeState;
+  } catch {
+    return {};
+  }
+}
+
+async function writeState(projectRoot: string, state: GitModeState): Promise<void> {
+  await mkdir(getBridgeDir(projectRoot), { recursive: true });
+  await writeFile(join(getBridgeDir(projectRoot), STATE_FILE), JSON.stringify(state, null, 2), { mode: 0o600 });
+}
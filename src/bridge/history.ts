@@ -0,0 +1,278 @@
+/**
+ * MyndHyve CLI — Bridge Snapshot History
+ *
+ * Before the bridge overwrites a local file (remote pull, clean merge,
+ * conflict resolution, restore), the current version is saved to a
+ * content-addressed store under .myndhyve/history/objects/<sha256> and
+ * logged in .myndhyve/history/index.jsonl. `bridge history` lists a file's
+ * snapshots and `bridge restore` writes one back, so nothing the bridge
+ * replaces is lost even if it was never committed.
+ *
+ * Retention comes from `history` in .myndhyve/bridge.json and is applied
+ * after every snapshot; blobs no longer referenced by the index are deleted.
+ */
+
+import { mkdir, readFile, readdir, rm, writeFile, appendFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import { getBridgeDir, readLocalConfig } from './session.js';
+import type { HistoryRetention } from './types.js';
+import { DEFAULT_HISTORY_MAX_AGE_DAYS, DEFAULT_HISTORY_MAX_VERSIONS } from './types.js';
+
+const log = createLogger('BridgeHistory');
+
+const HISTORY_DIR = 'history';
+const INDEX_FILE = 'index.jsonl';
+const OBJECTS_DIR = 'objects';
+
+/** Why a snapshot was taken */
+export type SnapshotReason = 'pull' | 'merge' | 'conflict' | 'restore';
+
+export interface HistoryEntry {
+  /** Relative path of the file (POSIX separators) */
+  relativePath: string;
+  /** SHA-256 of the saved content; names the blob */
+  hash: string;
+  size: number;
+  /** ISO timestamp of when the content was replaced */
+  savedAt: string;
+  reason: SnapshotReason;
+}
+
+export interface RestoreOptions {
+  /** Restore the version the file had at this time */
+  at?: Date;
+  /** Restore the snapshot whose hash starts with this prefix */
+  hash?: string;
+}
+
+export interface RestoreResult {
+  /** Null when the current file is already the version from `at` */
+  entry: HistoryEntry | null;
+  /** False when the file already had the snapshot's content */
+  changed: boolean;
+}
+
+// Serializes index rewrites per project — pulls and restores can overlap.
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(projectRoot: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(projectRoot) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(projectRoot, next.catch(() => {}));
+  return next;
+}
+
+export function getHistoryDir(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), HISTORY_DIR);
+}
+
+function getIndexPath(projectRoot: string): string {
+  return join(getHistoryDir(projectRoot), INDEX_FILE);
+}
+
+function getObjectPath(projectRoot: string, hash: string): string {
+  return join(getHistoryDir(projectRoot), OBJECTS_DIR, hash);
+}
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+/**
+ * Save the current content of a file before the bridge replaces it. A no-op
+ * when the file doesn't exist, history is disabled, or the newest snapshot
+ * of the file already holds this content.
+ */
+export async function snapshotFile(
+  projectRoot: string,
+  relativePath: string,
+  reason: SnapshotReason
+): Promise<HistoryEntry | null> {
+  const retention = (await readLocalConfig(projectRoot))?.history;
+  if (retention?.enabled === false) return null;
+
+  let content: Buffer;
+  try {
+    content = await readFile(join(projectRoot, relativePath));
+  } catch {
+    return null;
+  }
+
+  return withLock(projectRoot, async () => {
+    const hash = hashContent(content);
+    const entries = await readIndex(projectRoot);
+    const latest = [...entries].reverse().find((e) => e.relativePath === relativePath);
+    if (latest?.hash === hash) return null;
+
+    const objectPath = getObjectPath(projectRoot, hash);
+    await mkdir(dirname(objectPath), { recursive: true });
+    if (!existsSync(objectPath)) {
+      await writeFile(objectPath, content, { mode: 0o600 });
+    }
+
+    const entry: HistoryEntry = {
+      relativePath,
+      hash,
+      size: content.length,
+      savedAt: new Date().toISOString(),
+      reason,
+    };
+    await appendFile(getIndexPath(projectRoot), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    log.debug('Snapshot saved', { path: relativePath, hash: hash.slice(0, 12), reason });
+
+    await applyRetention(projectRoot, [...entries, entry], retention);
+    return entry;
+  });
+}
+
+// ============================================================================
+// READ / RESTORE
+// ============================================================================
+
+/**
+ * Snapshots of a file, newest first.
+ */
+export async function listHistory(projectRoot: string, relativePath: string): Promise<HistoryEntry[]> {
+  const entries = await readIndex(projectRoot);
+  return entries.filter((e) => e.relativePath === relativePath).reverse();
+}
+
+/**
+ * Read the content of a snapshot, or null if its blob is gone.
+ */
+export async function readSnapshot(projectRoot: string, entry: HistoryEntry): Promise<Buffer | null> {
+  try {
+    return await readFile(getObjectPath(projectRoot, entry.hash));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot back to the working tree. Defaults to the newest one.
+ * The current content is snapshotted first, so a restore can be undone.
+ *
+ * A snapshot's `savedAt` is when its content was replaced, so the version
+ * on disk at `at` is the oldest snapshot saved after `at`. When there is
+ * none, the current file is already that version.
+ */
+export async function restoreFile(
+  projectRoot: string,
+  relativePath: string,
+  options: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const entries = await listHistory(projectRoot, relativePath);
+  if (entries.length === 0) {
+    throw new Error(`No snapshots of ${relativePath}`);
+  }
+
+  let entry: HistoryEntry | undefined;
+  if (options.hash) {
+    entry = entries.find((e) => e.hash.startsWith(options.hash as string));
+    if (!entry) {
+      throw new Error(`No snapshot of ${relativePath} matches ${options.hash}`);
+    }
+  } else if (options.at) {
+    // Entries are newest first
+    const at = options.at.getTime();
+    entry = entries.filter((e) => new Date(e.savedAt).getTime() > at).at(-1);
+    if (!entry) return { entry: null, changed: false };
+  } else {
+    entry = entries[0];
+  }
+
+  const content = await readSnapshot(projectRoot, entry);
+  if (!content) {
+    throw new Error(`Snapshot ${entry.hash.slice(0, 12)} of ${relativePath} is missing from the history store`);
+  }
+
+  const absolutePath = join(projectRoot, relativePath);
+  const current = await readFile(absolutePath).catch(() => null);
+  if (current && hashContent(current) === entry.hash) {
+    return { entry, changed: false };
+  }
+
+  await snapshotFile(projectRoot, relativePath, 'restore');
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, content);
+  log.info('File restored from history', { path: relativePath, hash: entry.hash.slice(0, 12) });
+
+  return { entry, changed: true };
+}
+
+// ============================================================================
+// RETENTION
+// ============================================================================
+
+/**
+ * Apply the retention policy to the whole store.
+ */
+export function pruneHistory(projectRoot: string, retention?: HistoryRetention): Promise<number> {
+  return withLock(projectRoot, async () =>
+    applyRetention(projectRoot, await readIndex(projectRoot), retention)
+  );
+}
+
+/**
+ * Drop entries past the per-file version cap or the age limit, rewrite the
+ * index if anything was dropped, and delete unreferenced blobs. Returns the
+ * number of entries dropped. Callers hold the lock.
+ */
+async function applyRetention(
+  projectRoot: string,
+  entries: HistoryEntry[],
+  retention: HistoryRetention = {}
+): Promise<number> {
+  const maxVersions = retention.maxVersions ?? DEFAULT_HISTORY_MAX_VERSIONS;
+  const maxAgeMs = (retention.maxAgeDays ?? DEFAULT_HISTORY_MAX_AGE_DAYS) * 86_400_000;
+  const cutoff = Date.now() - maxAgeMs;
+
+  const perFile = new Map<string, number>();
+  const kept: HistoryEntry[] = [];
+  // Walk newest first so the cap keeps the most recent versions
+  for (const entry of [...entries].reverse()) {
+    const count = perFile.get(entry.relativePath) ?? 0;
+    if (count >= maxVersions || new Date(entry.savedAt).getTime() < cutoff) continue;
+    perFile.set(entry.relativePath, count + 1);
+    kept.unshift(entry);
+  }
+
+  const dropped = entries.length - kept.length;
+  if (dropped === 0) return 0;
+
+  const data = kept.map((e) => JSON.stringify(e)).join('\n');
+  await writeFile(getIndexPath(projectRoot), data ? `${data}\n` : '', { mode: 0o600 });
+
+  const referenced = new Set(kept.map((e) => e.hash));
+  const objectsDir = join(getHistoryDir(projectRoot), OBJECTS_DIR);
+  const blobs = await readdir(objectsDir).catch(() => [] as string[]);
+  for (const blob of blobs) {
+    if (!referenced.has(blob)) await rm(join(objectsDir, blob), { force: true });
+  }
+
+  log.debug('History pruned', { dropped, kept: kept.length });
+  return dropped;
+}
+
+async function readIndex(projectRoot: string): Promise<HistoryEntry[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getIndexPath(projectRoot), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      log.warn('Skipping malformed history line');
+    }
+  }
+  return entries;
+}
@@ -1,73 +1,309 @@
 /**
  * MyndHyve CLI — File Ignore Pattern Matching
  *
- * .gitignore-style pattern matching for filtering files during sync.
- * Supports glob patterns with ** for recursive matching.
+ * gitignore-compatible matching for filtering files during sync. Rules come,
+ * lowest precedence first, from the built-in defaults, the session's
+ * ignorePatterns, and every `.gitignore` and `.myndhyveignore` in the
+ * project; a file deeper in the tree overrides its parents, and within one
+ * source the last matching rule wins. As in git:
+ *
+ * - A pattern with a slash at the start or in the middle is anchored to the
+ *   directory of its ignore file; otherwise it matches at any depth.
+ * - A trailing slash matches directories only.
+ * - `*`, `?` and `[...]` never match `/`; `**` matches across directories
+ *   only when it is a whole path segment.
+ * - `!` re-includes, but not inside a directory that is itself excluded.
+ *
+ * Ignore files are discovered once, when the matcher is created.
  */
 
-import { readFile } from 'node:fs/promises';
+import { readFile, readdir } from 'node:fs/promises';
+import type { Dirent } from 'node:fs';
 import { join } from 'node:path';
 import { DEFAULT_IGNORE_PATTERNS } from './types.js';
 
+/** Ignore files read in every directory, in precedence order */
+export const IGNORE_FILES = ['.gitignore', '.myndhyveignore'];
+
+export interface IgnoreRule {
+  /** The pattern as written */
+  pattern: string;
+  /** `default`, `session`, or the ignore file's path relative to the project root */
+  source: string;
+  /** 1-based line number within an ignore file */
+  line?: number;
+  negated: boolean;
+  /** Matches directories only (trailing slash) */
+  directoryOnly: boolean;
+}
+
+export interface IgnoreMatch {
+  /** Last rule that matched */
+  rule: IgnoreRule;
+  /** The path the rule matched — the file itself, or an excluded parent directory */
+  matchedPath: string;
+}
+
+interface CompiledRule extends IgnoreRule {
+  regex: RegExp;
+  /** Directory of the ignore file, with trailing slash ('' for the root) */
+  base: string;
+}
+
 /**
  * Compiled ignore matcher with cached regex patterns.
  */
 export class IgnoreMatcher {
-  private patterns: Array<{ regex: RegExp; negated: boolean }> = [];
+  private rules: CompiledRule[] = [];
 
-  constructor(patterns: string[]) {
-    for (const raw of patterns) {
-      const trimmed = raw.trim();
-      if (!trimmed || trimmed.startsWith('#')) continue;
+  constructor(patterns: string[] = [], source = 'default') {
+    this.add(patterns, { source });
+  }
 
-      const negated = trimmed.startsWith('!');
-      const pattern = negated ? trimmed.slice(1) : trimmed;
-      const regex = globToRegex(pattern);
-      this.patterns.push({ regex, negated });
-    }
+  /**
+   * Append rules. `base` is the directory the patterns are relative to
+   * (POSIX, no trailing slash; '' for the project root). Rules added later
+   * take precedence.
+   */
+  add(patterns: string[], options: { source: string; base?: string; fromFile?: boolean }): void {
+    const base = options.base ? `${options.base.replace(/\/+$/, '')}/` : '';
+    patterns.forEach((raw, index) => {
+      const rule = compileRule(raw, base);
+      if (!rule) return;
+      this.rules.push({
+        ...rule,
+        source: options.source,
+        line: options.fromFile ? index + 1 : undefined,
+      });
+    });
   }
 
   /**
    * Test whether a relative path should be ignored.
-   * Paths should use forward slashes (POSIX-style).
+   * Paths should use forward slashes (POSIX-style); a trailing slash marks
+   * a directory.
+   */
+  isIgnored(relativePath: string, isDirectory = false): boolean {
+    const match = this.check(relativePath, isDirectory);
+    return match !== null && !match.rule.negated;
+  }
+
+  /**
+   * Explain the decision for a path: the rule that decided it (which may be
+   * a negation, i.e. not ignored), or null when no rule matched.
    */
-  isIgnored(relativePath: string): boolean {
+  check(relativePath: string, isDirectory = false): IgnoreMatch | null {
     // Normalize to forward slashes
-    const normalized = relativePath.replace(/\\/g, '/');
+    let normalized = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    if (normalized.endsWith('/')) {
+      normalized = normalized.replace(/\/+$/, '');
+      isDirectory = true;
+    }
+    if (!normalized) return null;
 
-    let ignored = false;
-    for (const { regex, negated } of this.patterns) {
-      if (regex.test(normalized)) {
-        ignored = !negated;
-      }
+    // A file can't be re-included if a parent directory is excluded
+    const segments = normalized.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join('/');
+      const rule = this.lastMatch(parent, true);
+      if (rule && !rule.negated) return { rule: publicRule(rule), matchedPath: `${parent}/` };
     }
-    return ignored;
+
+    const rule = this.lastMatch(normalized, isDirectory);
+    return rule ? { rule: publicRule(rule), matchedPath: isDirectory ? `${normalized}/` : normalized } : null;
+  }
+
+  private lastMatch(path: string, isDirectory: boolean): CompiledRule | null {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !path.startsWith(rule.base)) continue;
+      if (rule.regex.test(path)) return rule;
+    }
+    return null;
   }
 }
 
 /**
- * Create an IgnoreMatcher from default patterns + custom patterns + .gitignore.
+ * Create an IgnoreMatcher from default patterns + custom patterns + every
+ * .gitignore / .myndhyveignore in the project. Directories that are already
+ * ignored are not searched for ignore files.
  */
 export async function createIgnoreMatcher(
   projectRoot: string,
   customPatterns: string[] = []
 ): Promise<IgnoreMatcher> {
-  const patterns = [...DEFAULT_IGNORE_PATTERNS, ...customPatterns];
-
-  // Read .gitignore if it exists
-  try {
-    const gitignore = await readFile(join(projectRoot, '.gitignore'), 'utf-8');
-    const lines = gitignore.split('\n');
-    patterns.push(...lines);
-  } catch {
-    // No .gitignore, that's fine
+  const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+  matcher.add(customPatterns, { source: 'session' });
+
+  const pending = [''];
+  while (pending.length > 0) {
+    const dir = pending.shift() as string;
+
+    for (const name of IGNORE_FILES) {
+      const source = dir ? `${dir}/${name}` : name;
+      try {
+        const content = await readFile(join(projectRoot, source), 'utf-8');
+        matcher.add(content.split('\n'), { source, base: dir, fromFile: true });
+      } catch {
+        // No ignore file here, that's fine
+      }
+    }
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(join(projectRoot, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (!matcher.isIgnored(relativePath, true)) pending.push(relativePath);
+    }
+  }
+
+  return matcher;
+}
+
+// ============================================================================
+// PATTERN COMPILATION
+// ============================================================================
+
+function publicRule({ pattern, source, line, negated, directoryOnly }: CompiledRule): IgnoreRule {
+  return { pattern, source, line, negated, directoryOnly };
+}
+
+/**
+ * Compile one gitignore line, or return null for blanks and comments.
+ */
+function compileRule(raw: string, base: string): Omit<CompiledRule, 'source' | 'line'> | null {
+  // Trailing spaces are ignored unless escaped with a backslash
+  let p = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+  if (!p || p.startsWith('#')) return null;
+
+  const negated = p.startsWith('!');
+  if (negated) p = p.slice(1);
+
+  const directoryOnly = p.endsWith('/');
+  if (directoryOnly) p = p.replace(/\/+$/, '');
+
+  // A slash anywhere but the end anchors the pattern to its base directory
+  const anchored = p.includes('/');
+  if (p.startsWith('/')) p = p.slice(1);
+  if (!p) return null;
+
+  const prefix = escapeRegex(base) + (anchored ? '' : '(?:.*/)?');
+  return {
+    pattern: raw.trim(),
+    negated,
+    directoryOnly,
+    base,
+    regex: new RegExp(`^${prefix}${gitignoreGlobToRegex(p)}$`),
+  };
+}
+
+function gitignoreGlobToRegex(pattern: string): string {
+  const segments = pattern.split('/');
+  let regex = '';
+
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === '**') {
+      // Trailing `/**` matches everything inside; leading or middle `**/`
+      // matches zero or more directories
+      regex += last ? '.*' : '(?:.*/)?';
+      return;
+    }
+    regex += segmentToRegex(segment);
+    if (!last) regex += '/';
+  });
+
+  return regex;
+}
+
+function segmentToRegex(segment: string): string {
+  let regex = '';
+  let i = 0;
+  while (i < segment.length) {
+    const c = segment[i];
+
+    if (c === '\\' && i + 1 < segment.length) {
+      regex += escapeRegex(segment[i + 1]);
+      i += 2;
+    } else if (c === '*') {
+      // Any run of asterisks within a segment is a plain `*`
+      while (segment[i] === '*') i++;
+      regex += '[^/]*';
+    } else if (c === '?') {
+      regex += '[^/]';
+      i++;
+    } else if (c === '[') {
+      const end = findClassEnd(segment, i);
+      if (end === -1) {
+        regex += '\\[';
+        i++;
+      } else {
+        regex += classToRegex(segment.slice(i + 1, end));
+        i = end + 1;
+      }
+    } else {
+      regex += escapeRegex(c);
+      i++;
+    }
+  }
+  return regex;
+}
+
+/** Index of the `]` closing a class that opens at `start`, or -1 */
+function findClassEnd(segment: string, start: number): number {
+  let i = start + 1;
+  if (segment[i] === '!' || segment[i] === '^') i++;
+  // A leading `]` is a literal member
+  if (segment[i] === ']') i++;
+  for (; i < segment.length; i++) {
+    if (segment[i] === '\\') i++;
+    else if (segment[i] === ']') return i;
+  }
+  return -1;
+}
+
+function classToRegex(body: string): string {
+  let negated = false;
+  let members = body;
+  if (members.startsWith('!') || members.startsWith('^')) {
+    negated = true;
+    members = members.slice(1);
+  }
+
+  let out = '';
+  for (let i = 0; i < members.length; i++) {
+    const c = members[i];
+    if (c === '\\' && i + 1 < members.length) {
+      out += classMember(members[++i]);
+    } else if (c === '-' && i > 0 && i < members.length - 1) {
+      out += '-';
+    } else {
+      out += classMember(c);
+    }
   }
 
-  return new IgnoreMatcher(patterns);
+  // Classes never match a path separator
+  return negated ? `[^/${out}]` : `(?!/)[${out}]`;
+}
+
+/** A literal character inside a regex character class */
+function classMember(c: string): string {
+  return /[\\\][^-]/.test(c) ? `\\${c}` : c;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
 }
 
 /**
- * Convert a .gitignore-style glob pattern to a RegExp.
+ * Convert a glob pattern to a RegExp. Used for artifact globs and entity
+ * mapping rules; ignore rules use the stricter gitignore compiler above.
  *
  * Supports:
  * - `*` matches anything except `/`
@@ -77,7 +313,7 @@ export async function createIgnoreMatcher(
  * - Trailing `/` matches directories only (we match both for simplicity)
  * - `[abc]` character classes
  */
-function globToRegex(pattern: string): RegExp {
+export function globToRegex(pattern: string): RegExp {
   let anchored = false;
   let p = pattern;
 
@@ -0,0 +1,197 @@
+/**
+ * MyndHyve CLI — Bridge Push Journal
+ *
+ * Persistent queue of local changes that could not be pushed, stored as JSONL
+ * in .myndhyve/journal.jsonl. The bridge loop appends to it when a push fails
+ * (or while earlier entries are still queued, to preserve ordering) and
+ * replays it in order once heartbeats succeed again.
+ *
+ * The journal holds at most one entry per path: a newer change supersedes the
+ * queued one, and a change with the same hash as the queued entry is dropped.
+ * Content is re-read from disk at replay time, so only the latest version of
+ * each file is pushed.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { getBridgeDir } from './session.js';
+import type { FileChangeEvent } from './watcher.js';
+
+const log = createLogger('BridgeJournal');
+
+const JOURNAL_FILE = 'journal.jsonl';
+
+/** Replay attempts before a queued change is dropped. */
+export const MAX_JOURNAL_ATTEMPTS = 5;
+
+export interface JournalEntry extends FileChangeEvent {
+  /** ISO timestamp of when the change was queued */
+  queuedAt: string;
+  /** Failed replay attempts so far */
+  attempts: number;
+}
+
+export interface ReplayResult {
+  /** Entries pushed successfully */
+  replayed: number;
+  /** Entries dropped after MAX_JOURNAL_ATTEMPTS failures */
+  dropped: number;
+  /** Entries still queued */
+  remaining: number;
+}
+
+// Serializes read-modify-write cycles per project — watcher events and replay
+// touch the journal concurrently.
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(projectRoot: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(projectRoot) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(projectRoot, next.catch(() => {}));
+  return next;
+}
+
+/**
+ * Get the path to the push journal.
+ */
+export function getJournalPath(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), JOURNAL_FILE);
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/**
+ * Read queued changes in order. Malformed lines are skipped.
+ */
+export async function readJournal(projectRoot: string): Promise<JournalEntry[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getJournalPath(projectRoot), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      log.warn('Skipping malformed journal line');
+    }
+  }
+  return entries;
+}
+
+async function writeJournal(projectRoot: string, entries: JournalEntry[]): Promise<void> {
+  await mkdir(getBridgeDir(projectRoot), { recursive: true });
+  const data = entries.map((e) => JSON.stringify(e)).join('\n');
+  await writeFile(getJournalPath(projectRoot), data ? data + '\n' : '', { mode: 0o600 });
+}
+
+/**
+ * Queue a change for later replay. Supersedes any queued entry for the same
+ * path; a no-op if that entry already has the same hash.
+ */
+export function appendJournal(projectRoot: string, event: FileChangeEvent): Promise<void> {
+  return withLock(projectRoot, async () => {
+    const entries = await readJournal(projectRoot);
+    const existing = entries.find((e) => e.relativePath === event.relativePath);
+
+    if (existing && existing.hash === event.hash) {
+      return;
+    }
+
+    const kept = entries.filter((e) => e.relativePath !== event.relativePath);
+    kept.push({ ...event, queuedAt: new Date().toISOString(), attempts: 0 });
+    await writeJournal(projectRoot, kept);
+
+    log.debug('Change queued', { path: event.relativePath, queued: kept.length });
+  });
+}
+
+/**
+ * Whether any changes are waiting to be replayed.
+ */
+export async function hasJournalEntries(projectRoot: string): Promise<boolean> {
+  return (await readJournal(projectRoot)).length > 0;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Push queued changes in order, removing each once it succeeds. Stops at the
+ * first failure so later changes are never pushed ahead of earlier ones.
+ */
+export async function replayJournal(
+  projectRoot: string,
+  push: (event: FileChangeEvent) => Promise<void>
+): Promise<ReplayResult> {
+  const result: ReplayResult = { replayed: 0, dropped: 0, remaining: 0 };
+
+  for (;;) {
+    const [head] = await readJournal(projectRoot);
+    if (!head) break;
+
+    const { queuedAt: _queuedAt, attempts: _attempts, ...event } = head;
+
+    try {
+      await push(event);
+      await replaceEntry(projectRoot, head, null);
+      result.replayed++;
+    } catch (error) {
+      const attempts = head.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= MAX_JOURNAL_ATTEMPTS) {
+        log.error('Dropping queued change after repeated failures', {
+          path: head.relativePath,
+          attempts,
+          error: message,
+        });
+        await replaceEntry(projectRoot, head, null);
+        result.dropped++;
+        continue;
+      }
+
+      log.debug('Replay failed', { path: head.relativePath, attempts, error: message });
+      await replaceEntry(projectRoot, head, { ...head, attempts });
+      break;
+    }
+  }
+
+  result.remaining = (await readJournal(projectRoot)).length;
+  return result;
+}
+
+/**
+ * Replace `target` (or remove it when `replacement` is null). Leaves the
+ * journal alone if the entry was superseded while it was being replayed.
+ */
+function replaceEntry(
+  projectRoot: string,
+  target: JournalEntry,
+  replacement: JournalEntry | null
+): Promise<void> {
+  return withLock(projectRoot, async () => {
+    const entries = await readJournal(projectRoot);
+    const index = entries.findIndex(
+      (e) => e.relativePath === target.relativePath &&
+        e.hash === target.hash &&
+        e.queuedAt === target.queuedAt
+    );
+    if (index < 0) return;
+
+    if (replacement) {
+      entries[index] = replacement;
+    } else {
+      entries.splice(index, 1);
+    }
+    await writeJournal(projectRoot, entries);
+  });
+}
@@ -3,10 +3,22 @@
  *
  * Runs the three concurrent loops that make the bridge work:
  * 1. Heartbeat — updates session presence in Firestore every 15s
- * 2. File watcher — detects local file changes and pushes to Firestore
- * 3. Firestore poller — pulls remote changes and writes to local files
+ * 2. File watcher — detects local file changes and pushes to Firestore.
+ *    Pushes that fail (e.g. while offline) go to the push journal and are
+ *    replayed in order once a heartbeat succeeds again.
+ * 3. Firestore poller — pulls remote changes and writes to local files.
+ *    Polling backs off while idle (see poller.ts) and snaps back to full
+ *    speed on local activity or when a poll finds work.
  *
- * Also monitors for pending build requests.
+ * Before going online, a reconciliation scan pushes edits made while the
+ * bridge was stopped. Also monitors for pending build requests, which run
+ * through a BuildQueue limited to the policy's maxConcurrentBuilds, and
+ * re-exports design tokens when the theme changes (if `designTokens.sync`).
+ * Snapshot history is pruned to its retention policy on startup.
+ *
+ * In git mode (see git-mode.ts) pulls are committed to the remote branch and
+ * pushes come from new commits; file saves and startup reconciliation don't
+ * push anything.
  */
 
 import { createLogger } from '../utils/logger.js';
@@ -14,9 +26,23 @@ import { FileWatcher } from './watcher.js';
 import { createIgnoreMatcher } from './ignore.js';
 import { sendHeartbeat, markOffline, getSession, queryPendingBuilds } from './session.js';
 import { pushLocalChange, pullRemoteChanges } from './sync.js';
-import { executeBuildRequest } from './builder.js';
+import { getProjectBuildQueue } from './build-queue.js';
+import { AdaptivePoller } from './poller.js';
+import { appendJournal, hasJournalEntries, replayJournal } from './journal.js';
+import { reconcileProject, formatReconcileSummary } from './reconcile.js';
+import { DesignChangeFeed } from './design-feed.js';
+import { exportDesignTokens } from './design-tokens.js';
+import { pruneHistory } from './history.js';
+import { pruneUnreferencedBases } from './base-store.js';
+import { ensureRemoteWorktree, getRemoteBranch, pushCommittedChanges } from './git-mode.js';
+import type { FileChangeEvent } from './watcher.js';
 import type { BridgeLocalConfig } from './types.js';
-import { HEARTBEAT_INTERVAL_MS, POLL_INTERVAL_MS } from './types.js';
+import {
+  BUILD_POLL_INTERVAL_MS,
+  HEARTBEAT_INTERVAL_MS,
+  IDLE_POLL_MAX_MS,
+  POLL_INTERVAL_MS,
+} from './types.js';
 
 const log = createLogger('BridgeLoop');
 
@@ -28,7 +54,8 @@ export async function runBridgeLoop(
   config: BridgeLocalConfig
 ): Promise<void> {
   const { sessionId } = config;
-  log.info('Starting bridge loop', { sessionId, projectRoot });
+  const gitMode = config.git?.enabled === true;
+  log.info('Starting bridge loop', { sessionId, projectRoot, gitMode });
 
   // Verify session exists
   const session = await getSession(sessionId);
@@ -48,9 +75,75 @@ export async function runBridgeLoop(
     ignoreMatcher,
   });
 
+  // While earlier changes are queued, new ones join the queue so they are
+  // never pushed ahead of them.
+  const handleLocalChange = async (event: FileChangeEvent) => {
+    if (await hasJournalEntries(projectRoot)) {
+      await appendJournal(projectRoot, event);
+      return;
+    }
+
+    try {
+      await pushLocalChange(sessionId, projectRoot, event);
+    } catch (err) {
+      log.warn('Push failed — queued for retry', {
+        path: event.relativePath,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await appendJournal(projectRoot, event);
+    }
+  };
+
+  // Without the sync records nothing can be compared, so a failed startup
+  // reconciliation is retried after the next successful heartbeat.
+  let reconcilePending = false;
+  const reconcileStartup = async (): Promise<boolean> => {
+    reconcilePending = false;
+    try {
+      const summary = await reconcileProject({
+        sessionId,
+        projectRoot,
+        ignoreMatcher,
+        push: handleLocalChange,
+        watcher,
+      });
+      console.log(`  ${formatReconcileSummary(summary)}`);
+    } catch (err) {
+      log.warn('Startup reconciliation failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      reconcilePending = true;
+    }
+    return !reconcilePending;
+  };
+
+  let replaying = false;
+  const replayQueuedChanges = async () => {
+    if (replaying) return;
+    replaying = true;
+    try {
+      const result = await replayJournal(projectRoot, (event) =>
+        pushLocalChange(sessionId, projectRoot, event)
+      );
+      if (result.replayed > 0) {
+        log.info(`Replayed ${result.replayed} queued change(s)`, { remaining: result.remaining });
+      }
+      if (result.dropped > 0) {
+        log.warn(`Dropped ${result.dropped} queued change(s) after repeated failures`);
+      }
+    } catch (err) {
+      log.warn('Journal replay failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      replaying = false;
+    }
+  };
+
   watcher.on('change', (event) => {
-    pushLocalChange(sessionId, projectRoot, event).catch((err) => {
-      log.error('Push failed', {
+    if (gitMode) return;
+    handleLocalChange(event).catch((err) => {
+      log.error('Failed to queue change', {
         path: event.relativePath,
         error: err instanceof Error ? err.message : String(err),
       });
@@ -63,16 +156,51 @@ export async function runBridgeLoop(
 
   watcher.start();
 
+  // Snapshots are pruned as they are taken; this catches age-based expiry
+  try {
+    await pruneHistory(projectRoot, config.history);
+  } catch (err) {
+    log.warn('History pruning failed', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  // Merge bases are only needed while a sync record still points at them
+  try {
+    const removed = await pruneUnreferencedBases(sessionId, projectRoot);
+    if (removed > 0) log.info(`Pruned ${removed} unreferenced merge base(s)`);
+  } catch (err) {
+    log.warn('Merge base pruning failed', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  if (gitMode && config.git) {
+    // Fails fast outside a git repository or on an unborn branch
+    await ensureRemoteWorktree(projectRoot, config.git);
+    console.log(`  Git mode — remote changes are committed to ${getRemoteBranch(config.git)}`);
+  } else {
+    // Catch up on edits made while the bridge was stopped
+    if (!(await reconcileStartup())) {
+      console.log('  Startup reconciliation failed — retrying once the bridge is back online.');
+    }
+  }
+
   // Mark online
   await sendHeartbeat(sessionId, 'online');
   log.info('Bridge online', { sessionId, project: config.projectId });
   console.log(`  Bridge online — syncing ${config.projectId}`);
   console.log('  Press Ctrl+C to stop.\n');
 
+  // Catch up on changes queued by a previous run
+  void replayQueuedChanges();
+
   // Set up intervals
   const heartbeatTimer = setInterval(async () => {
     try {
       await sendHeartbeat(sessionId, 'online');
+      if (reconcilePending) await reconcileStartup();
+      await replayQueuedChanges();
     } catch (err) {
       log.warn('Heartbeat failed', {
         error: err instanceof Error ? err.message : String(err),
@@ -80,32 +208,109 @@ export async function runBridgeLoop(
     }
   }, HEARTBEAT_INTERVAL_MS);
 
-  const pollTimer = setInterval(async () => {
+  const pullPoller = new AdaptivePoller('Pull', async () => {
     try {
       const pulled = await pullRemoteChanges(sessionId, projectRoot, watcher);
-      if (pulled > 0) {
-        log.info(`Pulled ${pulled} remote change(s)`);
+      if (pulled.filesWritten > 0) {
+        log.info(`Pulled ${pulled.filesWritten} remote change(s)`);
+      }
+      if (pulled.conflicts > 0) {
+        log.warn(`${pulled.conflicts} sync conflict(s) need resolution`);
       }
+      return pulled.filesWritten > 0 || pulled.conflicts > 0;
     } catch (err) {
       log.warn('Poll failed', {
         error: err instanceof Error ? err.message : String(err),
       });
+      return false;
     }
-  }, POLL_INTERVAL_MS);
+  }, { minIntervalMs: POLL_INTERVAL_MS, maxIntervalMs: IDLE_POLL_MAX_MS });
 
-  // Build request poller (check every 5s)
-  const buildPollTimer = setInterval(async () => {
+  // Someone is working in the project — keep pulls responsive
+  watcher.on('change', () => pullPoller.reset());
+
+  // Git mode: push from commits. Saves usually precede a commit, so they
+  // keep this poller responsive too.
+  let commitPoller: AdaptivePoller | null = null;
+  if (gitMode && config.git) {
+    const git = config.git;
+    commitPoller = new AdaptivePoller('Commit', async () => {
+      const summary = await pushCommittedChanges({
+        sessionId,
+        projectRoot,
+        git,
+        ignoreMatcher,
+        push: (event, content) => pushLocalChange(sessionId, projectRoot, event, content ?? undefined),
+      });
+      if (summary.deferred.length > 0) {
+        log.debug(`${summary.deferred.length} committed change(s) wait on a merge of ${getRemoteBranch(git)}`);
+      }
+      return summary.pushed > 0;
+    }, { minIntervalMs: POLL_INTERVAL_MS, maxIntervalMs: IDLE_POLL_MAX_MS });
+    watcher.on('change', () => commitPoller?.reset());
+  }
+
+  // Build request poller. The queue skips builds it already holds, so every
+  // pending record can be re-submitted on each poll. Running or queued
+  // builds keep it at full speed so cancellations are noticed.
+  const buildQueue = await getProjectBuildQueue(sessionId, projectRoot);
+
+  const buildPoller = new AdaptivePoller('Build', async () => {
     try {
       const pending = await queryPendingBuilds(sessionId);
       for (const build of pending) {
-        await executeBuildRequest(sessionId, projectRoot, build);
+        await buildQueue.enqueue(build);
       }
+      await buildQueue.checkCancellations();
+      return pending.length > 0 || buildQueue.active > 0 || buildQueue.pending > 0;
     } catch (err) {
       log.debug('Build poll failed', {
         error: err instanceof Error ? err.message : String(err),
       });
+      return false;
     }
-  }, 5_000);
+  }, { minIntervalMs: BUILD_POLL_INTERVAL_MS, maxIntervalMs: IDLE_POLL_MAX_MS });
+
+  pullPoller.start();
+  buildPoller.start();
+  commitPoller?.start();
+
+  // Design token sync. Theme changes that arrive mid-export trigger one more
+  // export so the files always end up matching the latest theme.
+  let tokenFeed: DesignChangeFeed | null = null;
+  if (config.designTokens?.sync) {
+    let exporting = false;
+    let exportAgain = false;
+    const syncTokens = async () => {
+      if (exporting) {
+        exportAgain = true;
+        return;
+      }
+      exporting = true;
+      try {
+        do {
+          exportAgain = false;
+          const result = await exportDesignTokens(projectRoot, config, {}, watcher);
+          const written = result.files.filter((f) => f.changed);
+          if (written.length > 0) {
+            log.info(`Exported design tokens: ${written.map((f) => f.relativePath).join(', ')}`);
+          }
+        } while (exportAgain);
+      } catch (err) {
+        log.warn('Design token export failed', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      } finally {
+        exporting = false;
+      }
+    };
+
+    tokenFeed = new DesignChangeFeed(config.projectId, POLL_INTERVAL_MS, ['themes']);
+    tokenFeed.on('change', () => void syncTokens());
+    tokenFeed.start();
+    // The theme may have changed while the bridge was stopped
+    void syncTokens();
+  }
 
   // Graceful shutdown
   const shutdown = async () => {
@@ -113,9 +318,12 @@ export async function runBridgeLoop(
     console.log('\n  Shutting down bridge...');
 
     clearInterval(heartbeatTimer);
-    clearInterval(pollTimer);
-    clearInterval(buildPollTimer);
+    pullPoller.stop();
+    buildPoller.stop();
+    commitPoller?.stop();
+    tokenFeed?.stop();
     watcher.stop();
+    await buildQueue.shutdown();
 
     try {
       await markOffline(sessionId);
@@ -0,0 +1,244 @@
+/**
+ * MyndHyve CLI — MCP Streamable HTTP Server
+ *
+ * Serves the bridge MCP server over the MCP Streamable HTTP transport
+ * (POST for requests, GET for the SSE notification stream) so several
+ * assistants and browser-based tools can share one running server.
+ *
+ * Listens on 127.0.0.1 only, at http://127.0.0.1:{port}/mcp. Every request
+ * must carry `Authorization: Bearer <token>`; the token comes from --token,
+ * MYNDHYVE_MCP_TOKEN, or .myndhyve/mcp-token (generated on first use).
+ * Each MCP session gets its own McpServer instance; all share one design
+ * change feed.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger.js';
+import { getBridgeDir } from './session.js';
+import { createMCPServer } from './mcp-server.js';
+import { DesignChangeFeed } from './design-feed.js';
+import type { BridgeLocalConfig } from './types.js';
+
+const log = createLogger('MCPHttp');
+
+export const DEFAULT_MCP_HTTP_PORT = 3777;
+
+const MCP_HOST = '127.0.0.1';
+const MCP_PATH = '/mcp';
+const TOKEN_FILE = 'mcp-token';
+
+/** Largest JSON-RPC request body accepted */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface MCPHttpOptions {
+  port: number;
+  /** Bearer token clients must present */
+  token: string;
+}
+
+export interface MCPHttpServer {
+  /** Endpoint URL, e.g. http://127.0.0.1:3777/mcp */
+  url: string;
+  port: number;
+  /** Number of connected MCP sessions */
+  readonly sessionCount: number;
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// TOKEN
+// ============================================================================
+
+export function getMCPTokenPath(projectRoot: string): string {
+  return join(getBridgeDir(projectRoot), TOKEN_FILE);
+}
+
+/**
+ * Resolve the bearer token: explicit value, then MYNDHYVE_MCP_TOKEN, then
+ * the project's token file, which is created with a random token if missing.
+ */
+export async function resolveMCPToken(projectRoot: string, explicit?: string): Promise<string> {
+  if (explicit) return explicit;
+  if (process.env.MYNDHYVE_MCP_TOKEN) return process.env.MYNDHYVE_MCP_TOKEN;
+
+  const tokenPath = getMCPTokenPath(projectRoot);
+  try {
+    const stored = (await readFile(tokenPath, 'utf-8')).trim();
+    if (stored) return stored;
+  } catch {
+    // Not created yet
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  await mkdir(getBridgeDir(projectRoot), { recursive: true });
+  await writeFile(tokenPath, `${token}\n`, { mode: 0o600 });
+  return token;
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Start the MCP server on Streamable HTTP. Resolves once listening.
+ */
+export async function startMCPHttpServer(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  options: MCPHttpOptions
+): Promise<MCPHttpServer> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const designFeed = new DesignChangeFeed(config.projectId);
+  let allowedHosts: string[] = [];
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', `http://${MCP_HOST}`);
+    if (url.pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = transports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, 'Missing mcp-session-id header');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, error instanceof Error ? error.message : String(error), -32700);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'First request of a session must be initialize');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (id) => {
+        transports.set(id, transport);
+        log.info('MCP client connected', { session: id, clients: transports.size });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && transports.delete(transport.sessionId)) {
+        log.info('MCP client disconnected', { session: transport.sessionId, clients: transports.size });
+      }
+    };
+
+    await createMCPServer(projectRoot, config, { designFeed }).connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      log.error('MCP request failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) sendJsonRpcError(res, 500, 'Internal server error', -32603);
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, MCP_HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  allowedHosts = [`${MCP_HOST}:${port}`, `localhost:${port}`];
+  designFeed.start();
+
+  log.info('MCP HTTP server started', {
+    project: config.projectId,
+    session: config.sessionId,
+    port,
+  });
+
+  return {
+    url: `http://${MCP_HOST}:${port}${MCP_PATH}`,
+    port,
+    get sessionCount() {
+      return transports.size;
+    },
+    close: async () => {
+      designFeed.stop();
+      for (const transport of [...transports.values()]) {
+        await transport.close().catch(() => {});
+      }
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const presented = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new Error('Parse error: request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,98 @@
+/**
+ * MyndHyve CLI — MCP Prompt Templates
+ *
+ * Text for the prompts the bridge MCP server offers (prompts/list). Each
+ * builder takes project context already fetched from Firestore and returns
+ * the user message the assistant should act on.
+ */
+
+import type { BuildError, ExportFramework } from './types.js';
+
+/** Errors listed in a fix-build-errors prompt */
+const MAX_PROMPT_ERRORS = 30;
+
+export interface ImplementScreenContext {
+  screen: Record<string, unknown>;
+  theme: Record<string, unknown> | null;
+  framework: ExportFramework;
+}
+
+/**
+ * "Implement screen X against the theme"
+ */
+export function buildImplementScreenPrompt({ screen, theme, framework }: ImplementScreenContext): string {
+  const name = (screen.name as string) || (screen.id as string);
+  const lines = [
+    `Implement the "${name}" screen${screen.route ? ` (route ${screen.route as string})` : ''} in this ${framework} project.`,
+    '',
+    'Follow the MyndHyve design exactly:',
+    '- Build the component tree below, reusing existing components where they match by name.',
+    '- Take every color, font, spacing and shadow value from the theme tokens — do not hard-code values the theme defines.',
+    '- Match the project\'s existing file layout and conventions.',
+    '',
+    '## Screen design',
+    '',
+    '```json',
+    JSON.stringify(screen, null, 2),
+    '```',
+    '',
+  ];
+
+  if (theme) {
+    lines.push('## Theme', '', '```json', JSON.stringify(theme, null, 2), '```', '');
+  } else {
+    lines.push('No theme is defined for this project; use the existing styles in the codebase.', '');
+  }
+
+  lines.push(
+    'When done, run the myndhyve.build.run tool with buildType "typecheck" and fix any errors it reports.'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * "Fix the build errors from the last build"
+ */
+export function buildFixBuildErrorsPrompt(build: Record<string, unknown>): string {
+  const errors = (Array.isArray(build.errors) ? build.errors : []) as BuildError[];
+  const warningCount = typeof build.warningCount === 'number' ? build.warningCount : 0;
+  const header = `Build ${build.id as string} (\`${build.command as string}\`) finished with status "${build.status as string}".`;
+
+  if (errors.length === 0) {
+    return [
+      header,
+      '',
+      build.status === 'success'
+        ? 'It reported no errors, so there is nothing to fix.'
+        : 'No errors could be parsed from its output. Check the build output with myndhyve.build.status and fix the cause.',
+    ].join('\n');
+  }
+
+  const lines = [
+    header,
+    '',
+    `Fix these ${errors.length} error(s)${warningCount > 0 ? ` (plus ${warningCount} warning(s), if they are related)` : ''}:`,
+    '',
+  ];
+
+  for (const error of errors.slice(0, MAX_PROMPT_ERRORS)) {
+    lines.push(`- ${formatLocation(error)}${error.code ? ` [${error.code}]` : ''} ${error.message}`);
+  }
+  if (errors.length > MAX_PROMPT_ERRORS) {
+    lines.push(`- …and ${errors.length - MAX_PROMPT_ERRORS} more`);
+  }
+
+  lines.push(
+    '',
+    'Fix the root causes rather than silencing the checks. Then run myndhyve.build.run with the same command to confirm the build passes.'
+  );
+  return lines.join('\n');
+}
+
+function formatLocation(error: BuildError): string {
+  if (!error.file) return '(no file)';
+  let location = error.file;
+  if (error.line !== undefined) location += `:${error.line}`;
+  if (error.line !== undefined && error.column !== undefined) location += `:${error.column}`;
+  return location;
+}
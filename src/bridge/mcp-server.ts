@@ -2,24 +2,34 @@
  * MyndHyve CLI — MCP Server
  *
  * Model Context Protocol server for AI coding assistants (Cursor, Claude Code,
- * Copilot, etc.). Exposes MyndHyve project context, design data, sync
- * operations, and build management via stdio transport.
+ * Copilot, etc.). Exposes MyndHyve project context, design data (read and
+ * write, see design-edits.ts), sync operations, and build management via
+ * stdio transport, or over Streamable HTTP for several clients at once
+ * (see mcp-http.ts).
  *
- * Launch: myndhyve-cli bridge mcp
+ * Launch: myndhyve-cli bridge mcp [--http --port 3777]
  * Config: { "mcpServers": { "myndhyve": { "command": "myndhyve-cli", "args": ["bridge", "mcp"] } } }
  */
 
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { readFile } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import { existsSync } from 'node:fs';
 import { createLogger } from '../utils/logger.js';
+import { sleep } from '../utils/backoff.js';
+import { DesignChangeFeed, designResourceUri } from './design-feed.js';
+import type { DesignChange } from './design-feed.js';
 import type { BridgeLocalConfig, FileSyncRecord } from './types.js';
+import { BUILD_POLL_INTERVAL_MS, HEARTBEAT_STALE_MS } from './types.js';
 
 const log = createLogger('MCPServer');
 
+/** How long myndhyve.build.run waits for a build the bridge loop runs */
+const BUILD_WAIT_MS = 30 * 60_000;
+
 // ============================================================================
 // SERVER CREATION
 // ============================================================================
@@ -34,6 +44,35 @@ export async function startMCPServer(
   projectRoot: string,
   config: BridgeLocalConfig
 ): Promise<void> {
+  const designFeed = new DesignChangeFeed(config.projectId);
+  const server = createMCPServer(projectRoot, config, { designFeed });
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  designFeed.start();
+
+  // Log to stderr so it doesn't interfere with MCP JSON-RPC on stdout
+  log.info('MCP server started', {
+    project: config.projectId,
+    session: config.sessionId,
+    framework: config.framework,
+  });
+}
+
+export interface MCPServerOptions {
+  /** Source of design change notifications; may be shared between servers */
+  designFeed?: DesignChangeFeed;
+}
+
+/**
+ * Create an MCP server with all MyndHyve tools, resources and prompts
+ * registered, not yet connected to a transport. Each connected client needs
+ * its own.
+ */
+export function createMCPServer(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  options: MCPServerOptions = {}
+): McpServer {
   const server = new McpServer(
     {
       name: 'myndhyve',
@@ -43,7 +82,8 @@ export async function startMCPServer(
     {
       capabilities: {
         tools: { listChanged: false },
-        resources: { listChanged: false },
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: false },
       },
     }
   );
@@ -59,11 +99,38 @@ export async function startMCPServer(
     getDocument: async () => (await import('../api/firestore.js')).getDocument,
     listDocuments: async () => (await import('../api/firestore.js')).listDocuments,
     runQuery: async () => (await import('../api/firestore.js')).runQuery,
+    createDocument: async () => (await import('../api/firestore.js')).createDocument,
+    updateDocument: async () => (await import('../api/firestore.js')).updateDocument,
+    designEdits: async () => await import('./design-edits.js'),
+    designTokens: async () => await import('./design-tokens.js'),
   };
 
   const getUserId = () => config.userId;
   const getSessionId = () => config.sessionId;
 
+  /** Look up a component by ID, falling back to its name. */
+  const findComponent = async (componentId: string): Promise<Record<string, unknown> | null> => {
+    const getDoc = await api.getDocument();
+    const doc = await getDoc(`projects/${config.projectId}/components`, componentId);
+    if (doc) return doc;
+
+    const query = await api.runQuery();
+    const results = await query(
+      `projects/${config.projectId}/components`,
+      [{ field: 'name', op: 'EQUAL', value: componentId }],
+      { limit: 1 }
+    );
+    return results[0] ?? null;
+  };
+
+  /** Result of a design write: the diff, plus what happened. */
+  const designEditResult = (diff: string, summary: string, dryRun: boolean) =>
+    textResult(
+      diff
+        ? `${dryRun ? `Dry run — ${summary} (nothing written)` : summary}\n\n${diff}`
+        : 'No changes.'
+    );
+
   // ============================================================================
   // TOOLS
   // ============================================================================
@@ -135,27 +202,9 @@ export async function startMCPServer(
     },
   }, async ({ componentId }) => {
     try {
-      const getDoc = await api.getDocument();
-      // Try direct Firestore lookup first
-      const doc = await getDoc(
-        `projects/${config.projectId}/components`,
-        componentId
-      );
-
-      if (doc) {
-        return textResult(JSON.stringify(doc, null, 2));
-      }
-
-      // Fallback: search by name in the components collection
-      const query = await api.runQuery();
-      const results = await query(
-        `projects/${config.projectId}/components`,
-        [{ field: 'name', op: 'EQUAL', value: componentId }],
-        { limit: 1 }
-      );
-
-      if (results.length > 0) {
-        return textResult(JSON.stringify(results[0], null, 2));
+      const component = await findComponent(componentId);
+      if (component) {
+        return textResult(JSON.stringify(component, null, 2));
       }
 
       return errorResult(`Component not found: ${componentId}`);
@@ -210,6 +259,177 @@ export async function startMCPServer(
     }
   });
 
+  // ── Design: Update Component ───────────────────────────────────────────
+
+  server.registerTool('myndhyve.design.updateComponent', {
+    title: 'Update Component Design',
+    description:
+      'Change a component design in MyndHyve. `changes` is a JSON Merge Patch: objects merge, arrays and values ' +
+      'replace, null removes a field. The result is validated against the canvas type schema. ' +
+      'Use dryRun to preview the diff without writing.',
+    inputSchema: {
+      componentId: z.string().describe('Component ID or name'),
+      changes: z.record(z.string(), z.unknown()).describe('JSON Merge Patch to apply'),
+      dryRun: z.boolean().default(false).describe('Return the diff without writing'),
+    },
+  }, async ({ componentId, changes, dryRun }) => {
+    try {
+      const component = await findComponent(componentId);
+      if (!component) return errorResult(`Component not found: ${componentId}`);
+
+      const { planDesignEdit } = await api.designEdits();
+      const plan = planDesignEdit(config.canvasTypeId, 'component', component, changes);
+
+      if (!dryRun && plan.changedFields.length > 0) {
+        const updateDoc = await api.updateDocument();
+        const stamp = writeStamp();
+        await updateDoc(
+          `projects/${config.projectId}/components`,
+          component.id as string,
+          { ...pick(plan.next, plan.changedFields), ...stamp },
+          [...plan.changedFields, ...Object.keys(stamp)]
+        );
+      }
+
+      return designEditResult(plan.diff, `Updated component ${component.id as string}`, dryRun);
+    } catch (error) {
+      return errorResult(`Failed to update component: ${errorMessage(error)}`);
+    }
+  });
+
+  // ── Design: Create Screen ─────────────────────────────────────────────
+
+  server.registerTool('myndhyve.design.createScreen', {
+    title: 'Create Screen',
+    description:
+      'Create a new screen in MyndHyve. Validated against the canvas type schema; the route must be unique. ' +
+      'Use dryRun to preview without writing.',
+    inputSchema: {
+      name: z.string().describe('Screen name (e.g. "Sign Up")'),
+      route: z.string().describe('Route path (e.g. "/signup")'),
+      description: z.string().optional().describe('What the screen is for'),
+      components: z.array(z.record(z.string(), z.unknown())).optional()
+        .describe('Top-level component tree ({ type, props, styles, children })'),
+      screenId: z.string().optional().describe('Document ID (defaults to a slug of the name)'),
+      dryRun: z.boolean().default(false).describe('Return the diff without writing'),
+    },
+  }, async ({ name, route, description, components, screenId, dryRun }) => {
+    try {
+      const { planDesignEdit, slugifyDesignId } = await api.designEdits();
+      const fields = { name, route, description, components };
+      const plan = planDesignEdit(
+        config.canvasTypeId,
+        'screen',
+        null,
+        Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined))
+      );
+
+      const id = screenId || slugifyDesignId(name);
+      const collection = `projects/${config.projectId}/screens`;
+
+      const getDoc = await api.getDocument();
+      if (await getDoc(collection, id)) {
+        return errorResult(`Screen already exists: ${id}`);
+      }
+
+      const query = await api.runQuery();
+      const sameRoute = await query(collection, [{ field: 'route', op: 'EQUAL', value: route }], { limit: 1 });
+      if (sameRoute.length > 0) {
+        return errorResult(`Route ${route} is already used by screen ${sameRoute[0].id as string}`);
+      }
+
+      if (!dryRun) {
+        const createDoc = await api.createDocument();
+        await createDoc(collection, id, {
+          ...plan.next,
+          createdAt: new Date().toISOString(),
+          ...writeStamp(),
+        });
+      }
+
+      return designEditResult(plan.diff, `Created screen ${id}`, dryRun);
+    } catch (error) {
+      return errorResult(`Failed to create screen: ${errorMessage(error)}`);
+    }
+  });
+
+  // ── Design: Update Theme ──────────────────────────────────────────────
+
+  server.registerTool('myndhyve.design.updateTheme', {
+    title: 'Update Design Theme',
+    description:
+      'Change design tokens (colors, typography, spacing, ...) in the project theme. `changes` is a JSON Merge ' +
+      'Patch, e.g. { "colors": { "primary": "#4f46e5" } }. Use dryRun to preview the diff without writing.',
+    inputSchema: {
+      changes: z.record(z.string(), z.unknown()).describe('JSON Merge Patch to apply'),
+      dryRun: z.boolean().default(false).describe('Return the diff without writing'),
+    },
+  }, async ({ changes, dryRun }) => {
+    try {
+      const listDocs = await api.listDocuments();
+      const collection = `projects/${config.projectId}/themes`;
+      const result = await listDocs(collection);
+      const theme = result.documents[0];
+      if (!theme) return errorResult('No theme defined for this project');
+
+      const { planDesignEdit } = await api.designEdits();
+      const plan = planDesignEdit(config.canvasTypeId, 'theme', theme, changes);
+
+      if (!dryRun && plan.changedFields.length > 0) {
+        const updateDoc = await api.updateDocument();
+        const stamp = writeStamp();
+        await updateDoc(
+          collection,
+          theme.id as string,
+          { ...pick(plan.next, plan.changedFields), ...stamp },
+          [...plan.changedFields, ...Object.keys(stamp)]
+        );
+      }
+
+      return designEditResult(plan.diff, `Updated theme ${theme.id as string}`, dryRun);
+    } catch (error) {
+      return errorResult(`Failed to update theme: ${errorMessage(error)}`);
+    }
+  });
+
+  // ── Design: Export Tokens ─────────────────────────────────────────────
+
+  server.registerTool('myndhyve.design.exportTokens', {
+    title: 'Export Design Tokens',
+    description:
+      'Generate framework-native code from the project theme: Tailwind preset, CSS custom properties, SCSS ' +
+      'variables, TypeScript constants, Flutter ThemeData, or W3C Design Tokens JSON. Formats default to the ' +
+      'project framework. Writes the files into the project unless dryRun is set.',
+    inputSchema: {
+      formats: z
+        .array(z.enum(['tailwind', 'css', 'scss', 'ts', 'flutter', 'w3c']))
+        .optional()
+        .describe('Formats to generate (default: chosen by the project framework)'),
+      dryRun: z.boolean().default(false).describe('Return the generated files without writing them'),
+    },
+  }, async ({ formats, dryRun }) => {
+    try {
+      const { exportDesignTokens } = await api.designTokens();
+      const result = await exportDesignTokens(projectRoot, config, {
+        ...(formats ? { formats } : {}),
+        dryRun,
+      });
+
+      if (dryRun) {
+        return textResult(
+          result.files.map((f) => `// ${f.relativePath}\n${f.content}`).join('\n')
+        );
+      }
+
+      const lines = result.files.map(
+        (f) => `${f.changed ? 'Wrote' : 'Unchanged'} ${f.relativePath} (${f.format})`
+      );
+      return textResult(`Exported theme ${result.themeId}:\n${lines.join('\n')}`);
+    } catch (error) {
+      return errorResult(`Failed to export tokens: ${errorMessage(error)}`);
+    }
+  });
+
   // ── Sync: Status ──────────────────────────────────────────────────────
 
   server.registerTool('myndhyve.sync.status', {
@@ -288,7 +508,8 @@ export async function startMCPServer(
   server.registerTool('myndhyve.build.run', {
     title: 'Run Build',
     description:
-      'Trigger a build in the local project. Supports: development, production, test, lint, typecheck, preview.',
+      'Trigger a build in the local project and wait for it. Builds queue behind other builds up to the project\'s ' +
+      'maxConcurrentBuilds. Supports: development, production, test, lint, typecheck, preview.',
     inputSchema: {
       buildType: z
         .enum(['development', 'production', 'test', 'lint', 'typecheck', 'preview'])
@@ -298,10 +519,13 @@ export async function startMCPServer(
         .string()
         .optional()
         .describe('Override the default build command (e.g. "npm run build:staging")'),
+      artifactGlobs: z
+        .array(z.string())
+        .optional()
+        .describe('Output globs to record as artifacts (e.g. ["dist/**"]); defaults to the project setting'),
     },
-  }, async ({ buildType, command: rawCommand }) => {
+  }, async ({ buildType, command: rawCommand, artifactGlobs }) => {
     try {
-      const { executeBuildRequest } = await import('./builder.js');
       const buildId = `build-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
       const now = new Date().toISOString();
 
@@ -337,17 +561,52 @@ export async function startMCPServer(
         errors: [],
         warnings: [],
         artifacts: [],
+        ...(artifactGlobs ? { artifactGlobs } : {}),
         startedAt: null,
         completedAt: null,
         createdAt: now,
       };
 
-      // executeBuildRequest runs the build and writes results to Firestore
-      await executeBuildRequest(getSessionId(), projectRoot, buildRecord);
-
-      // Read back the completed build record from Firestore
+      const { getSession, getBuildRecord } = await import('./session.js');
+      const { getProjectBuildQueue } = await import('./build-queue.js');
       const getDoc = await api.getDocument();
       const buildsPath = `users/${getUserId()}/bridgeSessions/${getSessionId()}/builds`;
+
+      const session = await getSession(getSessionId());
+      const bridgeRunning = session?.status === 'online'
+        && Date.now() - new Date(session.lastHeartbeat).getTime() < HEARTBEAT_STALE_MS;
+
+      if (bridgeRunning) {
+        // The bridge loop picks up pending builds and runs them through its
+        // queue, with the same limits and cancellation as web app builds
+        const createDoc = await api.createDocument();
+        await createDoc(buildsPath, buildId, buildRecord);
+
+        const deadline = Date.now() + BUILD_WAIT_MS;
+        let status = 'pending';
+        while (status === 'pending' || status === 'running') {
+          if (Date.now() >= deadline) {
+            return textResult(`Build ${buildId} is still ${status}. Check it with myndhyve.build.status.`);
+          }
+          await sleep(BUILD_POLL_INTERVAL_MS);
+          status = ((await getBuildRecord(getSessionId(), buildId))?.status as string | undefined) ?? status;
+        }
+      } else {
+        // No bridge running: queue in this process, shared with every
+        // client of this server. The record is only written once the build
+        // starts, so a bridge started meanwhile won't run it as well.
+        const queue = await getProjectBuildQueue(getSessionId(), projectRoot);
+        const cancellations = setInterval(() => {
+          queue.checkCancellations().catch(() => {});
+        }, BUILD_POLL_INTERVAL_MS);
+        try {
+          await queue.run(buildRecord);
+        } finally {
+          clearInterval(cancellations);
+        }
+      }
+
+      // Read back the completed build record from Firestore
       const result = await getDoc(buildsPath, buildId);
 
       if (result) {
@@ -362,6 +621,8 @@ export async function startMCPServer(
           warningCount: result.warningCount,
           errors: Array.isArray(result.errors) ? result.errors.slice(0, 10) : [],
           warnings: Array.isArray(result.warnings) ? result.warnings.slice(0, 10) : [],
+          artifactCount: Array.isArray(result.artifacts) ? result.artifacts.length : 0,
+          preview: result.preview ?? null,
         };
         return textResult(JSON.stringify(summary, null, 2));
       }
@@ -408,6 +669,42 @@ export async function startMCPServer(
     }
   });
 
+  // ── Build: Cancel ─────────────────────────────────────────────────────
+
+  server.registerTool('myndhyve.build.cancel', {
+    title: 'Cancel Build',
+    description:
+      'Cancel a queued or running build. The bridge kills the build process and marks the build cancelled.',
+    inputSchema: {
+      buildId: z.string().describe('Build ID to cancel'),
+    },
+  }, async ({ buildId }) => {
+    try {
+      // Builds queued by myndhyve.build.run without a bridge live in this process
+      const { getProjectBuildQueue } = await import('./build-queue.js');
+      const queue = await getProjectBuildQueue(getSessionId(), projectRoot);
+      if (queue.has(buildId)) {
+        await queue.cancel(buildId);
+        return textResult(`Build ${buildId} cancelled.`);
+      }
+
+      const { getBuildRecord, updateBuildRecord } = await import('./session.js');
+      const build = await getBuildRecord(getSessionId(), buildId);
+      if (!build) return errorResult(`Build not found: ${buildId}`);
+
+      if (build.status !== 'pending' && build.status !== 'running') {
+        return errorResult(`Build ${buildId} is already ${build.status}`);
+      }
+
+      // The bridge loop picks this up on its next build poll
+      await updateBuildRecord(getSessionId(), buildId, { cancelRequested: true });
+
+      return textResult(`Cancellation requested for build ${buildId}.`);
+    } catch (error) {
+      return errorResult(`Failed to cancel build: ${errorMessage(error)}`);
+    }
+  });
+
   // ── Conflict: List ────────────────────────────────────────────────────
 
   server.registerTool('myndhyve.conflict.list', {
@@ -461,19 +758,24 @@ export async function startMCPServer(
         return errorResult('Manual resolution requires "content" parameter with merged file content.');
       }
 
-      const { updateDocument } = await import('../api/firestore.js');
-      const conflictsPath = `users/${getUserId()}/bridgeSessions/${getSessionId()}/conflicts`;
-      const now = new Date().toISOString();
+      const { resolveConflict, hasConflictMarkers } = await import('./conflicts.js');
+      if (content && hasConflictMarkers(content)) {
+        return errorResult('Merged content still contains conflict markers.');
+      }
 
-      await updateDocument(conflictsPath, conflictId, {
-        status: 'resolved',
-        resolution: strategy,
-        resolvedContent: content || null,
+      const result = await resolveConflict({
+        sessionId: getSessionId(),
+        projectRoot,
+        conflictId,
+        strategy,
+        content,
         resolvedBy: 'mcp',
-        resolvedAt: now,
       });
 
-      return textResult(`Conflict ${conflictId} resolved with strategy: ${strategy}`);
+      return textResult(
+        `Conflict ${conflictId} (${result.relativePath}) resolved with strategy: ${strategy}` +
+        (result.pushed ? ' — pushed to MyndHyve' : '')
+      );
     } catch (error) {
       return errorResult(`Failed to resolve conflict: ${errorMessage(error)}`);
     }
@@ -656,24 +958,112 @@ export async function startMCPServer(
   );
 
   // ============================================================================
-  // START SERVER
+  // PROMPTS
   // ============================================================================
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  server.registerPrompt('implement-screen', {
+    title: 'Implement Screen',
+    description: 'Implement a MyndHyve screen in this project against the design theme',
+    argsSchema: {
+      screen: z.string().describe('Screen ID or name'),
+    },
+  }, async ({ screen: screenRef }) => {
+    const getDoc = await api.getDocument();
+    const collection = `projects/${config.projectId}/screens`;
+    let screen = await getDoc(collection, screenRef);
+    if (!screen) {
+      const query = await api.runQuery();
+      [screen = null] = await query(collection, [{ field: 'name', op: 'EQUAL', value: screenRef }], { limit: 1 });
+    }
+    if (!screen) throw new Error(`Screen not found: ${screenRef}`);
 
-  // Log to stderr so it doesn't interfere with MCP JSON-RPC on stdout
-  log.info('MCP server started', {
-    project: config.projectId,
-    session: config.sessionId,
-    framework: config.framework,
+    const listDocs = await api.listDocuments();
+    const themes = await listDocs(`projects/${config.projectId}/themes`);
+    const { buildImplementScreenPrompt } = await import('./mcp-prompts.js');
+
+    return promptResult(
+      `Implement screen ${(screen.name as string) || screenRef}`,
+      buildImplementScreenPrompt({ screen, theme: themes.documents[0] ?? null, framework: config.framework })
+    );
   });
+
+  server.registerPrompt('fix-build-errors', {
+    title: 'Fix Build Errors',
+    description: 'Fix the errors reported by the most recent bridge build (or a given build)',
+    argsSchema: {
+      buildId: z.string().optional().describe('Build ID (omit for the latest build)'),
+    },
+  }, async ({ buildId }) => {
+    const buildsPath = `users/${getUserId()}/bridgeSessions/${getSessionId()}/builds`;
+    let build: Record<string, unknown> | null;
+    if (buildId) {
+      const getDoc = await api.getDocument();
+      build = await getDoc(buildsPath, buildId);
+    } else {
+      const listDocs = await api.listDocuments();
+      const result = await listDocs(buildsPath, { orderBy: 'createdAt desc', pageSize: 1 });
+      build = result.documents[0] ?? null;
+    }
+    if (!build) throw new Error(buildId ? `Build not found: ${buildId}` : 'No builds found for this session');
+
+    const { buildFixBuildErrorsPrompt } = await import('./mcp-prompts.js');
+    return promptResult(`Fix errors from build ${build.id as string}`, buildFixBuildErrorsPrompt(build));
+  });
+
+  // ============================================================================
+  // CHANGE NOTIFICATIONS
+  // ============================================================================
+
+  const subscriptions = new Set<string>();
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const { designFeed } = options;
+  if (designFeed) {
+    const onDesignChange = (change: DesignChange) => {
+      if (!server.isConnected()) return;
+
+      const uri = designResourceUri(change.collection, change.id);
+      if (subscriptions.has(uri)) {
+        server.server.sendResourceUpdated({ uri }).catch((error) => {
+          log.debug('Failed to send resource update', { uri, error: errorMessage(error) });
+        });
+      }
+      if (change.change !== 'modified' && change.collection !== 'themes') {
+        server.sendResourceListChanged();
+      }
+    };
+
+    designFeed.on('change', onDesignChange);
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      designFeed.off('change', onDesignChange);
+      previousOnClose?.();
+    };
+  }
+
+  return server;
 }
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
+function promptResult(description: string, text: string) {
+  return {
+    description,
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
+
 function textResult(text: string) {
   return { content: [{ type: 'text' as const, text }] };
 }
@@ -682,6 +1072,16 @@ function errorResult(message: string) {
   return { content: [{ type: 'text' as const, text: `Error: ${message}` }], isError: true };
 }
 
+/** Audit fields set on every design write */
+function writeStamp(): Record<string, string> {
+  return { updatedAt: new Date().toISOString(), updatedBy: 'mcp' };
+}
+
+/** Copy the given fields; fields missing from `source` are left out (deleted by the update mask). */
+function pick(source: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.filter((f) => f in source).map((f) => [f, source[f]]));
+}
+
 function errorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
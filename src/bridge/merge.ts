@@ -0,0 +1,364 @@
+/**
+ * MyndHyve CLI — Three-Way Merge
+ *
+ * Line-based diff3 merge used by the sync engine when both the local file
+ * and the remote content have diverged from the last synced base.
+ *
+ * Diffs are computed with Myers' O(ND) algorithm; the two diffs against the
+ * base are then walked together to split the file into stable chunks (all
+ * three sides agree) and unstable chunks. An unstable chunk resolves cleanly
+ * when only one side changed it (or both made the same change); otherwise the
+ * hunks overlap and the merge reports a conflict.
+ *
+ * Diffing is bounded by MAX_MERGE_LINES and MAX_DIFF_EDITS so heavily
+ * diverged large files (bundles, lockfiles, generated JSON) can't exhaust
+ * memory; beyond those the whole file is reported as one conflict.
+ */
+
+/** Files with more lines than this on any side are not line-merged. */
+const MAX_MERGE_LINES = 50_000;
+
+/** Edit distance at which a diff gives up. Diff memory grows with its square. */
+const MAX_DIFF_EDITS = 2_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A region where local and remote made different changes to the same lines. */
+export interface MergeConflictHunk {
+  /** 1-based line in the base where the conflicting region starts */
+  baseStart: number;
+  baseLines: string[];
+  localLines: string[];
+  remoteLines: string[];
+}
+
+export interface MergeResult {
+  /** True when every change could be applied without overlap */
+  clean: boolean;
+  /**
+   * Merged content. When `clean` is false, conflicting regions are rendered
+   * with git-style `<<<<<<<` / `|||||||` / `=======` / `>>>>>>>` markers.
+   */
+  merged: string;
+  conflicts: MergeConflictHunk[];
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Merge local and remote edits of the same base text.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  // Trivial cases first — avoids diffing large files that didn't change
+  if (local === remote) return { clean: true, merged: local, conflicts: [] };
+  if (local === base) return { clean: true, merged: remote, conflicts: [] };
+  if (remote === base) return { clean: true, merged: local, conflicts: [] };
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  if (Math.max(baseLines.length, localLines.length, remoteLines.length) > MAX_MERGE_LINES) {
+    return wholeFileConflict(baseLines, localLines, remoteLines);
+  }
+
+  const localDiff = diffLines(baseLines, localLines);
+  const remoteDiff = localDiff.complete ? diffLines(baseLines, remoteLines) : null;
+  if (!remoteDiff?.complete) {
+    return wholeFileConflict(baseLines, localLines, remoteLines);
+  }
+  const localMatch = localDiff.match;
+  const remoteMatch = remoteDiff.match;
+
+  const output: string[] = [];
+  const conflicts: MergeConflictHunk[] = [];
+
+  let o = 0;
+  let a = 0;
+  let b = 0;
+
+  while (o < baseLines.length || a < localLines.length || b < remoteLines.length) {
+    // Length of the stable run starting here
+    let stable = 0;
+    while (
+      o + stable < baseLines.length &&
+      localMatch[o + stable] === a + stable &&
+      remoteMatch[o + stable] === b + stable
+    ) {
+      stable++;
+    }
+
+    if (stable > 0) {
+      output.push(...baseLines.slice(o, o + stable));
+      o += stable;
+      a += stable;
+      b += stable;
+      continue;
+    }
+
+    // Unstable chunk: find the next base line matched on both sides
+    let next = o;
+    while (next < baseLines.length && (localMatch[next] < 0 || remoteMatch[next] < 0)) {
+      next++;
+    }
+
+    const endA = next < baseLines.length ? localMatch[next] : localLines.length;
+    const endB = next < baseLines.length ? remoteMatch[next] : remoteLines.length;
+
+    const chunkBase = baseLines.slice(o, next);
+    const chunkLocal = localLines.slice(a, endA);
+    const chunkRemote = remoteLines.slice(b, endB);
+
+    if (linesEqual(chunkLocal, chunkBase)) {
+      output.push(...chunkRemote);
+    } else if (linesEqual(chunkRemote, chunkBase) || linesEqual(chunkLocal, chunkRemote)) {
+      output.push(...chunkLocal);
+    } else {
+      conflicts.push({
+        baseStart: o + 1,
+        baseLines: chunkBase,
+        localLines: chunkLocal,
+        remoteLines: chunkRemote,
+      });
+      output.push(...conflictMarkers(chunkBase, chunkLocal, chunkRemote));
+    }
+
+    o = next;
+    a = endA;
+    b = endB;
+  }
+
+  return {
+    clean: conflicts.length === 0,
+    merged: output.join('\n'),
+    conflicts,
+  };
+}
+
+/**
+ * Heuristic text detection: content is treated as binary if it contains a
+ * NUL byte in the first 8KB (same heuristic git uses).
+ */
+export function isTextContent(content: Buffer): boolean {
+  const sample = content.subarray(0, 8192);
+  return !sample.includes(0);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Render a unified diff (`@@ -a,b +c,d @@` hunks) between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  opts: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  if (before === after) return '';
+
+  const context = opts.context ?? 3;
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const match = matchLines(a, b);
+
+  // Flatten into an edit script of [op, aIndex, bIndex]
+  const ops: Array<{ op: ' ' | '-' | '+'; text: string; ai: number; bi: number }> = [];
+  let bi = 0;
+  for (let ai = 0; ai < a.length; ai++) {
+    if (match[ai] < 0) {
+      ops.push({ op: '-', text: a[ai], ai, bi });
+      continue;
+    }
+    while (bi < match[ai]) {
+      ops.push({ op: '+', text: b[bi], ai, bi });
+      bi++;
+    }
+    ops.push({ op: ' ', text: a[ai], ai, bi });
+    bi++;
+  }
+  while (bi < b.length) {
+    ops.push({ op: '+', text: b[bi], ai: a.length, bi });
+    bi++;
+  }
+
+  // Group changes into hunks with surrounding context
+  const out: string[] = [`--- ${opts.fromLabel ?? 'a'}`, `+++ ${opts.toLabel ?? 'b'}`];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].op === ' ') {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end].op !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((h) => h.op !== '+').length;
+    const bCount = hunk.filter((h) => h.op !== '-').length;
+    const aStart = aCount > 0 ? hunk[0].ai + 1 : hunk[0].ai;
+    const bStart = bCount > 0 ? hunk[0].bi + 1 : hunk[0].bi;
+
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for (const h of hunk) out.push(`${h.op}${h.text}`);
+
+    i = end;
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Match lines of `base` to lines of `other` along a shortest edit script.
+ * Returns an array indexed by base line: the matching line index in `other`,
+ * or -1 if the base line was deleted. Past MAX_DIFF_EDITS the differing
+ * middle is reported as replaced outright.
+ */
+export function matchLines(base: string[], other: string[]): number[] {
+  return diffLines(base, other).match;
+}
+
+/**
+ * matchLines plus whether the diff completed. An incomplete diff leaves the
+ * lines between the common prefix and suffix unmatched.
+ */
+function diffLines(base: string[], other: string[]): { match: number[]; complete: boolean } {
+  const match = new Array<number>(base.length).fill(-1);
+
+  // Strip common prefix and suffix — most edits are local to a few lines
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) {
+    match[start] = start;
+    start++;
+  }
+
+  let endBase = base.length;
+  let endOther = other.length;
+  while (endBase > start && endOther > start && base[endBase - 1] === other[endOther - 1]) {
+    endBase--;
+    endOther--;
+    match[endBase] = endOther;
+  }
+
+  const pairs = myersDiff(base.slice(start, endBase), other.slice(start, endOther), MAX_DIFF_EDITS);
+  if (!pairs) return { match, complete: false };
+  for (const [i, j] of pairs) {
+    match[start + i] = start + j;
+  }
+
+  return { match, complete: true };
+}
+
+/**
+ * Myers' greedy shortest-edit-script algorithm.
+ * Returns the matched (aIndex, bIndex) pairs in ascending order, or null if
+ * the script needs more than `maxEdits` edits.
+ */
+function myersDiff(a: string[], b: string[], maxEdits: number): Array<[number, number]> | null {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return [];
+
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Round d only reads diagonals -d-1..d+1, so each saved V is that window
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Backtrack through the saved V windows to recover the snake diagonals
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d + 1];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+
+    if (d > 0) {
+      x = prevX;
+      y = prevY;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function conflictMarkers(base: string[], local: string[], remote: string[]): string[] {
+  return ['<<<<<<< local', ...local, '||||||| base', ...base, '=======', ...remote, '>>>>>>> remote'];
+}
+
+/** Unresolved result for files too large or too diverged to line-merge. */
+function wholeFileConflict(base: string[], local: string[], remote: string[]): MergeResult {
+  return {
+    clean: false,
+    merged: conflictMarkers(base, local, remote).join('\n'),
+    conflicts: [{ baseStart: 1, baseLines: base, localLines: local, remoteLines: remote }],
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+function linesEqual(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,141 @@
+/**
+ * MyndHyve CLI — Bridge Adaptive Poller
+ *
+ * Runs a polling task on a timer whose interval adapts to activity: every
+ * poll that finds nothing to do multiplies the interval (up to a ceiling),
+ * and any poll that finds work snaps it back to the floor. Idle sessions
+ * therefore cost a handful of reads a minute instead of one every few
+ * seconds, while active ones stay responsive.
+ *
+ * `trigger()` runs the task immediately and `reset()` returns to the
+ * fastest interval without running (used on local activity).
+ */
+
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('BridgePoller');
+
+export interface AdaptivePollerOptions {
+  /** Interval after a poll that found work */
+  minIntervalMs: number;
+  /** Ceiling the interval backs off to while idle */
+  maxIntervalMs: number;
+  /** Multiplier applied after each idle poll (default 2) */
+  backoffFactor?: number;
+  /** Don't let the timer keep the process alive */
+  unref?: boolean;
+}
+
+/**
+ * Polls with a task that resolves true when it found work. Task errors
+ * count as idle polls, so an unreachable backend is also polled less.
+ */
+export class AdaptivePoller {
+  private readonly minIntervalMs: number;
+  private readonly maxIntervalMs: number;
+  private readonly backoffFactor: number;
+  private readonly unref: boolean;
+  private interval: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextRunAt = 0;
+  private running = false;
+  private rerun = false;
+  private stopped = true;
+
+  constructor(
+    private readonly name: string,
+    private readonly task: () => Promise<boolean>,
+    options: AdaptivePollerOptions
+  ) {
+    this.minIntervalMs = options.minIntervalMs;
+    this.maxIntervalMs = Math.max(options.minIntervalMs, options.maxIntervalMs);
+    this.backoffFactor = options.backoffFactor ?? 2;
+    this.unref = options.unref ?? false;
+    this.interval = this.minIntervalMs;
+  }
+
+  /** Current delay between polls */
+  get intervalMs(): number {
+    return this.interval;
+  }
+
+  /**
+   * Start polling. The first poll runs after the minimum interval.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(this.interval);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Poll now. A trigger during a running poll queues one more run.
+   */
+  trigger(): void {
+    if (this.stopped) return;
+    this.interval = this.minIntervalMs;
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.clearTimer();
+    void this.run();
+  }
+
+  /**
+   * Drop back to the minimum interval without polling now.
+   */
+  reset(): void {
+    this.interval = this.minIntervalMs;
+    if (this.stopped || this.running) return;
+    if (this.nextRunAt - Date.now() > this.interval) this.schedule(this.interval);
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNAL
+  // --------------------------------------------------------------------------
+
+  private async run(): Promise<void> {
+    this.running = true;
+    this.timer = null;
+
+    let active = false;
+    try {
+      active = await this.task();
+    } catch (err) {
+      log.debug(`${this.name} poll failed`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    this.interval = active
+      ? this.minIntervalMs
+      : Math.min(this.maxIntervalMs, Math.round(this.interval * this.backoffFactor));
+    this.running = false;
+
+    if (this.stopped) return;
+    if (this.rerun) {
+      this.rerun = false;
+      void this.run();
+      return;
+    }
+    this.schedule(this.interval);
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.nextRunAt = Date.now() + delayMs;
+    this.timer = setTimeout(() => void this.run(), delayMs);
+    if (this.unref) this.timer.unref();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
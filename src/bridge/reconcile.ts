@@ -0,0 +1,222 @@
+/**
+ * MyndHyve CLI — Bridge Startup Reconciliation
+ *
+ * The file watcher only reports changes made while the bridge is running.
+ * Before going online, the bridge walks the project tree, hashes every
+ * synced file, and compares the result against the session's
+ * FileSyncRecords so that edits made while it was stopped are not lost:
+ *
+ * - Remote changes are pulled first (fast-forward, merge, or conflict). A
+ *   failed pull is logged and the local walk continues.
+ * - Local files with no record, or whose hash differs from the last synced
+ *   and last pushed hash, are pushed.
+ * - Records whose file is gone locally are pushed as deletions.
+ */
+
+import { readdir, stat } from 'node:fs/promises';
+import type { Dirent } from 'node:fs';
+import { join, extname } from 'node:path';
+import { createLogger } from '../utils/logger.js';
+import { hashFile } from './hasher.js';
+import { listFileSyncRecords } from './session.js';
+import { pullRemoteChanges } from './sync.js';
+import type { IgnoreMatcher } from './ignore.js';
+import type { FileChangeEvent, FileWatcher } from './watcher.js';
+import { MAX_SYNC_FILE_SIZE, MIME_TYPES } from './types.js';
+
+const log = createLogger('BridgeReconcile');
+
+export interface ReconcileOptions {
+  sessionId: string;
+  projectRoot: string;
+  ignoreMatcher: IgnoreMatcher;
+  /** Push a local change (the bridge loop queues failures in the journal) */
+  push: (event: FileChangeEvent) => Promise<void>;
+  /** Running watcher, used to suppress echo events for pulled files */
+  watcher?: FileWatcher;
+}
+
+export interface ReconcileSummary {
+  /** Local files hashed */
+  scanned: number;
+  /** Local files pushed (new or edited while stopped) */
+  pushed: number;
+  /** Files deleted locally while stopped */
+  deleted: number;
+  /** Remote changes written to disk */
+  pulled: number;
+  /** Files with unresolved conflicts */
+  conflicts: number;
+  /** Files already in sync */
+  unchanged: number;
+}
+
+/**
+ * Reconcile the working tree with the session's sync records.
+ */
+export async function reconcileProject(opts: ReconcileOptions): Promise<ReconcileSummary> {
+  const { sessionId, projectRoot, ignoreMatcher, push, watcher } = opts;
+  const summary: ReconcileSummary = {
+    scanned: 0,
+    pushed: 0,
+    deleted: 0,
+    pulled: 0,
+    conflicts: 0,
+    unchanged: 0,
+  };
+
+  // A failed pull must not keep local edits from being pushed or journaled;
+  // the pull poller applies remote changes once the API is reachable.
+  let pulled = { filesWritten: 0, conflicts: 0 };
+  try {
+    pulled = await pullRemoteChanges(sessionId, projectRoot, watcher);
+  } catch (error) {
+    log.warn('Startup pull failed — reconciling local changes only', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  summary.pulled = pulled.filesWritten;
+
+  const records = new Map<string, Record<string, unknown>>();
+  for (const record of await listFileSyncRecords(sessionId)) {
+    const relativePath = record.relativePath as string;
+    if (relativePath) records.set(relativePath, record);
+  }
+
+  const localFiles = await walkProject(projectRoot, ignoreMatcher);
+  const seen = new Set<string>();
+
+  for (const { relativePath, size } of localFiles) {
+    const hash = await hashFile(join(projectRoot, relativePath));
+    if (!hash) continue; // Deleted mid-scan — the watcher will report it
+
+    summary.scanned++;
+    seen.add(relativePath);
+
+    const record = records.get(relativePath);
+
+    if (record?.syncStatus === 'conflict') {
+      summary.conflicts++;
+      continue;
+    }
+
+    // Still waiting on a remote change the pull couldn't apply
+    if (record?.pendingSource === 'remote') continue;
+
+    if (
+      record &&
+      record.syncStatus !== 'deleted' &&
+      (hash === record.baseHash || hash === record.localHash)
+    ) {
+      summary.unchanged++;
+      continue;
+    }
+
+    await push({
+      relativePath,
+      changeType: record ? 'modified' : 'added',
+      hash,
+      fileSize: size,
+      mimeType: MIME_TYPES[extname(relativePath).toLowerCase()] || 'application/octet-stream',
+    });
+    summary.pushed++;
+  }
+
+  for (const [relativePath, record] of records) {
+    if (seen.has(relativePath) || ignoreMatcher.isIgnored(relativePath)) continue;
+    if (record.syncStatus === 'deleted' || record.pendingSource === 'remote') continue;
+
+    if (record.syncStatus === 'conflict') {
+      summary.conflicts++;
+      continue;
+    }
+
+    await push({
+      relativePath,
+      changeType: 'deleted',
+      hash: null,
+      fileSize: 0,
+      mimeType: 'application/octet-stream',
+    });
+    summary.deleted++;
+  }
+
+  summary.conflicts += pulled.conflicts;
+
+  log.info('Reconciliation complete', { ...summary });
+  return summary;
+}
+
+/**
+ * One-line summary for the bridge startup banner.
+ */
+export function formatReconcileSummary(summary: ReconcileSummary): string {
+  const parts = [
+    `${summary.pushed} pushed`,
+    `${summary.pulled} pulled`,
+    `${summary.deleted} deleted`,
+    `${summary.conflicts} conflict(s)`,
+  ];
+  return `Reconciled ${summary.scanned} file(s): ${parts.join(', ')}`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface LocalFile {
+  relativePath: string;
+  size: number;
+}
+
+/**
+ * List syncable files under the project root, skipping ignored directories
+ * without descending into them.
+ */
+async function walkProject(projectRoot: string, ignoreMatcher: IgnoreMatcher): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  const pending = [''];
+
+  while (pending.length > 0) {
+    const dir = pending.pop() as string;
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(join(projectRoot, dir), { withFileTypes: true });
+    } catch (error) {
+      log.debug('Skipping unreadable directory', {
+        dir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!ignoreMatcher.isIgnored(relativePath, true)) {
+          pending.push(relativePath);
+        }
+        continue;
+      }
+
+      if (!entry.isFile() || ignoreMatcher.isIgnored(relativePath)) continue;
+
+      let size: number;
+      try {
+        ({ size } = await stat(join(projectRoot, relativePath)));
+      } catch {
+        continue; // Deleted or renamed mid-scan — the watcher will report it
+      }
+      if (size > MAX_SYNC_FILE_SIZE) {
+        log.debug('Skipping large file', { relativePath, size });
+        continue;
+      }
+
+      files.push({ relativePath, size });
+    }
+  }
+
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
@@ -23,7 +23,9 @@ import { createLogger } from '../utils/logger.js';
 import type {
   BridgeSession,
   BridgeLocalConfig,
+  ConflictRecord,
   ExportFramework,
+  FileChunk,
   SyncDirection,
 } from './types.js';
 import { DEFAULT_IGNORE_PATTERNS } from './types.js';
@@ -299,6 +301,17 @@ export async function upsertFileSyncRecord(
   }
 }
 
+/**
+ * Get a single file sync record, or null if it doesn't exist yet.
+ */
+export async function getFileSyncRecord(
+  sessionId: string,
+  fileId: string
+): Promise<Record<string, unknown> | null> {
+  const userId = getUserId();
+  return getDocument(filesCollection(userId, sessionId), fileId);
+}
+
 /**
  * List all file sync records for a session.
  */
@@ -322,6 +335,131 @@ export async function queryPendingRemoteFiles(
   ]);
 }
 
+// ============================================================================
+// FILE CHUNK OPERATIONS
+// ============================================================================
+
+function chunksCollection(userId: string, sessionId: string, fileId: string): string {
+  return `${filesCollection(userId, sessionId)}/${fileId}/chunks`;
+}
+
+/**
+ * Write a file chunk. Chunks are content-addressed, so an existing chunk
+ * with the same ID already holds identical bytes and is left as-is.
+ */
+export async function writeFileChunk(
+  sessionId: string,
+  fileId: string,
+  chunk: FileChunk
+): Promise<void> {
+  const userId = getUserId();
+  try {
+    await createDocument(
+      chunksCollection(userId, sessionId, fileId),
+      chunk.id,
+      chunk as unknown as Record<string, unknown>
+    );
+  } catch (error) {
+    if (!isAlreadyExists(error)) throw error;
+  }
+}
+
+/**
+ * Read a single file chunk, or null if it doesn't exist.
+ */
+export async function getFileChunk(
+  sessionId: string,
+  fileId: string,
+  chunkId: string
+): Promise<FileChunk | null> {
+  const userId = getUserId();
+  const doc = await getDocument(chunksCollection(userId, sessionId, fileId), chunkId);
+  return doc as unknown as FileChunk | null;
+}
+
+/**
+ * Delete a file chunk (missing chunks are ignored).
+ */
+export async function deleteFileChunk(
+  sessionId: string,
+  fileId: string,
+  chunkId: string
+): Promise<void> {
+  const userId = getUserId();
+  try {
+    await deleteDocument(chunksCollection(userId, sessionId, fileId), chunkId);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+}
+
+// ============================================================================
+// CONFLICT RECORD OPERATIONS
+// ============================================================================
+
+function conflictsCollection(userId: string, sessionId: string): string {
+  return `users/${userId}/bridgeSessions/${sessionId}/conflicts`;
+}
+
+/**
+ * Create a conflict record. Returns the generated conflict ID.
+ */
+export async function createConflictRecord(
+  sessionId: string,
+  conflict: Omit<ConflictRecord, 'id'>
+): Promise<string> {
+  const userId = getUserId();
+  const conflictId = randomUUID();
+  await createDocument(
+    conflictsCollection(userId, sessionId),
+    conflictId,
+    conflict as unknown as Record<string, unknown>
+  );
+  log.info('Conflict recorded', { conflictId, path: conflict.relativePath });
+  return conflictId;
+}
+
+/**
+ * Get a conflict record, or null if it doesn't exist.
+ */
+export async function getConflictRecord(
+  sessionId: string,
+  conflictId: string
+): Promise<ConflictRecord | null> {
+  const userId = getUserId();
+  const doc = await getDocument(conflictsCollection(userId, sessionId), conflictId);
+  return doc as unknown as ConflictRecord | null;
+}
+
+/**
+ * Query unresolved conflicts for a session.
+ */
+export async function queryPendingConflicts(
+  sessionId: string
+): Promise<ConflictRecord[]> {
+  const userId = getUserId();
+  const docs = await runQuery(conflictsCollection(userId, sessionId), [
+    { field: 'status', op: 'EQUAL', value: 'pending' },
+  ]);
+  return docs as unknown as ConflictRecord[];
+}
+
+/**
+ * Update a conflict record.
+ */
+export async function updateConflictRecord(
+  sessionId: string,
+  conflictId: string,
+  data: Partial<ConflictRecord>
+): Promise<void> {
+  const userId = getUserId();
+  await updateDocument(
+    conflictsCollection(userId, sessionId),
+    conflictId,
+    data as Record<string, unknown>
+  );
+}
+
 // ============================================================================
 // BUILD RECORD OPERATIONS
 // ============================================================================
@@ -342,6 +480,17 @@ export async function queryPendingBuilds(
   ]);
 }
 
+/**
+ * Get a single build record.
+ */
+export async function getBuildRecord(
+  sessionId: string,
+  buildId: string
+): Promise<Record<string, unknown> | null> {
+  const userId = getUserId();
+  return getDocument(buildsCollection(userId, sessionId), buildId);
+}
+
 /**
  * Update a build record.
  */
@@ -372,6 +521,30 @@ export async function writeBuildOutputChunk(
   await createDocument(collection, chunkId, data);
 }
 
+function artifactsCollection(userId: string, sessionId: string): string {
+  return `${sessionPath(userId, sessionId)}/artifacts`;
+}
+
+/**
+ * Write an artifact chunk. Like file chunks these are content-addressed and
+ * shared across builds, so unchanged files are only uploaded once.
+ */
+export async function writeArtifactChunk(
+  sessionId: string,
+  chunk: FileChunk
+): Promise<void> {
+  const userId = getUserId();
+  try {
+    await createDocument(
+      artifactsCollection(userId, sessionId),
+      chunk.id,
+      chunk as unknown as Record<string, unknown>
+    );
+  } catch (error) {
+    if (!isAlreadyExists(error)) throw error;
+  }
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -383,3 +556,11 @@ function isNotFound(error: unknown): boolean {
     (error as { code: string }).code === 'NOT_FOUND'
   );
 }
+
+function isAlreadyExists(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    'statusCode' in error &&
+    (error as { statusCode?: number }).statusCode === 409
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * MyndHyve CLI — Bridge Sync Plan and Diff
+ *
+ * Read-only views of what a sync would do. `planSync` classifies every
+ * tracked file the same way `manualSync` and the pull side of sync.ts
+ * would act on it — push, pull, merge, conflict, or nothing — without
+ * writing to disk or Firestore. `diffFiles` renders unified diffs between
+ * the working tree and the remote snapshot of each file.
+ *
+ * The remote snapshot is the pending remote content when there is one
+ * (also kept on records in conflict), otherwise the version stored in the
+ * merge base store under the record's remoteHash.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { hashFile } from './hasher.js';
+import { listFileSyncRecords } from './session.js';
+import { readBaseContent } from './base-store.js';
+import { isTextContent, mergeThreeWay, unifiedDiff } from './merge.js';
+import { readTransferContent } from './transfer.js';
+import type { BridgeLocalConfig, FileSyncStatus } from './types.js';
+
+export type SyncDirectionOption = 'push' | 'pull' | 'bidirectional';
+
+/** What a sync would do with a file */
+export type SyncPlanAction = 'push' | 'pull' | 'merge' | 'conflict' | 'none';
+
+export interface SyncPlanEntry {
+  fileId: string;
+  relativePath: string;
+  syncStatus: FileSyncStatus;
+  action: SyncPlanAction;
+  /** Human-readable explanation of the action */
+  reason: string;
+  /** Hash of the working-tree file, or null if it doesn't exist */
+  localHash: string | null;
+  baseHash: string;
+  remoteHash: string;
+}
+
+export interface SyncPlan {
+  direction: SyncDirectionOption;
+  entries: SyncPlanEntry[];
+  /** Count of entries per action */
+  counts: Record<SyncPlanAction, number>;
+}
+
+export interface FileDiff {
+  relativePath: string;
+  action: SyncPlanAction;
+  /** Unified diff from local to remote; '' when identical, null when not renderable */
+  diff: string | null;
+  /** Why `diff` is null */
+  note?: string;
+}
+
+// ============================================================================
+// PLAN
+// ============================================================================
+
+/**
+ * Work out what `bridge sync` would do with every tracked file.
+ */
+export async function planSync(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  direction: SyncDirectionOption = 'bidirectional'
+): Promise<SyncPlan> {
+  const records = await listFileSyncRecords(config.sessionId);
+  return planRecords(projectRoot, config.sessionId, records, direction);
+}
+
+async function planRecords(
+  projectRoot: string,
+  sessionId: string,
+  records: Record<string, unknown>[],
+  direction: SyncDirectionOption
+): Promise<SyncPlan> {
+  const entries: SyncPlanEntry[] = [];
+  for (const record of records) {
+    if (!record.relativePath) continue;
+    entries.push(await planFile(projectRoot, sessionId, record, direction));
+  }
+
+  entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+  const counts: Record<SyncPlanAction, number> = { push: 0, pull: 0, merge: 0, conflict: 0, none: 0 };
+  for (const entry of entries) counts[entry.action]++;
+
+  return { direction, entries, counts };
+}
+
+async function planFile(
+  projectRoot: string,
+  sessionId: string,
+  record: Record<string, unknown>,
+  direction: SyncDirectionOption
+): Promise<SyncPlanEntry> {
+  const relativePath = record.relativePath as string;
+  const baseHash = (record.baseHash as string) || '';
+  const remoteHash = (record.remoteHash as string) || '';
+  const localHash = await hashFile(join(projectRoot, relativePath));
+
+  const entry = (action: SyncPlanAction, reason: string): SyncPlanEntry => ({
+    fileId: record.id as string,
+    relativePath,
+    syncStatus: record.syncStatus as FileSyncStatus,
+    action,
+    reason,
+    localHash,
+    baseHash,
+    remoteHash,
+  });
+
+  if (record.syncStatus === 'conflict') {
+    return entry('conflict', `unresolved conflict ${(record.conflictId as string) || ''}`.trim());
+  }
+
+  if (record.pendingSource === 'remote') {
+    if (direction === 'push') return entry('none', 'remote change pending (pull to apply)');
+    if (localHash === remoteHash) return entry('none', 'local already matches remote');
+    if (localHash === null) return entry('pull', 'new from MyndHyve');
+    if (localHash === baseHash) return entry('pull', 'remote changed, local unchanged');
+
+    // Both sides changed: predict the three-way merge
+    const remoteContent = await readTransferContent(sessionId, record);
+    if (!remoteContent) return entry('none', 'remote content not uploaded yet');
+    const localContent = await readFile(join(projectRoot, relativePath));
+    const baseContent = await readBaseContent(projectRoot, baseHash);
+
+    if (
+      baseContent === null ||
+      !isTextContent(baseContent) ||
+      !isTextContent(localContent) ||
+      !isTextContent(remoteContent)
+    ) {
+      return entry('conflict', baseContent === null ? 'both changed, no merge base' : 'both changed, binary');
+    }
+
+    const merge = mergeThreeWay(
+      baseContent.toString('utf-8'),
+      localContent.toString('utf-8'),
+      remoteContent.toString('utf-8')
+    );
+    return merge.clean
+      ? entry('merge', 'both changed, merges cleanly')
+      : entry('conflict', `both changed, ${merge.conflicts.length} overlapping hunk(s)`);
+  }
+
+  // Push side, mirroring manualSync: only changes the watcher has recorded
+  if ((record.localHash as string) !== baseHash && localHash && localHash !== baseHash) {
+    return direction === 'pull'
+      ? entry('none', 'local change pending (push to send)')
+      : entry('push', 'local changes');
+  }
+
+  if (localHash === null) return entry('none', 'missing locally');
+  if (localHash !== baseHash) return entry('none', 'local edit not recorded yet (picked up when the bridge starts)');
+  if (record.pendingSource === 'local') return entry('none', 'waiting for MyndHyve to acknowledge');
+  return entry('none', 'in sync');
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Diff working-tree files against their remote snapshots. Files whose local
+ * content matches the remote snapshot are left out.
+ *
+ * @param paths - Only these relative paths (default: every tracked file)
+ */
+export async function diffFiles(
+  projectRoot: string,
+  config: BridgeLocalConfig,
+  paths?: string[]
+): Promise<FileDiff[]> {
+  const wanted = paths ? new Set(paths.map((p) => p.replace(/\\/g, '/').replace(/^\.\//, ''))) : null;
+  const records = (await listFileSyncRecords(config.sessionId)).filter(
+    (r) => !wanted || wanted.has(r.relativePath as string)
+  );
+  const byId = new Map(records.map((r) => [r.id as string, r]));
+  const plan = await planRecords(projectRoot, config.sessionId, records, 'bidirectional');
+  const diffs: FileDiff[] = [];
+
+  for (const entry of plan.entries) {
+    const record = byId.get(entry.fileId);
+    if (!record) continue;
+
+    const remote = await readRemoteSnapshot(projectRoot, config.sessionId, record);
+    if (entry.localHash === remote.hash || (entry.localHash === null && !remote.hash)) continue;
+
+    const base = { relativePath: entry.relativePath, action: entry.action };
+    if (!remote.content) {
+      diffs.push({ ...base, diff: null, note: 'remote content not available locally' });
+      continue;
+    }
+
+    const local = entry.localHash === null ? Buffer.alloc(0) : await readFile(join(projectRoot, entry.relativePath));
+    if (!isTextContent(local) || !isTextContent(remote.content)) {
+      diffs.push({ ...base, diff: null, note: 'binary files differ' });
+      continue;
+    }
+
+    diffs.push({
+      ...base,
+      diff: unifiedDiff(local.toString('utf-8'), remote.content.toString('utf-8'), {
+        fromLabel: entry.localHash === null ? '/dev/null' : `local/${entry.relativePath}`,
+        toLabel: remote.hash ? `remote/${entry.relativePath}` : '/dev/null',
+      }),
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * The remote version of a file. An empty hash means the file doesn't exist
+ * remotely yet (empty content); null content means it isn't available here.
+ */
+async function readRemoteSnapshot(
+  projectRoot: string,
+  sessionId: string,
+  record: Record<string, unknown>
+): Promise<{ hash: string; content: Buffer | null }> {
+  const remoteHash = (record.remoteHash as string) || '';
+
+  if (record.pendingSource === 'remote' || record.syncStatus === 'conflict') {
+    const pending = await readTransferContent(sessionId, record);
+    if (pending) return { hash: remoteHash, content: pending };
+  }
+
+  const hash = remoteHash || (record.baseHash as string) || '';
+  if (!hash) return { hash, content: Buffer.alloc(0) };
+  return { hash, content: await readBaseContent(projectRoot, hash) };
+}
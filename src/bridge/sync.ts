@@ -4,10 +4,16 @@
  * Handles bidirectional file sync between local filesystem and Firestore.
  *
  * Push (local → remote): File watcher detects change → compute hash →
- *   write pendingContent + localHash to FileSyncRecord.
+ *   write pendingContent (or chunks, see transfer.ts) + localHash to FileSyncRecord.
  *
  * Pull (remote → local): Poll Firestore for pendingSource === 'remote' →
  *   write content to local file → clear pending → set synced.
+ *
+ * When the local file has also diverged from baseHash, the pull attempts a
+ * line-based three-way merge (see merge.ts). Overlapping hunks, binary files,
+ * or a missing merge base produce a ConflictRecord instead of an overwrite.
+ * Every local version a pull replaces is snapshotted first (see history.ts).
+ * In git mode, pulls are committed to a branch instead (see git-mode.ts).
  */
 
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
@@ -16,13 +22,28 @@ import { createLogger } from '../utils/logger.js';
 import { hashContent, hashFile, fileIdFromPath } from './hasher.js';
 import {
   upsertFileSyncRecord,
+  getFileSyncRecord,
   queryPendingRemoteFiles,
   listFileSyncRecords,
+  createConflictRecord,
+  readLocalConfig,
 } from './session.js';
+import { saveBaseContent, readBaseContent } from './base-store.js';
+import { snapshotFile } from './history.js';
+import { pullRemoteChangesToBranch, pushCommittedChanges } from './git-mode.js';
+import { createIgnoreMatcher } from './ignore.js';
+import { mergeThreeWay, isTextContent } from './merge.js';
+import {
+  prepareTransfer,
+  readTransferContent,
+  releaseSupersededTransfer,
+  releaseTransfer,
+} from './transfer.js';
+import { createEntityMapper } from './entity-mapping.js';
 import type { FileChangeEvent } from './watcher.js';
 import type { FileWatcher } from './watcher.js';
 import type { BridgeLocalConfig, FileSyncRecord, FileSyncStatus } from './types.js';
-import { MIME_TYPES, POLL_INTERVAL_MS } from './types.js';
+import { MIME_TYPES, POLL_INTERVAL_MS, MAX_INLINE_FILE_SIZE } from './types.js';
 
 const log = createLogger('BridgeSync');
 
@@ -33,14 +54,29 @@ const log = createLogger('BridgeSync');
 /**
  * Handle a local file change event from the watcher.
  * Computes the hash, reads the content, and pushes to Firestore.
+ * `committedContent` pushes that content instead of the working-tree file
+ * (git mode pushes what was committed, not what is on disk).
  */
 export async function pushLocalChange(
   sessionId: string,
   projectRoot: string,
-  event: FileChangeEvent
+  event: FileChangeEvent,
+  committedContent?: Buffer
 ): Promise<void> {
   const fileId = fileIdFromPath(event.relativePath);
 
+  // Don't clobber a pending remote change or an unresolved conflict —
+  // record the new local hash and let the pull side reconcile.
+  const existing = await getFileSyncRecord(sessionId, fileId);
+  if (existing && (existing.pendingSource === 'remote' || existing.syncStatus === 'conflict')) {
+    log.info('Local change deferred: remote change pending', { path: event.relativePath });
+    await upsertFileSyncRecord(sessionId, fileId, {
+      localHash: event.hash ?? '',
+      localModifiedAt: new Date().toISOString(),
+    });
+    return;
+  }
+
   if (event.changeType === 'deleted') {
     log.info('File deleted locally', { path: event.relativePath });
     await upsertFileSyncRecord(sessionId, fileId, {
@@ -49,23 +85,27 @@ export async function pushLocalChange(
       syncStatus: 'deleted' satisfies FileSyncStatus,
       localModifiedAt: new Date().toISOString(),
       pendingContent: null,
+      transferMode: 'inline',
+      chunkCount: null,
       pendingSource: 'local',
     });
+    await releaseSupersededTransfer(sessionId, existing, null);
     return;
   }
 
   // Read file content
-  const absolutePath = join(projectRoot, event.relativePath);
   let content: Buffer;
   try {
-    content = await readFile(absolutePath);
+    content = committedContent ?? (await readFile(join(projectRoot, event.relativePath)));
   } catch {
     log.warn('Could not read file for push', { path: event.relativePath });
     return;
   }
 
   const hash = hashContent(content);
-  const base64Content = content.toString('base64');
+
+  // Keep the pushed version around — it becomes the merge base once acknowledged
+  await saveBaseContent(projectRoot, content);
 
   log.debug('Pushing local change', {
     path: event.relativePath,
@@ -73,79 +113,71 @@ export async function pushLocalChange(
     size: content.length,
   });
 
+  const transfer = await prepareTransfer(sessionId, fileId, content);
+  const mimeType = event.mimeType || MIME_TYPES[extname(event.relativePath).toLowerCase()] || 'application/octet-stream';
+  const entity = createEntityMapper(await readLocalConfig(projectRoot)).map(event.relativePath, mimeType, fileId);
+
   await upsertFileSyncRecord(sessionId, fileId, {
     relativePath: event.relativePath,
-    entityType: inferEntityType(event.relativePath),
-    entityId: fileId, // Default — web app can update this with real entity mapping
+    ...entity,
     localHash: hash,
     localModifiedAt: new Date().toISOString(),
-    pendingContent: base64Content,
+    ...transfer,
     pendingSource: 'local',
     syncStatus: 'modified-local' satisfies FileSyncStatus,
     fileSize: content.length,
-    mimeType: event.mimeType || MIME_TYPES[extname(event.relativePath).toLowerCase()] || 'application/octet-stream',
+    mimeType,
   });
+  await releaseSupersededTransfer(sessionId, existing, transfer);
 }
 
 // ============================================================================
 // PULL: Firestore → Local file
 // ============================================================================
 
+export interface PullResult {
+  /** Files written to disk (fast-forward or clean merge) */
+  filesWritten: number;
+  /** Files where local and remote edits overlapped */
+  conflicts: number;
+}
+
+type RemoteChangeOutcome = 'written' | 'merged' | 'unchanged' | 'conflict';
+
 /**
  * Poll Firestore for remote changes and write them to local files.
- * Returns the number of files written.
+ * Returns how many files were written and how many ended in conflict.
  */
 export async function pullRemoteChanges(
   sessionId: string,
   projectRoot: string,
   watcher?: FileWatcher
-): Promise<number> {
+): Promise<PullResult> {
+  const result: PullResult = { filesWritten: 0, conflicts: 0 };
+
   const pendingFiles = await queryPendingRemoteFiles(sessionId);
-  if (pendingFiles.length === 0) return 0;
+  if (pendingFiles.length === 0) return result;
 
-  let written = 0;
+  const git = (await readLocalConfig(projectRoot))?.git;
+  if (git?.enabled) {
+    return pullRemoteChangesToBranch(sessionId, projectRoot, git, pendingFiles);
+  }
 
   for (const record of pendingFiles) {
     const relativePath = record.relativePath as string;
-    const pendingContent = record.pendingContent as string | null;
-    const remoteHash = record.remoteHash as string;
-    const fileId = record.id as string;
-
-    if (!pendingContent || !relativePath) continue;
-
-    // Decode base64 content
-    const content = Buffer.from(pendingContent, 'base64');
-    const absolutePath = join(projectRoot, relativePath);
+    if (!relativePath) continue;
 
     try {
-      // Ensure directory exists
-      await mkdir(dirname(absolutePath), { recursive: true });
+      const remoteContent = await readTransferContent(sessionId, record);
+      if (!remoteContent) continue;
 
-      // Suppress echo: tell the watcher to ignore this write
-      if (watcher) {
-        watcher.setKnownHash(relativePath, remoteHash);
-      }
-
-      // Write file
-      await writeFile(absolutePath, content);
-
-      log.info('Pulled remote change', {
-        path: relativePath,
-        hash: remoteHash.slice(0, 12),
-        size: content.length,
-      });
+      const outcome = await applyRemoteChange(sessionId, projectRoot, record, remoteContent, watcher);
 
-      // Update Firestore: mark as synced
-      await upsertFileSyncRecord(sessionId, fileId, {
-        baseHash: remoteHash,
-        localHash: remoteHash,
-        syncStatus: 'synced' satisfies FileSyncStatus,
-        lastSyncedAt: new Date().toISOString(),
-        pendingContent: null,
-        pendingSource: null,
-      });
-
-      written++;
+      if (outcome === 'conflict') {
+        result.conflicts++;
+      } else if (outcome !== 'unchanged') {
+        result.filesWritten++;
+      }
     } catch (error) {
       log.error('Failed to write remote file', {
         path: relativePath,
@@ -154,7 +186,136 @@ export async function pullRemoteChanges(
     }
   }
 
-  return written;
+  return result;
+}
+
+/**
+ * Apply one remote change to the working tree.
+ *
+ * - Local matches remote → mark synced.
+ * - Local unchanged since base (or missing) → fast-forward to remote.
+ * - Both sides diverged → three-way merge; push the merged result back,
+ *   or record a conflict when hunks overlap.
+ */
+async function applyRemoteChange(
+  sessionId: string,
+  projectRoot: string,
+  record: Record<string, unknown>,
+  remoteContent: Buffer,
+  watcher?: FileWatcher
+): Promise<RemoteChangeOutcome> {
+  const fileId = record.id as string;
+  const relativePath = record.relativePath as string;
+  const baseHash = (record.baseHash as string) || '';
+  const remoteHash = (record.remoteHash as string) || hashContent(remoteContent);
+  const absolutePath = join(projectRoot, relativePath);
+  const now = new Date().toISOString();
+
+  const localHash = await hashFile(absolutePath);
+
+  if (localHash === remoteHash) {
+    await saveBaseContent(projectRoot, remoteContent);
+    await markSynced(sessionId, fileId, remoteHash);
+    await releaseTransfer(sessionId, record);
+    return 'unchanged';
+  }
+
+  if (localHash === null || localHash === baseHash) {
+    await snapshotFile(projectRoot, relativePath, 'pull');
+    await writeLocalFile(absolutePath, relativePath, remoteContent, remoteHash, watcher);
+    await saveBaseContent(projectRoot, remoteContent);
+    await markSynced(sessionId, fileId, remoteHash);
+    await releaseTransfer(sessionId, record);
+
+    log.info('Pulled remote change', {
+      path: relativePath,
+      hash: remoteHash.slice(0, 12),
+      size: remoteContent.length,
+    });
+    return 'written';
+  }
+
+  // Both sides changed since the last sync
+  const localContent = await readFile(absolutePath);
+  const baseContent = await readBaseContent(projectRoot, baseHash);
+
+  const mergeable =
+    baseContent !== null &&
+    isTextContent(baseContent) &&
+    isTextContent(localContent) &&
+    isTextContent(remoteContent);
+
+  const merge = mergeable
+    ? mergeThreeWay(
+        baseContent.toString('utf-8'),
+        localContent.toString('utf-8'),
+        remoteContent.toString('utf-8')
+      )
+    : null;
+
+  if (merge?.clean) {
+    const mergedContent = Buffer.from(merge.merged, 'utf-8');
+    const mergedHash = hashContent(mergedContent);
+
+    await snapshotFile(projectRoot, relativePath, 'merge');
+    await writeLocalFile(absolutePath, relativePath, mergedContent, mergedHash, watcher);
+    await saveBaseContent(projectRoot, remoteContent);
+    await saveBaseContent(projectRoot, mergedContent);
+
+    // Remote is now the common ancestor; the merge result goes back up
+    await releaseTransfer(sessionId, record);
+    const transfer = await prepareTransfer(sessionId, fileId, mergedContent);
+    await upsertFileSyncRecord(sessionId, fileId, {
+      baseHash: remoteHash,
+      localHash: mergedHash,
+      syncStatus: 'modified-local' satisfies FileSyncStatus,
+      lastSyncedAt: now,
+      localModifiedAt: now,
+      ...transfer,
+      pendingSource: 'local',
+      fileSize: mergedContent.length,
+    });
+
+    log.info('Merged remote change', {
+      path: relativePath,
+      hash: mergedHash.slice(0, 12),
+    });
+    return 'merged';
+  }
+
+  const conflictId = await createConflictRecord(sessionId, {
+    fileId,
+    relativePath,
+    baseContent: baseContent ? conflictText(baseContent) : '',
+    localContent: conflictText(localContent),
+    remoteContent: conflictText(remoteContent),
+    baseHash,
+    localHash,
+    remoteHash,
+    conflictType: 'content',
+    status: 'pending',
+    resolution: null,
+    resolvedContent: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    detectedAt: now,
+  });
+
+  // Leave pending content (inline or chunked) in place — it holds the exact
+  // remote bytes — but stop polling this record until the conflict is resolved.
+  await upsertFileSyncRecord(sessionId, fileId, {
+    localHash,
+    syncStatus: 'conflict' satisfies FileSyncStatus,
+    conflictId,
+    pendingSource: null,
+  });
+
+  log.warn('Sync conflict detected', {
+    path: relativePath,
+    conflictId,
+    reason: merge ? `${merge.conflicts.length} overlapping hunk(s)` : 'not mergeable',
+  });
+  return 'conflict';
 }
 
 // ============================================================================
@@ -175,13 +336,25 @@ export async function manualSync(
   direction: 'push' | 'pull' | 'bidirectional'
 ): Promise<ManualSyncResult> {
   let filesChanged = 0;
-  const conflicts = 0;
+  let conflicts = 0;
 
   if (direction === 'pull' || direction === 'bidirectional') {
-    filesChanged += await pullRemoteChanges(config.sessionId, projectRoot);
+    const pulled = await pullRemoteChanges(config.sessionId, projectRoot);
+    filesChanged += pulled.filesWritten;
+    conflicts += pulled.conflicts;
   }
 
-  if (direction === 'push' || direction === 'bidirectional') {
+  if ((direction === 'push' || direction === 'bidirectional') && config.git?.enabled) {
+    // Git mode pushes what has been committed, not the working tree
+    const pushed = await pushCommittedChanges({
+      sessionId: config.sessionId,
+      projectRoot,
+      git: config.git,
+      ignoreMatcher: await createIgnoreMatcher(projectRoot),
+      push: (event, content) => pushLocalChange(config.sessionId, projectRoot, event, content ?? undefined),
+    });
+    filesChanged += pushed.pushed;
+  } else if (direction === 'push' || direction === 'bidirectional') {
     // For push, scan all tracked files and push any that are modified-local
     const records = await listFileSyncRecords(config.sessionId);
     for (const record of records) {
@@ -191,18 +364,24 @@ export async function manualSync(
 
       if (!relativePath || localHash === baseHash) continue;
 
+      // Pending remote changes and open conflicts are reconciled by the pull side
+      if (record.pendingSource === 'remote' || record.syncStatus === 'conflict') continue;
+
       // Re-read and push
       const absolutePath = join(projectRoot, relativePath);
       const currentHash = await hashFile(absolutePath);
       if (currentHash && currentHash !== baseHash) {
         const content = await readFile(absolutePath);
+        await saveBaseContent(projectRoot, content);
+        const transfer = await prepareTransfer(config.sessionId, record.id as string, content);
         await upsertFileSyncRecord(config.sessionId, record.id as string, {
           localHash: currentHash,
           localModifiedAt: new Date().toISOString(),
-          pendingContent: content.toString('base64'),
+          ...transfer,
           pendingSource: 'local',
           syncStatus: 'modified-local',
         });
+        await releaseSupersededTransfer(config.sessionId, record, transfer);
         filesChanged++;
       }
     }
@@ -216,23 +395,44 @@ export async function manualSync(
 // ============================================================================
 
 /**
- * Infer entity type from file path.
+ * Write content pulled from remote, suppressing the watcher echo.
+ */
+async function writeLocalFile(
+  absolutePath: string,
+  relativePath: string,
+  content: Buffer,
+  hash: string,
+  watcher?: FileWatcher
+): Promise<void> {
+  await mkdir(dirname(absolutePath), { recursive: true });
+
+  // Suppress echo: tell the watcher to ignore this write
+  if (watcher) {
+    watcher.setKnownHash(relativePath, hash);
+  }
+
+  await writeFile(absolutePath, content);
+}
+
+/**
+ * Mark a file as synced at the given hash and clear pending content.
+ */
+async function markSynced(sessionId: string, fileId: string, hash: string): Promise<void> {
+  await upsertFileSyncRecord(sessionId, fileId, {
+    baseHash: hash,
+    localHash: hash,
+    syncStatus: 'synced' satisfies FileSyncStatus,
+    lastSyncedAt: new Date().toISOString(),
+    pendingContent: null,
+    pendingSource: null,
+  });
+}
+
+/**
+ * Conflict records hold text for side-by-side display. Binary or oversized
+ * content is left out; the exact bytes stay on the FileSyncRecord.
  */
-function inferEntityType(relativePath: string): string {
-  const lower = relativePath.toLowerCase();
-
-  if (lower.includes('/pages/') || lower.includes('/screens/') || lower.includes('/views/'))
-    return 'screen';
-  if (lower.includes('/components/'))
-    return 'component';
-  if (lower.includes('/models/') || lower.includes('/types/') || lower.includes('/schemas/'))
-    return 'dataModel';
-  if (lower.includes('/api/') || lower.includes('/services/'))
-    return 'apiSpec';
-  if (lower.includes('theme') || lower.includes('tailwind.config') || lower.includes('styles'))
-    return 'theme';
-  if (lower.endsWith('.json') || lower.endsWith('.yaml') || lower.endsWith('.yml'))
-    return 'config';
-
-  return 'component'; // Default
+function conflictText(content: Buffer): string {
+  if (content.length > MAX_INLINE_FILE_SIZE || !isTextContent(content)) return '';
+  return content.toString('utf-8');
 }
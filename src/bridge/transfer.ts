@@ -0,0 +1,190 @@
+/**
+ * MyndHyve CLI — Bridge Content Transfer
+ *
+ * Encodes file content for a FileSyncRecord and decodes it on the other side.
+ *
+ * Small files travel inline as base64 `pendingContent`. Anything larger than
+ * MAX_INLINE_FILE_SIZE is split into TRANSFER_CHUNK_SIZE slices written to
+ * the record's `chunks` subcollection, keyed by the SHA-256 of the whole
+ * content. Chunks are uploaded before the record is updated, so a receiver
+ * never sees a record pointing at a partial chunk set.
+ */
+
+import { createLogger } from '../utils/logger.js';
+import { hashContent } from './hasher.js';
+import { writeFileChunk, getFileChunk, deleteFileChunk } from './session.js';
+import type { FileChunk, FileTransferMode } from './types.js';
+import { MAX_INLINE_FILE_SIZE, TRANSFER_CHUNK_SIZE } from './types.js';
+
+const log = createLogger('BridgeTransfer');
+
+/** FileSyncRecord fields that describe pending content. */
+export interface TransferFields {
+  pendingContent: string | null;
+  transferMode: FileTransferMode;
+  contentHash: string;
+  chunkCount: number | null;
+}
+
+// ============================================================================
+// ENCODE
+// ============================================================================
+
+/**
+ * Prepare content for transfer, uploading chunks if it is too large to
+ * carry inline. Returns the fields to merge into the FileSyncRecord.
+ */
+export async function prepareTransfer(
+  sessionId: string,
+  fileId: string,
+  content: Buffer
+): Promise<TransferFields> {
+  const contentHash = hashContent(content);
+
+  if (content.length <= MAX_INLINE_FILE_SIZE) {
+    return {
+      pendingContent: content.toString('base64'),
+      transferMode: 'inline',
+      contentHash,
+      chunkCount: null,
+    };
+  }
+
+  const chunkCount = Math.ceil(content.length / TRANSFER_CHUNK_SIZE);
+
+  log.debug('Uploading chunked content', {
+    fileId,
+    hash: contentHash.slice(0, 12),
+    size: content.length,
+    chunks: chunkCount,
+  });
+
+  for (const chunk of splitIntoChunks(content, contentHash)) {
+    await writeFileChunk(sessionId, fileId, chunk);
+  }
+
+  return {
+    pendingContent: null,
+    transferMode: 'chunked',
+    contentHash,
+    chunkCount,
+  };
+}
+
+/**
+ * Split content into content-addressed TRANSFER_CHUNK_SIZE chunks.
+ * Empty content yields a single empty chunk.
+ */
+export function splitIntoChunks(content: Buffer, contentHash = hashContent(content)): FileChunk[] {
+  const chunkCount = Math.max(1, Math.ceil(content.length / TRANSFER_CHUNK_SIZE));
+  const chunks: FileChunk[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const slice = content.subarray(index * TRANSFER_CHUNK_SIZE, (index + 1) * TRANSFER_CHUNK_SIZE);
+    chunks.push({
+      id: chunkId(contentHash, index),
+      contentHash,
+      index,
+      totalChunks: chunkCount,
+      data: slice.toString('base64'),
+      size: slice.length,
+    });
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// DECODE
+// ============================================================================
+
+/**
+ * Read the pending content of a FileSyncRecord, reassembling chunks when
+ * needed. Returns null if the record carries no pending content.
+ * Throws if chunks are missing or the reassembled hash doesn't match.
+ */
+export async function readTransferContent(
+  sessionId: string,
+  record: Record<string, unknown>
+): Promise<Buffer | null> {
+  if (record.transferMode !== 'chunked') {
+    const pendingContent = record.pendingContent as string | null;
+    return pendingContent ? Buffer.from(pendingContent, 'base64') : null;
+  }
+
+  const fileId = record.id as string;
+  const contentHash = record.contentHash as string;
+  const chunkCount = record.chunkCount as number;
+
+  if (!contentHash || !chunkCount) return null;
+
+  const parts: Buffer[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = await getFileChunk(sessionId, fileId, chunkId(contentHash, index));
+    if (!chunk) {
+      throw new Error(`Missing chunk ${index + 1}/${chunkCount} for ${record.relativePath as string}`);
+    }
+    parts.push(Buffer.from(chunk.data, 'base64'));
+  }
+
+  const content = Buffer.concat(parts);
+  const actualHash = hashContent(content);
+  if (actualHash !== contentHash) {
+    throw new Error(
+      `Chunked content hash mismatch for ${record.relativePath as string} ` +
+      `(expected ${contentHash.slice(0, 12)}, got ${actualHash.slice(0, 12)})`
+    );
+  }
+
+  return content;
+}
+
+/**
+ * Delete the chunks of an acknowledged chunked transfer. Best effort —
+ * failures are logged, not thrown.
+ */
+export async function releaseTransfer(
+  sessionId: string,
+  record: Record<string, unknown>
+): Promise<void> {
+  if (record.transferMode !== 'chunked') return;
+
+  const fileId = record.id as string;
+  const contentHash = record.contentHash as string;
+  const chunkCount = (record.chunkCount as number) || 0;
+
+  try {
+    for (let index = 0; index < chunkCount; index++) {
+      await deleteFileChunk(sessionId, fileId, chunkId(contentHash, index));
+    }
+  } catch (error) {
+    log.debug('Failed to release chunks', {
+      fileId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Delete the chunks of an unacknowledged push that a newer push or a local
+ * deletion has just overwritten. The receiver only releases the version it
+ * acknowledges, so without this the superseded chunk set is never removed.
+ * Chunks shared with the new transfer (same content hash) are kept.
+ */
+export async function releaseSupersededTransfer(
+  sessionId: string,
+  previous: Record<string, unknown> | null,
+  next: Pick<TransferFields, 'contentHash'> | null
+): Promise<void> {
+  if (previous?.pendingSource !== 'local') return;
+  if (previous.contentHash === next?.contentHash) return;
+  await releaseTransfer(sessionId, previous);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function chunkId(contentHash: string, index: number): string {
+  return `${contentHash}-${String(index).padStart(4, '0')}`;
+}
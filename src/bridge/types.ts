@@ -96,6 +96,9 @@ export type FileSyncStatus =
   | 'new'
   | 'deleted';
 
+/** Inline base64 in the record, or split across the chunks subcollection */
+export type FileTransferMode = 'inline' | 'chunked';
+
 /** Per-file bidirectional sync state */
 export interface FileSyncRecord {
   /** Deterministic ID: SHA-256 of relativePath (first 16 hex chars) */
@@ -128,8 +131,15 @@ export interface FileSyncRecord {
    * Base64-encoded file content pending transfer.
    * Populated when one side has a change for the other.
    * Cleared after the receiving side acknowledges.
+   * Null for chunked transfers — content lives in the chunks subcollection.
    */
   pendingContent: string | null;
+  /** How pending content is carried (absent on records written by older clients) */
+  transferMode?: FileTransferMode;
+  /** SHA-256 of the pending content; keys the chunk documents */
+  contentHash?: string | null;
+  /** Number of chunk documents for a chunked transfer */
+  chunkCount?: number | null;
   /** Which side pushed the pending content */
   pendingSource: 'local' | 'remote' | null;
 
@@ -147,6 +157,27 @@ export interface FileSyncRecord {
   updatedAt: string;
 }
 
+// ============================================================================
+// FILE CHUNK (Firestore: .../files/{fileId}/chunks/{contentHash}-{index},
+//             build artifacts: .../bridgeSessions/{id}/artifacts/{contentHash}-{index})
+// ============================================================================
+
+/** One slice of a file too large to carry inline in its FileSyncRecord */
+export interface FileChunk {
+  /** `${contentHash}-${index}` (index zero-padded to 4 digits) */
+  id: string;
+  /** SHA-256 of the complete file content */
+  contentHash: string;
+  /** Zero-based position of this chunk */
+  index: number;
+  /** Total number of chunks for this content */
+  totalChunks: number;
+  /** Base64-encoded chunk bytes */
+  data: string;
+  /** Decoded chunk size in bytes */
+  size: number;
+}
+
 // ============================================================================
 // BUILD RECORD (Firestore: .../bridgeSessions/{id}/builds/{buildId})
 // ============================================================================
@@ -190,12 +221,25 @@ export interface BuildWarning {
 /** Build artifact */
 export interface BuildArtifact {
   name: string;
+  /** Path relative to the project root (forward slashes) */
   path: string;
   size: number;
   mimeType: string;
+  /** SHA-256 of the file content; uploaded content lives under artifacts/{hash}-{index} */
   hash: string;
 }
 
+/** A preview bundle uploaded after a successful build */
+export interface BuildPreview {
+  /** Bundle directory relative to the project root (e.g. 'dist') */
+  root: string;
+  /** Entry page relative to `root` (null if no HTML page was found) */
+  entry: string | null;
+  fileCount: number;
+  totalBytes: number;
+  uploadedAt: string;
+}
+
 /** A build request and its results */
 export interface BuildRecord {
   id: string;
@@ -226,8 +270,26 @@ export interface BuildRecord {
   /** Parsed warnings (max 50) */
   warnings: BuildWarning[];
 
-  /** Collected build artifacts */
+  /** Output globs to collect as artifacts (e.g. ['dist/**']); defaults per project */
+  artifactGlobs?: string[];
+  /** Collected build artifacts (successful builds only) */
   artifacts: BuildArtifact[];
+  /** More files matched than the build policy's maxArtifacts */
+  artifactsTruncated?: boolean;
+  /** Upload the artifacts as a preview bundle (defaults to true for 'preview' builds) */
+  uploadPreview?: boolean;
+  /** The uploaded preview bundle, if any */
+  preview?: BuildPreview | null;
+
+  /** Why the build policy refused to run the command (null if it ran) */
+  rejectionReason?: string | null;
+
+  /** 1-based position in the bridge's build queue while pending (null once started) */
+  queuePosition?: number | null;
+  /** Set by the web app or MCP to cancel a pending or running build */
+  cancelRequested?: boolean;
+  /** Per-build timeout; capped by the project build policy's maxDurationMs */
+  timeoutMs?: number | null;
 
   startedAt: string | null;
   completedAt: string | null;
@@ -351,6 +413,70 @@ export interface BridgeLocalConfig {
   userId: string;
   /** When the link was created */
   linkedAt: string;
+  /** How local files map to MyndHyve entities (defaults to the framework preset) */
+  entityMapping?: EntityMappingConfig;
+  /** Artifact globs for builds that don't declare their own (defaults to DEFAULT_ARTIFACT_GLOBS) */
+  artifactGlobs?: string[];
+  /** Design token export settings (see `bridge tokens export`) */
+  designTokens?: DesignTokensConfig;
+  /** Snapshots of local files the bridge overwrites (see `bridge history`) */
+  history?: HistoryRetention;
+  /** Stage remote changes as commits on a branch instead of the working tree (see `bridge git`) */
+  git?: GitModeConfig;
+}
+
+export interface GitModeConfig {
+  enabled: boolean;
+  /** Branch remote changes are committed to (default DEFAULT_GIT_REMOTE_BRANCH) */
+  branch?: string;
+}
+
+export interface HistoryRetention {
+  /** Keep snapshots at all (default true) */
+  enabled?: boolean;
+  /** Snapshots kept per file (default DEFAULT_HISTORY_MAX_VERSIONS) */
+  maxVersions?: number;
+  /** Snapshots older than this are dropped (default DEFAULT_HISTORY_MAX_AGE_DAYS) */
+  maxAgeDays?: number;
+}
+
+/** Code formats the project theme can be exported to */
+export type DesignTokenFormat = 'tailwind' | 'css' | 'scss' | 'ts' | 'flutter' | 'w3c';
+
+export const DESIGN_TOKEN_FORMATS: readonly DesignTokenFormat[] = ['tailwind', 'css', 'scss', 'ts', 'flutter', 'w3c'];
+
+export interface DesignTokensConfig {
+  /** Formats to generate (defaults to the framework's preset) */
+  formats?: DesignTokenFormat[];
+  /** Output directory relative to the project root */
+  outDir?: string;
+  /** Regenerate the files when the theme changes while the bridge runs */
+  sync?: boolean;
+}
+
+/**
+ * Maps files to MyndHyve entities. Rules are checked in order, then the
+ * preset for `preset` (or the session framework), then the built-in
+ * path heuristics.
+ */
+export interface EntityMappingConfig {
+  /** Preset to apply after custom rules; 'none' disables presets */
+  preset?: ExportFramework | 'none';
+  rules?: EntityMappingRule[];
+}
+
+export interface EntityMappingRule {
+  /** .gitignore-style glob matched against the relative path */
+  pattern: string;
+  /** Globs for paths the rule skips even when `pattern` matches */
+  exclude?: string[];
+  entityType: BridgeEntityType;
+  /**
+   * Entity ID template. Placeholders: {fileId} (default), {path}, {dir},
+   * {parent}, {name} (basename without extension), {module} ({name}, or
+   * the directory name for index files), {ext}.
+   */
+  entityId?: string;
 }
 
 // ============================================================================
@@ -369,20 +495,47 @@ export const WATCHER_DEBOUNCE_MS = 500;
 /** Firestore poll interval in milliseconds (for remote changes) */
 export const POLL_INTERVAL_MS = 3_000;
 
-/** Maximum file size for inline sync (larger files use Firebase Storage) */
-export const MAX_INLINE_FILE_SIZE = 900 * 1024; // 900KB
+/** Build request poll interval in milliseconds */
+export const BUILD_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Ceiling idle polling backs off to. Local activity and any poll that finds
+ * work return to the normal interval.
+ */
+export const IDLE_POLL_MAX_MS = 30_000;
+
+/** Maximum file size for inline sync (larger files use chunked transfer) */
+export const MAX_INLINE_FILE_SIZE = 512 * 1024; // 512KB
+
+/** Raw bytes per chunk — stays under Firestore's 1MiB document limit once base64-encoded */
+export const TRANSFER_CHUNK_SIZE = 512 * 1024; // 512KB
+
+/** Branch git mode commits remote changes to */
+export const DEFAULT_GIT_REMOTE_BRANCH = 'myndhyve/remote';
+
+/** Snapshots kept per file in .myndhyve/history */
+export const DEFAULT_HISTORY_MAX_VERSIONS = 20;
+
+/** Age after which snapshots in .myndhyve/history are dropped */
+export const DEFAULT_HISTORY_MAX_AGE_DAYS = 30;
+
+/** Artifact globs collected from production and preview builds by default */
+export const DEFAULT_ARTIFACT_GLOBS = ['dist/**', 'build/**', 'out/**'];
+
+/** Maximum file size the bridge will sync at all */
+export const MAX_SYNC_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
-/** Default ignore patterns */
+/** Default ignore patterns (gitignore syntax; directories match at any depth) */
 export const DEFAULT_IGNORE_PATTERNS = [
-  'node_modules/**',
-  '.git/**',
-  'dist/**',
-  'build/**',
-  '.next/**',
-  '.nuxt/**',
+  'node_modules/',
+  '.git/',
+  'dist/',
+  'build/',
+  '.next/',
+  '.nuxt/',
   '*.log',
   '.DS_Store',
-  '.myndhyve/**',
+  '.myndhyve/',
   'package-lock.json',
   'yarn.lock',
   'pnpm-lock.yaml',
@@ -409,4 +562,15 @@ export const MIME_TYPES: Record<string, string> = {
   '.jpeg': 'image/jpeg',
   '.gif': 'image/gif',
   '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wasm': 'application/wasm',
+  '.map': 'application/json',
 };
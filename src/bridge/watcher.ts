@@ -13,7 +13,7 @@ import { EventEmitter } from 'node:events';
 import { createLogger } from '../utils/logger.js';
 import { IgnoreMatcher } from './ignore.js';
 import { hashFile } from './hasher.js';
-import { WATCHER_DEBOUNCE_MS, MAX_INLINE_FILE_SIZE, MIME_TYPES } from './types.js';
+import { WATCHER_DEBOUNCE_MS, MAX_SYNC_FILE_SIZE, MIME_TYPES } from './types.js';
 
 const log = createLogger('FileWatcher');
 
@@ -66,7 +66,7 @@ export class FileWatcher extends EventEmitter {
     super();
     this.config = {
       debounceMs: WATCHER_DEBOUNCE_MS,
-      maxFileSize: MAX_INLINE_FILE_SIZE,
+      maxFileSize: MAX_SYNC_FILE_SIZE,
       ...config,
     };
   }
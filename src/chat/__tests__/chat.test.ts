@@ -469,6 +469,30 @@ describe('sendMessage()', () => {
     ]);
   });
 
+  it('passes the timeout through and skips persistence when asked', async () => {
+    mockGetToken.mockResolvedValue('my-token');
+    mockStreamChat.mockImplementation(async (_req: unknown, callbacks: { onComplete: (content: string) => void }) => {
+      callbacks.onComplete('Done');
+      return () => {};
+    });
+
+    const session: ChatSession = {
+      sessionId: 'chat_send_3',
+      provider: 'anthropic',
+      model: 'claude-sonnet',
+      temperature: 0.7,
+      systemPrompt: 'You are an assistant.',
+      messages: [],
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    await sendMessage(session, 'Hello', {}, { persist: false, timeoutMs: 300_000 });
+
+    expect(mockStreamChat.mock.calls[0][0].timeoutMs).toBe(300_000);
+    expect(session.messages).toHaveLength(2);
+    expect(mockSaveConversation).not.toHaveBeenCalled();
+  });
+
   it('rejects and rolls back user message when authentication fails', async () => {
     mockGetToken.mockRejectedValue(new Error('Not authenticated'));
 
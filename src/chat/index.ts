@@ -80,6 +80,14 @@ export interface ChatStreamCallbacks {
   onError?: (error: StreamError) => void;
 }
 
+/** Per-call options for sendMessage. */
+export interface SendMessageOptions {
+  /** Save the conversation to local history (default: true). */
+  persist?: boolean;
+  /** Stream timeout in milliseconds (default: 120s). */
+  timeoutMs?: number;
+}
+
 // ============================================================================
 // SESSION MANAGEMENT
 // ============================================================================
@@ -139,12 +147,14 @@ export async function createSession(options: ChatSessionOptions = {}): Promise<C
  * Send a message in a chat session and stream the response.
  *
  * Adds the user message to history, streams the AI response, and
- * persists the conversation after completion.
+ * persists the conversation after completion unless `options.persist`
+ * is false.
  */
 export async function sendMessage(
   session: ChatSession,
   userMessage: string,
-  callbacks: ChatStreamCallbacks = {}
+  callbacks: ChatStreamCallbacks = {},
+  options: SendMessageOptions = {}
 ): Promise<string> {
   const now = new Date().toISOString();
 
@@ -183,7 +193,7 @@ export async function sendMessage(
         });
 
         // Persist conversation
-        persistSession(session);
+        if (options.persist !== false) persistSession(session);
 
         callbacks.onComplete?.(content);
         resolve(content);
@@ -207,6 +217,7 @@ export async function sendMessage(
           systemPrompt: session.systemPrompt,
           temperature: session.temperature,
         },
+        timeoutMs: options.timeoutMs,
       },
       streamCallbacks
     ).catch((err) => {
@@ -48,6 +48,10 @@ vi.mock('../../relay/outbound-poller.js', () => ({
   startOutboundPoller: vi.fn(),
 }));
 
+vi.mock('../../relay/outbox.js', () => ({
+  startOutboxDrainer: vi.fn(),
+}));
+
 vi.mock('../../channels/registry.js', () => ({
   getChannel: (...args: unknown[]) => mockGetChannel(...args),
   ensureChannelsLoaded: vi.fn().mockResolvedValue(undefined),
@@ -5,25 +5,42 @@
  *   myndhyve-cli bridge link [path]     # Link local dir to MyndHyve project
  *   myndhyve-cli bridge unlink          # Remove the link
  *   myndhyve-cli bridge start           # Start the bridge daemon
- *   myndhyve-cli bridge stop            # Stop the daemon
- *   myndhyve-cli bridge status          # Show bridge status
- *   myndhyve-cli bridge sync            # Force a manual sync
+ *   myndhyve-cli bridge stop [path]     # Stop a project's daemon (--all for every one)
+ *   myndhyve-cli bridge ps              # List running bridge daemons
+ *   myndhyve-cli bridge status          # Show bridge status (--files for per-file state)
+ *   myndhyve-cli bridge sync            # Force a manual sync (--dry-run to preview)
+ *   myndhyve-cli bridge diff [path]     # Diff local files against the remote snapshot
+ *   myndhyve-cli bridge conflicts       # List, inspect, and resolve sync conflicts
+ *   myndhyve-cli bridge check-ignore <path...> # Explain which ignore rule applies to a path
+ *   myndhyve-cli bridge history <file>  # List snapshots of a file the bridge overwrote
+ *   myndhyve-cli bridge restore <file>  # Restore a file from a snapshot (--at <time>)
+ *   myndhyve-cli bridge tokens export   # Export the design theme as code
+ *   myndhyve-cli bridge git enable      # Commit remote changes to a branch, push from commits
  *   myndhyve-cli bridge logs            # View daemon logs
  */
 
 import type { Command } from 'commander';
-import { resolve, join } from 'node:path';
-import { existsSync } from 'node:fs';
+import { resolve, join, relative, isAbsolute, sep } from 'node:path';
+import { existsSync, statSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import {
   requireAuth,
   printError,
   formatRelativeTime,
+  formatTableRow,
 } from './helpers.js';
 import { ExitCode, printErrorResult } from '../utils/output.js';
-import { getToken } from '../auth/index.js';
+import { getToken, getAuthStatus } from '../auth/index.js';
 import { createLogger } from '../utils/logger.js';
-import type { BridgeLocalConfig, ExportFramework } from '../bridge/types.js';
+import type {
+  BridgeLocalConfig,
+  BridgeSession,
+  DesignTokenFormat,
+  DesignTokensConfig,
+  ExportFramework,
+} from '../bridge/types.js';
+import { DESIGN_TOKEN_FORMATS } from '../bridge/types.js';
+import type { SyncPlan, SyncPlanEntry } from '../bridge/sync-plan.js';
 
 const log = createLogger('Bridge');
 
@@ -39,8 +56,11 @@ export function registerBridgeCommands(program: Command): void {
 Examples:
   $ myndhyve-cli bridge link ./my-project --project <id>
   $ myndhyve-cli bridge start --daemon
+  $ myndhyve-cli bridge ps
+  $ myndhyve-cli bridge stop --all
   $ myndhyve-cli bridge status
-  $ myndhyve-cli bridge sync --push`);
+  $ myndhyve-cli bridge sync --push
+  $ myndhyve-cli bridge conflicts list`);
 
   // ── Link ──────────────────────────────────────────────────────────────
 
@@ -125,6 +145,11 @@ Examples:
         return;
       }
 
+      const { stopBridgeDaemon } = await import('../bridge/daemon.js');
+      if (stopBridgeDaemon(config.sessionId)) {
+        console.log('  Bridge daemon stopped.');
+      }
+
       if (opts.deleteSession) {
         try {
           await getToken();
@@ -164,16 +189,16 @@ Examples:
       if (opts.daemon && !process.env.MYNDHYVE_CLI_BRIDGE_DAEMON) {
         const { getBridgeDaemonPid, spawnBridgeDaemon } = await import('../bridge/daemon.js');
 
-        const existingPid = getBridgeDaemonPid();
+        const existingPid = getBridgeDaemonPid(config.sessionId);
         if (existingPid) {
-          console.log(`  Bridge daemon already running (PID ${existingPid})`);
+          console.log(`  Bridge daemon already running for ${projectRoot} (PID ${existingPid})`);
           return;
         }
 
-        const pid = spawnBridgeDaemon(projectRoot, opts.verbose);
+        const pid = spawnBridgeDaemon(projectRoot, config, opts.verbose);
         const chalk = (await import('chalk')).default;
-        console.log(`  Bridge daemon started ${chalk.dim(`(PID ${pid})`)}`);
-        console.log(`  Logs: myndhyve-cli bridge logs`);
+        console.log(`  Bridge daemon started for ${projectRoot} ${chalk.dim(`(PID ${pid})`)}`);
+        console.log(`  Logs: myndhyve-cli bridge logs${path ? ` ${path}` : ''}`);
         return;
       }
 
@@ -186,24 +211,124 @@ Examples:
   // ── Stop ──────────────────────────────────────────────────────────────
 
   bridge
-    .command('stop')
-    .description('Stop the bridge daemon')
-    .action(async () => {
-      const { stopBridgeDaemon } = await import('../bridge/daemon.js');
-      const stopped = stopBridgeDaemon();
-      if (stopped) {
+    .command('stop [path]')
+    .description('Stop the bridge daemon for a linked project')
+    .option('--all', 'Stop every running bridge daemon')
+    .action(async (path: string | undefined, opts) => {
+      const { stopBridgeDaemon, listBridgeDaemons } = await import('../bridge/daemon.js');
+
+      if (opts.all) {
+        if (path) {
+          printErrorResult({
+            code: 'USAGE_ERROR',
+            message: 'Pass either a path or --all, not both.',
+          });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+
+        const daemons = listBridgeDaemons();
+        if (daemons.length === 0) {
+          console.log('  No bridge daemons are running.');
+          return;
+        }
+        for (const daemon of daemons) {
+          const stopped = stopBridgeDaemon(daemon.sessionId);
+          console.log(`  ${stopped ? 'Stopped' : 'Already stopped'}: ${daemon.projectRoot} (PID ${daemon.pid})`);
+        }
+        return;
+      }
+
+      const projectRoot = resolve(path || '.');
+      const { readLocalConfig } = await import('../bridge/session.js');
+      const config = await readLocalConfig(projectRoot);
+
+      if (!config) {
+        printError('stop', `Not linked: ${projectRoot}. Use \`bridge ps\` to list running bridges.`);
+        return;
+      }
+
+      if (stopBridgeDaemon(config.sessionId)) {
         console.log('  Bridge daemon stopped.');
       } else {
         console.log('  Bridge daemon is not running.');
       }
     });
 
+  // ── Ps ────────────────────────────────────────────────────────────────
+
+  bridge
+    .command('ps')
+    .description('List running bridge daemons')
+    .action(async () => {
+      const { listBridgeDaemons } = await import('../bridge/daemon.js');
+      const { HEARTBEAT_STALE_MS } = await import('../bridge/types.js');
+      const { getOutputMode } = await import('../utils/output.js');
+
+      const daemons = listBridgeDaemons();
+
+      // Session status needs Firestore; without auth, list what's local
+      let sessions = new Map<string, BridgeSession | null>();
+      if (daemons.length > 0 && getAuthStatus().authenticated) {
+        try {
+          await getToken();
+          const { getSession } = await import('../bridge/session.js');
+          sessions = new Map(
+            await Promise.all(
+              daemons.map(async (d) => [d.sessionId, await getSession(d.sessionId)] as const)
+            )
+          );
+        } catch (error) {
+          log.debug('Failed to load bridge sessions', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const rows = daemons.map((d) => {
+        const session = sessions.get(d.sessionId);
+        const lastHeartbeat = session?.lastHeartbeat ?? null;
+        const status = !session
+          ? 'unknown'
+          : session.status === 'online' &&
+              Date.now() - new Date(session.lastHeartbeat).getTime() < HEARTBEAT_STALE_MS
+            ? 'online'
+            : 'offline';
+        return { ...d, status, lastHeartbeat };
+      });
+
+      if (getOutputMode() === 'json') {
+        console.log(JSON.stringify(rows, null, 2));
+        return;
+      }
+
+      if (rows.length === 0) {
+        console.log('\n  No bridge daemons are running.\n');
+        return;
+      }
+
+      console.log(`\n  Running Bridges (${rows.length})\n`);
+      console.log(formatTableRow([['PID', 8], ['Project', 24], ['Status', 9], ['Last seen', 12], ['Path', 50]]));
+      console.log('  ' + '\u2500'.repeat(105));
+      for (const row of rows) {
+        console.log(formatTableRow([
+          [String(row.pid), 8],
+          [row.projectId, 24],
+          [row.status, 9],
+          [row.lastHeartbeat ? formatRelativeTime(row.lastHeartbeat) : '—', 12],
+          [row.projectRoot, 50],
+        ]));
+      }
+      console.log('');
+    });
+
   // ── Status ────────────────────────────────────────────────────────────
 
   bridge
     .command('status [path]')
     .description('Show bridge connection and sync status')
-    .action(async (path: string | undefined) => {
+    .option('--files', 'List every tracked file with its sync state')
+    .action(async (path: string | undefined, opts) => {
       const auth = requireAuth();
       if (!auth) return;
 
@@ -233,7 +358,15 @@ Examples:
 
       const lastHb = new Date(session.lastHeartbeat).getTime();
       const isOnline = session.status === 'online' && Date.now() - lastHb < HEARTBEAT_STALE_MS;
-      const daemonPid = getBridgeDaemonPid();
+      const daemonPid = getBridgeDaemonPid(config.sessionId);
+      const { readJournal } = await import('../bridge/journal.js');
+      const queued = (await readJournal(projectRoot)).length;
+
+      let plan: SyncPlan | null = null;
+      if (opts.files) {
+        const { planSync } = await import('../bridge/sync-plan.js');
+        plan = await planSync(projectRoot, config);
+      }
 
       // --json mode: structured output for VS Code extension and programmatic use
       if (getOutputMode() === 'json') {
@@ -247,6 +380,8 @@ Examples:
           syncDirection: session.syncDirection,
           localPath: session.localPath,
           lastHeartbeat: session.lastHeartbeat,
+          queuedChanges: queued,
+          ...(plan ? { files: plan.entries.map(planEntryJson) } : {}),
         }));
         return;
       }
@@ -263,7 +398,19 @@ Examples:
       console.log(`  ${chalk.bold('Direction:')}   ${session.syncDirection}`);
       console.log(`  ${chalk.bold('Path:')}        ${session.localPath}`);
       console.log(`  ${chalk.bold('Last seen:')}   ${formatRelativeTime(session.lastHeartbeat)}`);
+      if (queued > 0) {
+        console.log(`  ${chalk.bold('Queued:')}      ${chalk.yellow(`${queued} change(s) waiting to push`)}`);
+      }
       console.log('');
+
+      if (plan) {
+        if (plan.entries.length === 0) {
+          console.log('  No tracked files.\n');
+          return;
+        }
+        console.log(`  ${chalk.bold(`Files (${plan.entries.length})`)}\n`);
+        printPlanTable(plan);
+      }
     });
 
   // ── Sync ──────────────────────────────────────────────────────────────
@@ -273,6 +420,7 @@ Examples:
     .description('Force a manual sync')
     .option('--push', 'Push local changes only')
     .option('--pull', 'Pull remote changes only')
+    .option('--dry-run', 'Show what would be pushed, pulled, merged, or conflict without syncing')
     .action(async (path: string | undefined, opts) => {
       const auth = requireAuth();
       if (!auth) return;
@@ -288,6 +436,37 @@ Examples:
       }
 
       await getToken();
+
+      if (opts.dryRun) {
+        try {
+          const { planSync } = await import('../bridge/sync-plan.js');
+          const plan = await planSync(projectRoot, config, opts.push ? 'push' : opts.pull ? 'pull' : 'bidirectional');
+
+          const { getOutputMode } = await import('../utils/output.js');
+          if (getOutputMode() === 'json') {
+            console.log(JSON.stringify({
+              direction: plan.direction,
+              counts: plan.counts,
+              files: plan.entries.filter((e) => e.action !== 'none').map(planEntryJson),
+            }, null, 2));
+            return;
+          }
+
+          const pending = { ...plan, entries: plan.entries.filter((e) => e.action !== 'none') };
+          const { push, pull, merge, conflict } = plan.counts;
+          console.log('');
+          if (pending.entries.length === 0) {
+            console.log('  Nothing to sync.\n');
+            return;
+          }
+          printPlanTable(pending);
+          console.log(`  Would push ${push}, pull ${pull}, merge ${merge}; ${conflict} conflict(s).`);
+          console.log('  Review changes: myndhyve-cli bridge diff\n');
+        } catch (error) {
+          printError('sync', error);
+        }
+        return;
+      }
       const ora = (await import('ora')).default;
       const spinner = ora({ text: 'Syncing...', stream: process.stderr }).start();
 
@@ -317,16 +496,612 @@ Examples:
       }
     });
 
+  // ── Diff ──────────────────────────────────────────────────────────────
+
+  bridge
+    .command('diff [path]')
+    .description('Show unified diffs between local files and the remote snapshot')
+    .option('--file <relativePath...>', 'Only these files (relative to the project root)')
+    .option('--name-only', 'List differing files without diffs')
+    .action(async (path: string | undefined, opts) => {
+      const config = await requireLinkedProject('diff', path);
+      if (!config) return;
+      const projectRoot = resolve(path || '.');
+
+      try {
+        await getToken();
+        const { diffFiles } = await import('../bridge/sync-plan.js');
+        const diffs = await diffFiles(projectRoot, config, opts.file as string[] | undefined);
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(diffs, null, 2));
+          return;
+        }
+
+        if (diffs.length === 0) {
+          console.log('\n  Local files match the remote snapshot.\n');
+          return;
+        }
+
+        const chalk = (await import('chalk')).default;
+        console.log('');
+        for (const file of diffs) {
+          console.log(`  ${chalk.bold(file.relativePath)}  ${chalk.dim(`(sync would ${file.action === 'none' ? 'do nothing' : file.action})`)}`);
+          if (opts.nameOnly) continue;
+          console.log('');
+          if (file.diff === null) {
+            console.log(chalk.dim(`  ${file.note}`));
+          } else {
+            printColoredDiff(chalk, file.diff);
+          }
+          console.log('');
+        }
+        if (opts.nameOnly) console.log('');
+      } catch (error) {
+        printError('diff', error);
+      }
+    });
+
+  // ── Conflicts ─────────────────────────────────────────────────────────
+
+  const conflicts = bridge
+    .command('conflicts')
+    .description('List, inspect, and resolve sync conflicts');
+
+  conflicts
+    .command('list [path]')
+    .description('List unresolved sync conflicts')
+    .action(async (path: string | undefined) => {
+      const config = await requireLinkedProject('conflicts list', path);
+      if (!config) return;
+
+      try {
+        await getToken();
+        const { queryPendingConflicts } = await import('../bridge/session.js');
+        const pending = await queryPendingConflicts(config.sessionId);
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(pending.map((c) => ({
+            id: c.id,
+            file: c.relativePath,
+            type: c.conflictType,
+            detectedAt: c.detectedAt,
+          })), null, 2));
+          return;
+        }
+
+        if (pending.length === 0) {
+          console.log('\n  No unresolved conflicts.\n');
+          return;
+        }
+
+        console.log(`\n  Unresolved Conflicts (${pending.length})\n`);
+        console.log(formatTableRow([['ID', 38], ['File', 44], ['Type', 10], ['Detected', 12]]));
+        console.log('  ' + '\u2500'.repeat(100));
+        for (const c of pending) {
+          console.log(formatTableRow([
+            [c.id, 38],
+            [c.relativePath, 44],
+            [c.conflictType, 10],
+            [formatRelativeTime(c.detectedAt), 12],
+          ]));
+        }
+        console.log('');
+        console.log('  Inspect: myndhyve-cli bridge conflicts show <id>');
+        console.log('');
+      } catch (error) {
+        printError('conflicts list', error);
+      }
+    });
+
+  conflicts
+    .command('show <conflictId> [path]')
+    .description('Show local and remote changes against the common base')
+    .action(async (conflictId: string, path: string | undefined) => {
+      const config = await requireLinkedProject('conflicts show', path);
+      if (!config) return;
+
+      try {
+        await getToken();
+        const { getConflictRecord } = await import('../bridge/session.js');
+        const conflict = await getConflictRecord(config.sessionId, conflictId);
+
+        if (!conflict) {
+          printErrorResult({ code: 'NOT_FOUND', message: `Conflict "${conflictId}" not found.` });
+          process.exitCode = ExitCode.NOT_FOUND;
+          return;
+        }
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(conflict, null, 2));
+          return;
+        }
+
+        const chalk = (await import('chalk')).default;
+        const { unifiedDiff } = await import('../bridge/merge.js');
+
+        console.log('');
+        console.log(`  ${chalk.bold(conflict.relativePath)}  ${chalk.dim(`(${conflict.status})`)}`);
+        console.log(`  ${chalk.bold('Base:')}   ${conflict.baseHash.slice(0, 12) || '-'}`);
+        console.log(`  ${chalk.bold('Local:')}  ${conflict.localHash.slice(0, 12)}`);
+        console.log(`  ${chalk.bold('Remote:')} ${conflict.remoteHash.slice(0, 12)}`);
+        console.log(`  ${chalk.bold('Detected:')} ${formatRelativeTime(conflict.detectedAt)}`);
+
+        if (!conflict.localContent && !conflict.remoteContent) {
+          console.log(chalk.dim('\n  Binary or oversized file — no text diff available.\n'));
+          return;
+        }
+
+        console.log(`\n  ${chalk.bold.cyan('Local changes')} ${chalk.dim('(base → local)')}\n`);
+        printColoredDiff(chalk, unifiedDiff(conflict.baseContent, conflict.localContent, {
+          fromLabel: `base/${conflict.relativePath}`,
+          toLabel: `local/${conflict.relativePath}`,
+        }));
+
+        console.log(`\n  ${chalk.bold.magenta('Remote changes')} ${chalk.dim('(base → remote)')}\n`);
+        printColoredDiff(chalk, unifiedDiff(conflict.baseContent, conflict.remoteContent, {
+          fromLabel: `base/${conflict.relativePath}`,
+          toLabel: `remote/${conflict.relativePath}`,
+        }));
+
+        console.log('');
+        console.log(`  Resolve: myndhyve-cli bridge conflicts resolve ${conflict.id} --ours | --theirs | --edit`);
+        console.log('');
+      } catch (error) {
+        printError('conflicts show', error);
+      }
+    });
+
+  conflicts
+    .command('resolve <conflictId> [path]')
+    .description('Resolve a conflict with the local, remote, or hand-merged version')
+    .option('--ours', 'Keep the local (IDE) version')
+    .option('--theirs', 'Keep the remote (MyndHyve) version')
+    .option('--edit', 'Edit a merge buffer in $EDITOR')
+    .option('--file <mergedFile>', 'Use the contents of a file as the resolution')
+    .action(async (conflictId: string, path: string | undefined, opts) => {
+      const config = await requireLinkedProject('conflicts resolve', path);
+      if (!config) return;
+
+      const chosen = [opts.ours, opts.theirs, opts.edit, opts.file].filter(Boolean).length;
+      if (chosen > 1) {
+        printErrorResult({
+          code: 'INVALID_ARGUMENT',
+          message: 'Choose only one of --ours, --theirs, --edit, or --file.',
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
+      try {
+        await getToken();
+        const { getConflictRecord } = await import('../bridge/session.js');
+        const conflict = await getConflictRecord(config.sessionId, conflictId);
+
+        if (!conflict) {
+          printErrorResult({ code: 'NOT_FOUND', message: `Conflict "${conflictId}" not found.` });
+          process.exitCode = ExitCode.NOT_FOUND;
+          return;
+        }
+
+        let choice: 'ours' | 'theirs' | 'edit' | 'file' | 'skip';
+        if (opts.ours) choice = 'ours';
+        else if (opts.theirs) choice = 'theirs';
+        else if (opts.edit) choice = 'edit';
+        else if (opts.file) choice = 'file';
+        else {
+          const { isInteractive } = await import('../utils/output.js');
+          if (!isInteractive()) {
+            printErrorResult({
+              code: 'INVALID_ARGUMENT',
+              message: 'No resolution chosen.',
+              suggestion: 'Pass --ours, --theirs, --edit, or --file <path>.',
+            });
+            process.exitCode = ExitCode.USAGE_ERROR;
+            return;
+          }
+
+          const inquirer = (await import('inquirer')).default;
+          ({ choice } = await inquirer.prompt([{
+            type: 'list',
+            name: 'choice',
+            message: `Resolve ${conflict.relativePath}:`,
+            choices: [
+              { name: 'Keep local version (ours)', value: 'ours' },
+              { name: 'Keep remote version (theirs)', value: 'theirs' },
+              { name: 'Edit merge in $EDITOR', value: 'edit' },
+              { name: 'Skip for now', value: 'skip' },
+            ],
+          }]));
+        }
+
+        if (choice === 'skip') {
+          console.log('  Conflict left unresolved.');
+          return;
+        }
+
+        const { resolveConflict, buildMergeBuffer, hasConflictMarkers } = await import('../bridge/conflicts.js');
+
+        let content: string | undefined;
+        if (choice === 'edit') {
+          content = await editInEditor(buildMergeBuffer(conflict), conflict.relativePath);
+        } else if (choice === 'file') {
+          content = await readFile(resolve(opts.file), 'utf-8');
+        }
+
+        if (content !== undefined && hasConflictMarkers(content)) {
+          printErrorResult({
+            code: 'UNRESOLVED_MARKERS',
+            message: 'The merged content still contains conflict markers.',
+            suggestion: 'Remove all <<<<<<< / ======= / >>>>>>> blocks and try again.',
+          });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+
+        const result = await resolveConflict({
+          sessionId: config.sessionId,
+          projectRoot: resolve(path || '.'),
+          conflictId,
+          strategy: choice === 'ours'
+            ? 'keep-local'
+            : choice === 'theirs'
+              ? 'keep-remote'
+              : choice === 'edit' ? 'merge' : 'manual',
+          content,
+          resolvedBy: 'cli',
+        });
+
+        console.log(`  Resolved ${result.relativePath} (${result.strategy})${result.pushed ? ' — pushed to MyndHyve' : ''}.`);
+      } catch (error) {
+        printError('conflicts resolve', error);
+      }
+    });
+
+  // ── Check Ignore ──────────────────────────────────────────────────────
+
+  bridge
+    .command('check-ignore <paths...>')
+    .description('Show whether paths are ignored by the bridge and which rule decided it')
+    .option('--root <path>', 'Linked project directory (default: current directory)')
+    .action(async (paths: string[], opts) => {
+      const { readLocalConfig, getSession } = await import('../bridge/session.js');
+      const projectRoot = resolve(opts.root || '.');
+      const config = await readLocalConfig(projectRoot);
+      if (!config) {
+        printError('check-ignore', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
+      try {
+        // Session patterns need the network; the ignore files don't
+        let sessionPatterns: string[] = [];
+        try {
+          await getToken();
+          const session = await getSession(config.sessionId);
+          sessionPatterns = (session?.ignorePatterns as string[]) || [];
+        } catch (err) {
+          log.debug('Checking without session ignore patterns', {
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+
+        const { createIgnoreMatcher } = await import('../bridge/ignore.js');
+        const matcher = await createIgnoreMatcher(projectRoot, sessionPatterns);
+
+        const results = paths.map((input) => {
+          const relativePath = toProjectPath(projectRoot, input);
+          if (!relativePath) return { path: input, ignored: false, rule: null, outside: true };
+          const isDirectory = statSync(join(projectRoot, relativePath), { throwIfNoEntry: false })?.isDirectory() ?? false;
+          const match = matcher.check(relativePath, isDirectory);
+          return {
+            path: relativePath,
+            ignored: match !== null && !match.rule.negated,
+            rule: match ? { ...match.rule, matchedPath: match.matchedPath } : null,
+            outside: false,
+          };
+        });
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(results, null, 2));
+          return;
+        }
+
+        const chalk = (await import('chalk')).default;
+        console.log('');
+        for (const result of results) {
+          if (result.outside) {
+            console.log(`  ${result.path}  ${chalk.yellow('outside the project')}`);
+          } else if (!result.rule) {
+            console.log(`  ${result.path}  ${chalk.dim('not ignored (no matching rule)')}`);
+          } else {
+            const { rule } = result;
+            const where = rule.line ? `${rule.source}:${rule.line}` : rule.source;
+            const via = rule.matchedPath !== result.path ? ` via ${rule.matchedPath}` : '';
+            const verdict = result.ignored ? chalk.red('ignored') : chalk.green('not ignored');
+            console.log(`  ${result.path}  ${verdict}  ${chalk.dim(`${where}: ${rule.pattern}${via}`)}`);
+          }
+        }
+        console.log('');
+      } catch (error) {
+        printError('check-ignore', error);
+      }
+    });
+
+  // ── History ───────────────────────────────────────────────────────────
+
+  bridge
+    .command('history <file> [path]')
+    .description('List snapshots of a file saved before the bridge overwrote it')
+    .action(async (file: string, path: string | undefined) => {
+      const { readLocalConfig } = await import('../bridge/session.js');
+      const projectRoot = resolve(path || '.');
+      if (!(await readLocalConfig(projectRoot))) {
+        printError('history', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
+      const relativePath = toProjectPath(projectRoot, file);
+      if (!relativePath) {
+        printErrorResult({ code: 'USAGE_ERROR', message: `${file} is outside the project.` });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
+      try {
+        const { listHistory } = await import('../bridge/history.js');
+        const entries = await listHistory(projectRoot, relativePath);
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(entries, null, 2));
+          return;
+        }
+
+        if (entries.length === 0) {
+          console.log(`\n  No snapshots of ${relativePath}.\n`);
+          return;
+        }
+
+        console.log(`\n  History of ${relativePath} (${entries.length})\n`);
+        console.log(formatTableRow([['ID', 14], ['Saved', 26], ['Size', 10], ['Reason', 10]]));
+        console.log('  ' + '\u2500'.repeat(60));
+        for (const entry of entries) {
+          console.log(formatTableRow([
+            [entry.hash.slice(0, 12), 14],
+            [`${entry.savedAt.slice(0, 19).replace('T', ' ')} (${formatRelativeTime(entry.savedAt)})`, 26],
+            [`${entry.size} B`, 10],
+            [entry.reason, 10],
+          ]));
+        }
+        console.log('');
+        console.log(`  Restore: myndhyve-cli bridge restore ${relativePath} --id <id> | --at <time>`);
+        console.log('');
+      } catch (error) {
+        printError('history', error);
+      }
+    });
+
+  bridge
+    .command('restore <file> [path]')
+    .description('Restore a file from its snapshot history (newest snapshot by default)')
+    .option('--at <time>', 'Version the file had at this time (ISO date, or relative: 30m, 2h, 7d)')
+    .option('--id <id>', 'Snapshot ID (hash prefix) from `bridge history`')
+    .action(async (file: string, path: string | undefined, opts) => {
+      const { readLocalConfig } = await import('../bridge/session.js');
+      const projectRoot = resolve(path || '.');
+      if (!(await readLocalConfig(projectRoot))) {
+        printError('restore', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
+      const relativePath = toProjectPath(projectRoot, file);
+      if (!relativePath) {
+        printErrorResult({ code: 'USAGE_ERROR', message: `${file} is outside the project.` });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
+      let at: Date | undefined;
+      if (opts.at) {
+        at = parseRestoreTime(opts.at);
+        if (!at) {
+          printErrorResult({
+            code: 'USAGE_ERROR',
+            message: `Invalid --at "${opts.at}". Use an ISO date or a relative time like 30m, 2h, 7d.`,
+          });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+      }
+
+      try {
+        const { restoreFile } = await import('../bridge/history.js');
+        const result = await restoreFile(projectRoot, relativePath, { at, hash: opts.id });
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        if (!result.entry) {
+          console.log(`  ${relativePath} has not changed since ${(at as Date).toISOString()}.`);
+          return;
+        }
+        const id = result.entry.hash.slice(0, 12);
+        if (!result.changed) {
+          console.log(`  ${relativePath} already matches snapshot ${id}.`);
+          return;
+        }
+        console.log(`  Restored ${relativePath} from snapshot ${id} (${formatRelativeTime(result.entry.savedAt)}).`);
+        console.log('  A running bridge will push the restored file to MyndHyve.');
+      } catch (error) {
+        printError('restore', error);
+      }
+    });
+
+  // ── Design Tokens ─────────────────────────────────────────────────────
+
+  const tokens = bridge
+    .command('tokens')
+    .description('Export the MyndHyve design theme as code');
+
+  tokens
+    .command('export [path]')
+    .description('Generate Tailwind, CSS, SCSS, TS, Flutter, or W3C token files from the theme')
+    .option('-f, --format <formats>', `Comma-separated formats (${DESIGN_TOKEN_FORMATS.join(', ')}); default: chosen by framework`)
+    .option('-o, --out-dir <dir>', 'Output directory relative to the project root')
+    .option('--dry-run', 'Show what would be written without writing')
+    .option('--no-sync', 'Do not regenerate the files when the theme changes')
+    .action(async (path: string | undefined, opts) => {
+      const config = await requireLinkedProject('tokens export', path);
+      if (!config) return;
+      const projectRoot = resolve(path || '.');
+
+      const formats = opts.format
+        ? (opts.format as string).split(',').map((f) => f.trim()).filter(Boolean)
+        : undefined;
+      const unknown = formats?.filter((f) => !DESIGN_TOKEN_FORMATS.includes(f as DesignTokenFormat));
+      if (unknown && unknown.length > 0) {
+        printErrorResult({
+          code: 'USAGE_ERROR',
+          message: `Unknown token format(s): ${unknown.join(', ')}. Use one of: ${DESIGN_TOKEN_FORMATS.join(', ')}.`,
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
+      const designTokens: DesignTokensConfig = {
+        ...config.designTokens,
+        ...(formats ? { formats: formats as DesignTokenFormat[] } : {}),
+        ...(opts.outDir ? { outDir: opts.outDir as string } : {}),
+        sync: opts.sync as boolean,
+      };
+
+      try {
+        await getToken();
+        const { exportDesignTokens } = await import('../bridge/design-tokens.js');
+        const result = await exportDesignTokens(projectRoot, config, { ...designTokens, dryRun: opts.dryRun });
+
+        if (!opts.dryRun) {
+          const { writeLocalConfig } = await import('../bridge/session.js');
+          await writeLocalConfig(projectRoot, { ...config, designTokens });
+        }
+
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify({
+            themeId: result.themeId,
+            dryRun: Boolean(opts.dryRun),
+            sync: designTokens.sync,
+            files: result.files.map((f) => ({ format: f.format, path: f.relativePath, changed: f.changed })),
+          }, null, 2));
+          return;
+        }
+
+        const chalk = (await import('chalk')).default;
+        console.log('');
+        for (const file of result.files) {
+          const verb = !file.changed ? chalk.dim('unchanged ') : opts.dryRun ? chalk.yellow('would write') : chalk.green('wrote      ');
+          console.log(`  ${verb} ${file.relativePath} ${chalk.dim(`(${file.format})`)}`);
+        }
+        console.log('');
+
+        if (!opts.dryRun && designTokens.sync && !config.designTokens?.sync) {
+          const { getBridgeDaemonPid } = await import('../bridge/daemon.js');
+          console.log(getBridgeDaemonPid(config.sessionId)
+            ? '  Restart the bridge to keep these files in sync with theme changes.\n'
+            : '  These files will be kept in sync with theme changes while the bridge runs.\n');
+        }
+      } catch (error) {
+        printError('tokens export', error);
+      }
+    });
+
+  // ── Git Mode ──────────────────────────────────────────────────────────
+
+  const git = bridge
+    .command('git')
+    .description('Stage remote changes as commits on a branch and push from commits');
+
+  git
+    .command('enable [path]')
+    .description('Commit remote changes to a branch instead of the working tree')
+    .option('--branch <branch>', 'Branch for remote changes (default: myndhyve/remote)')
+    .action(async (path: string | undefined, opts) => {
+      const { readLocalConfig, writeLocalConfig } = await import('../bridge/session.js');
+      const projectRoot = resolve(path || '.');
+      const config = await readLocalConfig(projectRoot);
+      if (!config) {
+        printError('git enable', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
+      try {
+        const { isGitRepository, ensureRemoteWorktree, getRemoteBranch } = await import('../bridge/git-mode.js');
+        if (!(await isGitRepository(projectRoot))) {
+          printErrorResult({ code: 'USAGE_ERROR', message: `${projectRoot} is not inside a git repository.` });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+
+        const gitConfig = { enabled: true, branch: opts.branch ?? config.git?.branch };
+        await ensureRemoteWorktree(projectRoot, gitConfig);
+        await writeLocalConfig(projectRoot, { ...config, git: gitConfig });
+
+        const branch = getRemoteBranch(gitConfig);
+        const { getOutputMode } = await import('../utils/output.js');
+        if (getOutputMode() === 'json') {
+          console.log(JSON.stringify({ enabled: true, branch }, null, 2));
+          return;
+        }
+
+        console.log(`  Git mode enabled — remote changes will be committed to ${branch}.`);
+        console.log(`  Review and merge them with: git merge ${branch}`);
+        console.log('  Local changes are pushed when you commit. Restart a running bridge to apply.');
+      } catch (error) {
+        printError('git enable', error);
+      }
+    });
+
+  git
+    .command('disable [path]')
+    .description('Go back to syncing the working tree directly')
+    .action(async (path: string | undefined) => {
+      const { readLocalConfig, writeLocalConfig } = await import('../bridge/session.js');
+      const projectRoot = resolve(path || '.');
+      const config = await readLocalConfig(projectRoot);
+      if (!config) {
+        printError('git disable', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
+      await writeLocalConfig(projectRoot, { ...config, git: { ...config.git, enabled: false } });
+      console.log('  Git mode disabled. Restart a running bridge to apply.');
+    });
+
   // ── Logs ──────────────────────────────────────────────────────────────
 
   bridge
-    .command('logs')
-    .description('View bridge daemon logs')
+    .command('logs [path]')
+    .description('View bridge daemon logs for a linked project')
     .option('-f, --follow', 'Follow log output')
     .option('-n, --lines <count>', 'Number of lines to show', '50')
-    .action(async (opts) => {
+    .action(async (path: string | undefined, opts) => {
+      const { readLocalConfig } = await import('../bridge/session.js');
+      const config = await readLocalConfig(resolve(path || '.'));
+      if (!config) {
+        printError('logs', 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+        return;
+      }
+
       const { getBridgeLogPath } = await import('../bridge/daemon.js');
-      const logPath = getBridgeLogPath();
+      const logPath = getBridgeLogPath(config.sessionId);
 
       if (!existsSync(logPath)) {
         console.log('  No bridge logs found. Start with: myndhyve-cli bridge start --daemon');
@@ -345,8 +1120,11 @@ Examples:
 
   bridge
     .command('mcp [path]')
-    .description('Start an MCP server for AI coding assistants (stdio transport)')
-    .action(async (path: string | undefined) => {
+    .description('Start an MCP server for AI coding assistants (stdio, or Streamable HTTP with --http)')
+    .option('--http', 'Serve over Streamable HTTP/SSE on localhost instead of stdio')
+    .option('--port <port>', 'HTTP port (default: 3777)')
+    .option('--token <token>', 'Bearer token for HTTP clients (default: MYNDHYVE_MCP_TOKEN or .myndhyve/mcp-token)')
+    .action(async (path: string | undefined, opts) => {
       const auth = requireAuth();
       if (!auth) return;
 
@@ -362,8 +1140,47 @@ Examples:
 
       await getToken();
 
-      const { startMCPServer } = await import('../bridge/mcp-server.js');
-      await startMCPServer(projectRoot, config);
+      if (!opts.http) {
+        const { startMCPServer } = await import('../bridge/mcp-server.js');
+        await startMCPServer(projectRoot, config);
+        return;
+      }
+
+      const { startMCPHttpServer, resolveMCPToken, getMCPTokenPath, DEFAULT_MCP_HTTP_PORT } = await import(
+        '../bridge/mcp-http.js'
+      );
+
+      const port = opts.port === undefined ? DEFAULT_MCP_HTTP_PORT : Number(opts.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        printErrorResult({ code: 'USAGE_ERROR', message: `Invalid port: ${opts.port}` });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+      const token = await resolveMCPToken(projectRoot, opts.token);
+
+      let server: Awaited<ReturnType<typeof startMCPHttpServer>>;
+      try {
+        server = await startMCPHttpServer(projectRoot, config, { port, token });
+      } catch (error) {
+        printError('mcp', error);
+        return;
+      }
+
+      const chalk = (await import('chalk')).default;
+      console.log('');
+      console.log(`  ${chalk.bold('MCP server listening')} ${chalk.cyan(server.url)}`);
+      if (!opts.token && !process.env.MYNDHYVE_MCP_TOKEN) {
+        console.log(`  Bearer token: ${chalk.dim(getMCPTokenPath(projectRoot))}`);
+      }
+      console.log(`  ${chalk.dim('Press Ctrl+C to stop.')}`);
+      console.log('');
+
+      const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+      };
+      process.on('SIGTERM', shutdown);
+      process.on('SIGINT', shutdown);
     });
 }
 
@@ -371,6 +1188,111 @@ Examples:
 // HELPERS
 // ============================================================================
 
+/**
+ * Require auth and a linked project. Prints an error and returns null otherwise.
+ */
+async function requireLinkedProject(
+  context: string,
+  path: string | undefined
+): Promise<BridgeLocalConfig | null> {
+  const auth = requireAuth();
+  if (!auth) return null;
+
+  const { readLocalConfig } = await import('../bridge/session.js');
+  const config = await readLocalConfig(resolve(path || '.'));
+
+  if (!config) {
+    printError(context, 'Not linked. Run `myndhyve-cli bridge link --project <id>` first.');
+    return null;
+  }
+
+  return config;
+}
+
+function printColoredDiff(chalk: typeof import('chalk').default, diff: string): void {
+  if (!diff) {
+    console.log(chalk.dim('  (no changes)'));
+    return;
+  }
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) console.log(`  ${chalk.bold(line)}`);
+    else if (line.startsWith('@@')) console.log(`  ${chalk.cyan(line)}`);
+    else if (line.startsWith('+')) console.log(`  ${chalk.green(line)}`);
+    else if (line.startsWith('-')) console.log(`  ${chalk.red(line)}`);
+    else console.log(`  ${line}`);
+  }
+}
+
+function printPlanTable(plan: SyncPlan): void {
+  console.log(formatTableRow([['Action', 10], ['File', 50], ['Reason', 40]]));
+  console.log('  ' + '\u2500'.repeat(100));
+  for (const entry of plan.entries) {
+    console.log(formatTableRow([
+      [entry.action, 10],
+      [entry.relativePath, 50],
+      [entry.reason, 40],
+    ]));
+  }
+  console.log('');
+}
+
+function planEntryJson(entry: SyncPlanEntry) {
+  return {
+    path: entry.relativePath,
+    status: entry.syncStatus,
+    action: entry.action,
+    reason: entry.reason,
+  };
+}
+
+/**
+ * Resolve a file argument (relative to cwd) to a project-relative POSIX
+ * path, or null if it is outside the project.
+ */
+function toProjectPath(projectRoot: string, file: string): string | null {
+  const rel = relative(projectRoot, resolve(file));
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) return null;
+  return rel.split(sep).join('/');
+}
+
+/**
+ * Parse `--at`: an ISO date or a relative time ago (30m, 2h, 7d).
+ */
+function parseRestoreTime(input: string): Date | undefined {
+  const match = input.match(/^(\d+)(m|h|d)$/);
+  if (match) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - parseInt(match[1], 10) * unitMs);
+  }
+  const date = new Date(input);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Open text in $VISUAL / $EDITOR and return the saved result.
+ */
+async function editInEditor(initial: string, relativePath: string): Promise<string> {
+  const { tmpdir } = await import('node:os');
+  const { extname } = await import('node:path');
+  const { writeFile, unlink } = await import('node:fs/promises');
+  const { spawnSync } = await import('node:child_process');
+
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const tmpPath = join(tmpdir(), `myndhyve-merge-${Date.now()}${extname(relativePath)}`);
+  await writeFile(tmpPath, initial, { mode: 0o600 });
+
+  try {
+    // Run through the shell so EDITOR values like "code --wait" work
+    const result = spawnSync(`${editor} "${tmpPath}"`, { stdio: 'inherit', shell: true });
+    if (result.status !== 0) {
+      throw new Error(`Editor exited with code ${result.status ?? 'unknown'}`);
+    }
+    return await readFile(tmpPath, 'utf-8');
+  } finally {
+    await unlink(tmpPath).catch(() => {});
+  }
+}
+
 async function detectFramework(projectRoot: string): Promise<ExportFramework> {
   const pkgPath = join(projectRoot, 'package.json');
   if (!existsSync(pkgPath)) return 'react-tailwind';
@@ -2,7 +2,7 @@
  * MyndHyve CLI — Cron Commands
  *
  * Commander subcommand group for the cron scheduler:
- *   myndhyve-cli cron start [--foreground] [--allow-shell]
+ *   myndhyve-cli cron start [--foreground] [--allow-shell] [--max-attempts=<n>] [--disable-after=<n>]
  *   myndhyve-cli cron stop
  *   myndhyve-cli cron status [--format=<format>]
  *   myndhyve-cli cron add --name="..." --cron="..." --workflow=<id> --canvas-type=<id>
@@ -12,6 +12,7 @@
  *   myndhyve-cli cron run <job-id>
  *   myndhyve-cli cron remove <job-id> [--force]
  *   myndhyve-cli cron runs <job-id> [--limit=<n>]
+ *   myndhyve-cli cron webhook-secret
  *   myndhyve-cli cron logs [--follow] [--lines=<n>]
  */
 
@@ -27,7 +28,8 @@ import {
   getSchedulerLogFilePath,
 } from '../cron/daemon.js';
 import { Scheduler } from '../cron/scheduler.js';
-import type { JobSchedule, JobAction, JobDelivery } from '../cron/types.js';
+import { buildDependencyForest, findDependencyCycle, type DependencyNode } from '../cron/dependencies.js';
+import { DEFAULT_SCHEDULER_CONFIG, type JobSchedule, type JobAction, type JobDelivery, type RunRecord } from '../cron/types.js';
 
 // ============================================================================
 // REGISTER
@@ -45,7 +47,16 @@ export function registerCronCommands(program: Command): void {
     .description('Start the cron scheduler')
     .option('--foreground', 'Run in foreground instead of as a daemon')
     .option('--allow-shell', 'Enable shell actions')
+    .option('--max-attempts <n>', 'Attempts per run for transient failures (1 = no retries)')
+    .option('--disable-after <n>', 'Disable a job after this many consecutive failed runs (0 = never)')
     .action(async (opts) => {
+      const maxAttempts = parseCount(opts.maxAttempts, '--max-attempts', 1);
+      const disableAfter = parseCount(opts.disableAfter, '--disable-after', 0);
+      if (maxAttempts === null || disableAfter === null) {
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
       if (!opts.foreground) {
         const existingPid = getSchedulerPid();
         if (existingPid) {
@@ -54,7 +65,7 @@ export function registerCronCommands(program: Command): void {
           return;
         }
 
-        const pid = spawnScheduler({ allowShell: opts.allowShell });
+        const pid = spawnScheduler({ allowShell: opts.allowShell, maxAttempts, disableAfter });
         console.log(`\n  Scheduler started (PID: ${pid})`);
         console.log('  Logs: myndhyve-cli cron logs');
         console.log('');
@@ -62,11 +73,17 @@ export function registerCronCommands(program: Command): void {
       }
 
       // Foreground mode
-      const scheduler = new Scheduler({ allowShell: opts.allowShell ?? false });
+      const scheduler = new Scheduler({
+        allowShell: opts.allowShell ?? false,
+        ...(maxAttempts !== undefined
+          ? { retry: { ...DEFAULT_SCHEDULER_CONFIG.retry, maxAttempts } }
+          : {}),
+        ...(disableAfter !== undefined ? { autoDisableAfter: disableAfter } : {}),
+      });
       scheduler.start();
 
-      const shutdown = () => {
-        scheduler.stop();
+      const shutdown = async () => {
+        await scheduler.stop();
         process.exit(0);
       };
 
@@ -141,6 +158,8 @@ export function registerCronCommands(program: Command): void {
     .option('--cron <expr>', 'Cron expression (e.g. "0 9 * * *")')
     .option('--at <timestamp>', 'One-time run at ISO timestamp')
     .option('--every <ms>', 'Repeat interval in milliseconds')
+    .option('--after <job-id>', 'Run after another job finishes')
+    .option('--on <outcome>', 'Upstream outcome that triggers --after (success, failure, always)', 'success')
     .option('--tz <timezone>', 'Timezone for cron schedule')
     .option('--description <desc>', 'Job description')
     .option('--delete-after-run', 'Delete job after successful execution')
@@ -150,24 +169,28 @@ export function registerCronCommands(program: Command): void {
     .option('--shell <cmd>', 'Run a shell command')
     .option('--http <url>', 'Make an HTTP request')
     .option('--canvas-type <id>', 'Canvas type ID (required for --workflow)')
+    .option('--wait', 'Wait for the workflow run to finish; fail the job unless it completes (for --workflow)')
+    .option('--wait-timeout <sec>', 'Maximum seconds to wait for the workflow run (default 1800)')
     .option('--message <text>', 'Message text (required for --agent)')
+    .option('--model <id>', 'Model override (for --agent)')
+    .option('--persistent-conversation', 'Continue one conversation across runs (for --agent)')
     .option('--collections <list>', 'Comma-separated collection names (for --crm-sync)')
     .option('--method <method>', 'HTTP method (for --http, default GET)', 'GET')
-    .option('--announce <channel>', 'Announce result to channel')
-    .option('--to <target>', 'Deliver result to target')
-    .option('--webhook-url <url>', 'Deliver result via webhook')
+    .option('--announce <channel>', 'Announce result via relay (whatsapp, signal, imessage)')
+    .option('--to <target>', 'Recipient conversation for --announce (phone number, group ID)')
+    .option('--webhook-url <url>', 'POST a signed JSON result to this URL after each run')
     .option('--format <format>', 'Output format (table, json)', 'table')
     .action(async (opts) => {
       const auth = requireAuth();
       if (!auth) return;
 
       // Validate schedule — exactly one required
-      const scheduleCount = [opts.cron, opts.at, opts.every].filter(Boolean).length;
+      const scheduleCount = [opts.cron, opts.at, opts.every, opts.after].filter(Boolean).length;
       if (scheduleCount === 0) {
         printErrorResult({
           code: 'INVALID_ARGUMENT',
-          message: 'A schedule is required: --cron, --at, or --every.',
-          suggestion: 'Example: --cron "0 9 * * *" or --every 3600000 or --at "2026-03-08T10:00:00Z"',
+          message: 'A schedule is required: --cron, --at, --every, or --after.',
+          suggestion: 'Example: --cron "0 9 * * *" or --every 3600000 or --at "2026-03-08T10:00:00Z" or --after <job-id>',
         });
         process.exitCode = ExitCode.USAGE_ERROR;
         return;
@@ -175,11 +198,14 @@ export function registerCronCommands(program: Command): void {
       if (scheduleCount > 1) {
         printErrorResult({
           code: 'INVALID_ARGUMENT',
-          message: 'Only one schedule type allowed: --cron, --at, or --every.',
+          message: 'Only one schedule type allowed: --cron, --at, --every, or --after.',
         });
         process.exitCode = ExitCode.USAGE_ERROR;
         return;
       }
+      if (opts.after && !validateDependency(opts.after, opts.on)) {
+        return;
+      }
 
       // Validate action — exactly one required
       const actionCount = [opts.workflow, opts.agent, opts.crmSync, opts.shell, opts.http].filter(Boolean).length;
@@ -219,6 +245,46 @@ export function registerCronCommands(program: Command): void {
         process.exitCode = ExitCode.USAGE_ERROR;
         return;
       }
+      const waitTimeoutSec = parseCount(opts.waitTimeout, '--wait-timeout', 1);
+      if (waitTimeoutSec === null) {
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+
+      // Validate delivery
+      if (opts.announce && opts.webhookUrl) {
+        printErrorResult({
+          code: 'INVALID_ARGUMENT',
+          message: 'Use either --announce or --webhook-url, not both.',
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+      if (opts.announce && !['whatsapp', 'signal', 'imessage'].includes(opts.announce)) {
+        printErrorResult({
+          code: 'INVALID_ARGUMENT',
+          message: `Unknown channel "${opts.announce}". Use whatsapp, signal, or imessage.`,
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+      if ((opts.announce && !opts.to) || (opts.to && !opts.announce)) {
+        printErrorResult({
+          code: 'INVALID_ARGUMENT',
+          message: '--announce and --to must be used together.',
+          suggestion: 'Example: --announce whatsapp --to +15551234567',
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
+      if (opts.webhookUrl && !URL.canParse(opts.webhookUrl)) {
+        printErrorResult({
+          code: 'INVALID_ARGUMENT',
+          message: `Invalid --webhook-url "${opts.webhookUrl}".`,
+        });
+        process.exitCode = ExitCode.USAGE_ERROR;
+        return;
+      }
 
       // Build schedule
       let schedule: JobSchedule;
@@ -226,6 +292,8 @@ export function registerCronCommands(program: Command): void {
         schedule = { kind: 'cron', expr: opts.cron, tz: opts.tz };
       } else if (opts.at) {
         schedule = { kind: 'at', at: opts.at, tz: opts.tz };
+      } else if (opts.after) {
+        schedule = { kind: 'after', after: opts.after, on: opts.on };
       } else {
         schedule = { kind: 'every', everyMs: parseInt(opts.every, 10), tz: opts.tz };
       }
@@ -233,9 +301,21 @@ export function registerCronCommands(program: Command): void {
       // Build action
       let action: JobAction;
       if (opts.workflow) {
-        action = { type: 'workflow', workflowId: opts.workflow, canvasTypeId: opts.canvasType };
+        action = {
+          type: 'workflow',
+          workflowId: opts.workflow,
+          canvasTypeId: opts.canvasType,
+          ...(opts.wait ? { wait: true } : {}),
+          ...(waitTimeoutSec !== undefined ? { waitTimeoutMs: waitTimeoutSec * 1000 } : {}),
+        };
       } else if (opts.agent) {
-        action = { type: 'agent', agentId: opts.agent, message: opts.message };
+        action = {
+          type: 'agent',
+          agentId: opts.agent,
+          message: opts.message,
+          ...(opts.model ? { model: opts.model } : {}),
+          ...(opts.persistentConversation ? { persistentConversation: true } : {}),
+        };
       } else if (opts.crmSync) {
         action = {
           type: 'crm-sync',
@@ -338,6 +418,15 @@ export function registerCronCommands(program: Command): void {
         );
       }
 
+      const forest = buildDependencyForest(jobs);
+      if (forest.length > 0) {
+        console.log('\n  Dependencies\n');
+        for (const root of forest) {
+          console.log(`  ${root.job.name} (${root.job.jobId})`);
+          printDependencyChildren(root, '  ');
+        }
+      }
+
       console.log('');
     });
 
@@ -368,11 +457,13 @@ export function registerCronCommands(program: Command): void {
       console.log('  ' + '\u2500'.repeat(50));
       console.log(`  ID:            ${job.jobId}`);
       console.log(`  Status:        ${job.enabled ? 'enabled' : 'disabled'}`);
+      if (job.disabledReason) console.log(`  Reason:        ${job.disabledReason}`);
       if (job.description) console.log(`  Description:   ${job.description}`);
       console.log(`  Schedule:      ${formatSchedule(job.schedule)}`);
       console.log(`  Action:        ${formatAction(job.action)}`);
 
       if (job.delivery) {
+        console.log(`  Delivery:      ${job.delivery.mode}`);
         if (job.delivery.channel) console.log(`  Channel:       ${job.delivery.channel}`);
         if (job.delivery.to) console.log(`  Deliver to:    ${job.delivery.to}`);
         if (job.delivery.webhookUrl) console.log(`  Webhook:       ${job.delivery.webhookUrl}`);
@@ -398,6 +489,8 @@ export function registerCronCommands(program: Command): void {
     .option('--cron <expr>', 'Update cron expression')
     .option('--at <timestamp>', 'Update one-time timestamp')
     .option('--every <ms>', 'Update repeat interval')
+    .option('--after <job-id>', 'Run after another job finishes')
+    .option('--on <outcome>', 'Update the upstream outcome that triggers the job (success, failure, always)')
     .option('--tz <timezone>', 'Update timezone')
     .action((jobId: string, opts) => {
       const patch: Record<string, unknown> = {};
@@ -418,7 +511,20 @@ export function registerCronCommands(program: Command): void {
       }
 
       // Build new schedule if any schedule option provided
-      if (opts.cron || opts.at || opts.every) {
+      if (opts.after) {
+        if (!validateDependency(opts.after, opts.on ?? 'success')) return;
+
+        const cycle = findDependencyCycle(loadJobs(), jobId, opts.after);
+        if (cycle) {
+          printErrorResult({
+            code: 'INVALID_ARGUMENT',
+            message: `Running "${jobId}" after "${opts.after}" would create a cycle: ${cycle.join(' → ')}.`,
+          });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+        patch.schedule = { kind: 'after', after: opts.after, on: opts.on ?? 'success' };
+      } else if (opts.cron || opts.at || opts.every) {
         let schedule: JobSchedule;
         if (opts.cron) {
           schedule = { kind: 'cron', expr: opts.cron, tz: opts.tz };
@@ -428,6 +534,19 @@ export function registerCronCommands(program: Command): void {
           schedule = { kind: 'every', everyMs: parseInt(opts.every, 10), tz: opts.tz };
         }
         patch.schedule = schedule;
+      } else if (opts.on) {
+        // Only the trigger outcome changed — keep the existing upstream
+        const existing = getJob(jobId);
+        if (existing?.schedule.kind !== 'after') {
+          printErrorResult({
+            code: 'INVALID_ARGUMENT',
+            message: '--on only applies to jobs scheduled with --after.',
+          });
+          process.exitCode = ExitCode.USAGE_ERROR;
+          return;
+        }
+        if (!validateDependency(existing.schedule.after ?? '', opts.on)) return;
+        patch.schedule = { ...existing.schedule, on: opts.on };
       } else if (opts.tz) {
         // Only tz provided — need existing schedule to merge
         const existing = getJob(jobId);
@@ -440,7 +559,7 @@ export function registerCronCommands(program: Command): void {
         printErrorResult({
           code: 'INVALID_ARGUMENT',
           message: 'No fields to update. Provide at least one option.',
-          suggestion: 'Options: --name, --enabled, --description, --cron, --at, --every, --tz',
+          suggestion: 'Options: --name, --enabled, --description, --cron, --at, --every, --after, --on, --tz',
         });
         process.exitCode = ExitCode.USAGE_ERROR;
         return;
@@ -474,10 +593,9 @@ export function registerCronCommands(program: Command): void {
 
       try {
         const { executeAction } = await import('../cron/executor.js');
-        const { DEFAULT_SCHEDULER_CONFIG } = await import('../cron/types.js');
 
         console.log(`\n  Executing job "${job.name}"...`);
-        const result = await executeAction(job.action, DEFAULT_SCHEDULER_CONFIG);
+        const result = await executeAction(job.action, DEFAULT_SCHEDULER_CONFIG, { jobId: job.jobId });
         console.log(`  Result: ${typeof result === 'object' ? JSON.stringify(result) : String(result)}`);
         console.log('');
       } catch (error) {
@@ -539,14 +657,16 @@ export function registerCronCommands(program: Command): void {
           'Status'.padEnd(12) +
           'Started'.padEnd(22) +
           'Duration'.padEnd(12) +
+          'Delivery'.padEnd(16) +
           'Result / Error'
       );
-      console.log('  ' + '\u2500'.repeat(100));
+      console.log('  ' + '\u2500'.repeat(116));
 
       for (const run of runs) {
         const duration = run.durationMs != null ? formatDuration(run.durationMs) : '-';
+        const status = run.attempt && run.attempt > 1 ? `${run.status} #${run.attempt}` : run.status;
         const result = run.error
-          ? truncate(run.error.message, 30)
+          ? truncate(run.error.category ? `[${run.error.category}] ${run.error.message}` : run.error.message, 30)
           : run.result
             ? truncate(run.result, 30)
             : '-';
@@ -554,9 +674,10 @@ export function registerCronCommands(program: Command): void {
         console.log(
           '  ' +
             truncate(run.runId, 20).padEnd(22) +
-            (run.status || '-').padEnd(12) +
+            (status || '-').padEnd(12) +
             (run.startedAt || '-').padEnd(22) +
             duration.padEnd(12) +
+            formatDelivery(run.deliveryResult).padEnd(16) +
             result
         );
       }
@@ -564,6 +685,16 @@ export function registerCronCommands(program: Command): void {
       console.log('');
     });
 
+  // ── Webhook Secret ────────────────────────────────────────────────────
+
+  cron
+    .command('webhook-secret')
+    .description('Print the secret used to sign webhook deliveries')
+    .action(async () => {
+      const { getWebhookSecret } = await import('../cron/delivery.js');
+      console.log(getWebhookSecret());
+    });
+
   // ── Logs ──────────────────────────────────────────────────────────────
 
   cron
@@ -672,15 +803,51 @@ function formatSchedule(schedule: JobSchedule): string {
       return `every: ${schedule.everyMs}ms`;
     case 'at':
       return `at: ${schedule.at}`;
+    case 'after':
+      return `after: ${schedule.after} (${schedule.on ?? 'success'})`;
     default:
       return 'unknown';
   }
 }
 
+/**
+ * Check an --after/--on pair: the upstream job must exist and the outcome
+ * must be known. Prints the error and sets the exit code when invalid.
+ */
+function validateDependency(afterId: string, on: string): boolean {
+  if (!['success', 'failure', 'always'].includes(on)) {
+    printErrorResult({
+      code: 'INVALID_ARGUMENT',
+      message: `Unknown --on "${on}". Use success, failure, or always.`,
+    });
+    process.exitCode = ExitCode.USAGE_ERROR;
+    return false;
+  }
+  if (!getJob(afterId)) {
+    printErrorResult({
+      code: 'NOT_FOUND',
+      message: `Upstream job "${afterId}" not found.`,
+      suggestion: 'List jobs: myndhyve-cli cron list',
+    });
+    process.exitCode = ExitCode.NOT_FOUND;
+    return false;
+  }
+  return true;
+}
+
+function printDependencyChildren(node: DependencyNode, indent: string): void {
+  node.children.forEach((child, index) => {
+    const last = index === node.children.length - 1;
+    const on = child.job.schedule.kind === 'after' ? child.job.schedule.on ?? 'success' : 'success';
+    console.log(`${indent}${last ? '\u2514\u2500' : '\u251c\u2500'} on ${on} \u2192 ${child.job.name} (${child.job.jobId})`);
+    printDependencyChildren(child, `${indent}${last ? '   ' : '\u2502  '}`);
+  });
+}
+
 function formatAction(action: JobAction): string {
   switch (action.type) {
     case 'workflow':
-      return `workflow: ${action.workflowId}`;
+      return `workflow: ${action.workflowId}${action.wait ? ' (wait)' : ''}`;
     case 'agent':
       return `agent: ${action.agentId}`;
     case 'crm-sync':
@@ -702,3 +869,27 @@ function formatDuration(ms: number): string {
   const remainingSeconds = Math.round(seconds % 60);
   return `${minutes}m ${remainingSeconds}s`;
 }
+
+/**
+ * Parse a non-negative integer option. Returns undefined when not given,
+ * or null (after printing the error) when invalid.
+ */
+function parseCount(value: string | undefined, flag: string, min: number): number | undefined | null {
+  if (value === undefined) return undefined;
+
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    printErrorResult({
+      code: 'INVALID_ARGUMENT',
+      message: `${flag} must be a whole number of at least ${min}.`,
+    });
+    return null;
+  }
+  return n;
+}
+
+function formatDelivery(result: RunRecord['deliveryResult']): string {
+  if (!result) return '-';
+  const attempts = result.attempts && result.attempts > 1 ? ` (${result.attempts}x)` : '';
+  return `${result.mode} ${result.success ? 'ok' : 'failed'}${attempts}`;
+}
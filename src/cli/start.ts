@@ -10,6 +10,7 @@ import { loadConfiguredRelay } from '../config/loader.js';
 import { RelayClient, RelayClientError } from '../relay/client.js';
 import { startHeartbeatLoop } from '../relay/heartbeat.js';
 import { startOutboundPoller } from '../relay/outbound-poller.js';
+import { startOutboxDrainer } from '../relay/outbox.js';
 import { getChannel, ensureChannelsLoaded } from '../channels/registry.js';
 import { computeBackoff, isMaxAttemptsReached, sleep } from '../utils/backoff.js';
 import { spawnDaemon, getDaemonPid } from './daemon.js';
@@ -121,7 +122,7 @@ export async function startCommand(options: {
       try {
         log.info('Connecting to platform...', { channel, attempt });
 
-        // Start channel + heartbeat + outbound poller concurrently
+        // Start channel + heartbeat + outbound poller + local outbox concurrently
         await Promise.all([
           plugin.start(
             async (envelope) => {
@@ -150,6 +151,11 @@ export async function startCommand(options: {
             deliver: (envelope) => plugin.deliver(envelope),
             signal,
           }),
+          startOutboxDrainer({
+            deliver: (envelope) => plugin.deliver(envelope),
+            intervalMs: config.outbound.pollIntervalSeconds * 1000,
+            signal,
+          }),
         ]);
 
         // If we get here cleanly (no error), we're done (abort was called)
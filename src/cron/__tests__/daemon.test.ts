@@ -226,6 +226,16 @@ describe('CronDaemon', () => {
       expect(spawnArgs).toContain('--allow-shell');
     });
 
+    it('passes retry and auto-disable settings through', () => {
+      mockOpenSync.mockReturnValue(3);
+      mockSpawn.mockReturnValue({ pid: 42, unref: vi.fn() });
+
+      spawnScheduler({ maxAttempts: 1, disableAfter: 0 });
+
+      const spawnArgs = mockSpawn.mock.calls[0][1] as string[];
+      expect(spawnArgs.join(' ')).toContain('--max-attempts 1 --disable-after 0');
+    });
+
     it('throws when spawn returns no PID', () => {
       mockOpenSync.mockReturnValue(3);
       mockSpawn.mockReturnValue({ pid: undefined, unref: vi.fn() });
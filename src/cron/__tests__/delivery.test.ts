@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createHmac } from 'node:crypto';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockGetCronDir, mockLoadConfig, mockQueueOutboxMessage } = vi.hoisted(() => ({
+  mockGetCronDir: vi.fn(),
+  mockLoadConfig: vi.fn(),
+  mockQueueOutboxMessage: vi.fn(),
+}));
+
+vi.mock('../store.js', () => ({
+  getCronDir: () => mockGetCronDir(),
+}));
+
+vi.mock('../../config/loader.js', () => ({
+  loadConfig: () => mockLoadConfig(),
+}));
+
+vi.mock('../../relay/outbox.js', () => ({
+  queueOutboxMessage: (...args: unknown[]) => mockQueueOutboxMessage(...args),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { deliverRunResult, formatRelayText, getWebhookSecret } from '../delivery.js';
+import type { DeliveryRun } from '../delivery.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const run: DeliveryRun = {
+  runId: 'run-1',
+  jobId: 'job-abc',
+  jobName: 'Daily report',
+  status: 'success',
+  startedAt: '2026-03-08T09:00:00.000Z',
+  endedAt: '2026-03-08T09:00:02.000Z',
+  durationMs: 2000,
+  actionType: 'workflow',
+  result: 'Workflow run wr-1 created',
+};
+
+const noDelay = { retryDelaysMs: [0, 0, 0] };
+
+function response(status: number): Response {
+  return new Response(null, { status });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('deliverRunResult', () => {
+  let cronDir: string;
+  let fetchMock: Mock;
+
+  beforeEach(() => {
+    cronDir = mkdtempSync(join(tmpdir(), 'cron-delivery-'));
+    mockGetCronDir.mockReturnValue(cronDir);
+    mockLoadConfig.mockReset().mockReturnValue({
+      server: { baseUrl: 'https://relay.test' },
+      channel: 'whatsapp',
+      relayId: 'relay-1',
+    });
+    mockQueueOutboxMessage.mockReset();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(cronDir, { recursive: true, force: true });
+  });
+
+  it('returns undefined without a delivery config', async () => {
+    expect(await deliverRunResult({}, run)).toBeUndefined();
+    expect(await deliverRunResult({ delivery: { mode: 'none' } }, run)).toBeUndefined();
+  });
+
+  describe('webhook', () => {
+    const job = { delivery: { mode: 'webhook' as const, webhookUrl: 'https://hooks.test/cron' } };
+
+    it('posts a signed JSON payload', async () => {
+      fetchMock.mockResolvedValueOnce(response(204));
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toEqual({ mode: 'webhook', success: true, attempts: 1 });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://hooks.test/cron');
+      expect(JSON.parse(init.body)).toMatchObject({ event: 'cron.run.completed', jobId: 'job-abc', status: 'success' });
+
+      const timestamp = init.headers['X-MyndHyve-Timestamp'];
+      const expected = createHmac('sha256', getWebhookSecret()).update(`${timestamp}.${init.body}`).digest('hex');
+      expect(init.headers['X-MyndHyve-Signature']).toBe(`sha256=${expected}`);
+      expect(init.headers['X-MyndHyve-Delivery']).toBe('run-1');
+    });
+
+    it('retries transient failures', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(200));
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toEqual({ mode: 'webhook', success: true, attempts: 3 });
+    });
+
+    it('gives up after the retry budget', async () => {
+      fetchMock.mockResolvedValue(response(500));
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toMatchObject({ success: false, attempts: 4, error: expect.stringContaining('500') });
+    });
+
+    it('does not retry client errors', async () => {
+      fetchMock.mockResolvedValue(response(404));
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toMatchObject({ success: false, attempts: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('relay', () => {
+    const job = { delivery: { mode: 'relay' as const, channel: 'whatsapp' as const, to: '+15551234567' } };
+
+    it('queues an egress envelope in the local relay outbox', async () => {
+      mockQueueOutboxMessage.mockResolvedValueOnce('out-1');
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toEqual({ mode: 'relay', success: true, attempts: 1, messageId: 'out-1' });
+      expect(mockQueueOutboxMessage).toHaveBeenCalledWith(
+        { channel: 'whatsapp', conversationId: '+15551234567', text: formatRelayText(run) },
+      );
+    });
+
+    it('fails without retrying when no device is set up for the channel', async () => {
+      const result = await deliverRunResult({ delivery: { ...job.delivery, channel: 'signal' } }, run, noDelay);
+
+      expect(result).toMatchObject({ success: false, attempts: 1, error: expect.stringContaining('No signal device') });
+      expect(mockQueueOutboxMessage).not.toHaveBeenCalled();
+    });
+
+    it('retries when the outbox cannot be written', async () => {
+      mockQueueOutboxMessage
+        .mockRejectedValueOnce(new Error('EAGAIN: resource temporarily unavailable'))
+        .mockResolvedValueOnce('out-2');
+
+      const result = await deliverRunResult(job, run, noDelay);
+      expect(result).toMatchObject({ success: true, attempts: 2 });
+    });
+  });
+});
+
+describe('formatRelayText', () => {
+  it('summarizes the result or error', () => {
+    expect(formatRelayText(run)).toBe('Daily report: succeeded\n\nWorkflow run wr-1 created');
+    expect(formatRelayText({ ...run, status: 'failed', result: undefined, error: { code: 'E1', message: 'boom' } }))
+      .toBe('Daily report: failed\n\nE1: boom');
+  });
+});
+
+describe('getWebhookSecret', () => {
+  it('creates the secret once with owner-only permissions', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cron-secret-'));
+    mockGetCronDir.mockReturnValue(dir);
+    try {
+      const secret = getWebhookSecret();
+      expect(secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(getWebhookSecret()).toBe(secret);
+      expect(statSync(join(dir, 'webhook-secret')).mode & 0o777).toBe(0o600);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import {
+  applyUpstream,
+  buildDependencyForest,
+  findDependencyCycle,
+  getDependents,
+  renderUpstreamTemplate,
+} from '../dependencies.js';
+import type { CronJob, UpstreamResult } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function makeCronJob(overrides: Partial<CronJob> = {}): CronJob {
+  return {
+    jobId: 'job-test123',
+    name: 'Test Job',
+    enabled: true,
+    schedule: { kind: 'cron', expr: '0 9 * * *' },
+    action: { type: 'workflow', workflowId: 'wf-1', canvasTypeId: 'campaign-studio' },
+    createdAt: '2026-03-07T00:00:00.000Z',
+    updatedAt: '2026-03-07T00:00:00.000Z',
+    consecutiveFailures: 0,
+    ...overrides,
+  };
+}
+
+function dependentJob(jobId: string, afterId: string, on?: 'success' | 'failure' | 'always'): CronJob {
+  return makeCronJob({ jobId, name: jobId, schedule: { kind: 'after', after: afterId, on } });
+}
+
+const upstream: UpstreamResult = {
+  jobId: 'job-a',
+  jobName: 'Fetch leads',
+  runId: 'run-1',
+  status: 'success',
+  result: '42 new leads',
+};
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('getDependents', () => {
+  const jobs = [
+    makeCronJob({ jobId: 'job-a' }),
+    dependentJob('job-ok', 'job-a'),
+    dependentJob('job-fail', 'job-a', 'failure'),
+    dependentJob('job-always', 'job-a', 'always'),
+    { ...dependentJob('job-off', 'job-a'), enabled: false },
+    dependentJob('job-other', 'job-b'),
+  ];
+
+  it('returns enabled dependents that trigger on the outcome', () => {
+    expect(getDependents(jobs, 'job-a', 'success').map((j) => j.jobId)).toEqual(['job-ok', 'job-always']);
+    expect(getDependents(jobs, 'job-a', 'failed').map((j) => j.jobId)).toEqual(['job-fail', 'job-always']);
+  });
+});
+
+describe('findDependencyCycle', () => {
+  const jobs = [makeCronJob({ jobId: 'job-a' }), dependentJob('job-b', 'job-a'), dependentJob('job-c', 'job-b')];
+
+  it('returns the cycle a new dependency would create', () => {
+    expect(findDependencyCycle(jobs, 'job-a', 'job-c')).toEqual(['job-a', 'job-c', 'job-b', 'job-a']);
+    expect(findDependencyCycle(jobs, 'job-a', 'job-a')).toEqual(['job-a', 'job-a']);
+  });
+
+  it('returns null for an acyclic dependency', () => {
+    expect(findDependencyCycle(jobs, 'job-d', 'job-c')).toBeNull();
+  });
+});
+
+describe('buildDependencyForest', () => {
+  it('roots trees at upstream jobs and leaves unrelated jobs out', () => {
+    const jobs = [
+      makeCronJob({ jobId: 'job-a' }),
+      dependentJob('job-b', 'job-a'),
+      dependentJob('job-c', 'job-b'),
+      dependentJob('job-d', 'job-a', 'failure'),
+      makeCronJob({ jobId: 'job-lonely' }),
+    ];
+
+    const forest = buildDependencyForest(jobs);
+
+    expect(forest).toHaveLength(1);
+    expect(forest[0].job.jobId).toBe('job-a');
+    expect(forest[0].children.map((n) => n.job.jobId)).toEqual(['job-b', 'job-d']);
+    expect(forest[0].children[0].children.map((n) => n.job.jobId)).toEqual(['job-c']);
+  });
+});
+
+describe('applyUpstream', () => {
+  it('renders placeholders', () => {
+    expect(renderUpstreamTemplate('{{upstream.jobName}}: {{ upstream.result }} {{upstream.error}}', upstream))
+      .toBe('Fetch leads: 42 new leads ');
+  });
+
+  it('appends the result to agent messages without placeholders', () => {
+    const action = applyUpstream({ type: 'agent', agentId: 'agent-1', message: 'Write a summary.' }, upstream);
+    expect(action).toMatchObject({
+      message: 'Write a summary.\n\nResult of "Fetch leads" (success):\n42 new leads',
+    });
+  });
+
+  it('renders placeholders in http bodies', () => {
+    const action = applyUpstream(
+      { type: 'http', url: 'https://hooks.test', method: 'POST', body: '{"status":"{{upstream.status}}"}' },
+      upstream,
+    );
+    expect(action).toMatchObject({ body: '{"status":"success"}' });
+  });
+
+  it('JSON-escapes values in JSON bodies', () => {
+    const multiline = { ...upstream, result: 'line 1\n"quoted"' };
+    const json = applyUpstream(
+      { type: 'http', url: 'https://hooks.test', method: 'POST', body: '{"text":"{{upstream.result}}"}' },
+      multiline,
+    );
+    expect(JSON.parse((json as { body: string }).body)).toEqual({ text: 'line 1\n"quoted"' });
+
+    const plain = applyUpstream(
+      {
+        type: 'http',
+        url: 'https://hooks.test',
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: 'Result: {{upstream.result}}',
+      },
+      multiline,
+    );
+    expect(plain).toMatchObject({ body: 'Result: line 1\n"quoted"' });
+  });
+});
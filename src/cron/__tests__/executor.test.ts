@@ -5,15 +5,27 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 const {
   mockLoadCredentials,
   mockCreateRun,
+  mockGetRun,
+  mockListArtifacts,
   mockGetAgent,
   mockListCrmEntities,
   mockExecSync,
+  mockGetSystemPrompt,
+  mockCreateSession,
+  mockSendMessage,
+  mockLoadConversation,
 } = vi.hoisted(() => ({
   mockLoadCredentials: vi.fn(),
   mockCreateRun: vi.fn(),
+  mockGetRun: vi.fn(),
+  mockListArtifacts: vi.fn(),
   mockGetAgent: vi.fn(),
   mockListCrmEntities: vi.fn(),
   mockExecSync: vi.fn(),
+  mockGetSystemPrompt: vi.fn(),
+  mockCreateSession: vi.fn(),
+  mockSendMessage: vi.fn(),
+  mockLoadConversation: vi.fn(),
 }));
 
 vi.mock('../../auth/credentials.js', () => ({
@@ -22,12 +34,32 @@ vi.mock('../../auth/credentials.js', () => ({
 
 vi.mock('../../api/workflows.js', () => ({
   createRun: (...args: unknown[]) => mockCreateRun(...args),
+  getRun: (...args: unknown[]) => mockGetRun(...args),
+  listArtifacts: (...args: unknown[]) => mockListArtifacts(...args),
+}));
+
+vi.mock('@myndhyve/wop', () => ({
+  isTerminalRunStatus: (status: string) => ['completed', 'failed', 'cancelled'].includes(status),
+}));
+
+vi.mock('../../utils/backoff.js', () => ({
+  sleep: () => Promise.resolve(),
 }));
 
 vi.mock('../../api/agents.js', () => ({
   getAgent: (...args: unknown[]) => mockGetAgent(...args),
 }));
 
+vi.mock('../../api/prompts.js', () => ({
+  getSystemPrompt: (...args: unknown[]) => mockGetSystemPrompt(...args),
+}));
+
+vi.mock('../../chat/index.js', () => ({
+  createSession: (...args: unknown[]) => mockCreateSession(...args),
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+  loadConversation: (...args: unknown[]) => mockLoadConversation(...args),
+}));
+
 vi.mock('../../api/crm.js', () => ({
   listCrmEntities: (...args: unknown[]) => mockListCrmEntities(...args),
   CRM_COLLECTIONS: ['contacts', 'deals', 'tasks'],
@@ -48,8 +80,8 @@ vi.mock('../../utils/logger.js', () => ({
 
 // ── Import SUT ────────────────────────────────────────────────────────────────
 
-import { executeAction } from '../executor.js';
-import type { SchedulerConfig, JobAction } from '../types.js';
+import { classifyError, executeAction, HttpActionError, WorkflowRunError } from '../executor.js';
+import type { SchedulerConfig, JobAction, UpstreamResult } from '../types.js';
 import { DEFAULT_SCHEDULER_CONFIG } from '../types.js';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -63,9 +95,15 @@ describe('CronExecutor', () => {
   beforeEach(() => {
     mockLoadCredentials.mockReset();
     mockCreateRun.mockReset();
+    mockGetRun.mockReset();
+    mockListArtifacts.mockReset();
     mockGetAgent.mockReset();
     mockListCrmEntities.mockReset();
     mockExecSync.mockReset();
+    mockGetSystemPrompt.mockReset();
+    mockCreateSession.mockReset();
+    mockSendMessage.mockReset();
+    mockLoadConversation.mockReset();
 
     mockLoadCredentials.mockReturnValue({ uid: 'user-123' });
   });
@@ -106,14 +144,117 @@ describe('CronExecutor', () => {
         'wf-1',
         { triggerType: 'schedule', inputData: { key: 'val' } },
       );
+      expect(mockGetRun).not.toHaveBeenCalled();
+    });
+
+    describe('with wait', () => {
+      const action: JobAction = {
+        type: 'workflow',
+        workflowId: 'wf-1',
+        canvasTypeId: 'campaign-studio',
+        wait: true,
+      };
+
+      beforeEach(() => {
+        mockCreateRun.mockResolvedValue({ id: 'run-xyz', status: 'pending' });
+        mockListArtifacts.mockResolvedValue([]);
+      });
+
+      it('polls until the run completes and reports its artifacts', async () => {
+        mockGetRun
+          .mockResolvedValueOnce({ id: 'run-xyz', status: 'running' })
+          .mockRejectedValueOnce(new Error('socket hang up'))
+          .mockResolvedValueOnce({ id: 'run-xyz', status: 'completed', durationMs: 4200 });
+        mockListArtifacts.mockResolvedValue([
+          { id: 'art-1', runId: 'run-xyz', name: 'Weekly PRD', type: 'prd' },
+        ]);
+        const onWorkflowRun = vi.fn();
+
+        const result = await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { onWorkflowRun });
+
+        expect(result).toBe('Workflow run run-xyz completed (1 artifact)');
+        expect(mockGetRun).toHaveBeenCalledTimes(3);
+        expect(mockGetRun).toHaveBeenCalledWith('user-123', 'campaign-studio', 'run-xyz');
+        expect(onWorkflowRun).toHaveBeenCalledWith({
+          runId: 'run-xyz',
+          status: 'completed',
+          durationMs: 4200,
+          artifacts: [{ id: 'art-1', name: 'Weekly PRD', type: 'prd' }],
+        });
+      });
+
+      it('fails without retry classification when the run fails', async () => {
+        mockGetRun.mockResolvedValue({
+          id: 'run-xyz',
+          status: 'failed',
+          error: { code: 'node_error', message: 'Node "draft" crashed', nodeId: 'draft' },
+        });
+        const onWorkflowRun = vi.fn();
+
+        const error = await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { onWorkflowRun })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(WorkflowRunError);
+        expect((error as WorkflowRunError).code).toBe('WORKFLOW_FAILED');
+        expect((error as Error).message).toBe('Workflow run run-xyz failed: Node "draft" crashed');
+        expect(classifyError(error)).toBe('unknown');
+        expect(onWorkflowRun.mock.calls[0][0]).toMatchObject({ status: 'failed', error: { nodeId: 'draft' } });
+      });
+
+      it('keeps waiting through statuses it does not know', async () => {
+        mockGetRun
+          .mockResolvedValueOnce({ id: 'run-xyz', status: 'queued' })
+          .mockResolvedValueOnce({ id: 'run-xyz', status: 'resuming' })
+          .mockResolvedValueOnce({ id: 'run-xyz', status: 'completed' });
+
+        const result = await executeAction(action, DEFAULT_SCHEDULER_CONFIG);
+
+        expect(result).toBe('Workflow run run-xyz completed');
+        expect(mockGetRun).toHaveBeenCalledTimes(3);
+      });
+
+      it('gives up after the wait timeout', async () => {
+        mockGetRun.mockResolvedValue({ id: 'run-xyz', status: 'waiting-approval' });
+        const onWorkflowRun = vi.fn();
+
+        await expect(
+          executeAction({ ...action, waitTimeoutMs: 0 }, DEFAULT_SCHEDULER_CONFIG, { onWorkflowRun }),
+        ).rejects.toMatchObject({ code: 'WORKFLOW_WAIT_TIMEOUT' });
+        expect(onWorkflowRun).toHaveBeenCalledWith({ runId: 'run-xyz', status: 'waiting-approval' });
+        expect(mockListArtifacts).not.toHaveBeenCalled();
+      });
+
+      it('stops after repeated status read failures', async () => {
+        mockGetRun.mockRejectedValue(new Error('API error (503)'));
+
+        await expect(executeAction(action, DEFAULT_SCHEDULER_CONFIG)).rejects.toMatchObject({
+          code: 'WORKFLOW_WAIT_FAILED',
+        });
+        expect(mockGetRun).toHaveBeenCalledTimes(3);
+      });
     });
   });
 
   // ── Agent ─────────────────────────────────────────────────────────────
 
   describe('agent action', () => {
-    it('verifies agent exists and returns summary', async () => {
-      mockGetAgent.mockResolvedValue({ name: 'My Agent' });
+    const agent = {
+      name: 'Briefing Agent',
+      canvasTypeId: 'campaign-studio',
+      systemPromptId: 'prompt-briefing',
+      model: { provider: 'anthropic', modelId: 'claude-sonnet-4-20250514', temperature: 0.3 },
+    };
+
+    function makeSession() {
+      return { sessionId: 'chat-new', messages: [], createdAt: '2026-03-08T09:00:00.000Z' };
+    }
+
+    it('runs a turn with the agent prompt and model and returns the full reply', async () => {
+      const reply = 'Good morning. '.repeat(100);
+      mockGetAgent.mockResolvedValue(agent);
+      mockGetSystemPrompt.mockResolvedValue({ templateText: 'You write briefings.' });
+      mockCreateSession.mockResolvedValue(makeSession());
+      mockSendMessage.mockResolvedValue(reply);
 
       const action: JobAction = {
         type: 'agent',
@@ -121,10 +262,69 @@ describe('CronExecutor', () => {
         message: 'Run daily report',
       };
 
-      const result = await executeAction(action, DEFAULT_SCHEDULER_CONFIG);
+      const result = await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { jobId: 'job-1' });
+
+      expect(result).toBe(reply);
+      expect(mockCreateSession).toHaveBeenCalledWith({
+        canvasTypeId: 'campaign-studio',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        temperature: 0.3,
+        systemPrompt: 'You write briefings.',
+      });
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'chat-new' }),
+        'Run daily report',
+        {},
+        { persist: false, timeoutMs: 300_000 },
+      );
+      expect(mockLoadConversation).not.toHaveBeenCalled();
+    });
 
-      expect(result).toContain('agent-1');
-      expect(result).toContain('Run daily report');
+    it('continues the job conversation when persistent', async () => {
+      mockGetAgent.mockResolvedValue({ ...agent, systemPromptId: '' });
+      mockCreateSession.mockResolvedValue(makeSession());
+      mockLoadConversation.mockReturnValue({
+        messages: [{ role: 'assistant', content: 'Yesterday', timestamp: '2026-03-07T09:00:00.000Z' }],
+        createdAt: '2026-03-01T09:00:00.000Z',
+      });
+      mockSendMessage.mockResolvedValue('Today');
+
+      const action: JobAction = {
+        type: 'agent',
+        agentId: 'agent-1',
+        message: 'What changed?',
+        model: 'claude-opus',
+        persistentConversation: true,
+      };
+
+      await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { jobId: 'job-1' });
+
+      expect(mockCreateSession).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude-opus', systemPrompt: undefined }),
+      );
+      expect(mockLoadConversation).toHaveBeenCalledWith('cron-job-1');
+      expect(mockSendMessage.mock.calls[0][0]).toMatchObject({
+        sessionId: 'cron-job-1',
+        messages: [{ content: 'Yesterday' }],
+        createdAt: '2026-03-01T09:00:00.000Z',
+      });
+      expect(mockSendMessage.mock.calls[0][3]).toMatchObject({ persist: true });
+    });
+
+    it('propagates stream errors', async () => {
+      mockGetAgent.mockResolvedValue(agent);
+      mockGetSystemPrompt.mockResolvedValue(null);
+      mockCreateSession.mockResolvedValue(makeSession());
+      mockSendMessage.mockRejectedValue(
+        Object.assign(new Error('Rate limit exceeded'), { code: 'RATE_LIMITED', statusCode: 429 }),
+      );
+
+      const action: JobAction = { type: 'agent', agentId: 'agent-1', message: 'Hi' };
+      const error = await executeAction(action, DEFAULT_SCHEDULER_CONFIG).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(classifyError(error)).toBe('rate_limit');
     });
 
     it('throws when agent not found', async () => {
@@ -230,6 +430,7 @@ describe('CronExecutor', () => {
         ok: true,
         status: 200,
         statusText: 'OK',
+        text: vi.fn().mockResolvedValue(''),
       };
       vi.stubGlobal('fetch', vi.fn().mockResolvedValue(mockResponse));
 
@@ -246,6 +447,25 @@ describe('CronExecutor', () => {
       vi.unstubAllGlobals();
     });
 
+    it('includes the response body after the summary', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: vi.fn().mockResolvedValue('{"count":3}\n'),
+      };
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(mockResponse));
+
+      const action: JobAction = { type: 'http', url: 'https://api.example.com/stats', method: 'GET' };
+
+      const onHttpResponse = vi.fn();
+      const result = await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { onHttpResponse });
+      expect(result).toBe('HTTP GET https://api.example.com/stats → 200 OK\n\n{"count":3}');
+      expect(onHttpResponse).toHaveBeenCalledWith('{"count":3}\n');
+
+      vi.unstubAllGlobals();
+    });
+
     it('throws on non-ok response', async () => {
       const mockResponse = {
         ok: false,
@@ -267,5 +487,101 @@ describe('CronExecutor', () => {
 
       vi.unstubAllGlobals();
     });
+
+    it('carries the response status on failure', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        text: vi.fn().mockResolvedValue(''),
+      }));
+
+      const action: JobAction = { type: 'http', url: 'https://api.example.com/busy', method: 'GET' };
+      const error = await executeAction(action, DEFAULT_SCHEDULER_CONFIG).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpActionError);
+      expect((error as HttpActionError).statusCode).toBe(429);
+
+      vi.unstubAllGlobals();
+    });
+  });
+
+  // ── Error classification ──────────────────────────────────────────────
+
+  // ── Upstream ──────────────────────────────────────────────────────────
+
+  describe('upstream result', () => {
+    const upstream: UpstreamResult = {
+      jobId: 'job-fetch',
+      jobName: 'Fetch leads',
+      runId: 'run-1',
+      status: 'success',
+      result: '42 new leads',
+    };
+
+    it('passes the upstream result as workflow input', async () => {
+      mockCreateRun.mockResolvedValue({ id: 'run-xyz', status: 'queued' });
+
+      const action: JobAction = { type: 'workflow', workflowId: 'wf-1', canvasTypeId: 'lp', input: { key: 'val' } };
+      await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { upstream });
+
+      expect(mockCreateRun).toHaveBeenCalledWith('user-123', 'lp', 'wf-1', {
+        triggerType: 'schedule',
+        inputData: { key: 'val', upstream },
+      });
+    });
+
+    it('fills placeholders in the agent message', async () => {
+      mockGetAgent.mockResolvedValue({ name: 'A', canvasTypeId: 'lp', systemPromptId: '', model: { provider: 'anthropic', modelId: 'm' } });
+      mockCreateSession.mockResolvedValue({ sessionId: 'chat-new', messages: [], createdAt: '2026-03-08T09:00:00.000Z' });
+      mockSendMessage.mockResolvedValue('ok');
+
+      const action: JobAction = { type: 'agent', agentId: 'agent-1', message: 'Summarize: {{upstream.result}}' };
+      await executeAction(action, DEFAULT_SCHEDULER_CONFIG, { upstream });
+
+      expect(mockSendMessage.mock.calls[0][1]).toBe('Summarize: 42 new leads');
+    });
+
+    it('exposes the upstream result to shell commands as environment variables', async () => {
+      mockExecSync.mockReturnValue('done\n');
+
+      const action: JobAction = { type: 'shell', command: 'notify.sh' };
+      await executeAction(action, configWithShell, { upstream });
+
+      expect(mockExecSync.mock.calls[0][0]).toBe('notify.sh');
+      expect(mockExecSync.mock.calls[0][1].env).toMatchObject({
+        MYNDHYVE_UPSTREAM_JOB_ID: 'job-fetch',
+        MYNDHYVE_UPSTREAM_STATUS: 'success',
+        MYNDHYVE_UPSTREAM_RESULT: '42 new leads',
+      });
+    });
+  });
+
+  describe('classifyError', () => {
+    function apiError(code: string, statusCode?: number): Error {
+      return Object.assign(new Error('API error'), { name: 'APIClientError', code, statusCode });
+    }
+
+    it('classifies by status code', () => {
+      expect(classifyError(new HttpActionError('busy', 429))).toBe('rate_limit');
+      expect(classifyError(new HttpActionError('down', 503))).toBe('server_error');
+      expect(classifyError(new HttpActionError('gone', 404))).toBe('client_error');
+      expect(classifyError(apiError('API_ERROR', 502))).toBe('server_error');
+      expect(classifyError(apiError('FORBIDDEN', 403))).toBe('auth');
+    });
+
+    it('classifies network failures', () => {
+      expect(classifyError(apiError('NETWORK_ERROR'))).toBe('network');
+      expect(classifyError(apiError('TIMEOUT'))).toBe('network');
+      expect(classifyError(new DOMException('The operation timed out.', 'TimeoutError'))).toBe('network');
+      expect(classifyError(new TypeError('fetch failed', {
+        cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+      }))).toBe('network');
+    });
+
+    it('falls back to unknown', () => {
+      expect(classifyError(new Error('Agent "a-1" not found'))).toBe('unknown');
+      expect(classifyError('boom')).toBe('unknown');
+    });
   });
 });
@@ -53,6 +53,7 @@ import {
   getRunsDir,
   generateRunId,
   appendRun,
+  recordDelivery,
   listRuns,
   getLastRun,
   pruneRunLog,
@@ -145,6 +146,34 @@ describe('CronHistory', () => {
     });
   });
 
+  // ── recordDelivery ────────────────────────────────────────────────────
+
+  describe('recordDelivery', () => {
+    const delivery = { mode: 'webhook', success: true, attempts: 1 };
+
+    it('adds the outcome to the finished record of the run', () => {
+      const lines = [
+        makeRunRecord({ runId: 'run-1', status: 'started' }),
+        makeRunRecord({ runId: 'run-1', status: 'success' }),
+        makeRunRecord({ runId: 'run-2', status: 'started' }),
+      ].map((r) => JSON.stringify(r));
+      mockReadFileSync.mockReturnValue(lines.join('\n') + '\n');
+
+      recordDelivery('job-test123', 'run-1', delivery);
+
+      const written = (mockWriteFileSync.mock.calls[0][1] as string).trim().split('\n').map((l) => JSON.parse(l));
+      expect(written.map((r: RunRecord) => r.deliveryResult)).toEqual([undefined, delivery, undefined]);
+    });
+
+    it('leaves the file alone when the run is no longer there', () => {
+      mockReadFileSync.mockReturnValue(JSON.stringify(makeRunRecord({ runId: 'run-2' })) + '\n');
+
+      recordDelivery('job-test123', 'run-1', delivery);
+
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+    });
+  });
+
   // ── listRuns ──────────────────────────────────────────────────────────
 
   describe('listRuns', () => {
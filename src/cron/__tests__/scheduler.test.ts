@@ -4,6 +4,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 const {
   mockLoadJobs,
+  mockUpdateJob,
   mockUpdateJobRunState,
   mockRemoveJob,
   mockGetJob,
@@ -11,9 +12,12 @@ const {
   mockExecuteAction,
   mockAppendRun,
   mockGenerateRunId,
+  mockRecordDelivery,
+  mockDeliverRunResult,
   mockWatch,
 } = vi.hoisted(() => ({
   mockLoadJobs: vi.fn(),
+  mockUpdateJob: vi.fn(),
   mockUpdateJobRunState: vi.fn(),
   mockRemoveJob: vi.fn(),
   mockGetJob: vi.fn(),
@@ -21,24 +25,37 @@ const {
   mockExecuteAction: vi.fn(),
   mockAppendRun: vi.fn(),
   mockGenerateRunId: vi.fn(),
+  mockRecordDelivery: vi.fn(),
+  mockDeliverRunResult: vi.fn(),
   mockWatch: vi.fn(),
 }));
 
 vi.mock('../store.js', () => ({
   loadJobs: () => mockLoadJobs(),
+  updateJob: (...args: unknown[]) => mockUpdateJob(...args),
   updateJobRunState: (...args: unknown[]) => mockUpdateJobRunState(...args),
   removeJob: (...args: unknown[]) => mockRemoveJob(...args),
   getJob: (...args: unknown[]) => mockGetJob(...args),
   getJobsFilePath: () => mockGetJobsFilePath(),
 }));
 
-vi.mock('../executor.js', () => ({
-  executeAction: (...args: unknown[]) => mockExecuteAction(...args),
-}));
+vi.mock('../executor.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../executor.js')>();
+  return {
+    classifyError: actual.classifyError,
+    MAX_HTTP_BODY_CHARS: actual.MAX_HTTP_BODY_CHARS,
+    executeAction: (...args: unknown[]) => mockExecuteAction(...args),
+  };
+});
 
 vi.mock('../history.js', () => ({
   appendRun: (...args: unknown[]) => mockAppendRun(...args),
   generateRunId: () => mockGenerateRunId(),
+  recordDelivery: (...args: unknown[]) => mockRecordDelivery(...args),
+}));
+
+vi.mock('../delivery.js', () => ({
+  deliverRunResult: (...args: unknown[]) => mockDeliverRunResult(...args),
 }));
 
 vi.mock('node:fs', () => ({
@@ -95,6 +112,7 @@ describe('Scheduler', () => {
 
   beforeEach(() => {
     mockLoadJobs.mockReset();
+    mockUpdateJob.mockReset();
     mockUpdateJobRunState.mockReset();
     mockRemoveJob.mockReset();
     mockGetJob.mockReset();
@@ -102,11 +120,14 @@ describe('Scheduler', () => {
     mockExecuteAction.mockReset();
     mockAppendRun.mockReset();
     mockGenerateRunId.mockReset();
+    mockRecordDelivery.mockReset();
+    mockDeliverRunResult.mockReset();
     mockWatch.mockReset();
 
     mockLoadJobs.mockReturnValue([]);
     mockGetJobsFilePath.mockReturnValue('/tmp/jobs.json');
     mockGenerateRunId.mockReturnValue('run-test-abc');
+    mockDeliverRunResult.mockResolvedValue(undefined);
     mockWatch.mockReturnValue({ unref: vi.fn(), close: vi.fn() });
     cronCallbacks.clear();
 
@@ -267,6 +288,83 @@ describe('Scheduler', () => {
       );
     });
 
+    it('records the finished run before delivering, then adds the outcome', async () => {
+      const expr = '0 12 * * *';
+      const job = makeCronJob({
+        schedule: { kind: 'cron', expr },
+        delivery: { mode: 'webhook', webhookUrl: 'https://hooks.test/cron' },
+      });
+      let finishDelivery: (value: unknown) => void = () => {};
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockResolvedValue('done');
+      mockDeliverRunResult.mockReturnValue(new Promise((resolve) => { finishDelivery = resolve; }));
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+      await vi.waitFor(() => expect(mockDeliverRunResult).toHaveBeenCalled());
+
+      expect(mockDeliverRunResult).toHaveBeenCalledWith(job, expect.objectContaining({ status: 'success', result: 'done' }));
+      expect(mockAppendRun).toHaveBeenCalledTimes(2);
+      expect(mockAppendRun.mock.calls[1][0]).toMatchObject({ status: 'success', result: 'done' });
+      expect(mockRecordDelivery).not.toHaveBeenCalled();
+
+      finishDelivery({ mode: 'webhook', success: true, attempts: 1 });
+      await vi.waitFor(() => expect(mockRecordDelivery).toHaveBeenCalled());
+      expect(mockRecordDelivery).toHaveBeenCalledWith(
+        job.jobId,
+        'run-test-abc',
+        { mode: 'webhook', success: true, attempts: 1 },
+      );
+    });
+
+    it('delivers the full result outside the concurrency slot', async () => {
+      const expr = '0 21 * * *';
+      const job = makeCronJob({
+        schedule: { kind: 'cron', expr },
+        delivery: { mode: 'webhook', webhookUrl: 'https://hooks.test/cron' },
+      });
+      const output = 'x'.repeat(2000);
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockResolvedValue(output);
+      mockDeliverRunResult.mockReturnValue(new Promise(() => {}));
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+      await vi.waitFor(() => expect(mockDeliverRunResult).toHaveBeenCalled());
+
+      expect(mockDeliverRunResult.mock.calls[0][1].result).toBe(output);
+      expect(scheduler.getStatus().activeRuns).toBe(0);
+      expect(mockAppendRun.mock.calls[1][0].result).toHaveLength(503);
+    });
+
+    it('waits for deliveries in flight when stopped', async () => {
+      const expr = '0 22 * * *';
+      const job = makeCronJob({
+        schedule: { kind: 'cron', expr },
+        delivery: { mode: 'webhook', webhookUrl: 'https://hooks.test/cron' },
+      });
+      let finishDelivery: (value: unknown) => void = () => {};
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockResolvedValue('done');
+      mockDeliverRunResult.mockReturnValue(new Promise((resolve) => { finishDelivery = resolve; }));
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+      await vi.waitFor(() => expect(mockDeliverRunResult).toHaveBeenCalled());
+
+      let stopped = false;
+      const stopping = scheduler.stop().then(() => { stopped = true; });
+      await Promise.resolve();
+      expect(stopped).toBe(false);
+
+      finishDelivery({ mode: 'webhook', success: false, error: 'HTTP 500', attempts: 4 });
+      await stopping;
+      expect(mockRecordDelivery).toHaveBeenCalledWith(job.jobId, 'run-test-abc', expect.objectContaining({ success: false }));
+    });
+
     it('skips execution when max concurrent runs reached', async () => {
       const expr = '0 11 * * *';
       const job = makeCronJob({ schedule: { kind: 'cron', expr } });
@@ -297,6 +395,219 @@ describe('Scheduler', () => {
       scheduler1Run.stop();
     });
 
+    it('keeps agent replies whole in run history', async () => {
+      const expr = '0 16 * * *';
+      const job = makeCronJob({
+        schedule: { kind: 'cron', expr },
+        action: { type: 'agent', agentId: 'agent-1', message: 'Morning briefing' },
+      });
+      const reply = 'x'.repeat(2000);
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockResolvedValue(reply);
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      expect(mockExecuteAction).toHaveBeenCalledWith(
+        job.action,
+        expect.anything(),
+        expect.objectContaining({ jobId: job.jobId }),
+      );
+      expect(mockAppendRun.mock.calls[1][0].result).toBe(reply);
+    });
+
+    it('records the workflow run outcome reported by the action', async () => {
+      const expr = '0 17 * * *';
+      const job = makeCronJob({ schedule: { kind: 'cron', expr } });
+      const outcome = { runId: 'wr-1', status: 'failed', error: { code: 'node_error', message: 'boom' } };
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockImplementation(async (_action, _config, context) => {
+        context.onWorkflowRun(outcome);
+        throw Object.assign(new Error('Workflow run wr-1 failed: boom'), { code: 'WORKFLOW_FAILED' });
+      });
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      expect(mockAppendRun.mock.calls[1][0]).toMatchObject({
+        status: 'failed',
+        error: { code: 'WORKFLOW_FAILED', category: 'unknown' },
+        workflowRun: outcome,
+      });
+      expect(mockExecuteAction).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs dependent jobs with the upstream result', async () => {
+      const expr = '0 18 * * *';
+      const upstreamJob = makeCronJob({ jobId: 'job-a', name: 'Fetch', schedule: { kind: 'cron', expr } });
+      const onSuccess = makeCronJob({ jobId: 'job-b', name: 'Report', schedule: { kind: 'after', after: 'job-a' } });
+      const onFailure = makeCronJob({ jobId: 'job-c', schedule: { kind: 'after', after: 'job-a', on: 'failure' } });
+      const jobs = [upstreamJob, onSuccess, onFailure];
+      mockGetJob.mockImplementation((id: string) => jobs.find((j) => j.jobId === id));
+      mockExecuteAction.mockResolvedValueOnce('42 new leads').mockResolvedValueOnce('sent');
+
+      mockLoadJobs.mockReturnValue(jobs);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      await vi.waitFor(() => expect(mockAppendRun).toHaveBeenCalledTimes(4));
+      expect(mockExecuteAction).toHaveBeenCalledTimes(2);
+      const upstreamRunId = mockAppendRun.mock.calls[1][0].runId;
+      expect(mockExecuteAction.mock.calls[1][2]).toMatchObject({
+        jobId: 'job-b',
+        upstream: { jobId: 'job-a', jobName: 'Fetch', runId: upstreamRunId, status: 'success', result: '42 new leads' },
+      });
+      expect(mockAppendRun.mock.calls[3][0]).toMatchObject({
+        jobId: 'job-b',
+        status: 'success',
+        triggeredBy: { jobId: 'job-a', runId: upstreamRunId },
+      });
+    });
+
+    it('hands dependents the raw body of an HTTP response', async () => {
+      const expr = '0 20 * * *';
+      const upstreamJob = makeCronJob({
+        jobId: 'job-a',
+        schedule: { kind: 'cron', expr },
+        action: { type: 'http', url: 'https://api.test/stats', method: 'GET' },
+      });
+      const dependent = makeCronJob({ jobId: 'job-b', schedule: { kind: 'after', after: 'job-a' } });
+      const jobs = [upstreamJob, dependent];
+      mockGetJob.mockImplementation((id: string) => jobs.find((j) => j.jobId === id));
+      mockExecuteAction
+        .mockImplementationOnce(async (_action, _config, context) => {
+          context.onHttpResponse('{"count":3}');
+          return 'HTTP GET https://api.test/stats → 200 OK\n\n{"count":3}';
+        })
+        .mockResolvedValueOnce('ok');
+
+      mockLoadJobs.mockReturnValue(jobs);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      await vi.waitFor(() => expect(mockExecuteAction).toHaveBeenCalledTimes(2));
+      expect(mockExecuteAction.mock.calls[1][2].upstream.result).toBe('{"count":3}');
+    });
+
+    it('caps the upstream output handed to dependents', async () => {
+      const expr = '0 23 * * *';
+      const upstreamJob = makeCronJob({
+        jobId: 'job-a',
+        schedule: { kind: 'cron', expr },
+        action: { type: 'http', url: 'https://api.test/export', method: 'GET' },
+      });
+      const dependent = makeCronJob({ jobId: 'job-b', schedule: { kind: 'after', after: 'job-a' } });
+      const jobs = [upstreamJob, dependent];
+      mockGetJob.mockImplementation((id: string) => jobs.find((j) => j.jobId === id));
+      mockExecuteAction
+        .mockImplementationOnce(async (_action, _config, context) => {
+          context.onHttpResponse('x'.repeat(200_000));
+          return 'HTTP GET https://api.test/export → 200 OK';
+        })
+        .mockResolvedValueOnce('ok');
+
+      mockLoadJobs.mockReturnValue(jobs);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      await vi.waitFor(() => expect(mockExecuteAction).toHaveBeenCalledTimes(2));
+      expect(mockExecuteAction.mock.calls[1][2].upstream.result).toHaveLength(10_003);
+    });
+
+    it('does not follow dependency cycles', async () => {
+      const expr = '0 19 * * *';
+      const jobA = makeCronJob({ jobId: 'job-a', schedule: { kind: 'cron', expr } });
+      const jobB = makeCronJob({ jobId: 'job-b', schedule: { kind: 'after', after: 'job-a' } });
+      // job-a also runs after job-b — only possible by editing jobs.json by hand
+      const jobs = [jobA, jobB, { ...jobA, schedule: { kind: 'after' as const, after: 'job-b' } }];
+      mockGetJob.mockImplementation((id: string) => jobs.find((j) => j.jobId === id));
+      mockExecuteAction.mockResolvedValue('ok');
+
+      mockLoadJobs.mockReturnValue(jobs);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      await vi.waitFor(() => expect(mockAppendRun).toHaveBeenCalledTimes(4));
+      expect(mockExecuteAction).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries transient failures per the retry policy', async () => {
+      const expr = '0 13 * * *';
+      const job = makeCronJob({ schedule: { kind: 'cron', expr } });
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction
+        .mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { statusCode: 503 }))
+        .mockResolvedValueOnce('recovered');
+
+      const retrying = new Scheduler({
+        retry: { maxAttempts: 3, backoffMs: [0], retryOn: ['server_error'] },
+      });
+      mockLoadJobs.mockReturnValue([job]);
+      retrying.start();
+
+      await cronCallbacks.get(expr)!();
+      await vi.waitFor(() => expect(mockAppendRun).toHaveBeenCalledTimes(4));
+
+      const records = mockAppendRun.mock.calls.map((call) => call[0]);
+      expect(records.map((r) => [r.status, r.attempt])).toEqual([
+        ['started', 1],
+        ['failed', 1],
+        ['started', 2],
+        ['success', 2],
+      ]);
+      expect(records[1].error).toMatchObject({ category: 'server_error' });
+
+      // Only the final outcome updates job state
+      expect(mockUpdateJobRunState).toHaveBeenCalledTimes(1);
+      expect(mockUpdateJobRunState).toHaveBeenCalledWith(
+        job.jobId,
+        expect.objectContaining({ lastRunStatus: 'success', consecutiveFailures: 0 }),
+      );
+
+      retrying.stop();
+    });
+
+    it('does not retry errors outside retryOn', async () => {
+      const expr = '0 14 * * *';
+      const job = makeCronJob({ schedule: { kind: 'cron', expr } });
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockRejectedValue(Object.assign(new Error('Not found'), { statusCode: 404 }));
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      expect(mockExecuteAction).toHaveBeenCalledTimes(1);
+      expect(mockAppendRun.mock.calls[1][0]).toMatchObject({
+        status: 'failed',
+        attempt: 1,
+        error: { category: 'client_error' },
+      });
+      expect(mockUpdateJobRunState).toHaveBeenCalledWith(
+        job.jobId,
+        expect.objectContaining({ lastRunStatus: 'failed', consecutiveFailures: 1 }),
+      );
+    });
+
+    it('disables a job after too many consecutive failures', async () => {
+      const expr = '0 15 * * *';
+      const job = makeCronJob({ consecutiveFailures: 4, schedule: { kind: 'cron', expr } });
+      mockGetJob.mockReturnValue(job);
+      mockExecuteAction.mockRejectedValue(new Error('Agent not found'));
+
+      mockLoadJobs.mockReturnValue([job]);
+      scheduler.start();
+      await cronCallbacks.get(expr)!();
+
+      expect(mockUpdateJob).toHaveBeenCalledWith(job.jobId, {
+        enabled: false,
+        disabledReason: 'Disabled after 5 consecutive failures',
+      });
+      expect(scheduler.getStatus().jobCount).toBe(0);
+    });
+
     it('auto-deletes one-shot jobs after success', async () => {
       const expr = '0 12 * * *';
       const job = makeCronJob({ deleteAfterRun: true, schedule: { kind: 'cron', expr } });
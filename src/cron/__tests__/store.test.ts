@@ -239,6 +239,22 @@ describe('CronStore', () => {
       mockReadFileSync.mockReturnValue('[]');
       expect(() => updateJob('job-missing', { name: 'X' })).toThrow('Job not found: job-missing');
     });
+
+    it('clears the disable reason and failure count when re-enabled', () => {
+      const job = makeCronJob({
+        jobId: 'job-target',
+        enabled: false,
+        disabledReason: 'Disabled after 5 consecutive failures',
+        consecutiveFailures: 5,
+      });
+      mockReadFileSync.mockReturnValue(JSON.stringify([job]));
+
+      const updated = updateJob('job-target', { enabled: true });
+
+      expect(updated.enabled).toBe(true);
+      expect(updated.disabledReason).toBeUndefined();
+      expect(updated.consecutiveFailures).toBe(0);
+    });
   });
 
   // ── removeJob ─────────────────────────────────────────────────────────
@@ -122,10 +122,16 @@ export function getSchedulerPid(): number | null {
  *
  * @returns The child process PID.
  */
-export function spawnScheduler(options?: { allowShell?: boolean }): number {
+export function spawnScheduler(options?: {
+  allowShell?: boolean;
+  maxAttempts?: number;
+  disableAfter?: number;
+}): number {
   const entryPoint = process.argv[1];
   const args = ['cron', 'start', '--foreground'];
   if (options?.allowShell) args.push('--allow-shell');
+  if (options?.maxAttempts !== undefined) args.push('--max-attempts', String(options.maxAttempts));
+  if (options?.disableAfter !== undefined) args.push('--disable-after', String(options.disableAfter));
 
   const logFile = ensureSchedulerLogFile();
   const outFd = openSync(logFile, 'a');
@@ -0,0 +1,179 @@
+/**
+ * MyndHyve CLI — Cron Result Delivery
+ *
+ * Routes a job's outcome after each run according to `CronJob.delivery`:
+ *
+ * - webhook: POSTs a JSON payload signed with HMAC-SHA256. Receivers verify
+ *   `X-MyndHyve-Signature: sha256=<hex>` over `<timestamp>.<body>`, using
+ *   the secret in ~/.myndhyve-cli/cron/webhook-secret (`cron webhook-secret`).
+ * - relay: queues a ChatEgressEnvelope in the local relay outbox; the relay
+ *   running on this machine (`relay start`) sends it on its next poll.
+ *
+ * Transient failures (network errors, timeouts, 408/429/5xx) are retried
+ * with a short backoff. Delivery never throws — the outcome is returned for
+ * the run record.
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { sleep } from '../utils/backoff.js';
+import { createLogger } from '../utils/logger.js';
+import { getCronDir } from './store.js';
+import type { CronJob, JobDelivery, RunRecord } from './types.js';
+
+const log = createLogger('CronDelivery');
+
+/** Delays before each retry; attempts = delays + 1. */
+export const DELIVERY_RETRY_DELAYS_MS = [1_000, 5_000, 15_000];
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Relay messages are cut to stay readable on a phone. */
+const MAX_RELAY_TEXT = 1_500;
+
+export type DeliveryResult = NonNullable<RunRecord['deliveryResult']>;
+
+/** What gets delivered: the finished run. */
+export type DeliveryRun = Pick<
+  RunRecord,
+  'runId' | 'jobId' | 'jobName' | 'status' | 'startedAt' | 'endedAt' | 'durationMs' | 'actionType' | 'result' | 'error'
+>;
+
+/** A failure that may succeed on retry. */
+class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Deliver a finished run. Returns undefined when the job has no delivery
+ * configured (or mode is 'none').
+ */
+export async function deliverRunResult(
+  job: Pick<CronJob, 'delivery'>,
+  run: DeliveryRun,
+  options: { retryDelaysMs?: number[] } = {},
+): Promise<DeliveryResult | undefined> {
+  const delivery = job.delivery;
+  if (!delivery || delivery.mode === 'none') return undefined;
+
+  const retryDelaysMs = options.retryDelaysMs ?? DELIVERY_RETRY_DELAYS_MS;
+  let attempts = 0;
+
+  for (;;) {
+    attempts++;
+    try {
+      const messageId = delivery.mode === 'webhook'
+        ? await sendWebhook(delivery, run)
+        : await queueRelayMessage(delivery, run);
+
+      log.info('Delivered run result', { jobId: run.jobId, mode: delivery.mode, attempts });
+      return { mode: delivery.mode, success: true, attempts, ...(messageId ? { messageId } : {}) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = error instanceof DeliveryError ? error.retryable : true;
+
+      if (!retryable || attempts > retryDelaysMs.length) {
+        log.warn('Run result delivery failed', { jobId: run.jobId, mode: delivery.mode, attempts, error: message });
+        return { mode: delivery.mode, success: false, error: message, attempts };
+      }
+
+      log.debug('Delivery attempt failed, retrying', { jobId: run.jobId, attempts, error: message });
+      await sleep(retryDelaysMs[attempts - 1]);
+    }
+  }
+}
+
+// ============================================================================
+// WEBHOOK
+// ============================================================================
+
+/** Returns the webhook signing secret, generating it on first use. */
+export function getWebhookSecret(): string {
+  const secretPath = join(getCronDir(), 'webhook-secret');
+  if (existsSync(secretPath)) {
+    return readFileSync(secretPath, 'utf-8').trim();
+  }
+
+  const secret = randomBytes(32).toString('hex');
+  writeFileSync(secretPath, `${secret}\n`, { mode: 0o600 });
+  return secret;
+}
+
+/** Signature header value for a webhook body sent at `timestamp` (unix seconds). */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+async function sendWebhook(delivery: JobDelivery, run: DeliveryRun): Promise<undefined> {
+  if (!delivery.webhookUrl) {
+    throw new DeliveryError('Webhook delivery has no webhookUrl', false);
+  }
+
+  const body = JSON.stringify({ event: 'cron.run.completed', ...run });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  let response: Response;
+  try {
+    response = await fetch(delivery.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'myndhyve-cli-cron',
+        'X-MyndHyve-Event': 'cron.run.completed',
+        'X-MyndHyve-Delivery': run.runId,
+        'X-MyndHyve-Timestamp': timestamp,
+        'X-MyndHyve-Signature': signWebhookPayload(getWebhookSecret(), timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new DeliveryError(`Webhook request failed: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new DeliveryError(`Webhook returned ${response.status} ${response.statusText}`, retryable);
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// RELAY
+// ============================================================================
+
+async function queueRelayMessage(delivery: JobDelivery, run: DeliveryRun): Promise<string> {
+  const { loadConfig } = await import('../config/loader.js');
+  const config = loadConfig();
+  const channel = delivery.channel ?? config.channel;
+
+  if (!delivery.to) {
+    throw new DeliveryError('Relay delivery has no recipient (--to)', false);
+  }
+  if (!channel || !config.relayId || config.channel !== channel) {
+    throw new DeliveryError(
+      `No ${channel ?? 'relay'} device is set up on this machine. Run: myndhyve-cli relay setup`,
+      false,
+    );
+  }
+
+  const { queueOutboxMessage } = await import('../relay/outbox.js');
+  return await queueOutboxMessage({ channel, conversationId: delivery.to, text: formatRelayText(run) });
+}
+
+/** Plain-text summary of a run for messaging channels. */
+export function formatRelayText(run: DeliveryRun): string {
+  const header = `${run.jobName}: ${run.status === 'success' ? 'succeeded' : 'failed'}`;
+  const detail = run.error ? `${run.error.code}: ${run.error.message}` : run.result;
+  const text = detail ? `${header}\n\n${detail}` : header;
+  return text.length > MAX_RELAY_TEXT ? `${text.slice(0, MAX_RELAY_TEXT)}...` : text;
+}
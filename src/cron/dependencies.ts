@@ -0,0 +1,151 @@
+/**
+ * MyndHyve CLI — Cron Job Dependencies
+ *
+ * Jobs with an `after` schedule run when their upstream job finishes —
+ * on success, on failure, or always — instead of on a clock. The
+ * upstream result is fed into the downstream action:
+ *
+ * - workflow: merged into the run input as `upstream`
+ * - agent: `{{upstream.result}}` (and `.status`, `.error`, `.jobName`,
+ *   `.jobId`) placeholders in the message; without placeholders the
+ *   result is appended to the message
+ * - http: placeholders in the request body, JSON-escaped when the body is
+ *   JSON (a JSON Content-Type, or a body starting with `{` or `[`)
+ * - shell: MYNDHYVE_UPSTREAM_* environment variables (see executor)
+ */
+
+import type { CronJob, HttpAction, JobAction, JobSchedule, UpstreamResult } from './types.js';
+
+const UPSTREAM_PLACEHOLDER = /\{\{\s*upstream\.(jobId|jobName|runId|status|result|error)\s*\}\}/g;
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/** Whether an 'after' schedule fires for an upstream outcome. */
+export function triggersOn(schedule: JobSchedule, status: UpstreamResult['status']): boolean {
+  const on = schedule.on ?? 'success';
+  return on === 'always' || (on === 'success') === (status === 'success');
+}
+
+/** Enabled jobs that should run after `jobId` finished with `status`. */
+export function getDependents(jobs: CronJob[], jobId: string, status: UpstreamResult['status']): CronJob[] {
+  return jobs.filter(
+    (job) =>
+      job.enabled &&
+      job.schedule.kind === 'after' &&
+      job.schedule.after === jobId &&
+      triggersOn(job.schedule, status),
+  );
+}
+
+/**
+ * Returns the cycle (as job IDs, starting at `jobId`) that making `jobId`
+ * run after `afterId` would create, or null if there is none.
+ */
+export function findDependencyCycle(jobs: CronJob[], jobId: string, afterId: string): string[] | null {
+  const byId = new Map(jobs.map((job) => [job.jobId, job]));
+  const path = [jobId];
+  let current: string | undefined = afterId;
+
+  while (current) {
+    if (current === jobId) return [...path, jobId];
+    if (path.includes(current)) return null; // an existing cycle elsewhere
+    path.push(current);
+
+    const job = byId.get(current);
+    current = job?.schedule.kind === 'after' ? job.schedule.after : undefined;
+  }
+
+  return null;
+}
+
+/** A job and the jobs that run after it. */
+export interface DependencyNode {
+  job: CronJob;
+  children: DependencyNode[];
+}
+
+/**
+ * Build the dependency trees for display. Roots are jobs that others
+ * depend on but that don't depend on a known job themselves; jobs
+ * without dependencies in either direction are left out.
+ */
+export function buildDependencyForest(jobs: CronJob[]): DependencyNode[] {
+  const ids = new Set(jobs.map((job) => job.jobId));
+  const childrenOf = new Map<string, CronJob[]>();
+
+  for (const job of jobs) {
+    if (job.schedule.kind !== 'after' || !job.schedule.after) continue;
+    const siblings = childrenOf.get(job.schedule.after) ?? [];
+    siblings.push(job);
+    childrenOf.set(job.schedule.after, siblings);
+  }
+
+  const build = (job: CronJob, seen: Set<string>): DependencyNode => {
+    const next = new Set(seen).add(job.jobId);
+    const children = (childrenOf.get(job.jobId) ?? [])
+      .filter((child) => !next.has(child.jobId))
+      .map((child) => build(child, next));
+    return { job, children };
+  };
+
+  return jobs
+    .filter((job) => {
+      const hasKnownUpstream = job.schedule.kind === 'after' && !!job.schedule.after && ids.has(job.schedule.after);
+      return !hasKnownUpstream && childrenOf.has(job.jobId);
+    })
+    .map((job) => build(job, new Set()));
+}
+
+// ============================================================================
+// UPSTREAM INPUT
+// ============================================================================
+
+/**
+ * Replace `{{upstream.*}}` placeholders with values from the upstream run.
+ * With `json`, values are escaped for use inside a JSON string literal.
+ */
+export function renderUpstreamTemplate(
+  text: string,
+  upstream: UpstreamResult,
+  options: { json?: boolean } = {},
+): string {
+  return text.replace(UPSTREAM_PLACEHOLDER, (_, key: keyof UpstreamResult) => {
+    const value = upstream[key] ?? '';
+    return options.json ? JSON.stringify(value).slice(1, -1) : value;
+  });
+}
+
+/** Feed an upstream result into a downstream action. */
+export function applyUpstream(action: JobAction, upstream: UpstreamResult): JobAction {
+  switch (action.type) {
+    case 'workflow':
+      return { ...action, input: { ...action.input, upstream } };
+
+    case 'agent': {
+      if (action.message.search(UPSTREAM_PLACEHOLDER) !== -1) {
+        return { ...action, message: renderUpstreamTemplate(action.message, upstream) };
+      }
+      const detail = upstream.status === 'success' ? upstream.result : upstream.error;
+      return detail
+        ? { ...action, message: `${action.message}\n\nResult of "${upstream.jobName}" (${upstream.status}):\n${detail}` }
+        : action;
+    }
+
+    case 'http':
+      return action.body
+        ? { ...action, body: renderUpstreamTemplate(action.body, upstream, { json: isJsonBody(action) }) }
+        : action;
+
+    default:
+      return action;
+  }
+}
+
+function isJsonBody(action: HttpAction): boolean {
+  const contentType = Object.entries(action.headers ?? {})
+    .find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  if (contentType) return contentType.toLowerCase().includes('json');
+  return /^\s*[[{]/.test(action.body ?? '');
+}
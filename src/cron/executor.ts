@@ -3,12 +3,16 @@
  *
  * Takes a JobAction and executes it, returning a result summary string
  * or throwing on failure. All API imports are dynamic to avoid loading
- * heavy modules at startup.
+ * heavy modules at startup. `classifyError()` maps those failures onto
+ * the scheduler's retry categories.
  */
 
 import { execSync } from 'node:child_process';
+import { sleep } from '../utils/backoff.js';
 import { createLogger } from '../utils/logger.js';
+import { applyUpstream } from './dependencies.js';
 import type {
+  ErrorCategory,
   JobAction,
   SchedulerConfig,
   WorkflowAction,
@@ -16,10 +20,105 @@ import type {
   CrmSyncAction,
   ShellAction,
   HttpAction,
+  UpstreamResult,
+  WorkflowRunOutcome,
 } from './types.js';
 
 const log = createLogger('CronExecutor');
 
+/** Stream timeout for an agent turn; longer than chat's default for long replies. */
+const AGENT_TURN_TIMEOUT_MS = 5 * 60_000;
+
+/** How long a waiting workflow action polls before giving up, by default. */
+const DEFAULT_WORKFLOW_WAIT_MS = 30 * 60_000;
+
+const WORKFLOW_POLL_INTERVAL_MS = 5_000;
+
+/** HTTP response bodies are cut here before becoming the result. */
+export const MAX_HTTP_BODY_CHARS = 10_000;
+
+/** Consecutive status-read failures tolerated while waiting on a run. */
+const MAX_WORKFLOW_POLL_FAILURES = 3;
+
+/** Network error codes from Node's socket and DNS layers. */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/** An HTTP action that got a non-2xx response. */
+export class HttpActionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'HttpActionError';
+  }
+}
+
+/**
+ * A waited-on workflow run that did not complete, or a wait that could not
+ * finish. Its codes classify as `unknown`, so the scheduler never retries
+ * it — a retry would start a second workflow run.
+ */
+export class WorkflowRunError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'WORKFLOW_FAILED' | 'WORKFLOW_WAIT_TIMEOUT' | 'WORKFLOW_WAIT_FAILED'
+  ) {
+    super(message);
+    this.name = 'WorkflowRunError';
+  }
+}
+
+/**
+ * Classify an action failure for the retry policy.
+ *
+ * Works on anything carrying `statusCode` (APIClientError, RelayClientError,
+ * HttpActionError) or `code` (APIClientError, Node system errors), plus
+ * fetch's own TypeError and timeout DOMExceptions.
+ */
+export function classifyError(error: unknown): ErrorCategory {
+  if (!(error instanceof Error)) return 'unknown';
+
+  const { statusCode, code } = error as Error & { statusCode?: unknown; code?: unknown };
+
+  if (typeof statusCode === 'number') {
+    if (statusCode === 429) return 'rate_limit';
+    if (statusCode === 408) return 'network';
+    if (statusCode >= 500) return 'server_error';
+    if (statusCode === 401 || statusCode === 403) return 'auth';
+    if (statusCode >= 400) return 'client_error';
+  }
+
+  if (code === 'NETWORK_ERROR' || code === 'TIMEOUT') return 'network';
+  if (code === 'UNAUTHORIZED' || code === 'FORBIDDEN' || code === 'AUTH_ERROR') return 'auth';
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return 'network';
+
+  if (error.name === 'TimeoutError' || error.name === 'AbortError') return 'network';
+
+  // fetch() rejects with TypeError('fetch failed') and the socket error as cause
+  if (error instanceof TypeError && error.message === 'fetch failed') return 'network';
+  if (error.cause) {
+    const cause = classifyError(error.cause);
+    if (cause !== 'unknown') return cause;
+  }
+
+  return 'unknown';
+}
+
 // ============================================================================
 // AUTH HELPER
 // ============================================================================
@@ -43,6 +142,17 @@ async function getAuthUserId(): Promise<string> {
 // ACTION DISPATCH
 // ============================================================================
 
+/** The job an action runs on behalf of. */
+export interface ActionContext {
+  jobId?: string;
+  /** Finished upstream run, for jobs that run after another job. */
+  upstream?: UpstreamResult;
+  /** Receives the final state of a waited-on workflow run, success or not. */
+  onWorkflowRun?: (outcome: WorkflowRunOutcome) => void;
+  /** Receives the raw body of a successful HTTP response. */
+  onHttpResponse?: (body: string) => void;
+}
+
 /**
  * Execute a job action and return a result summary string.
  * Throws on failure.
@@ -50,21 +160,24 @@ async function getAuthUserId(): Promise<string> {
 export async function executeAction(
   action: JobAction,
   config: SchedulerConfig,
+  context: ActionContext = {},
 ): Promise<string> {
-  switch (action.type) {
+  const resolved = context.upstream ? applyUpstream(action, context.upstream) : action;
+
+  switch (resolved.type) {
     case 'workflow':
-      return executeWorkflow(action);
+      return executeWorkflow(resolved, context);
     case 'agent':
-      return executeAgent(action);
+      return executeAgent(resolved, context);
     case 'crm-sync':
-      return executeCrmSync(action);
+      return executeCrmSync(resolved);
     case 'shell':
-      return executeShell(action, config);
+      return executeShell(resolved, config, context.upstream);
     case 'http':
-      return executeHttp(action);
+      return executeHttp(resolved, context.onHttpResponse);
     default: {
       // Exhaustiveness check — should never reach here if types are correct
-      const _exhaustive: never = action;
+      const _exhaustive: never = resolved;
       throw new Error(`Unknown action type: ${(_exhaustive as JobAction).type}`);
     }
   }
@@ -75,9 +188,11 @@ export async function executeAction(
 // ============================================================================
 
 /**
- * Trigger a workflow run via the API.
+ * Trigger a workflow run via the API. With `wait`, polls the run (like
+ * `workflows wait`) until it reaches a terminal status and throws unless
+ * it completed.
  */
-async function executeWorkflow(action: WorkflowAction): Promise<string> {
+async function executeWorkflow(action: WorkflowAction, context: ActionContext): Promise<string> {
   log.debug('Executing workflow action', {
     workflowId: action.workflowId,
     canvasTypeId: action.canvasTypeId,
@@ -91,17 +206,104 @@ async function executeWorkflow(action: WorkflowAction): Promise<string> {
     inputData: action.input,
   });
 
-  const result = `Workflow run ${run.id} created (status: ${run.status})`;
-  log.info('Workflow action completed', { runId: run.id, status: run.status });
+  if (!action.wait) {
+    const result = `Workflow run ${run.id} created (status: ${run.status})`;
+    log.info('Workflow action completed', { runId: run.id, status: run.status });
+    return result;
+  }
+
+  log.info('Workflow run created, waiting for completion', { runId: run.id });
+  const { isTerminalRunStatus } = await import('@myndhyve/wop');
+  const outcome = await waitForWorkflowRun(userId, action, run.id);
+  context.onWorkflowRun?.(outcome);
+
+  if (!isTerminalRunStatus(outcome.status)) {
+    throw new WorkflowRunError(
+      `Workflow run ${run.id} still ${outcome.status} after ${Math.round((action.waitTimeoutMs ?? DEFAULT_WORKFLOW_WAIT_MS) / 1000)}s`,
+      'WORKFLOW_WAIT_TIMEOUT',
+    );
+  }
+
+  if (outcome.status !== 'completed') {
+    const detail = outcome.error ? `: ${outcome.error.message}` : '';
+    throw new WorkflowRunError(`Workflow run ${run.id} ${outcome.status}${detail}`, 'WORKFLOW_FAILED');
+  }
+
+  const artifactCount = outcome.artifacts?.length ?? 0;
+  const result = `Workflow run ${run.id} completed` +
+    (artifactCount > 0 ? ` (${artifactCount} artifact${artifactCount === 1 ? '' : 's'})` : '');
+  log.info('Workflow action completed', { runId: run.id, status: outcome.status, artifacts: artifactCount });
   return result;
 }
 
 /**
- * Verify an agent exists and log the intent.
- * Full agent execution would require the AI proxy; for now just verify
- * the agent exists and report the requested message.
+ * Poll a run until it reaches a terminal status or the wait times out.
+ * Statuses the engine does not list as terminal count as in flight.
+ * Returns the last state seen, with the run's artifacts once it finished.
+ */
+async function waitForWorkflowRun(
+  userId: string,
+  action: WorkflowAction,
+  runId: string,
+): Promise<WorkflowRunOutcome> {
+  const { getRun, listArtifacts } = await import('../api/workflows.js');
+  const { isTerminalRunStatus } = await import('@myndhyve/wop');
+  const deadline = Date.now() + (action.waitTimeoutMs ?? DEFAULT_WORKFLOW_WAIT_MS);
+  let failures = 0;
+
+  for (;;) {
+    let run: Awaited<ReturnType<typeof getRun>>;
+    try {
+      run = await getRun(userId, action.canvasTypeId, runId);
+      failures = 0;
+    } catch (error) {
+      failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      if (failures >= MAX_WORKFLOW_POLL_FAILURES) {
+        throw new WorkflowRunError(`Lost track of workflow run ${runId}: ${message}`, 'WORKFLOW_WAIT_FAILED');
+      }
+      log.debug('Failed to read workflow run status', { runId, failures, error: message });
+      await sleep(WORKFLOW_POLL_INTERVAL_MS);
+      continue;
+    }
+
+    if (!run) {
+      throw new WorkflowRunError(`Workflow run ${runId} not found`, 'WORKFLOW_WAIT_FAILED');
+    }
+
+    const outcome: WorkflowRunOutcome = {
+      runId,
+      status: run.status,
+      ...(run.durationMs !== undefined ? { durationMs: run.durationMs } : {}),
+      ...(run.error ? { error: run.error } : {}),
+    };
+
+    if (isTerminalRunStatus(run.status)) {
+      try {
+        const artifacts = await listArtifacts(runId);
+        outcome.artifacts = artifacts.map((a) => ({ id: a.id, name: a.name, type: a.type }));
+      } catch (error) {
+        log.debug('Failed to list workflow run artifacts', {
+          runId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return outcome;
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) return outcome;
+    await sleep(Math.min(WORKFLOW_POLL_INTERVAL_MS, remainingMs));
+  }
+}
+
+/**
+ * Run one agent turn through the chat streaming pipeline and return the
+ * full response. Uses the agent's system prompt and model; with
+ * `persistentConversation`, each run continues the job's conversation
+ * (`cron-<jobId>`) so the agent sees its earlier replies.
  */
-async function executeAgent(action: AgentAction): Promise<string> {
+async function executeAgent(action: AgentAction, context: ActionContext): Promise<string> {
   log.debug('Executing agent action', { agentId: action.agentId });
 
   const userId = await getAuthUserId();
@@ -112,20 +314,55 @@ async function executeAgent(action: AgentAction): Promise<string> {
     throw new Error(`Agent "${action.agentId}" not found`);
   }
 
-  // Agentic Harness: check permissions before execution
-  const persona = (agent as { persona?: string }).persona ?? 'GENERAL';
-  if (persona !== 'GENERAL') {
-    log.info('Agent persona constraint active', { agentId: action.agentId, persona });
+  const { createSession, sendMessage, loadConversation } = await import('../chat/index.js');
+  const session = await createSession({
+    canvasTypeId: agent.canvasTypeId,
+    provider: agent.model.provider,
+    model: action.model || agent.model.modelId,
+    temperature: agent.model.temperature,
+    systemPrompt: await resolveAgentSystemPrompt(agent.systemPromptId),
+  });
+
+  if (action.persistentConversation && context.jobId) {
+    session.sessionId = `cron-${context.jobId}`;
+    const existing = loadConversation(session.sessionId);
+    if (existing) {
+      session.messages = existing.messages;
+      session.createdAt = existing.createdAt;
+    }
   }
 
-  // Autonomous permission check — pre-approved patterns for CLI execution
-  const preApprovedPatterns = ['prd.*', 'theme.*', 'tasks.*', 'ask.*', 'schema.*'];
-  const maxAutoApproveRisk: 'low' | 'medium' = 'medium';
-  log.debug('Permission policy', { preApprovedPatterns, maxAutoApproveRisk, persona });
+  // One-off runs stay out of chat history; persistent ones keep saving to
+  // the job's conversation
+  const persist = Boolean(action.persistentConversation && context.jobId);
+  const response = await sendMessage(session, action.message, {}, {
+    persist,
+    timeoutMs: AGENT_TURN_TIMEOUT_MS,
+  });
+
+  log.info('Agent action completed', {
+    agentId: action.agentId,
+    agentName: agent.name,
+    sessionId: session.sessionId,
+    chars: response.length,
+  });
+  return response;
+}
 
-  const result = `Agent turn requested for ${action.agentId} (persona: ${persona}): "${action.message.slice(0, 80)}"`;
-  log.info('Agent action completed', { agentId: action.agentId, agentName: agent.name, persona });
-  return result;
+/**
+ * Load an agent's system prompt by ID. Returns undefined (so the chat
+ * service falls back to the canvas type prompt) when unset or unavailable.
+ */
+async function resolveAgentSystemPrompt(systemPromptId: string): Promise<string | undefined> {
+  if (!systemPromptId) return undefined;
+
+  const { getSystemPrompt } = await import('../api/prompts.js');
+  const prompt = await getSystemPrompt(systemPromptId);
+  if (prompt?.templateText) return prompt.templateText;
+  if (prompt?.templateSections) return Object.values(prompt.templateSections).join('\n');
+
+  log.warn('Agent system prompt unavailable, using canvas type default', { systemPromptId });
+  return undefined;
 }
 
 /**
@@ -165,8 +402,10 @@ async function executeCrmSync(action: CrmSyncAction): Promise<string> {
 /**
  * Execute a shell command locally.
  * Requires `config.allowShell` to be true (set via --allow-shell flag).
+ * An upstream result is passed as MYNDHYVE_UPSTREAM_* environment
+ * variables rather than spliced into the command.
  */
-function executeShell(action: ShellAction, config: SchedulerConfig): string {
+function executeShell(action: ShellAction, config: SchedulerConfig, upstream?: UpstreamResult): string {
   if (!config.allowShell) {
     throw new Error('Shell actions are disabled. Start the scheduler with --allow-shell.');
   }
@@ -182,6 +421,17 @@ function executeShell(action: ShellAction, config: SchedulerConfig): string {
       timeout: action.timeoutMs ?? 30_000,
       encoding: 'utf-8',
       maxBuffer: 1024 * 1024,
+      ...(upstream
+        ? {
+            env: {
+              ...process.env,
+              MYNDHYVE_UPSTREAM_JOB_ID: upstream.jobId,
+              MYNDHYVE_UPSTREAM_STATUS: upstream.status,
+              MYNDHYVE_UPSTREAM_RESULT: upstream.result ?? '',
+              MYNDHYVE_UPSTREAM_ERROR: upstream.error ?? '',
+            },
+          }
+        : {}),
     });
 
     const trimmed = output.trim();
@@ -196,9 +446,10 @@ function executeShell(action: ShellAction, config: SchedulerConfig): string {
 }
 
 /**
- * Make an HTTP request and return the status summary.
+ * Make an HTTP request and return the status summary followed by the
+ * response body, so downstream jobs can consume it.
  */
-async function executeHttp(action: HttpAction): Promise<string> {
+async function executeHttp(action: HttpAction, onResponse?: (body: string) => void): Promise<string> {
   log.debug('Executing HTTP action', {
     method: action.method,
     url: action.url,
@@ -222,12 +473,19 @@ async function executeHttp(action: HttpAction): Promise<string> {
   if (!response.ok) {
     const body = await response.text();
     const truncated = body.length > 200 ? body.slice(0, 200) + '...' : body;
-    throw new Error(
+    throw new HttpActionError(
       `HTTP ${action.method} ${action.url} failed: ${response.status} ${response.statusText} — ${truncated}`,
+      response.status,
     );
   }
 
-  const result = `HTTP ${action.method} ${action.url} → ${response.status} ${response.statusText}`;
+  const raw = await response.text().catch(() => '');
+  onResponse?.(raw);
+  const body = raw.trim();
+  const summary = `HTTP ${action.method} ${action.url} → ${response.status} ${response.statusText}`;
+  const result = body
+    ? `${summary}\n\n${body.length > MAX_HTTP_BODY_CHARS ? body.slice(0, MAX_HTTP_BODY_CHARS) + '...' : body}`
+    : summary;
   log.info('HTTP action completed', { status: response.status, url: action.url });
   return result;
 }
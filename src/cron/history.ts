@@ -4,7 +4,7 @@
  * Run history is stored as JSONL (one JSON line per record)
  * in ~/.myndhyve-cli/cron/runs/<jobId>.jsonl.
  *
- * This module handles appending, querying, and pruning run logs.
+ * This module handles appending, updating, querying, and pruning run logs.
  */
 
 import {
@@ -75,6 +75,44 @@ export function appendRun(record: RunRecord): void {
   }
 }
 
+/**
+ * Attach a delivery outcome to a run's finished record. Delivery runs after
+ * the record is written, so the outcome is filled in place. No-op if the
+ * record has been pruned.
+ */
+export function recordDelivery(
+  jobId: string,
+  runId: string,
+  deliveryResult: NonNullable<RunRecord['deliveryResult']>,
+): void {
+  const filePath = join(getRunsDir(), `${jobId}.jsonl`);
+  if (!existsSync(filePath)) return;
+
+  try {
+    const lines = readFileSync(filePath, 'utf-8').split('\n').filter((line) => line.length > 0);
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+      let record: RunRecord;
+      try {
+        record = JSON.parse(lines[i]) as RunRecord;
+      } catch {
+        continue;
+      }
+      if (record.runId !== runId || record.status === 'started') continue;
+
+      lines[i] = JSON.stringify({ ...record, deliveryResult });
+      writeFileSync(filePath, lines.join('\n') + '\n', { mode: 0o600 });
+      return;
+    }
+  } catch (err) {
+    log.error('Failed to record delivery', {
+      jobId,
+      runId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
 // ============================================================================
 // QUERY
 // ============================================================================
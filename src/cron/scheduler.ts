@@ -4,18 +4,40 @@
  * Core scheduler that uses `croner` to manage job execution.
  * Creates and manages Cron instances, handles the scheduler lifecycle
  * (start/stop), watches jobs.json for changes, and orchestrates execution.
+ * Failed runs are retried per `SchedulerConfig.retry` when the error is in
+ * a retryable category, and jobs that keep failing are disabled. Jobs with
+ * an 'after' schedule have no timer; they run when their upstream finishes.
  */
 
 import { Cron } from 'croner';
 import { watch, type FSWatcher } from 'node:fs';
 import { createLogger } from '../utils/logger.js';
-import { loadJobs, updateJobRunState, removeJob, getJob, getJobsFilePath } from './store.js';
-import { executeAction } from './executor.js';
-import { appendRun, generateRunId } from './history.js';
-import { type CronJob, type SchedulerConfig, DEFAULT_SCHEDULER_CONFIG } from './types.js';
+import { loadJobs, updateJob, updateJobRunState, removeJob, getJob, getJobsFilePath } from './store.js';
+import { classifyError, executeAction, MAX_HTTP_BODY_CHARS } from './executor.js';
+import { appendRun, generateRunId, recordDelivery } from './history.js';
+import { deliverRunResult } from './delivery.js';
+import { getDependents } from './dependencies.js';
+import {
+  type CronJob,
+  type RunRecord,
+  type SchedulerConfig,
+  type UpstreamResult,
+  type WorkflowRunOutcome,
+  DEFAULT_SCHEDULER_CONFIG,
+} from './types.js';
 
 const log = createLogger('Scheduler');
 
+/** Results longer than this are truncated in run history, except agent replies. */
+const MAX_RESULT_CHARS = 500;
+
+/** Why a dependent job is running: the upstream run and the jobs before it. */
+interface RunTrigger {
+  upstream: UpstreamResult;
+  /** Job IDs already run in this chain, to stop dependency cycles. */
+  chain: string[];
+}
+
 // ============================================================================
 // SCHEDULER
 // ============================================================================
@@ -25,6 +47,8 @@ export class Scheduler {
   private cronInstances: Map<string, Cron>;
   private intervalTimers: Map<string, ReturnType<typeof setInterval>>;
   private atTimers: Map<string, ReturnType<typeof setTimeout>>;
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>>;
+  private pendingDeliveries: Set<Promise<void>>;
   private running: boolean;
   private activeRuns: number;
   private watcher: FSWatcher | null;
@@ -35,6 +59,8 @@ export class Scheduler {
     this.cronInstances = new Map();
     this.intervalTimers = new Map();
     this.atTimers = new Map();
+    this.retryTimers = new Map();
+    this.pendingDeliveries = new Set();
     this.running = false;
     this.activeRuns = 0;
     this.watcher = null;
@@ -55,8 +81,11 @@ export class Scheduler {
     this.log.info('Scheduler started', { jobs: jobCount.toString() });
   }
 
-  /** Stop all timers, close the file watcher, and clear state. */
-  stop(): void {
+  /**
+   * Stop all timers, close the file watcher, and clear state. Resolves once
+   * deliveries already in flight have finished.
+   */
+  async stop(): Promise<void> {
     this.running = false;
 
     // Stop all cron instances
@@ -74,6 +103,11 @@ export class Scheduler {
       clearTimeout(timer);
     }
 
+    // Drop pending retries
+    for (const [, timer] of this.retryTimers) {
+      clearTimeout(timer);
+    }
+
     // Close file watcher
     if (this.watcher) {
       this.watcher.close();
@@ -84,8 +118,10 @@ export class Scheduler {
     this.cronInstances.clear();
     this.intervalTimers.clear();
     this.atTimers.clear();
+    this.retryTimers.clear();
 
     this.log.info('Scheduler stopped');
+    await Promise.all(this.pendingDeliveries);
   }
 
   /** Returns true if the scheduler is running. */
@@ -173,6 +209,10 @@ export class Scheduler {
         this.atTimers.set(job.jobId, timer);
         break;
       }
+
+      case 'after':
+        // Triggered by the upstream job finishing — see runDependents()
+        break;
     }
 
     this.log.debug(`Scheduled job "${job.name}" (${job.schedule.kind})`, {
@@ -205,10 +245,19 @@ export class Scheduler {
   // INTERNAL — EXECUTION
   // ==========================================================================
 
-  /** Execute a job: enforce concurrency, record history, handle success/failure. */
-  private async executeJob(job: CronJob): Promise<void> {
+  /**
+   * Execute a job: enforce concurrency, record history, handle success/failure,
+   * then run its dependents. `attempt` counts retries of the same run, starting
+   * at 1; `trigger` is set when an upstream job started this run.
+   */
+  private async executeJob(job: CronJob, attempt = 1, trigger?: RunTrigger): Promise<void> {
     if (!this.running) return;
 
+    // A scheduled run supersedes any retry still pending from the last one
+    if (attempt === 1) {
+      this.cancelRetry(job.jobId);
+    }
+
     const now = new Date().toISOString();
     const runId = generateRunId();
 
@@ -242,6 +291,9 @@ export class Scheduler {
     }
 
     this.activeRuns++;
+    const triggeredBy = trigger
+      ? { triggeredBy: { jobId: trigger.upstream.jobId, runId: trigger.upstream.runId } }
+      : {};
 
     // Record 'started' run
     appendRun({
@@ -251,17 +303,28 @@ export class Scheduler {
       status: 'started',
       startedAt: now,
       actionType: freshJob.action.type,
+      attempt,
+      ...triggeredBy,
     });
 
     const startMs = Date.now();
+    let workflowRun: WorkflowRunOutcome | undefined;
+    let responseBody: string | undefined;
+    let finished: UpstreamResult | undefined;
+    // Finished run awaiting delivery; delivered after the slot is released
+    let undelivered: RunRecord | undefined;
 
     try {
-      const result = await executeAction(freshJob.action, this.config);
+      const result = await executeAction(freshJob.action, this.config, {
+        jobId: freshJob.jobId,
+        upstream: trigger?.upstream,
+        onWorkflowRun: (outcome) => { workflowRun = outcome; },
+        onHttpResponse: (body) => { responseBody = body; },
+      });
       const endedAt = new Date().toISOString();
       const durationMs = Date.now() - startMs;
 
-      // Record success
-      appendRun({
+      const run: RunRecord = {
         runId,
         jobId: freshJob.jobId,
         jobName: freshJob.name,
@@ -270,8 +333,20 @@ export class Scheduler {
         endedAt,
         durationMs,
         actionType: freshJob.action.type,
-        result: result.length > 500 ? result.slice(0, 500) + '...' : result,
-      });
+        attempt,
+        result,
+        ...triggeredBy,
+        ...(workflowRun ? { workflowRun } : {}),
+      };
+      appendRun(forHistory(run));
+      if (freshJob.delivery) undelivered = run;
+      finished = {
+        jobId: freshJob.jobId,
+        jobName: freshJob.name,
+        runId,
+        status: 'success',
+        result: forDependents(responseBody ?? result),
+      };
 
       updateJobRunState(freshJob.jobId, {
         lastRunAt: endedAt,
@@ -297,9 +372,10 @@ export class Scheduler {
       const errorCode = error instanceof Error && 'code' in error
         ? String((error as NodeJS.ErrnoException).code)
         : 'UNKNOWN';
+      const category = classifyError(error);
+      const { retry } = this.config;
 
-      // Record failure
-      appendRun({
+      const run: RunRecord = {
         runId,
         jobId: freshJob.jobId,
         jobName: freshJob.name,
@@ -308,25 +384,145 @@ export class Scheduler {
         endedAt,
         durationMs,
         actionType: freshJob.action.type,
+        attempt,
         error: {
           code: errorCode,
           message: errorMessage,
+          category,
         },
-      });
+        ...triggeredBy,
+        ...(workflowRun ? { workflowRun } : {}),
+      };
+
+      // Transient failure with attempts left: record the attempt and try again
+      if (attempt < retry.maxAttempts && retry.retryOn.includes(category)) {
+        appendRun(run);
+        const delayMs = this.scheduleRetry(freshJob, attempt, trigger);
+
+        this.log.warn(`Job "${freshJob.name}" failed (${category}), retrying`, {
+          jobId: freshJob.jobId,
+          attempt: `${attempt}/${retry.maxAttempts}`,
+          delayMs: delayMs.toString(),
+        });
+        return;
+      }
 
+      appendRun(run);
+      if (freshJob.delivery) undelivered = run;
+      finished = {
+        jobId: freshJob.jobId,
+        jobName: freshJob.name,
+        runId,
+        status: 'failed',
+        error: forDependents(errorMessage),
+      };
+
+      const consecutiveFailures = (freshJob.consecutiveFailures || 0) + 1;
       updateJobRunState(freshJob.jobId, {
         lastRunAt: endedAt,
         lastRunStatus: 'failed',
-        consecutiveFailures: (freshJob.consecutiveFailures || 0) + 1,
+        consecutiveFailures,
       });
 
       this.log.error(`Job "${freshJob.name}" failed: ${errorMessage}`, {
         jobId: freshJob.jobId,
+        category,
         durationMs: durationMs.toString(),
       });
+
+      const { autoDisableAfter } = this.config;
+      if (autoDisableAfter > 0 && consecutiveFailures >= autoDisableAfter) {
+        this.autoDisable(freshJob, consecutiveFailures);
+      }
     } finally {
       this.activeRuns--;
     }
+
+    // Outside the try so slow receivers and dependents don't hold this
+    // run's concurrency slot
+    await Promise.all([
+      undelivered && this.deliverAndRecord(freshJob, undelivered),
+      finished && this.runDependents(freshJob, finished, trigger?.chain ?? []),
+    ]);
+  }
+
+  /** Run the jobs waiting on a finished job, one at a time. */
+  private async runDependents(job: CronJob, upstream: UpstreamResult, chain: string[]): Promise<void> {
+    const nextChain = [...chain, job.jobId];
+
+    for (const dependent of getDependents(loadJobs(), job.jobId, upstream.status)) {
+      if (nextChain.includes(dependent.jobId)) {
+        this.log.warn(`Skipping job "${dependent.name}": dependency cycle`, {
+          jobId: dependent.jobId,
+          chain: nextChain.join(' -> '),
+        });
+        continue;
+      }
+
+      this.log.info(`Running job "${dependent.name}" after "${job.name}" (${upstream.status})`, {
+        jobId: dependent.jobId,
+        upstreamJobId: job.jobId,
+      });
+      await this.executeJob(dependent, 1, { upstream, chain: nextChain });
+    }
+  }
+
+  /** Re-run a failed job after the policy's backoff. Returns the delay used. */
+  private scheduleRetry(job: CronJob, attempt: number, trigger?: RunTrigger): number {
+    const { backoffMs } = this.config.retry;
+    const delayMs = backoffMs[Math.min(attempt, backoffMs.length) - 1] ?? 0;
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(job.jobId);
+      this.executeJob(job, attempt + 1, trigger);
+    }, delayMs);
+    this.retryTimers.set(job.jobId, timer);
+
+    return delayMs;
+  }
+
+  /** Clear a pending retry for a job, if any. */
+  private cancelRetry(jobId: string): void {
+    const timer = this.retryTimers.get(jobId);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.retryTimers.delete(jobId);
+    }
+  }
+
+  /** Disable a job that keeps failing so it stops consuming runs. */
+  private autoDisable(job: CronJob, consecutiveFailures: number): void {
+    try {
+      updateJob(job.jobId, {
+        enabled: false,
+        disabledReason: `Disabled after ${consecutiveFailures} consecutive failures`,
+      });
+    } catch (err) {
+      this.log.warn('Failed to disable job', {
+        jobId: job.jobId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+
+    this.unscheduleJob(job.jobId);
+    this.log.warn(`Job "${job.name}" disabled after ${consecutiveFailures} consecutive failures`, {
+      jobId: job.jobId,
+    });
+  }
+
+  /** Deliver a recorded run with its full result, then add the outcome to its record. */
+  private async deliverAndRecord(job: CronJob, run: RunRecord): Promise<void> {
+    const delivery = deliverRunResult(job, run).then((deliveryResult) => {
+      if (deliveryResult) recordDelivery(run.jobId, run.runId, deliveryResult);
+    });
+
+    this.pendingDeliveries.add(delivery);
+    try {
+      await delivery;
+    } finally {
+      this.pendingDeliveries.delete(delivery);
+    }
   }
 
   // ==========================================================================
@@ -351,6 +547,10 @@ export class Scheduler {
       case 'at':
         // One-shot — no next run
         return undefined;
+
+      case 'after':
+        // Runs when the upstream job finishes
+        return undefined;
     }
   }
 
@@ -389,3 +589,18 @@ export class Scheduler {
     }
   }
 }
+
+/** The run as kept in history: results truncated, except agent replies. */
+function forHistory(run: RunRecord): RunRecord {
+  if (run.actionType === 'agent' || !run.result || run.result.length <= MAX_RESULT_CHARS) return run;
+  return { ...run, result: run.result.slice(0, MAX_RESULT_CHARS) + '...' };
+}
+
+/**
+ * Upstream output as handed to dependents, cut to MAX_HTTP_BODY_CHARS so it
+ * fits an environment variable (Linux caps each at 128 KiB), a workflow
+ * input, or an agent message.
+ */
+function forDependents(text: string): string {
+  return text.length > MAX_HTTP_BODY_CHARS ? text.slice(0, MAX_HTTP_BODY_CHARS) + '...' : text;
+}
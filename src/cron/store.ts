@@ -126,7 +126,7 @@ export function updateJob(
   patch: Partial<
     Pick<
       CronJob,
-      'name' | 'description' | 'enabled' | 'schedule' | 'action' | 'delivery' | 'deleteAfterRun'
+      'name' | 'description' | 'enabled' | 'schedule' | 'action' | 'delivery' | 'deleteAfterRun' | 'disabledReason'
     >
   >,
 ): CronJob {
@@ -142,6 +142,13 @@ export function updateJob(
   if (patch.name !== undefined) job.name = patch.name;
   if (patch.description !== undefined) job.description = patch.description;
   if (patch.enabled !== undefined) job.enabled = patch.enabled;
+  if (patch.disabledReason !== undefined) job.disabledReason = patch.disabledReason;
+
+  // Re-enabling a job the scheduler disabled gives it a clean slate
+  if (patch.enabled && job.disabledReason) {
+    delete job.disabledReason;
+    job.consecutiveFailures = 0;
+  }
   if (patch.schedule !== undefined) job.schedule = patch.schedule;
   if (patch.action !== undefined) job.action = patch.action;
   if (patch.delivery !== undefined) job.delivery = patch.delivery;
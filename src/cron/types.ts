@@ -3,16 +3,16 @@
  *
  * Type definitions for the local cron scheduler:
  * job definitions, schedule types, action types, delivery config,
- * and run history records.
+ * job dependencies, and run history records.
  */
 
 // ============================================================================
 // SCHEDULE TYPES
 // ============================================================================
 
-/** One-shot, interval, or cron-expression schedule. */
+/** One-shot, interval, cron-expression, or run-after-another-job schedule. */
 export interface JobSchedule {
-  kind: 'at' | 'every' | 'cron';
+  kind: 'at' | 'every' | 'cron' | 'after';
 
   /** ISO 8601 timestamp for one-shot ('at') jobs. */
   at?: string;
@@ -28,6 +28,12 @@ export interface JobSchedule {
 
   /** Jitter window in ms for load spreading on top-of-hour cron expressions. */
   staggerMs?: number;
+
+  /** Upstream job ID for 'after' jobs. */
+  after?: string;
+
+  /** Upstream outcomes that trigger an 'after' job. Defaults to 'success'. */
+  on?: 'success' | 'failure' | 'always';
 }
 
 // ============================================================================
@@ -40,6 +46,10 @@ export interface WorkflowAction {
   workflowId: string;
   canvasTypeId: string;
   input?: Record<string, unknown>;
+  /** Wait for the run to finish; the job fails unless it completes. */
+  wait?: boolean;
+  /** Give up waiting after this long (default 30 minutes). */
+  waitTimeoutMs?: number;
 }
 
 /** Run an agent turn via the AI chat API. */
@@ -47,7 +57,10 @@ export interface AgentAction {
   type: 'agent';
   agentId: string;
   message: string;
+  /** Model override; defaults to the agent's configured model. */
   model?: string;
+  /** Continue one conversation across runs instead of starting fresh each time. */
+  persistentConversation?: boolean;
 }
 
 /** Sync CRM data from Firestore. */
@@ -119,6 +132,9 @@ export interface CronJob {
   /** Auto-remove one-shot jobs after successful execution. */
   deleteAfterRun?: boolean;
 
+  /** Why the scheduler disabled this job (cleared when re-enabled). */
+  disabledReason?: string;
+
   // Lifecycle tracking
   createdAt: string;
   updatedAt: string;
@@ -132,6 +148,47 @@ export interface CronJob {
 // RUN HISTORY
 // ============================================================================
 
+/**
+ * Failure categories used by the retry policy. `rate_limit`, `network` and
+ * `server_error` are transient; the rest will fail the same way again.
+ */
+export type ErrorCategory =
+  | 'rate_limit'
+  | 'network'
+  | 'server_error'
+  | 'auth'
+  | 'client_error'
+  | 'unknown';
+
+/** The finished run of an upstream job, handed to the jobs that run after it. */
+export interface UpstreamResult {
+  jobId: string;
+  jobName: string;
+  runId: string;
+  status: 'success' | 'failed';
+  /**
+   * Action result, kept longer than in the run history (cut at 10,000
+   * characters); the response body for 'http' actions.
+   */
+  result?: string;
+  error?: string;
+}
+
+/** Final state of a workflow run that a 'workflow' action waited for. */
+export interface WorkflowRunOutcome {
+  runId: string;
+  /** Last status seen; non-terminal if the wait timed out. */
+  status: string;
+  durationMs?: number;
+  error?: {
+    code: string;
+    message: string;
+    nodeId?: string;
+  };
+  /** Artifacts the run produced. */
+  artifacts?: Array<{ id: string; name: string; type: string }>;
+}
+
 /** A single execution record stored in runs/<jobId>.jsonl. */
 export interface RunRecord {
   runId: string;
@@ -145,6 +202,15 @@ export interface RunRecord {
   /** Action type that was executed. */
   actionType: JobAction['type'];
 
+  /** 1-based attempt number within a retried run. */
+  attempt?: number;
+
+  /** Upstream run that triggered this one, for 'after' jobs. */
+  triggeredBy?: {
+    jobId: string;
+    runId: string;
+  };
+
   /** Truncated output or result summary. */
   result?: string;
 
@@ -152,13 +218,21 @@ export interface RunRecord {
   error?: {
     code: string;
     message: string;
+    category?: ErrorCategory;
   };
 
+  /** Workflow run outcome for 'workflow' actions with `wait`. */
+  workflowRun?: WorkflowRunOutcome;
+
   /** Delivery result if delivery was attempted. */
   deliveryResult?: {
     mode: string;
     success: boolean;
     error?: string;
+    /** Attempts made, including retries. */
+    attempts?: number;
+    /** Relay outbound message ID for 'relay' mode. */
+    messageId?: string;
   };
 }
 
@@ -179,11 +253,16 @@ export interface SchedulerConfig {
 
   /** Retry policy for failed jobs. */
   retry: {
+    /** Total attempts per run, including the first. */
     maxAttempts: number;
+    /** Delay before each retry; the last entry repeats. */
     backoffMs: number[];
-    retryOn: string[];
+    retryOn: ErrorCategory[];
   };
 
+  /** Disable a job after this many consecutive failed runs (0 = never). */
+  autoDisableAfter: number;
+
   /** Run log maintenance. */
   runLog: {
     maxBytes: number;
@@ -201,6 +280,7 @@ export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
     backoffMs: [30_000, 60_000, 300_000],
     retryOn: ['rate_limit', 'network', 'server_error'],
   },
+  autoDisableAfter: 5,
   runLog: {
     maxBytes: 2_000_000,
     keepLines: 2000,
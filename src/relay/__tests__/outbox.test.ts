@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+// ── Hoisted mocks ─────────────────────────────────────────────────────────────
+
+const { mockGetCliDir } = vi.hoisted(() => ({
+  mockGetCliDir: vi.fn(),
+}));
+
+vi.mock('../../config/loader.js', () => ({
+  getCliDir: () => mockGetCliDir(),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ── Import SUT ────────────────────────────────────────────────────────────────
+
+import { drainOutbox, getOutboxDir, MAX_OUTBOX_ATTEMPTS, queueOutboxMessage, readOutbox } from '../outbox.js';
+import type { ChatEgressEnvelope } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function envelope(text: string): ChatEgressEnvelope {
+  return { channel: 'whatsapp', conversationId: '+15551234567', text };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('relay outbox', () => {
+  let cliDir: string;
+
+  beforeEach(() => {
+    cliDir = mkdtempSync(join(tmpdir(), 'relay-outbox-'));
+    mockGetCliDir.mockReturnValue(cliDir);
+  });
+
+  afterEach(() => {
+    rmSync(cliDir, { recursive: true, force: true });
+  });
+
+  it('delivers queued messages in order and removes them', async () => {
+    const first = await queueOutboxMessage(envelope('first'));
+    await queueOutboxMessage(envelope('second'));
+    expect(first).toMatch(/^out-/);
+
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    const result = await drainOutbox(deliver);
+
+    expect(result).toEqual({ delivered: 2, dropped: 0, remaining: 0 });
+    expect(deliver.mock.calls.map(([e]) => e.text)).toEqual(['first', 'second']);
+    expect(readdirSync(getOutboxDir())).toEqual([]);
+  });
+
+  it('keeps failed messages queued and counts the attempt', async () => {
+    await queueOutboxMessage(envelope('retry me'));
+
+    const result = await drainOutbox(vi.fn().mockRejectedValue(new Error('socket closed')));
+
+    expect(result).toEqual({ delivered: 0, dropped: 0, remaining: 1 });
+    expect(await readOutbox()).toEqual([expect.objectContaining({ attempts: 1 })]);
+  });
+
+  it('drops messages after the last attempt or a permanent failure', async () => {
+    await queueOutboxMessage(envelope('permanent'));
+    const [message] = await readOutbox();
+    await drainOutbox(vi.fn().mockResolvedValue({ success: false, retryable: false, error: 'blocked' }));
+    expect(await readOutbox()).toEqual([]);
+
+    await queueOutboxMessage(envelope('flaky'));
+    const deliver = vi.fn().mockResolvedValue({ success: false, error: 'timeout' });
+    for (let i = 0; i < MAX_OUTBOX_ATTEMPTS; i++) {
+      await drainOutbox(deliver);
+    }
+
+    expect(message.envelope.text).toBe('permanent');
+    expect(deliver).toHaveBeenCalledTimes(MAX_OUTBOX_ATTEMPTS);
+    expect(await readOutbox()).toEqual([]);
+  });
+
+  it('returns nothing before the outbox exists', async () => {
+    expect(await readOutbox()).toEqual([]);
+    expect(await drainOutbox(vi.fn())).toEqual({ delivered: 0, dropped: 0, remaining: 0 });
+  });
+});
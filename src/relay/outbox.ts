@@ -0,0 +1,176 @@
+/**
+ * MyndHyve CLI — Local Relay Outbox
+ *
+ * Messages other local processes (e.g. the cron scheduler) want the relay
+ * device on this machine to send. Each message is one JSON file in
+ * ~/.myndhyve-cli/outbox/, written atomically (temp file + rename) so the
+ * relay never reads a partial message. The running relay drains the outbox
+ * on its outbound poll interval through the same deliver function it uses
+ * for messages from MyndHyve.
+ *
+ * Failed deliveries stay queued and are retried up to MAX_OUTBOX_ATTEMPTS
+ * times unless the channel reports them as not retryable.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getCliDir } from '../config/loader.js';
+import { createLogger } from '../utils/logger.js';
+import type { DeliverFunction } from './outbound-poller.js';
+import type { ChatEgressEnvelope } from './types.js';
+
+const log = createLogger('RelayOutbox');
+
+/** Delivery attempts before a queued message is dropped. */
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+export interface OutboxMessage {
+  id: string;
+  envelope: ChatEgressEnvelope;
+  /** ISO timestamp of when the message was queued */
+  queuedAt: string;
+  /** Failed delivery attempts so far */
+  attempts: number;
+}
+
+export interface OutboxDrainResult {
+  delivered: number;
+  /** Messages dropped after MAX_OUTBOX_ATTEMPTS or a permanent failure */
+  dropped: number;
+  /** Messages still queued */
+  remaining: number;
+}
+
+export interface OutboxDrainerOptions {
+  deliver: DeliverFunction;
+  intervalMs: number;
+  signal?: AbortSignal;
+}
+
+/** Returns the outbox directory (~/.myndhyve-cli/outbox/). */
+export function getOutboxDir(): string {
+  return join(getCliDir(), 'outbox');
+}
+
+/**
+ * Queue a message for the relay on this machine. Returns the message ID.
+ */
+export async function queueOutboxMessage(envelope: ChatEgressEnvelope): Promise<string> {
+  // Base36 timestamps sort lexically, so the relay sends in queue order
+  const id = `out-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+  const message: OutboxMessage = { id, envelope, queuedAt: new Date().toISOString(), attempts: 0 };
+
+  await writeMessage(message);
+  log.debug('Queued outbox message', { id, channel: envelope.channel });
+  return id;
+}
+
+/**
+ * Read queued messages, oldest first. Unreadable files are skipped.
+ */
+export async function readOutbox(): Promise<OutboxMessage[]> {
+  let names: string[];
+  try {
+    names = await readdir(getOutboxDir());
+  } catch {
+    return [];
+  }
+
+  const messages: OutboxMessage[] = [];
+  for (const name of names.filter((n) => n.endsWith('.json')).sort()) {
+    try {
+      messages.push(JSON.parse(await readFile(join(getOutboxDir(), name), 'utf-8')) as OutboxMessage);
+    } catch (error) {
+      log.debug('Skipping unreadable outbox message', {
+        name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Deliver every queued message once, in order.
+ */
+export async function drainOutbox(deliver: DeliverFunction): Promise<OutboxDrainResult> {
+  const result: OutboxDrainResult = { delivered: 0, dropped: 0, remaining: 0 };
+
+  for (const message of await readOutbox()) {
+    let success = false;
+    let retryable = true;
+    let error: string | undefined;
+    try {
+      const delivery = await deliver(message.envelope);
+      success = delivery.success;
+      retryable = delivery.retryable !== false;
+      error = delivery.error;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (success) {
+      await removeMessage(message.id);
+      result.delivered++;
+      log.info('Outbox message delivered', { id: message.id });
+      continue;
+    }
+
+    const attempts = message.attempts + 1;
+    if (!retryable || attempts >= MAX_OUTBOX_ATTEMPTS) {
+      await removeMessage(message.id);
+      result.dropped++;
+      log.warn('Dropped outbox message', { id: message.id, attempts, error });
+      continue;
+    }
+
+    await writeMessage({ ...message, attempts });
+    result.remaining++;
+    log.debug('Outbox delivery failed, will retry', { id: message.id, attempts, error });
+  }
+
+  return result;
+}
+
+/**
+ * Drain the outbox every `intervalMs` until the signal is aborted.
+ */
+export async function startOutboxDrainer(options: OutboxDrainerOptions): Promise<void> {
+  const { deliver, intervalMs, signal } = options;
+
+  while (!signal?.aborted) {
+    try {
+      await drainOutbox(deliver);
+    } catch (error) {
+      log.warn('Outbox drain failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await new Promise<void>((resolve) => {
+      const onAbort = () => { clearTimeout(timer); resolve(); };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, intervalMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function writeMessage(message: OutboxMessage): Promise<void> {
+  const dir = getOutboxDir();
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+  const tmpPath = join(dir, `${message.id}.tmp`);
+  await writeFile(tmpPath, JSON.stringify(message), { mode: 0o600 });
+  await rename(tmpPath, join(dir, `${message.id}.json`));
+}
+
+async function removeMessage(id: string): Promise<void> {
+  await unlink(join(getOutboxDir(), `${id}.json`)).catch(() => undefined);
+}